@@ -5,6 +5,16 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
+import {
+  ALL_CRASH_RISK_COMPONENTS,
+  CrashRiskComponent,
+  DEFAULT_SCORING_PROFILE,
+  getProfileComponents,
+  isOptionalComponent,
+  ScoringProfile,
+} from '@/src/lib/enhanced-crash-risk';
+import type { AlertSeverity } from '@/lib/alertEngine';
+import type { ChannelType, NotificationChannel } from '@/lib/notificationChannels';
 
 interface Subscriber {
   id: string;
@@ -53,7 +63,74 @@ interface Stats {
   };
 }
 
-type Tab = 'subscribers' | 'newsletters' | 'stats';
+interface StoredScoringProfile extends ScoringProfile {
+  updatedAt: string | null;
+}
+
+interface NotificationLog {
+  id: string;
+  channel_id: string | null;
+  channel_name: string | null;
+  channel_type: ChannelType;
+  notification_type: 'alert' | 'test';
+  subject: string;
+  status: 'sent' | 'failed';
+  attempts: number;
+  response_status: number | null;
+  sent_at: string;
+  error_message: string | null;
+}
+
+type Tab = 'subscribers' | 'newsletters' | 'stats' | 'profiles' | 'channels';
+
+const CHANNEL_TYPE_LABELS: Record<ChannelType, string> = {
+  slack: 'Slack',
+  discord: 'Discord',
+  webhook: 'Webhook (signed JSON)',
+};
+
+const CHANNEL_URL_PLACEHOLDERS: Record<ChannelType, string> = {
+  slack: 'https://hooks.slack.com/services/...',
+  discord: 'https://discord.com/api/webhooks/...',
+  webhook: 'https://example.com/hooks/market-alerts',
+};
+
+const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+const COMPONENT_LABELS: Record<CrashRiskComponent, string> = {
+  cape: 'CAPE Ratio',
+  yieldCurve: 'Yield Curve',
+  marginDebt: 'Margin Debt',
+  creditSpreads: 'Credit Spreads',
+  buffett: 'Buffett Indicator',
+  vix: 'VIX',
+  breadth200: '% Above 200-Day MA',
+  breadth50: '% Above 50-Day MA',
+  netNewHighs: 'Net New Highs',
+  advanceDecline: 'A/D Line (20d)',
+  vixTermStructure: 'VIX Term Structure (VIX / VIX3M)',
+  recessionProbability: 'Recession Probability (alternative to Yield Curve)',
+};
+
+const emptyProfileForm = () => ({
+  isNew: true,
+  name: '',
+  description: '',
+  weights: Object.fromEntries(
+    ALL_CRASH_RISK_COMPONENTS.map((component) => [component, String(DEFAULT_SCORING_PROFILE.weights[component] ?? 0)])
+  ) as Record<CrashRiskComponent, string>,
+  breakpoints: JSON.stringify(DEFAULT_SCORING_PROFILE.breakpoints, null, 2),
+});
+
+const emptyChannelForm = () => ({
+  id: null as string | null,
+  name: '',
+  type: 'slack' as ChannelType,
+  url: '',
+  secret: '',
+  severities: ['warning', 'critical'] as AlertSeverity[],
+  enabled: true,
+});
 
 export default function AdminPanel() {
   const [adminKey, setAdminKey] = useState('');
@@ -62,6 +139,9 @@ export default function AdminPanel() {
   const [subscribers, setSubscribers] = useState<Subscriber[]>([]);
   const [newsletters, setNewsletters] = useState<Newsletter[]>([]);
   const [stats, setStats] = useState<Stats>({});
+  const [scoringProfiles, setScoringProfiles] = useState<StoredScoringProfile[]>([]);
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [notificationLogs, setNotificationLogs] = useState<NotificationLog[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -72,6 +152,12 @@ export default function AdminPanel() {
     type: 'weekly' as 'weekly' | 'monthly',
   });
 
+  // Scoring profile form
+  const [profileForm, setProfileForm] = useState(emptyProfileForm);
+
+  // Notification channel form (id is null when adding a channel)
+  const [channelForm, setChannelForm] = useState(emptyChannelForm);
+
   // Check if already authenticated on mount
   useEffect(() => {
     const savedKey = localStorage.getItem('adminKey');
@@ -130,6 +216,32 @@ export default function AdminPanel() {
         const data = await newsRes.json();
         setNewsletters(data.newsletters || []);
       }
+
+      // Load scoring profiles
+      const profilesRes = await fetch('/api/admin/scoring-profiles', {
+        headers: { 'x-admin-key': authKey },
+      });
+      if (profilesRes.ok) {
+        const data = await profilesRes.json();
+        setScoringProfiles(data.profiles || []);
+      }
+
+      // Load notification channels and their latest deliveries
+      const channelsRes = await fetch('/api/admin/notification-channels', {
+        headers: { 'x-admin-key': authKey },
+      });
+      if (channelsRes.ok) {
+        const data = await channelsRes.json();
+        setChannels(data.channels || []);
+      }
+
+      const logsRes = await fetch('/api/admin/notification-logs?limit=50', {
+        headers: { 'x-admin-key': authKey },
+      });
+      if (logsRes.ok) {
+        const data = await logsRes.json();
+        setNotificationLogs(data.notificationLogs || []);
+      }
     } catch (error) {
       console.error('Failed to load data:', error);
       setError('Failed to load data. Please try again.');
@@ -227,6 +339,240 @@ export default function AdminPanel() {
     }
   };
 
+  const editProfile = (profile: StoredScoringProfile) => {
+    setProfileForm({
+      isNew: false,
+      name: profile.name,
+      description: profile.description || '',
+      weights: Object.fromEntries(
+        ALL_CRASH_RISK_COMPONENTS.map((component) => [component, String(profile.weights[component] ?? 0)])
+      ) as Record<CrashRiskComponent, string>,
+      breakpoints: JSON.stringify(profile.breakpoints, null, 2),
+    });
+  };
+
+  const profileWeightTotal = ALL_CRASH_RISK_COMPONENTS.reduce(
+    (total, component) => total + (parseFloat(profileForm.weights[component]) || 0),
+    0
+  );
+
+  const saveProfile = async () => {
+    let breakpoints: ScoringProfile['breakpoints'];
+    try {
+      breakpoints = JSON.parse(profileForm.breakpoints);
+    } catch {
+      setError('Breakpoints must be valid JSON');
+      return;
+    }
+
+    const key = localStorage.getItem('adminKey');
+    if (!key) {
+      setError('Not authenticated');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/admin/scoring-profiles', {
+        method: profileForm.isNew ? 'POST' : 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-admin-key': key,
+        },
+        body: JSON.stringify({
+          name: profileForm.name.trim(),
+          description: profileForm.description.trim(),
+          // Unweighted optional components are left out of the profile
+          weights: Object.fromEntries(
+            ALL_CRASH_RISK_COMPONENTS
+              .map((component) => [component, parseFloat(profileForm.weights[component])] as const)
+              .filter(([component, weight]) => !isOptionalComponent(component) || weight > 0)
+          ),
+          breakpoints,
+        }),
+      });
+
+      if (response.ok) {
+        setProfileForm(emptyProfileForm());
+        await loadData();
+        setError('');
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to save scoring profile');
+      }
+    } catch {
+      setError('Failed to save scoring profile');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const deleteProfile = async (name: string) => {
+    if (!confirm(`Delete the "${name}" scoring profile?`)) {
+      return;
+    }
+
+    const key = localStorage.getItem('adminKey');
+    if (!key) {
+      setError('Not authenticated');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/admin/scoring-profiles?name=${encodeURIComponent(name)}`, {
+        method: 'DELETE',
+        headers: { 'x-admin-key': key },
+      });
+
+      if (response.ok) {
+        await loadData();
+        setError('');
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to delete scoring profile');
+      }
+    } catch {
+      setError('Failed to delete scoring profile');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const editChannel = (channel: NotificationChannel) => {
+    setChannelForm({
+      id: channel.id,
+      name: channel.name,
+      type: channel.type,
+      url: '',
+      secret: '',
+      severities: channel.severities,
+      enabled: channel.enabled,
+    });
+  };
+
+  const toggleChannelSeverity = (severity: AlertSeverity, checked: boolean) => {
+    setChannelForm({
+      ...channelForm,
+      severities: checked
+        ? ALERT_SEVERITIES.filter((item) => item === severity || channelForm.severities.includes(item))
+        : channelForm.severities.filter((item) => item !== severity),
+    });
+  };
+
+  // Send the request with the admin key; returns the response body, or null after setting the error
+  const channelRequest = async (
+    url: string,
+    method: 'POST' | 'PATCH' | 'DELETE',
+    body: Record<string, unknown> | undefined,
+    failure: string
+  ) => {
+    const key = localStorage.getItem('adminKey');
+    if (!key) {
+      setError('Not authenticated');
+      return null;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'x-admin-key': key,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setError('');
+        return data;
+      }
+      setError(data.error || failure);
+      return null;
+    } catch {
+      setError(failure);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveChannel = async () => {
+    const { id, name, type, url, secret, severities, enabled } = channelForm;
+    const data = await channelRequest(
+      '/api/admin/notification-channels',
+      id ? 'PATCH' : 'POST',
+      // An empty URL or secret keeps the stored one when editing
+      id ? { id, name, url, secret, severities, enabled } : { name, type, url, secret, severities, enabled },
+      'Failed to save notification channel'
+    );
+
+    if (data) {
+      if (data.secret) {
+        alert(`Signing secret for "${name}" (shown only once):\n\n${data.secret}`);
+      }
+      setChannelForm(emptyChannelForm());
+      await loadData();
+    }
+  };
+
+  const setChannelEnabled = async (channel: NotificationChannel, enabled: boolean) => {
+    const data = await channelRequest(
+      '/api/admin/notification-channels',
+      'PATCH',
+      { id: channel.id, enabled },
+      'Failed to update notification channel'
+    );
+    if (data) {
+      await loadData();
+    }
+  };
+
+  const testChannel = async (channel: NotificationChannel) => {
+    const data = await channelRequest(
+      '/api/admin/notification-channels/test',
+      'POST',
+      { id: channel.id },
+      'Failed to send test notification'
+    );
+
+    if (data) {
+      alert(
+        data.success
+          ? `Test notification sent to "${channel.name}" (${data.attempts} attempt${data.attempts === 1 ? '' : 's'})`
+          : `Test notification failed after ${data.attempts} attempt${data.attempts === 1 ? '' : 's'}:\n${data.error}`
+      );
+      await loadData();
+    }
+  };
+
+  const deleteChannel = async (channel: NotificationChannel) => {
+    if (!confirm(`Delete the "${channel.name}" channel and its delivery log?`)) {
+      return;
+    }
+
+    const data = await channelRequest(
+      `/api/admin/notification-channels?id=${encodeURIComponent(channel.id)}`,
+      'DELETE',
+      undefined,
+      'Failed to delete notification channel'
+    );
+    if (data) {
+      if (channelForm.id === channel.id) {
+        setChannelForm(emptyChannelForm());
+      }
+      await loadData();
+    }
+  };
+
   const logout = () => {
     localStorage.removeItem('adminKey');
     setAuthenticated(false);
@@ -234,6 +580,9 @@ export default function AdminPanel() {
     setSubscribers([]);
     setNewsletters([]);
     setStats({});
+    setScoringProfiles([]);
+    setChannels([]);
+    setNotificationLogs([]);
   };
 
   if (!authenticated) {
@@ -325,6 +674,28 @@ export default function AdminPanel() {
           >
             Statistics
           </button>
+          <button
+            className={cn(
+              'px-6 py-4 font-semibold border-b-2 transition-colors',
+              activeTab === 'profiles'
+                ? 'border-primary text-primary'
+                : 'border-transparent text-muted-foreground hover:text-foreground'
+            )}
+            onClick={() => setActiveTab('profiles')}
+          >
+            Scoring Profiles ({scoringProfiles.length})
+          </button>
+          <button
+            className={cn(
+              'px-6 py-4 font-semibold border-b-2 transition-colors',
+              activeTab === 'channels'
+                ? 'border-primary text-primary'
+                : 'border-transparent text-muted-foreground hover:text-foreground'
+            )}
+            onClick={() => setActiveTab('channels')}
+          >
+            Alert Channels ({channels.length})
+          </button>
         </div>
       </div>
 
@@ -645,6 +1016,412 @@ export default function AdminPanel() {
             </Card>
           </div>
         )}
+
+        {/* Scoring Profiles Tab */}
+        {activeTab === 'profiles' && (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  {profileForm.isNew ? 'Create Scoring Profile' : `Edit Profile: ${profileForm.name}`}
+                </CardTitle>
+                <CardDescription>
+                  Weights must sum to 1. Breakpoints map indicator values to 0-100 scores as
+                  [value, score] pairs sorted by value.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {profileForm.isNew && (
+                  <div className="space-y-2">
+                    <label htmlFor="profile-name" className="text-sm font-semibold">
+                      Name
+                    </label>
+                    <input
+                      id="profile-name"
+                      type="text"
+                      value={profileForm.name}
+                      onChange={(e) => setProfileForm({ ...profileForm, name: e.target.value })}
+                      className="w-full px-4 py-2 border-2 border-input rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                      placeholder="e.g. short-term"
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <label htmlFor="profile-description" className="text-sm font-semibold">
+                    Description
+                  </label>
+                  <input
+                    id="profile-description"
+                    type="text"
+                    value={profileForm.description}
+                    onChange={(e) => setProfileForm({ ...profileForm, description: e.target.value })}
+                    className="w-full px-4 py-2 border-2 border-input rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <div className="text-sm font-semibold">
+                    Weights{' '}
+                    <span
+                      className={cn(
+                        'font-normal',
+                        Math.abs(profileWeightTotal - 1) > 0.001 ? 'text-red-600' : 'text-muted-foreground'
+                      )}
+                    >
+                      (total {profileWeightTotal.toFixed(3)})
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                    {ALL_CRASH_RISK_COMPONENTS.map((component) => (
+                      <div key={component} className="space-y-1">
+                        <label htmlFor={`weight-${component}`} className="text-xs text-muted-foreground">
+                          {COMPONENT_LABELS[component]}
+                          {isOptionalComponent(component) && ' (optional)'}
+                        </label>
+                        <input
+                          id={`weight-${component}`}
+                          type="number"
+                          step="0.005"
+                          min="0"
+                          max="1"
+                          value={profileForm.weights[component]}
+                          onChange={(e) =>
+                            setProfileForm({
+                              ...profileForm,
+                              weights: { ...profileForm.weights, [component]: e.target.value },
+                            })
+                          }
+                          className="w-full px-4 py-2 border-2 border-input rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <label htmlFor="profile-breakpoints" className="text-sm font-semibold">
+                    Breakpoints (JSON)
+                  </label>
+                  <textarea
+                    id="profile-breakpoints"
+                    value={profileForm.breakpoints}
+                    onChange={(e) => setProfileForm({ ...profileForm, breakpoints: e.target.value })}
+                    rows={12}
+                    className="w-full px-4 py-2 border-2 border-input rounded-lg bg-background text-foreground font-mono text-xs focus:outline-none focus:ring-2 focus:ring-ring"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button onClick={saveProfile} disabled={loading}>
+                    {profileForm.isNew ? 'Create Profile' : 'Save Changes'}
+                  </Button>
+                  {!profileForm.isNew && (
+                    <Button variant="outline" onClick={() => setProfileForm(emptyProfileForm())}>
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Profiles</CardTitle>
+                <CardDescription>
+                  Profiles can be selected on the crash risk card and with ?profile= on the crash risk API
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {scoringProfiles.map((profile) => (
+                    <div
+                      key={profile.name}
+                      className="p-4 border border-slate-200 dark:border-slate-700 rounded-lg"
+                    >
+                      <div className="flex justify-between items-start gap-4">
+                        <div>
+                          <h3 className="font-semibold text-lg">{profile.name}</h3>
+                          {profile.description && (
+                            <p className="text-sm text-muted-foreground">{profile.description}</p>
+                          )}
+                          <div className="flex flex-wrap gap-2 mt-2">
+                            {getProfileComponents(profile).map((component) => (
+                              <Badge key={component} variant="outline">
+                                {COMPONENT_LABELS[component]}: {Number(((profile.weights[component] ?? 0) * 100).toFixed(1))}%
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button size="sm" variant="outline" onClick={() => editProfile(profile)}>
+                            Edit
+                          </Button>
+                          {profile.name !== DEFAULT_SCORING_PROFILE.name && (
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              onClick={() => deleteProfile(profile.name)}
+                              disabled={loading}
+                            >
+                              Delete
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Alert Channels Tab */}
+        {activeTab === 'channels' && (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  {channelForm.id ? `Edit Channel: ${channelForm.name}` : 'Add Alert Channel'}
+                </CardTitle>
+                <CardDescription>
+                  Risk alerts are posted to each enabled channel for the severities it receives. Generic
+                  webhooks are signed: X-Webhook-Signature is sha256= HMAC-SHA256 of
+                  &quot;timestamp.body&quot; with the channel secret, and the timestamp is sent in
+                  X-Webhook-Timestamp.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <label htmlFor="channel-name" className="text-sm font-semibold">
+                      Name
+                    </label>
+                    <input
+                      id="channel-name"
+                      type="text"
+                      value={channelForm.name}
+                      onChange={(e) => setChannelForm({ ...channelForm, name: e.target.value })}
+                      placeholder="e.g. #market-risk"
+                      className="w-full px-4 py-2 border-2 border-input rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label htmlFor="channel-type" className="text-sm font-semibold">
+                      Type
+                    </label>
+                    <select
+                      id="channel-type"
+                      value={channelForm.type}
+                      disabled={Boolean(channelForm.id)}
+                      onChange={(e) => setChannelForm({ ...channelForm, type: e.target.value as ChannelType })}
+                      className="w-full px-4 py-2 border-2 border-input rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                    >
+                      {(Object.keys(CHANNEL_TYPE_LABELS) as ChannelType[]).map((type) => (
+                        <option key={type} value={type}>
+                          {CHANNEL_TYPE_LABELS[type]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <label htmlFor="channel-url" className="text-sm font-semibold">
+                    Webhook URL
+                  </label>
+                  <input
+                    id="channel-url"
+                    type="url"
+                    value={channelForm.url}
+                    onChange={(e) => setChannelForm({ ...channelForm, url: e.target.value })}
+                    placeholder={channelForm.id ? 'Leave empty to keep the current URL' : CHANNEL_URL_PLACEHOLDERS[channelForm.type]}
+                    className="w-full px-4 py-2 border-2 border-input rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                  />
+                </div>
+                {channelForm.type === 'webhook' && (
+                  <div className="space-y-2">
+                    <label htmlFor="channel-secret" className="text-sm font-semibold">
+                      Signing Secret
+                    </label>
+                    <input
+                      id="channel-secret"
+                      type="password"
+                      value={channelForm.secret}
+                      onChange={(e) => setChannelForm({ ...channelForm, secret: e.target.value })}
+                      placeholder={channelForm.id ? 'Leave empty to keep the current secret' : 'Leave empty to generate one'}
+                      className="w-full px-4 py-2 border-2 border-input rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                    />
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-6">
+                  <div className="space-y-2">
+                    <div className="text-sm font-semibold">Severities</div>
+                    <div className="flex gap-4">
+                      {ALERT_SEVERITIES.map((severity) => (
+                        <label key={severity} className="flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={channelForm.severities.includes(severity)}
+                            onChange={(e) => toggleChannelSeverity(severity, e.target.checked)}
+                          />
+                          {severity}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <div className="text-sm font-semibold">Status</div>
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={channelForm.enabled}
+                        onChange={(e) => setChannelForm({ ...channelForm, enabled: e.target.checked })}
+                      />
+                      Enabled
+                    </label>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button onClick={saveChannel} disabled={loading || channelForm.severities.length === 0}>
+                    {channelForm.id ? 'Save Changes' : 'Add Channel'}
+                  </Button>
+                  {channelForm.id && (
+                    <Button variant="outline" onClick={() => setChannelForm(emptyChannelForm())}>
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Channels</CardTitle>
+                <CardDescription>
+                  Failed posts are retried up to 3 times with backoff before they are logged as failed
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {channels.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">
+                      No channels yet
+                    </p>
+                  ) : (
+                    channels.map((channel) => (
+                      <div
+                        key={channel.id}
+                        className="p-4 border border-slate-200 dark:border-slate-700 rounded-lg"
+                      >
+                        <div className="flex justify-between items-start gap-4">
+                          <div>
+                            <h3 className="font-semibold text-lg">
+                              {channel.name}{' '}
+                              <Badge variant={channel.enabled ? 'default' : 'outline'}>
+                                {channel.enabled ? 'enabled' : 'paused'}
+                              </Badge>
+                            </h3>
+                            <p className="text-sm text-muted-foreground">
+                              {CHANNEL_TYPE_LABELS[channel.type]} · {channel.url}
+                              {channel.type === 'webhook' && (channel.hasSecret ? ' · signed' : ' · unsigned')}
+                            </p>
+                            <div className="flex flex-wrap gap-2 mt-2">
+                              {channel.severities.map((severity) => (
+                                <Badge key={severity} variant="outline">
+                                  {severity}
+                                </Badge>
+                              ))}
+                            </div>
+                          </div>
+                          <div className="flex gap-2">
+                            <Button size="sm" variant="outline" onClick={() => testChannel(channel)} disabled={loading}>
+                              Test
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setChannelEnabled(channel, !channel.enabled)}
+                              disabled={loading}
+                            >
+                              {channel.enabled ? 'Pause' : 'Enable'}
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => editChannel(channel)}>
+                              Edit
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              onClick={() => deleteChannel(channel)}
+                              disabled={loading}
+                            >
+                              Delete
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Recent Deliveries</CardTitle>
+                <CardDescription>
+                  The last 50 notifications posted to channels
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <table className="w-full border-collapse">
+                    <thead>
+                      <tr className="border-b border-slate-200 dark:border-slate-700">
+                        <th className="text-left p-3 font-semibold">Sent</th>
+                        <th className="text-left p-3 font-semibold">Channel</th>
+                        <th className="text-left p-3 font-semibold">Subject</th>
+                        <th className="text-left p-3 font-semibold">Status</th>
+                        <th className="text-center p-3 font-semibold">Attempts</th>
+                        <th className="text-left p-3 font-semibold">Error</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {notificationLogs.length === 0 ? (
+                        <tr>
+                          <td colSpan={6} className="p-8 text-center text-muted-foreground">
+                            No notifications sent yet
+                          </td>
+                        </tr>
+                      ) : (
+                        notificationLogs.map((log) => (
+                          <tr
+                            key={log.id}
+                            className="border-b border-slate-100 dark:border-slate-800 hover:bg-slate-50 dark:hover:bg-slate-800/50"
+                          >
+                            <td className="p-3 text-sm text-muted-foreground">
+                              {new Date(log.sent_at).toLocaleString()}
+                            </td>
+                            <td className="p-3 text-sm">
+                              {log.channel_name || CHANNEL_TYPE_LABELS[log.channel_type]}
+                            </td>
+                            <td className="p-3 text-sm">
+                              {log.notification_type === 'test' && <Badge variant="outline">test</Badge>} {log.subject}
+                            </td>
+                            <td className="p-3">
+                              <Badge variant={log.status === 'sent' ? 'default' : 'destructive'}>
+                                {log.status}
+                                {log.response_status ? ` (${log.response_status})` : ''}
+                              </Badge>
+                            </td>
+                            <td className="p-3 text-center">{log.attempts}</td>
+                            <td className="p-3 text-sm text-muted-foreground">{log.error_message || '—'}</td>
+                          </tr>
+                        ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
       </div>
     </div>
   );
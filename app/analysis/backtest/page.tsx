@@ -0,0 +1,210 @@
+'use client';
+
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { ThemeToggle } from '@/components/theme-toggle';
+import { Navbar } from '@/components/layout/navbar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { BacktestReport } from '@/lib/backtest';
+
+/**
+ * Format a 0-1 ratio as a percentage
+ */
+function formatRatio(value: number | null): string {
+  return value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+}
+
+export default function BacktestPage() {
+  const { data: report, isLoading, error } = useQuery<BacktestReport>({
+    queryKey: ['analysis', 'backtest'],
+    queryFn: async () => {
+      const response = await fetch('/api/analysis/backtest');
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to load backtest');
+      }
+      return body as BacktestReport;
+    },
+    staleTime: 60 * 60 * 1000,
+    gcTime: 2 * 60 * 60 * 1000,
+    retry: 1,
+  });
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-slate-900 text-slate-900 dark:text-white">
+      {/* Header */}
+      <header className="bg-slate-800 border-b border-slate-700 p-6 sticky top-0 z-40">
+        <div className="mx-auto max-w-7xl flex justify-between items-center">
+          <Link href="/">
+            <h1 className="text-3xl font-bold text-white hover:text-slate-200 transition-colors cursor-pointer">
+              📊 Market Crash Monitor
+            </h1>
+          </Link>
+          
+          <ThemeToggle />
+        </div>
+      </header>
+
+      {/* Navigation Bar */}
+      <Navbar />
+
+      <main className="container mx-auto px-4 py-8 max-w-6xl space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-2">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Crash Risk Backtest</h1>
+            <p className="text-slate-400 text-sm lg:text-base">
+              Historical indicator values replayed through the crash risk model and compared
+              with S&amp;P 500 drawdowns of 20% or more.
+            </p>
+          </div>
+          <a
+            href="/api/analysis/backtest"
+            className="text-sm text-blue-400 hover:text-blue-300 whitespace-nowrap"
+          >
+            Download JSON report →
+          </a>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-red-500/50 bg-red-500/10 p-4">
+            <p className="text-red-400">Error loading backtest: {(error as Error).message}</p>
+          </div>
+        )}
+
+        {isLoading && (
+          <div className="space-y-4">
+            <Skeleton className="h-40 w-full" />
+            <Skeleton className="h-64 w-full" />
+          </div>
+        )}
+
+        {report && (
+          <>
+            <p className="text-sm text-slate-400">
+              {report.monthsScored} months scored ({report.firstMonth} → {report.lastMonth}).
+              A signal counts as a lead when it appears within {report.leadWindowMonths} months
+              before a market peak. Months inside a drawdown are excluded.
+            </p>
+
+            {/* Per-threshold results */}
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader>
+                <CardTitle>Results by Risk Level</CardTitle>
+                <CardDescription>
+                  A month is flagged when the score is at or above the level&apos;s minimum
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <table className="w-full border-collapse text-sm">
+                    <thead>
+                      <tr className="border-b border-slate-700">
+                        <th className="text-left p-3 font-semibold">Risk Level</th>
+                        <th className="text-right p-3 font-semibold">Min Score</th>
+                        <th className="text-right p-3 font-semibold">Precision</th>
+                        <th className="text-right p-3 font-semibold">Recall</th>
+                        <th className="text-right p-3 font-semibold">False Positive Rate</th>
+                        <th className="text-right p-3 font-semibold">Crashes Led</th>
+                        <th className="text-right p-3 font-semibold">Median Lead</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.thresholds.map((threshold) => (
+                        <tr key={threshold.riskLevel} className="border-b border-slate-800">
+                          <td className="p-3">{threshold.riskLevel}</td>
+                          <td className="p-3 text-right">≥{threshold.minScore}</td>
+                          <td className="p-3 text-right">{formatRatio(threshold.precision)}</td>
+                          <td className="p-3 text-right">{formatRatio(threshold.recall)}</td>
+                          <td className="p-3 text-right">{formatRatio(threshold.falsePositiveRate)}</td>
+                          <td className="p-3 text-right">
+                            {threshold.eventsDetected}/{threshold.eventsEvaluated}
+                          </td>
+                          <td className="p-3 text-right">
+                            {threshold.medianLeadMonths === null
+                              ? '—'
+                              : `${threshold.medianLeadMonths} mo`}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Per-event results */}
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader>
+                <CardTitle>Drawdowns</CardTitle>
+                <CardDescription>
+                  Lead time (months before the peak) of the first signal at each risk level
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <table className="w-full border-collapse text-sm">
+                    <thead>
+                      <tr className="border-b border-slate-700">
+                        <th className="text-left p-3 font-semibold">Event</th>
+                        <th className="text-left p-3 font-semibold">Peak → Trough</th>
+                        <th className="text-right p-3 font-semibold">Drawdown</th>
+                        <th className="text-right p-3 font-semibold">Max Score</th>
+                        {report.thresholds.map((threshold) => (
+                          <th key={threshold.riskLevel} className="text-right p-3 font-semibold">
+                            {threshold.riskLevel}
+                          </th>
+                        ))}
+                        <th className="text-left p-3 font-semibold">Inputs</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.events.map((event) => (
+                        <tr key={event.id} className="border-b border-slate-800">
+                          <td className="p-3">{event.name}</td>
+                          <td className="p-3 text-slate-400">
+                            {event.peak} → {event.trough}
+                          </td>
+                          <td className="p-3 text-right text-red-400">{event.drawdown}%</td>
+                          <td className="p-3 text-right">
+                            {event.maxScoreInWindow === null ? '—' : event.maxScoreInWindow}
+                          </td>
+                          {report.thresholds.map((threshold) => {
+                            const lead = threshold.leadTimes.find((l) => l.eventId === event.id);
+                            return (
+                              <td key={threshold.riskLevel} className="p-3 text-right">
+                                {!event.evaluated
+                                  ? '—'
+                                  : lead?.leadMonths !== null && lead?.leadMonths !== undefined
+                                  ? `${lead.leadMonths} mo`
+                                  : 'missed'}
+                              </td>
+                            );
+                          })}
+                          <td className="p-3">
+                            {event.evaluated ? (
+                              <div className="flex flex-wrap gap-1">
+                                {event.availableInputs.map((input) => (
+                                  <Badge key={input} variant="outline" className="text-xs">
+                                    {input}
+                                  </Badge>
+                                ))}
+                              </div>
+                            ) : (
+                              <span className="text-slate-500">No data</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { backfillCrashRiskHistory } from '@/lib/crashRiskHistory';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // Pulls full FRED histories
+
+// Middleware for admin authentication
+function requireAdmin(req: NextRequest): void {
+  const adminKey = req.headers.get('x-admin-key');
+  if (adminKey !== process.env.ADMIN_SECRET_KEY) {
+    throw new Error('Unauthorized');
+  }
+}
+
+/**
+ * Rebuild the monthly crash-risk history from FRED and Shiller data
+ * Run with: npm run crash-risk:backfill
+ */
+export async function POST(req: NextRequest) {
+  try {
+    requireAdmin(req);
+
+    const result = await backfillCrashRiskHistory();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Crash risk backfill error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to backfill crash risk history',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
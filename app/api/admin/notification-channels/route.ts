@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createNotificationChannel,
+  deleteNotificationChannel,
+  getNotificationChannels,
+  NotificationChannelError,
+  updateNotificationChannel,
+} from '@/lib/notificationChannels';
+
+// Middleware for admin authentication
+function requireAdmin(req: NextRequest): void {
+  const adminKey = req.headers.get('x-admin-key');
+  if (adminKey !== process.env.ADMIN_SECRET_KEY) {
+    throw new Error('Unauthorized');
+  }
+}
+
+/**
+ * Map channel errors to responses (401 for auth, statusCode for channel errors)
+ */
+function errorResponse(error: unknown, fallback: string): NextResponse {
+  if (error instanceof Error && error.message === 'Unauthorized') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (error instanceof NotificationChannelError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode || 400 });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    requireAdmin(req);
+
+    const channels = await getNotificationChannels();
+    return NextResponse.json({ channels });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch notification channels');
+  }
+}
+
+// Create channel; a generated webhook secret is returned only here
+export async function POST(req: NextRequest) {
+  try {
+    requireAdmin(req);
+
+    const { name, type, url, secret, severities, enabled } = await req.json();
+    const created = await createNotificationChannel({ name, type, url, secret, severities, enabled });
+
+    return NextResponse.json({
+      message: 'Notification channel created successfully',
+      ...created,
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to create notification channel');
+  }
+}
+
+// Update channel (an empty url or secret keeps the current one)
+export async function PATCH(req: NextRequest) {
+  try {
+    requireAdmin(req);
+
+    const { id, name, url, secret, severities, enabled } = await req.json();
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Channel id is required' },
+        { status: 400 }
+      );
+    }
+
+    const channel = await updateNotificationChannel(id, { name, url, secret, severities, enabled });
+
+    return NextResponse.json({
+      message: 'Notification channel updated successfully',
+      channel,
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update notification channel');
+  }
+}
+
+// Delete channel (and its delivery log)
+export async function DELETE(req: NextRequest) {
+  try {
+    requireAdmin(req);
+
+    const id = req.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Channel id is required' },
+        { status: 400 }
+      );
+    }
+
+    await deleteNotificationChannel(id);
+
+    return NextResponse.json({
+      message: 'Notification channel deleted successfully',
+      deleted: id,
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete notification channel');
+  }
+}
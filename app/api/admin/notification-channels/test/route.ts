@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { NotificationChannelError, sendTestChannelNotification } from '@/lib/notificationChannels';
+
+export const maxDuration = 60;
+
+// Middleware for admin authentication
+function requireAdmin(req: NextRequest): void {
+  const adminKey = req.headers.get('x-admin-key');
+  if (adminKey !== process.env.ADMIN_SECRET_KEY) {
+    throw new Error('Unauthorized');
+  }
+}
+
+/**
+ * Post a test alert to a channel ({ id }), with the usual retries
+ */
+export async function POST(req: NextRequest) {
+  try {
+    requireAdmin(req);
+
+    const { id } = await req.json();
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Channel id is required' },
+        { status: 400 }
+      );
+    }
+
+    const delivery = await sendTestChannelNotification(id);
+
+    return NextResponse.json({
+      success: delivery.ok,
+      ...delivery,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (error instanceof NotificationChannelError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode || 400 });
+    }
+    console.error('Channel test error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send test notification' },
+      { status: 500 }
+    );
+  }
+}
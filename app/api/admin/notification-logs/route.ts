@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+
+// Middleware for admin authentication
+function requireAdmin(req: NextRequest): void {
+  const adminKey = req.headers.get('x-admin-key');
+  if (adminKey !== process.env.ADMIN_SECRET_KEY) {
+    throw new Error('Unauthorized');
+  }
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    requireAdmin(req);
+
+    const searchParams = req.nextUrl.searchParams;
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const limit = parseInt(searchParams.get('limit') || '50', 10);
+    const offset = (page - 1) * limit;
+    const status = searchParams.get('status'); // Filter by status
+    const channelId = searchParams.get('channel_id'); // Filter by channel
+
+    // Build query with filters
+    let whereClause = 'WHERE 1=1';
+    const queryParams: string[] = [];
+    let paramIndex = 1;
+
+    if (status) {
+      whereClause += ` AND nl.status = $${paramIndex}`;
+      queryParams.push(status);
+      paramIndex++;
+    }
+
+    if (channelId) {
+      whereClause += ` AND nl.channel_id = $${paramIndex}`;
+      queryParams.push(channelId);
+      paramIndex++;
+    }
+
+    // Get notification logs with channel names
+    const result = await db.query(
+      `SELECT 
+        nl.id,
+        nl.channel_id,
+        nc.name AS channel_name,
+        nl.channel_type,
+        nl.notification_type,
+        nl.subject,
+        nl.status,
+        nl.attempts,
+        nl.response_status,
+        nl.sent_at,
+        nl.error_message
+       FROM notification_logs nl
+       LEFT JOIN notification_channels nc ON nl.channel_id = nc.id
+       ${whereClause}
+       ORDER BY nl.sent_at DESC
+       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+      [...queryParams, limit, offset]
+    );
+
+    // Get total count
+    const countResult = await db.query(
+      `SELECT COUNT(*) as count FROM notification_logs nl ${whereClause}`,
+      queryParams
+    );
+    const total = parseInt(countResult.rows[0].count, 10);
+
+    return NextResponse.json({
+      notificationLogs: result.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Admin notification logs error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch notification logs' },
+      { status: 500 }
+    );
+  }
+}
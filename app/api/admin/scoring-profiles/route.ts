@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getScoringProfiles,
+  createScoringProfile,
+  updateScoringProfile,
+  deleteScoringProfile,
+  ScoringProfileError,
+} from '@/lib/scoringProfiles';
+
+// Middleware for admin authentication
+function requireAdmin(req: NextRequest): void {
+  const adminKey = req.headers.get('x-admin-key');
+  if (adminKey !== process.env.ADMIN_SECRET_KEY) {
+    throw new Error('Unauthorized');
+  }
+}
+
+/**
+ * Map profile errors to responses (401 for auth, statusCode for profile errors)
+ */
+function errorResponse(error: unknown, fallback: string): NextResponse {
+  if (error instanceof Error && error.message === 'Unauthorized') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (error instanceof ScoringProfileError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode || 400 });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    requireAdmin(req);
+
+    const profiles = await getScoringProfiles();
+    return NextResponse.json({ profiles });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch scoring profiles');
+  }
+}
+
+// Create profile
+export async function POST(req: NextRequest) {
+  try {
+    requireAdmin(req);
+
+    const { name, description, weights, breakpoints } = await req.json();
+    const profile = await createScoringProfile({ name, description, weights, breakpoints });
+
+    return NextResponse.json({
+      message: 'Scoring profile created successfully',
+      profile,
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to create scoring profile');
+  }
+}
+
+// Update profile
+export async function PATCH(req: NextRequest) {
+  try {
+    requireAdmin(req);
+
+    const { name, description, weights, breakpoints } = await req.json();
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Profile name is required' },
+        { status: 400 }
+      );
+    }
+
+    const profile = await updateScoringProfile(name, { description, weights, breakpoints });
+
+    return NextResponse.json({
+      message: 'Scoring profile updated successfully',
+      profile,
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update scoring profile');
+  }
+}
+
+// Delete profile
+export async function DELETE(req: NextRequest) {
+  try {
+    requireAdmin(req);
+
+    const name = req.nextUrl.searchParams.get('name');
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Profile name is required' },
+        { status: 400 }
+      );
+    }
+
+    await deleteScoringProfile(name);
+
+    return NextResponse.json({
+      message: 'Scoring profile deleted successfully',
+      deleted: name,
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete scoring profile');
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getShillerData,
+  importShillerWorkbook,
+  isShillerStale,
+  ShillerDataError,
+} from '@/lib/shiller';
+
+export const dynamic = 'force-dynamic';
+
+// Shiller's workbook is ~1-2 MB
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Middleware for admin authentication
+function requireAdmin(req: NextRequest): void {
+  const adminKey = req.headers.get('x-admin-key');
+  if (adminKey !== process.env.ADMIN_SECRET_KEY) {
+    throw new Error('Unauthorized');
+  }
+}
+
+/**
+ * Map errors to responses (401 for auth, statusCode for Shiller data errors)
+ */
+function errorResponse(error: unknown, fallback: string): NextResponse {
+  if (error instanceof Error && error.message === 'Unauthorized') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (error instanceof ShillerDataError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode || 400 });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json(
+    { error: fallback, message: error instanceof Error ? error.message : 'Unknown error' },
+    { status: 500 }
+  );
+}
+
+// Current Shiller data status
+export async function GET(req: NextRequest) {
+  try {
+    requireAdmin(req);
+
+    const months = await getShillerData();
+    const withCape = months.filter((month) => month.cape !== null);
+    const latest = withCape[withCape.length - 1];
+
+    return NextResponse.json({
+      months: months.length,
+      from: months[0]?.date ?? null,
+      to: months[months.length - 1]?.date ?? null,
+      latestCape: latest ? { date: latest.date, value: latest.cape } : null,
+      stale: latest ? isShillerStale(latest.date) : true,
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch Shiller data status');
+  }
+}
+
+/**
+ * Upload a new Shiller workbook
+ * Accepts multipart/form-data with a "file" field, or the raw workbook as the body
+ */
+export async function POST(req: NextRequest) {
+  try {
+    requireAdmin(req);
+
+    let buffer: ArrayBuffer;
+    if (req.headers.get('content-type')?.includes('multipart/form-data')) {
+      const file = (await req.formData()).get('file');
+      if (!(file instanceof File)) {
+        return NextResponse.json(
+          { error: 'A workbook is required in the "file" field' },
+          { status: 400 }
+        );
+      }
+      buffer = await file.arrayBuffer();
+    } else {
+      buffer = await req.arrayBuffer();
+    }
+
+    if (buffer.byteLength === 0) {
+      return NextResponse.json({ error: 'Uploaded workbook is empty' }, { status: 400 });
+    }
+    if (buffer.byteLength > MAX_UPLOAD_BYTES) {
+      return NextResponse.json({ error: 'Uploaded workbook is larger than 10 MB' }, { status: 413 });
+    }
+
+    const result = await importShillerWorkbook(buffer);
+
+    return NextResponse.json({
+      message: 'Shiller data imported successfully',
+      ...result,
+      stale: result.latestCape ? isShillerStale(result.latestCape.date) : true,
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to import Shiller workbook');
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runBacktest, DEFAULT_LEAD_WINDOW_MONTHS } from '@/lib/backtest';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 86400; // 24 hours
+export const maxDuration = 300; // Pulls full FRED histories
+
+/**
+ * Crash-risk backtest report (JSON)
+ * Optional ?leadWindow=<months> (6-60) sets how far before a peak a signal counts
+ */
+export async function GET(req: NextRequest) {
+  const leadWindowParam = req.nextUrl.searchParams.get('leadWindow');
+  const leadWindow = leadWindowParam ? parseInt(leadWindowParam, 10) : DEFAULT_LEAD_WINDOW_MONTHS;
+
+  if (isNaN(leadWindow) || leadWindow < 6 || leadWindow > 60) {
+    return NextResponse.json(
+      { error: 'leadWindow must be a number of months between 6 and 60' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = await runBacktest(leadWindow);
+
+    return NextResponse.json(report, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=86400, stale-while-revalidate=172800',
+      },
+    });
+  } catch (error) {
+    console.error('Error running crash risk backtest:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to run backtest',
+      },
+      { status: 500 }
+    );
+  }
+}
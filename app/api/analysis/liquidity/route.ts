@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getLiquidityReport, LiquidityError } from '@/lib/liquidity';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 3600; // 1 hour
+
+/**
+ * Fed total assets, TGA, reverse repo, net liquidity and NFCI, with weekly
+ * history and rate-of-change figures
+ */
+export async function GET() {
+  try {
+    const report = await getLiquidityReport();
+
+    return NextResponse.json(report, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=7200',
+      },
+    });
+  } catch (error) {
+    if (error instanceof LiquidityError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode || 500 });
+    }
+    console.error('Error computing liquidity report:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to compute liquidity report',
+      },
+      { status: 500 }
+    );
+  }
+}
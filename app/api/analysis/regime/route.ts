@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getMarketRegime } from '@/lib/marketRegime';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 900; // 15 minutes
+
+/**
+ * Drawdown, realized volatility and regime label for the major indices,
+ * compared with historical crash paths
+ */
+export async function GET() {
+  try {
+    const regime = await getMarketRegime();
+
+    return NextResponse.json(regime, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=900, stale-while-revalidate=1800',
+      },
+    });
+  } catch (error) {
+    console.error('Error computing market regime:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to compute market regime',
+      },
+      { status: 500 }
+    );
+  }
+}
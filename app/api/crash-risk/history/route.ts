@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCrashRiskHistory, BACKFILL_START } from '@/lib/crashRiskHistory';
+import { getScoringProfile, ScoringProfileError } from '@/lib/scoringProfiles';
+import { calculateCrashRiskFromInputs } from '@/src/lib/enhanced-crash-risk';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 3600; // 1 hour (history is rebuilt monthly)
+
+/**
+ * Parse a date query parameter, falling back to the given default
+ */
+function parseDateParam(value: string | null, fallback: Date): Date | null {
+  if (!value) return fallback;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(req: NextRequest) {
+  const searchParams = req.nextUrl.searchParams;
+  const from = parseDateParam(searchParams.get('from'), new Date(BACKFILL_START));
+  const to = parseDateParam(searchParams.get('to'), new Date());
+
+  if (!from || !to) {
+    return NextResponse.json(
+      { error: 'Invalid date. Use ISO format, e.g. from=2000-01-01&to=2010-12-31' },
+      { status: 400 }
+    );
+  }
+
+  if (from > to) {
+    return NextResponse.json(
+      { error: '"from" must be before "to"' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    let history = await getCrashRiskHistory(from, to);
+
+    // Stored scores use the default profile; rescore from the stored inputs otherwise
+    const profileName = searchParams.get('profile');
+    if (profileName) {
+      const profile = await getScoringProfile(profileName);
+      history = history.map((point) => {
+        const breakdown = calculateCrashRiskFromInputs(point.inputs, profile);
+        return {
+          ...point,
+          totalScore: breakdown.totalScore,
+          riskLevel: breakdown.riskLevel,
+          components: breakdown.components,
+          weights: breakdown.weights,
+        };
+      });
+    }
+
+    return NextResponse.json(
+      {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        profile: profileName || 'default',
+        data: history,
+      },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=7200',
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof ScoringProfileError) {
+      return NextResponse.json({ error: error.message, data: [] }, { status: error.statusCode || 400 });
+    }
+    console.error('Error fetching crash risk history:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to fetch crash risk history',
+        data: [],
+      },
+      { status: 500 }
+    );
+  }
+}
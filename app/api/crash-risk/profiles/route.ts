@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getScoringProfiles } from '@/lib/scoringProfiles';
+import { DEFAULT_SCORING_PROFILE } from '@/src/lib/enhanced-crash-risk';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 300; // 5 minutes (profiles change rarely)
+
+export async function GET() {
+  try {
+    const profiles = await getScoringProfiles();
+
+    return NextResponse.json(
+      { profiles },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error fetching scoring profiles:', error);
+    // Fall back to the built-in default so the dashboard can still score
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to fetch scoring profiles',
+        profiles: [{ ...DEFAULT_SCORING_PROFILE, updatedAt: null }],
+      },
+      { status: 200 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentCrashRisk } from '@/lib/crashRisk';
+import { getScoringProfile, ScoringProfileError } from '@/lib/scoringProfiles';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 300; // 5 minutes
+
+export async function GET(req: NextRequest) {
+  try {
+    const profile = await getScoringProfile(req.nextUrl.searchParams.get('profile'));
+
+    return NextResponse.json(await getCurrentCrashRisk(profile), {
+      headers: {
+        'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+      },
+    });
+  } catch (error) {
+    if (error instanceof ScoringProfileError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode || 400 });
+    }
+    console.error('Error calculating crash risk:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to calculate crash risk' },
+      { status: 500 }
+    );
+  }
+}
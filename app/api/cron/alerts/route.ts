@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runAlertEngine } from '@/lib/alertEngine';
+import { requireCronOrAdmin } from '@/lib/cronAuth';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * Evaluate indicator and crash-risk transitions, email alert subscribers
+ * and send push notifications to opted-in browsers
+ * Scheduled hourly in vercel.json. ?dryRun=true lists the alerts and the
+ * subscribers who would be notified without sending or storing anything.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    requireCronOrAdmin(req);
+
+    const dryRunParam = req.nextUrl.searchParams.get('dryRun');
+    const result = await runAlertEngine({ dryRun: dryRunParam === 'true' || dryRunParam === '1' });
+
+    return NextResponse.json({
+      success: result.failed === 0,
+      ...result,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Alert job error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to run alerts',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { refreshConstituentCandles } from '@/lib/breadth';
+import { requireCronOrAdmin } from '@/lib/cronAuth';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * Refresh the daily candles of the next batch of S&P 500 constituents
+ * Scheduled every 10 minutes after the close on weekdays in vercel.json,
+ * enough runs to cover every constituent once a day
+ */
+export async function GET(req: NextRequest) {
+  try {
+    requireCronOrAdmin(req);
+
+    const result = await refreshConstituentCandles();
+
+    return NextResponse.json({
+      success: result.failed.length === 0,
+      refreshed: result.refreshed.length,
+      remaining: result.remaining,
+      failed: result.failed,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Breadth refresh job error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to refresh constituent candles',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { recordIndicatorSnapshots } from '@/lib/indicatorSnapshots';
+import { requireCronOrAdmin } from '@/lib/cronAuth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Record a snapshot of every economic indicator
+ * Scheduled daily in vercel.json
+ */
+export async function GET(req: NextRequest) {
+  try {
+    requireCronOrAdmin(req);
+
+    const result = await recordIndicatorSnapshots();
+
+    return NextResponse.json({
+      success: result.failed.length === 0,
+      recorded: result.recorded,
+      failed: result.failed,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Indicator snapshot job error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to record indicator snapshots',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
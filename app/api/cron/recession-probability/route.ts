@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateRecessionProbability } from '@/lib/recessionProbability';
+import { requireCronOrAdmin } from '@/lib/cronAuth';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * Recompute the recession probability series from the T10Y3M history
+ * Scheduled on the first days of each month in vercel.json, once the
+ * previous month's spreads are complete
+ */
+export async function GET(req: NextRequest) {
+  try {
+    requireCronOrAdmin(req);
+
+    const result = await updateRecessionProbability();
+
+    return NextResponse.json({
+      success: true,
+      months: result.months,
+      latest: result.latest,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Recession probability job error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update recession probability',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { importShillerFromUrl, isShillerStale, ShillerDataError } from '@/lib/shiller';
+import { requireCronOrAdmin } from '@/lib/cronAuth';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * Download Shiller's workbook from SHILLER_DATA_URL and import it
+ * Scheduled weekly in vercel.json
+ */
+export async function GET(req: NextRequest) {
+  try {
+    requireCronOrAdmin(req);
+
+    const url = process.env.SHILLER_DATA_URL;
+    if (!url) {
+      return NextResponse.json({
+        success: false,
+        skipped: true,
+        message: 'SHILLER_DATA_URL is not set; upload the workbook via /api/admin/shiller instead',
+      });
+    }
+
+    const result = await importShillerFromUrl(url);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      stale: result.latestCape ? isShillerStale(result.latestCape.date) : true,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Shiller import job error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to import Shiller data',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: error instanceof ShillerDataError && error.statusCode ? error.statusCode : 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { importVixTermStructure } from '@/lib/vixTermStructure';
+import { requireCronOrAdmin } from '@/lib/cronAuth';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * Import the latest VIX9D, VIX, VIX3M and VIX6M closes
+ * Scheduled on weekday evenings in vercel.json, after CBOE publishes the day's closes
+ */
+export async function GET(req: NextRequest) {
+  try {
+    requireCronOrAdmin(req);
+
+    const result = await importVixTermStructure();
+
+    return NextResponse.json({
+      success: result.failed.length === 0,
+      imported: result.imported,
+      failed: result.failed,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('VIX term structure import job error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to import VIX term structure',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
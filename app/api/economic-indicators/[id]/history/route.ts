@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getIndicatorHistory, isIndicatorId } from '@/lib/indicatorSnapshots';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 300; // 5 minutes
+
+/**
+ * Parse a date query parameter, falling back to the given default
+ */
+function parseDateParam(value: string | null, fallback: Date): Date | null {
+  if (!value) return fallback;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!isIndicatorId(id)) {
+    return NextResponse.json(
+      { error: `Unknown indicator: ${id}` },
+      { status: 404 }
+    );
+  }
+
+  // Default to the last 12 months
+  const now = new Date();
+  const yearAgo = new Date(now);
+  yearAgo.setFullYear(yearAgo.getFullYear() - 1);
+
+  const searchParams = req.nextUrl.searchParams;
+  const from = parseDateParam(searchParams.get('from'), yearAgo);
+  const to = parseDateParam(searchParams.get('to'), now);
+
+  if (!from || !to) {
+    return NextResponse.json(
+      { error: 'Invalid date. Use ISO format, e.g. from=2024-01-01&to=2024-12-31' },
+      { status: 400 }
+    );
+  }
+
+  if (from > to) {
+    return NextResponse.json(
+      { error: '"from" must be before "to"' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const history = await getIndicatorHistory(id, from, to);
+
+    return NextResponse.json(
+      {
+        id,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        data: history,
+      },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+        },
+      }
+    );
+  } catch (error) {
+    console.error(`Error fetching history for ${id}:`, error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to fetch indicator history',
+        id,
+        data: [],
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { BreadthError, getMarketBreadth } from '@/lib/breadth';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 300; // 5 minutes
+
+/**
+ * Latest S&P 500 breadth readings (% above 50/200-day MA, net new highs,
+ * advance/decline line)
+ */
+export async function GET() {
+  try {
+    const data = await getMarketBreadth();
+    return NextResponse.json(data, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+      },
+    });
+  } catch (error) {
+    if (error instanceof BreadthError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode || 500 });
+    }
+    console.error('Error computing market breadth:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to compute market breadth' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { getCAPERatio } from '@/lib/api/economicIndicators';
+import { getCAPERatio } from '@/lib/shiller';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 300; // 5 minutes
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getInitialClaims } from '@/lib/api/laborMarket';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 3600; // 1 hour (weekly data)
+
+export async function GET() {
+  try {
+    const data = await getInitialClaims();
+    return NextResponse.json(data, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=7200',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching Initial Claims:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fetch Initial Claims';
+    return NextResponse.json(
+      {
+        error: errorMessage,
+        value: 0,
+        status: 'safe' as const,
+        historicalAvg: 10,
+        warningLevel: 15,
+        dangerLevel: 25,
+        timestamp: new Date().toISOString(),
+        description: 'Initial Claims - 4-week average vs. 52-week low',
+      },
+      { status: 200 }
+    );
+  }
+}
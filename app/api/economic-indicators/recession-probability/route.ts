@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getRecessionProbability, RecessionProbabilityError } from '@/lib/recessionProbability';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 3600; // 1 hour
+
+/**
+ * Latest 12-month-ahead recession probability from the NY Fed yield curve model
+ */
+export async function GET() {
+  try {
+    const data = await getRecessionProbability();
+    return NextResponse.json(data, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=7200',
+      },
+    });
+  } catch (error) {
+    if (error instanceof RecessionProbabilityError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode || 500 });
+    }
+    console.error('Error loading recession probability:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load recession probability' },
+      { status: 500 }
+    );
+  }
+}
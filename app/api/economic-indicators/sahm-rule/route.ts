@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getSahmRule } from '@/lib/api/laborMarket';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 3600; // 1 hour (monthly data)
+
+export async function GET() {
+  try {
+    const data = await getSahmRule();
+    return NextResponse.json(data, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=7200',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching Sahm Rule:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fetch Sahm Rule';
+    return NextResponse.json(
+      {
+        error: errorMessage,
+        value: 0,
+        status: 'safe' as const,
+        historicalAvg: 0.3,
+        warningLevel: 0.3,
+        dangerLevel: 0.5,
+        timestamp: new Date().toISOString(),
+        description: 'Sahm Rule - 3-month unemployment average vs. its 12-month low',
+      },
+      { status: 200 }
+    );
+  }
+}
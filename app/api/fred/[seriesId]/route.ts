@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FredExplorerError, getExplorerSeries, parseSeriesQuery } from '@/lib/fredExplorer';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 3600; // 1 hour
+
+/**
+ * Metadata and observations of any FRED series (the API key stays on the server)
+ * ?start=YYYY-MM-DD&end=YYYY-MM-DD&frequency=d|w|m|q|a
+ * frequency aggregates to a lower frequency by averaging.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ seriesId: string }> }
+) {
+  const { seriesId } = await params;
+
+  try {
+    const series = await getExplorerSeries(seriesId, parseSeriesQuery(req.nextUrl.searchParams));
+
+    return NextResponse.json(series, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=7200',
+      },
+    });
+  } catch (error) {
+    if (error instanceof FredExplorerError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode || 500 });
+    }
+    console.error(`Error fetching FRED series ${seriesId}:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch FRED series' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FredExplorerError, searchExplorerSeries } from '@/lib/fredExplorer';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 3600; // 1 hour
+
+/**
+ * Search FRED series by keyword
+ * ?q=unemployment&limit=20 (most popular first, at most 50)
+ */
+export async function GET(req: NextRequest) {
+  const searchParams = req.nextUrl.searchParams;
+  const query = searchParams.get('q') || '';
+  const limit = parseInt(searchParams.get('limit') || '20', 10);
+
+  try {
+    const results = await searchExplorerSeries(query, limit);
+
+    return NextResponse.json(
+      { query, results },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=7200',
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof FredExplorerError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode || 500 });
+    }
+    console.error('Error searching FRED series:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to search FRED series' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CandleError, DEFAULT_CANDLE_WINDOW_MS, getCandles, isCandleResolution } from '@/lib/candles';
+import { AssetClass } from '@/lib/api/marketDataProviders';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 60;
+
+const INDEX_SYMBOLS = ['SP500', 'DOW', 'NASDAQ', 'VIX'];
+const CANDLE_ASSET_CLASSES: AssetClass[] = ['index', 'stock', 'crypto'];
+
+/**
+ * Parse a from/to parameter: unix seconds or an ISO date
+ */
+function parseTime(value: string | null, fallback: Date): Date {
+  if (!value) return fallback;
+  return /^\d+$/.test(value) ? new Date(parseInt(value, 10) * 1000) : new Date(value);
+}
+
+/**
+ * OHLCV candles for a symbol
+ * ?resolution=1|5|60|D|W&from=&to=&assetClass=index|stock|crypto
+ * from/to accept unix seconds or ISO dates; to defaults to now and from to
+ * a window that suits the resolution. Index symbols (SP500, DOW, NASDAQ,
+ * VIX) default to assetClass=index, everything else to stock.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ symbol: string }> }
+) {
+  const { symbol } = await params;
+  const searchParams = req.nextUrl.searchParams;
+  const resolution = searchParams.get('resolution') || 'D';
+  const upperSymbol = symbol.toUpperCase();
+  const assetClass = (searchParams.get('assetClass') ||
+    (INDEX_SYMBOLS.includes(upperSymbol) ? 'index' : 'stock')) as AssetClass;
+
+  if (!isCandleResolution(resolution)) {
+    return NextResponse.json(
+      { error: 'resolution must be one of 1, 5, 60, D, W' },
+      { status: 400 }
+    );
+  }
+  if (!CANDLE_ASSET_CLASSES.includes(assetClass)) {
+    return NextResponse.json(
+      { error: `assetClass must be one of ${CANDLE_ASSET_CLASSES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const to = parseTime(searchParams.get('to'), new Date());
+  const from = parseTime(searchParams.get('from'), new Date(to.getTime() - DEFAULT_CANDLE_WINDOW_MS[resolution]));
+
+  try {
+    const series = await getCandles(upperSymbol, assetClass, resolution, from, to);
+    const maxAge = resolution === 'D' || resolution === 'W' ? 300 : 60;
+
+    return NextResponse.json(series, {
+      headers: {
+        'Cache-Control': `public, s-maxage=${maxAge}, stale-while-revalidate=${maxAge * 2}`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof CandleError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode || 500 });
+    }
+    console.error(`Error fetching candles for ${upperSymbol}:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch candles' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWatchlistQuotes } from '@/lib/api/marketSnapshot';
+import { normalizeWatchlistItems } from '@/lib/data/watchlists';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 30;
+
+/**
+ * Quotes for one watchlist's symbols (same limits as a stored watchlist)
+ * ?symbols=stock:AAPL,crypto:BTC,commodity:GOLD
+ */
+export async function GET(req: NextRequest) {
+  const param = req.nextUrl.searchParams.get('symbols') || '';
+  const requested = param
+    .split(',')
+    .filter(Boolean)
+    .map((entry) => {
+      const [assetClass, symbol] = entry.split(':');
+      return { assetClass, symbol };
+    });
+
+  const { items, errors } = normalizeWatchlistItems(requested);
+  if (requested.length === 0 || errors.length > 0) {
+    return NextResponse.json(
+      { error: errors.length > 0 ? errors.join('; ') : 'symbols is required (e.g. stock:AAPL,crypto:BTC)' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const quotes = await getWatchlistQuotes(items);
+    return NextResponse.json(
+      { quotes },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=30, stale-while-revalidate=60',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error fetching watchlist quotes:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch quotes' },
+      { status: 500 }
+    );
+  }
+}
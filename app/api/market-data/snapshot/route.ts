@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getMarketSnapshot } from '@/lib/api/marketSnapshot';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 30;
+
+export async function GET() {
+  try {
+    const snapshot = await getMarketSnapshot();
+    return NextResponse.json(snapshot, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=30, stale-while-revalidate=60',
+      },
+    });
+  } catch (error) {
+    console.error('Error building market snapshot:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch market snapshot' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getVixTermStructure, VixTermStructureError } from '@/lib/vixTermStructure';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 900; // 15 minutes
+
+/**
+ * Latest VIX term structure (VIX9D, VIX, VIX3M, VIX6M), its contango /
+ * backwardation state and a year of VIX / VIX3M history
+ */
+export async function GET() {
+  try {
+    const data = await getVixTermStructure();
+    return NextResponse.json(data, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=900, stale-while-revalidate=1800',
+      },
+    });
+  } catch (error) {
+    if (error instanceof VixTermStructureError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode || 500 });
+    }
+    console.error('Error loading VIX term structure:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load VIX term structure' },
+      { status: 500 }
+    );
+  }
+}
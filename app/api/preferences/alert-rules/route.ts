@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AlertRuleError,
+  createAlertRule,
+  deleteAlertRule,
+  getSubscriberIdByToken,
+  updateAlertRule,
+} from '@/lib/alertRules';
+
+export const dynamic = 'force-dynamic';
+
+// Rules belong to the subscriber whose token is sent in x-subscriber-token
+function requireSubscriber(req: NextRequest): Promise<string> {
+  return getSubscriberIdByToken(req.headers.get('x-subscriber-token'));
+}
+
+/**
+ * Map alert rule errors to responses (statusCode for rule errors, 500 otherwise)
+ */
+function errorResponse(error: unknown, fallback: string): NextResponse {
+  if (error instanceof AlertRuleError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode || 400 });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+const noStore = { 'Cache-Control': 'private, no-store' };
+
+// Create rule: { target, direction, warning, critical, enabled?, description? }
+export async function POST(req: NextRequest) {
+  try {
+    const subscriberId = await requireSubscriber(req);
+
+    const rule = await createAlertRule(subscriberId, await req.json());
+
+    return NextResponse.json({ rule }, { headers: noStore });
+  } catch (error) {
+    return errorResponse(error, 'Failed to create alert rule');
+  }
+}
+
+// Replace a rule's settings: { id, target, direction, warning, critical, enabled, description }
+export async function PATCH(req: NextRequest) {
+  try {
+    const subscriberId = await requireSubscriber(req);
+
+    const { id, ...input } = await req.json();
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Alert rule id is required' },
+        { status: 400 }
+      );
+    }
+
+    const rule = await updateAlertRule(subscriberId, id, input);
+
+    return NextResponse.json({ rule }, { headers: noStore });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update alert rule');
+  }
+}
+
+// Delete rule
+export async function DELETE(req: NextRequest) {
+  try {
+    const subscriberId = await requireSubscriber(req);
+
+    const id = req.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Alert rule id is required' },
+        { status: 400 }
+      );
+    }
+
+    await deleteAlertRule(subscriberId, id);
+
+    return NextResponse.json({ deleted: id }, { headers: noStore });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete alert rule');
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AlertRuleError,
+  getAlertRules,
+  getSubscriberIdByToken,
+  getSubscriberPreferences,
+  updateSubscriberPreferences,
+} from '@/lib/alertRules';
+
+export const dynamic = 'force-dynamic';
+
+// Preferences belong to the subscriber whose token is sent in x-subscriber-token
+function requireSubscriber(req: NextRequest): Promise<string> {
+  return getSubscriberIdByToken(req.headers.get('x-subscriber-token'));
+}
+
+/**
+ * Map alert rule errors to responses (statusCode for rule errors, 500 otherwise)
+ */
+function errorResponse(error: unknown, fallback: string): NextResponse {
+  if (error instanceof AlertRuleError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode || 400 });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+const noStore = { 'Cache-Control': 'private, no-store' };
+
+// Subscription settings and alert rules
+export async function GET(req: NextRequest) {
+  try {
+    const subscriberId = await requireSubscriber(req);
+
+    const [preferences, rules] = await Promise.all([
+      getSubscriberPreferences(subscriberId),
+      getAlertRules(subscriberId),
+    ]);
+    return NextResponse.json({ preferences, rules }, { headers: noStore });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch preferences');
+  }
+}
+
+// Update alertSubscription / newsletterWeekly / newsletterMonthly
+export async function PATCH(req: NextRequest) {
+  try {
+    const subscriberId = await requireSubscriber(req);
+
+    const { alertSubscription, newsletterWeekly, newsletterMonthly } = await req.json();
+    const preferences = await updateSubscriberPreferences(subscriberId, {
+      alertSubscription,
+      newsletterWeekly,
+      newsletterMonthly,
+    });
+
+    return NextResponse.json({ preferences }, { headers: noStore });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update preferences');
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteMockSubscription, getMockMessages, receiveMockPush } from '@/lib/mockPushService';
+import { WebPushError } from '@/lib/webPush';
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: unknown, fallback: string): NextResponse {
+  if (error instanceof WebPushError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode || 500 });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// Push message delivery, as to a browser vendor's push service
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const body = Buffer.from(await req.arrayBuffer());
+    receiveMockPush(id, req.headers, body);
+    return new NextResponse(null, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to receive push message');
+  }
+}
+
+// Messages received, decrypted, newest first
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    return NextResponse.json({ messages: getMockMessages(id) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to read push messages');
+  }
+}
+
+// Expire the subscription; later deliveries get 410 Gone
+export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    deleteMockSubscription(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete mock subscription');
+  }
+}
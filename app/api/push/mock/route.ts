@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createMockSubscription } from '@/lib/mockPushService';
+import { WebPushError } from '@/lib/webPush';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Create a mock browser subscription for testing push delivery
+ * Store the returned subscription with POST /api/push/subscriptions, then
+ * read what it received from GET /api/push/mock/<id>.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    return NextResponse.json(createMockSubscription(req.nextUrl.origin), { status: 201 });
+  } catch (error) {
+    if (error instanceof WebPushError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode || 500 });
+    }
+    console.error('Failed to create mock subscription:', error);
+    return NextResponse.json({ error: 'Failed to create mock subscription' }, { status: 500 });
+  }
+}
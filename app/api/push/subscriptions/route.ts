@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deletePushSubscription, getPushSubscription, savePushSubscription, WebPushError } from '@/lib/webPush';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Map web push errors to responses (statusCode for push errors, 500 otherwise)
+ */
+function errorResponse(error: unknown, fallback: string): NextResponse {
+  if (error instanceof WebPushError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode || 400 });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+const noStore = { 'Cache-Control': 'private, no-store' };
+
+// The endpoint URL is only known to the browser it was issued to, so it identifies the caller
+function requireEndpoint(req: NextRequest): string {
+  const endpoint = req.nextUrl.searchParams.get('endpoint');
+  if (!endpoint) {
+    throw new WebPushError('endpoint is required', 400, 'ENDPOINT_REQUIRED');
+  }
+  return endpoint;
+}
+
+// Severities a browser's subscription receives (?endpoint=)
+export async function GET(req: NextRequest) {
+  try {
+    const subscription = await getPushSubscription(requireEndpoint(req));
+    return NextResponse.json({ subscription }, { headers: noStore });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch push subscription');
+  }
+}
+
+// Store { subscription: PushSubscription.toJSON(), severities?: ['critical', ...] }
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => {
+      throw new WebPushError('Request body must be JSON', 400, 'INVALID_SUBSCRIPTION');
+    });
+    const { subscription, severities } = body ?? {};
+    const stored = await savePushSubscription(subscription, severities, req.headers.get('user-agent'), req.nextUrl.origin);
+    return NextResponse.json({ subscription: stored }, { status: 201, headers: noStore });
+  } catch (error) {
+    return errorResponse(error, 'Failed to save push subscription');
+  }
+}
+
+// Stop sending to a browser (?endpoint=)
+export async function DELETE(req: NextRequest) {
+  try {
+    await deletePushSubscription(requireEndpoint(req));
+    return NextResponse.json({ success: true }, { headers: noStore });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete push subscription');
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sendTestNotification, WebPushError } from '@/lib/webPush';
+
+export const dynamic = 'force-dynamic';
+
+// Send a test notification to the caller's own subscription ({ endpoint })
+export async function POST(req: NextRequest) {
+  try {
+    const { endpoint } = await req.json();
+    if (typeof endpoint !== 'string') {
+      throw new WebPushError('endpoint is required', 400, 'ENDPOINT_REQUIRED');
+    }
+
+    await sendTestNotification(endpoint);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof WebPushError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode || 400 });
+    }
+    console.error('Failed to send test notification:', error);
+    return NextResponse.json({ error: 'Failed to send test notification' }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { getVapidKeys, WebPushError } from '@/lib/webPush';
+
+export const dynamic = 'force-dynamic';
+
+// Public VAPID key browsers subscribe with (applicationServerKey)
+export async function GET() {
+  try {
+    const { publicKey } = getVapidKeys();
+    return NextResponse.json({ publicKey }, { headers: { 'Cache-Control': 'private, no-store' } });
+  } catch (error) {
+    if (error instanceof WebPushError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode || 500 });
+    }
+    console.error('Failed to read VAPID key:', error);
+    return NextResponse.json({ error: 'Failed to read VAPID key' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest } from 'next/server';
+import { StreamEvent, subscribeToStream } from '@/lib/stream';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+// Connections end when the function times out; EventSource reconnects
+export const maxDuration = 300;
+
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Server-Sent Events stream of quote, indicator, crash-score and alert events
+ */
+export async function GET(req: NextRequest) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const send = (event: StreamEvent) => {
+        write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+      };
+
+      // Reconnect after 5 seconds if the connection drops
+      write('retry: 5000\n\n');
+
+      const unsubscribe = subscribeToStream(send);
+      const heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      req.signal.addEventListener('abort', () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -75,12 +75,13 @@ export async function POST(req: NextRequest) {
     // Create new subscriber
     const verificationToken = emailService.generateToken();
     const unsubscribeToken = emailService.generateToken();
+    const preferencesToken = emailService.generateToken();
 
     const result = await db.query(
       `INSERT INTO subscribers 
        (email, alert_subscription, newsletter_weekly, newsletter_monthly, 
-        verification_token, unsubscribe_token, status)
-       VALUES ($1, $2, $3, $4, $5, $6, 'active')
+        verification_token, unsubscribe_token, preferences_token, status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, 'active')
        RETURNING id`,
       [
         email,
@@ -89,6 +90,7 @@ export async function POST(req: NextRequest) {
         monthlyNewsletter,
         verificationToken,
         unsubscribeToken,
+        preferencesToken,
       ]
     );
 
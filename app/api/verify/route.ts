@@ -49,7 +49,7 @@ export async function GET(req: NextRequest) {
 
     // Send welcome email
     try {
-      await emailService.sendWelcomeEmail(subscriber.email, subscriber.unsubscribe_token);
+      await emailService.sendWelcomeEmail(subscriber.email, subscriber.unsubscribe_token, subscriber.preferences_token);
       
       // Log welcome email sent
       await db.query(
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getSubscriberIdByToken,
+  getWatchlists,
+  createWatchlist,
+  updateWatchlist,
+  deleteWatchlist,
+  WatchlistError,
+} from '@/lib/watchlists';
+
+export const dynamic = 'force-dynamic';
+
+// Watchlists belong to the subscriber whose token is sent in x-subscriber-token
+function requireSubscriber(req: NextRequest): Promise<string> {
+  return getSubscriberIdByToken(req.headers.get('x-subscriber-token'));
+}
+
+/**
+ * Map watchlist errors to responses (statusCode for watchlist errors, 500 otherwise)
+ */
+function errorResponse(error: unknown, fallback: string): NextResponse {
+  if (error instanceof WatchlistError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode || 400 });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+const noStore = { 'Cache-Control': 'private, no-store' };
+
+export async function GET(req: NextRequest) {
+  try {
+    const subscriberId = await requireSubscriber(req);
+
+    const watchlists = await getWatchlists(subscriberId);
+    return NextResponse.json({ watchlists }, { headers: noStore });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch watchlists');
+  }
+}
+
+// Create watchlist
+export async function POST(req: NextRequest) {
+  try {
+    const subscriberId = await requireSubscriber(req);
+
+    const { name, items } = await req.json();
+    const watchlist = await createWatchlist(subscriberId, name, items);
+
+    return NextResponse.json({ watchlist }, { headers: noStore });
+  } catch (error) {
+    return errorResponse(error, 'Failed to create watchlist');
+  }
+}
+
+// Rename watchlist and/or replace its symbols
+export async function PATCH(req: NextRequest) {
+  try {
+    const subscriberId = await requireSubscriber(req);
+
+    const { id, name, items } = await req.json();
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Watchlist id is required' },
+        { status: 400 }
+      );
+    }
+
+    const watchlist = await updateWatchlist(subscriberId, id, { name, items });
+
+    return NextResponse.json({ watchlist }, { headers: noStore });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update watchlist');
+  }
+}
+
+// Delete watchlist
+export async function DELETE(req: NextRequest) {
+  try {
+    const subscriberId = await requireSubscriber(req);
+
+    const id = req.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Watchlist id is required' },
+        { status: 400 }
+      );
+    }
+
+    await deleteWatchlist(subscriberId, id);
+
+    return NextResponse.json({ deleted: id }, { headers: noStore });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete watchlist');
+  }
+}
@@ -0,0 +1,327 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { ThemeToggle } from '@/components/theme-toggle';
+import { Navbar } from '@/components/layout/navbar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { SeriesExplorerChart } from '@/components/charts/series-explorer-chart';
+import { useFredSearch, useFredSeries } from '@/hooks/use-fred-series';
+import {
+  applySeriesTransform,
+  decodeExplorerConfig,
+  DEFAULT_MA_WINDOW,
+  encodeExplorerConfig,
+  ExplorerConfig,
+  ExplorerSeriesConfig,
+  getSeriesLabel,
+  MAX_EXPLORER_SERIES,
+  mergeSeries,
+  SERIES_TRANSFORMS,
+  SeriesTransform,
+} from '@/lib/seriesTransforms';
+import { cn } from '@/lib/utils';
+
+const inputClassName =
+  'px-3 py-1.5 border border-input rounded-md text-sm bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50';
+
+const SERIES_COLORS = ['#3b82f6', '#ef4444', '#22c55e', '#eab308', '#a855f7', '#06b6d4'];
+
+/**
+ * Chart shown when the URL has no series
+ */
+const DEFAULT_CONFIG: ExplorerConfig = {
+  series: [
+    { id: 'UNRATE', transform: 'none' },
+    { id: 'T10Y3M', transform: 'none' },
+  ],
+};
+
+/**
+ * Start-date presets in years (null charts the full history)
+ */
+const RANGES: Array<{ label: string; years: number | null }> = [
+  { label: '5Y', years: 5 },
+  { label: '10Y', years: 10 },
+  { label: '20Y', years: 20 },
+  { label: 'Max', years: null },
+];
+
+function rangeStart(years: number | null): string | undefined {
+  return years === null ? undefined : `${new Date().getFullYear() - years}-01-01`;
+}
+
+function seriesKey(config: ExplorerSeriesConfig): string {
+  return `${config.id}:${config.transform}:${config.window ?? ''}`;
+}
+
+function ExplorerContent() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const config = searchParams.has('series') ? decodeExplorerConfig(searchParams) : DEFAULT_CONFIG;
+
+  const [searchText, setSearchText] = useState('');
+  const [submittedQuery, setSubmittedQuery] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const search = useFredSearch(submittedQuery);
+  const { data: seriesData, errors, isLoading } = useFredSeries(
+    config.series.map((series) => series.id),
+    config.start
+  );
+
+  // The URL is the chart configuration, so every change is shareable
+  const updateConfig = (next: ExplorerConfig) => {
+    setCopied(false);
+    router.replace(`${pathname}?${encodeExplorerConfig(next).toString()}`, { scroll: false });
+  };
+
+  const addSeries = (id: string) => {
+    if (config.series.length >= MAX_EXPLORER_SERIES || config.series.some((series) => series.id === id)) return;
+    updateConfig({ ...config, series: [...config.series, { id, transform: 'none' }] });
+  };
+
+  const updateSeries = (index: number, changes: Partial<ExplorerSeriesConfig>) => {
+    updateConfig({
+      ...config,
+      series: config.series.map((series, i) => (i === index ? { ...series, ...changes } : series)),
+    });
+  };
+
+  const removeSeries = (index: number) => {
+    updateConfig({ ...config, series: config.series.filter((_, i) => i !== index) });
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+    }
+  };
+
+  const chartSeries = config.series
+    .filter((series) => seriesData[series.id])
+    .map((series) => {
+      const index = config.series.indexOf(series);
+      const { info } = seriesData[series.id];
+      return {
+        key: seriesKey(series),
+        name: getSeriesLabel(series),
+        color: SERIES_COLORS[index % SERIES_COLORS.length],
+        unit: series.transform === 'none' || series.transform === 'ma' ? info.unitsShort : undefined,
+        observations: applySeriesTransform(seriesData[series.id].observations, series.transform, series.window),
+      };
+    });
+  const chartData = mergeSeries(chartSeries);
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-6xl space-y-6">
+      <div>
+        <h1 className="text-4xl font-bold mb-2">FRED Series Explorer</h1>
+        <p className="text-slate-400 text-sm lg:text-base">
+          Search any FRED series, overlay up to {MAX_EXPLORER_SERIES} on independent axes and apply
+          transforms. The link in your address bar always reproduces the current chart.
+        </p>
+      </div>
+
+      {/* Search */}
+      <Card className="bg-slate-800/50 border-slate-700">
+        <CardHeader>
+          <CardTitle>Add Series</CardTitle>
+          <CardDescription>Search by keyword (e.g. &quot;unemployment&quot;, &quot;mortgage rate&quot;) or enter a series ID</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            className="flex flex-wrap gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setSubmittedQuery(searchText);
+            }}
+          >
+            <input
+              type="text"
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              placeholder="Search FRED"
+              className={cn(inputClassName, 'w-64')}
+              aria-label="Search FRED series"
+            />
+            <Button type="submit" size="sm" disabled={searchText.trim().length < 2}>
+              Search
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              disabled={!searchText.trim() || config.series.length >= MAX_EXPLORER_SERIES}
+              onClick={() => addSeries(searchText.trim().toUpperCase())}
+            >
+              Add as ID
+            </Button>
+          </form>
+
+          {search.error && <p className="text-sm text-red-400">{search.error.message}</p>}
+          {search.isLoading && <Skeleton className="h-24 w-full" />}
+          {search.data && search.data.length === 0 && (
+            <p className="text-sm text-slate-400">No series match &quot;{submittedQuery}&quot;.</p>
+          )}
+          {search.data && search.data.length > 0 && (
+            <ul className="max-h-72 divide-y divide-slate-700 overflow-y-auto rounded-md border border-slate-700">
+              {search.data.map((result) => (
+                <li key={result.id} className="flex items-center justify-between gap-4 px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm text-white">{result.title}</p>
+                    <p className="text-xs text-slate-400">
+                      {result.id} · {result.frequency} · {result.unitsShort} · {result.seasonalAdjustment} ·{' '}
+                      {result.observationStart.slice(0, 4)}–{result.observationEnd.slice(0, 4)}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={
+                      config.series.length >= MAX_EXPLORER_SERIES ||
+                      config.series.some((series) => series.id === result.id)
+                    }
+                    onClick={() => addSeries(result.id)}
+                  >
+                    Add
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Chart */}
+      <Card className="bg-slate-800/50 border-slate-700">
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle>Chart</CardTitle>
+            <CardDescription>Each series is drawn against its own axis, in its own color</CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {RANGES.map((range) => (
+              <Button
+                key={range.label}
+                size="sm"
+                variant={config.start === rangeStart(range.years) ? 'default' : 'outline'}
+                onClick={() => updateConfig({ ...config, start: rangeStart(range.years) })}
+              >
+                {range.label}
+              </Button>
+            ))}
+            <Button size="sm" variant="outline" onClick={handleCopyLink}>
+              {copied ? 'Link copied' : 'Copy link'}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {config.series.length === 0 ? (
+            <p className="text-sm text-slate-400">Add a series to start charting.</p>
+          ) : (
+            <>
+              {/* Series controls */}
+              <div className="space-y-2">
+                {config.series.map((series, i) => {
+                  const info = seriesData[series.id]?.info;
+                  const error = errors[series.id];
+                  return (
+                    <div key={seriesKey(series)} className="flex flex-wrap items-center gap-2">
+                      <span
+                        className="h-3 w-3 rounded-full"
+                        style={{ backgroundColor: SERIES_COLORS[i % SERIES_COLORS.length] }}
+                      />
+                      <Badge variant="outline">{series.id}</Badge>
+                      <span className={cn('min-w-0 flex-1 truncate text-sm', error ? 'text-red-400' : 'text-slate-300')}>
+                        {error ? error.message : info ? `${info.title} (${info.unitsShort})` : 'Loading…'}
+                      </span>
+                      <select
+                        value={series.transform}
+                        onChange={(e) => {
+                          const transform = e.target.value as SeriesTransform;
+                          updateSeries(i, { transform, window: transform === 'ma' ? DEFAULT_MA_WINDOW : undefined });
+                        }}
+                        className={inputClassName}
+                        aria-label={`Transform for ${series.id}`}
+                      >
+                        {SERIES_TRANSFORMS.map((transform) => (
+                          <option key={transform.value} value={transform.value}>
+                            {transform.label}
+                          </option>
+                        ))}
+                      </select>
+                      {series.transform === 'ma' && (
+                        <input
+                          type="number"
+                          min={1}
+                          max={520}
+                          value={series.window ?? DEFAULT_MA_WINDOW}
+                          onChange={(e) => {
+                            const window = parseInt(e.target.value, 10);
+                            if (window >= 1 && window <= 520) updateSeries(i, { window });
+                          }}
+                          className={cn(inputClassName, 'w-20')}
+                          aria-label={`Moving average window for ${series.id}`}
+                        />
+                      )}
+                      <Button size="sm" variant="ghost" onClick={() => removeSeries(i)} aria-label={`Remove ${series.id}`}>
+                        ✕
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {isLoading && chartSeries.length === 0 ? (
+                <Skeleton className="h-[420px] w-full" />
+              ) : (
+                <SeriesExplorerChart data={chartData} series={chartSeries} />
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <p className="text-xs text-slate-500">
+        Data: Federal Reserve Bank of St. Louis (FRED). Moving averages count observations, so a 12-point
+        average is a year of a monthly series; z-scores use the charted window.
+      </p>
+    </main>
+  );
+}
+
+export default function ExplorePage() {
+  return (
+    <div className="min-h-screen bg-white dark:bg-slate-900 text-slate-900 dark:text-white">
+      {/* Header */}
+      <header className="bg-slate-800 border-b border-slate-700 p-6 sticky top-0 z-40">
+        <div className="mx-auto max-w-7xl flex justify-between items-center">
+          <Link href="/">
+            <h1 className="text-3xl font-bold text-white hover:text-slate-200 transition-colors cursor-pointer">
+              📊 Market Crash Monitor
+            </h1>
+          </Link>
+
+          <ThemeToggle />
+        </div>
+      </header>
+
+      {/* Navigation Bar */}
+      <Navbar />
+
+      {/* useSearchParams needs a Suspense boundary */}
+      <Suspense fallback={<div className="container mx-auto px-4 py-8 max-w-6xl"><Skeleton className="h-96 w-full" /></div>}>
+        <ExplorerContent />
+      </Suspense>
+    </div>
+  );
+}
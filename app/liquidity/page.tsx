@@ -0,0 +1,203 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { ThemeToggle } from '@/components/theme-toggle';
+import { Navbar } from '@/components/layout/navbar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { NetLiquidityChart } from '@/components/charts/net-liquidity-chart';
+import { RateOfChangeChart } from '@/components/charts/rate-of-change-chart';
+import { useLiquidity } from '@/hooks/use-liquidity';
+import { cn } from '@/lib/utils';
+
+/**
+ * Chart ranges in weeks (null shows the whole history)
+ */
+const RANGES: Array<{ label: string; weeks: number | null }> = [
+  { label: '1Y', weeks: 52 },
+  { label: '3Y', weeks: 156 },
+  { label: '5Y', weeks: 260 },
+  { label: 'Max', weeks: null },
+];
+
+/**
+ * Format billions of dollars (e.g. $6.7T, $450B)
+ */
+function formatBillions(value: number): string {
+  return value >= 1000 ? `$${(value / 1000).toFixed(2)}T` : `$${value.toFixed(0)}B`;
+}
+
+function formatSigned(value: number, suffix: string = ''): string {
+  return `${value > 0 ? '+' : ''}${value.toFixed(suffix === '%' ? 2 : 0)}${suffix}`;
+}
+
+export default function LiquidityPage() {
+  const { data: report, isLoading, error } = useLiquidity();
+  const [range, setRange] = useState<number | null>(156);
+
+  const history = report ? (range === null ? report.history : report.history.slice(-range)) : [];
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-slate-900 text-slate-900 dark:text-white">
+      {/* Header */}
+      <header className="bg-slate-800 border-b border-slate-700 p-6 sticky top-0 z-40">
+        <div className="mx-auto max-w-7xl flex justify-between items-center">
+          <Link href="/">
+            <h1 className="text-3xl font-bold text-white hover:text-slate-200 transition-colors cursor-pointer">
+              📊 Market Crash Monitor
+            </h1>
+          </Link>
+          
+          <ThemeToggle />
+        </div>
+      </header>
+
+      {/* Navigation Bar */}
+      <Navbar />
+
+      <main className="container mx-auto px-4 py-8 max-w-6xl space-y-6">
+        <div>
+          <h1 className="text-4xl font-bold mb-2">Liquidity &amp; Financial Conditions</h1>
+          <p className="text-slate-400 text-sm lg:text-base">
+            Fed balance sheet, Treasury General Account and overnight reverse repo from FRED.
+            Net liquidity is Fed total assets minus the TGA and reverse repo balances.
+          </p>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-red-500/50 bg-red-500/10 p-4">
+            <p className="text-red-400">Error loading liquidity data: {error.message}</p>
+          </div>
+        )}
+
+        {isLoading && (
+          <div className="space-y-4">
+            <Skeleton className="h-28 w-full" />
+            <Skeleton className="h-96 w-full" />
+          </div>
+        )}
+
+        {report && (
+          <>
+            {/* Latest readings */}
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+              {[
+                { label: 'Net liquidity', value: formatBillions(report.latest.netLiquidity) },
+                { label: 'Fed total assets', value: formatBillions(report.latest.fedAssets) },
+                { label: 'Treasury General Account', value: formatBillions(report.latest.tga) },
+                { label: 'Reverse repo', value: formatBillions(report.latest.rrp) },
+              ].map((stat) => (
+                <Card key={stat.label} className="bg-slate-800/50 border-slate-700">
+                  <CardContent className="pt-6">
+                    <p className="text-xs text-slate-400">{stat.label}</p>
+                    <p className="text-2xl font-bold text-white">{stat.value}</p>
+                  </CardContent>
+                </Card>
+              ))}
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardContent className="pt-6">
+                  <p className="text-xs text-slate-400">Chicago Fed NFCI</p>
+                  {report.nfci ? (
+                    <div className="flex items-baseline gap-2">
+                      <p className="text-2xl font-bold text-white">{report.nfci.value.toFixed(2)}</p>
+                      <Badge
+                        variant="outline"
+                        className={cn(
+                          'text-xs',
+                          report.nfci.conditions === 'tighter'
+                            ? 'text-red-400 border-red-500/50'
+                            : 'text-green-400 border-green-500/50'
+                        )}
+                      >
+                        {report.nfci.conditions}
+                      </Badge>
+                    </div>
+                  ) : (
+                    <p className="text-2xl font-bold text-white">—</p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <p className="text-sm text-slate-400">
+              Week of {format(new Date(report.latest.date), 'MMM d, yyyy')}.{' '}
+              {report.changes.map((change, i) => (
+                <span key={change.weeks}>
+                  {i > 0 && ' · '}
+                  {change.weeks} weeks:{' '}
+                  <span className={change.change < 0 ? 'text-red-400' : 'text-green-400'}>
+                    {formatSigned(change.change, 'B')} ({formatSigned(change.percent, '%')})
+                  </span>
+                </span>
+              ))}
+            </p>
+
+            {/* Range selector */}
+            <div className="flex gap-2">
+              {RANGES.map((option) => (
+                <Button
+                  key={option.label}
+                  size="sm"
+                  variant={range === option.weeks ? 'default' : 'outline'}
+                  onClick={() => setRange(option.weeks)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader>
+                <CardTitle>Net Liquidity</CardTitle>
+                <CardDescription>Weekly Wednesday levels (WALCL − WTREGEN − RRPONTSYD)</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <NetLiquidityChart data={history} />
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardHeader>
+                  <CardTitle>Net Liquidity Rate of Change</CardTitle>
+                  <CardDescription>Percent change over 4 and 13 weeks</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <RateOfChangeChart
+                    data={history.map((point) => ({
+                      date: point.date,
+                      change4w: point.change4w,
+                      change13w: point.change13w,
+                    }))}
+                    series={[
+                      { key: 'change4w', name: '4 weeks', color: '#3b82f6' },
+                      { key: 'change13w', name: '13 weeks', color: '#22c55e' },
+                    ]}
+                  />
+                </CardContent>
+              </Card>
+
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardHeader>
+                  <CardTitle>Financial Conditions (NFCI)</CardTitle>
+                  <CardDescription>Above zero is tighter than average, below zero looser</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <RateOfChangeChart
+                    data={history.map((point) => ({ date: point.date, nfci: point.nfci }))}
+                    series={[{ key: 'nfci', name: 'NFCI', color: '#eab308' }]}
+                    unit=""
+                  />
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -2,24 +2,42 @@
 
 import { useMarketData } from '@/hooks/use-market-data';
 import { useEconomicIndicators } from '@/hooks/use-economic-indicators';
+import { useLiveUpdates } from '@/hooks/use-live-updates';
 import { KPICard } from '@/components/dashboard/kpi-card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { IndicatorGrid } from '@/components/dashboard/indicator-grid';
+import { WatchlistPanel } from '@/components/dashboard/watchlist-panel';
+import { MarketRegimePanel } from '@/components/dashboard/market-regime-panel';
+import { VixTermStructureCard } from '@/components/dashboard/vix-term-structure-card';
 import { AlertTopBar } from '@/components/alert-top-bar';
 import { ThemeToggle } from '@/components/theme-toggle';
 import { Navbar } from '@/components/layout/navbar';
 import { NewsFeed } from '@/components/news/news-feed';
 import { EnhancedCrashRiskCard } from '@/src/components/enhanced-crash-risk-card';
+import { CrashRiskHistoryChart } from '@/src/components/crash-risk-history-chart';
 import MarketSentiment from '@/components/MarketSentiment';
 import HighImpactNews from '@/components/HighImpactNews';
 import Link from 'next/link';
+import { MarketDataResponse } from '@/lib/api/marketData';
+
+/**
+ * Note for index levels estimated from an ETF proxy (null for direct quotes)
+ */
+function estimatedIndexNote(data: MarketDataResponse): string | null {
+  if (data.valueSource !== 'estimated' || !data.proxySymbol || !data.calibrationRatio) {
+    return null;
+  }
+  const ratio = `${data.proxySymbol} × ${data.calibrationRatio.toFixed(2)}`;
+  return data.calibrationDate ? `Est. from ${ratio} (calibrated ${data.calibrationDate})` : `Est. from ${ratio} (uncalibrated)`;
+}
 
 export default function MarketCrashDashboard() {
   // Fetch real market data
   const { data: marketData, isLoading: isMarketDataLoading, error: marketDataError } = useMarketData();
   const { data: economicIndicators } = useEconomicIndicators();
+  const { status: streamStatus, alerts: liveAlerts } = useLiveUpdates();
 
   const isLoading = isMarketDataLoading;
   const error = marketDataError;
@@ -44,7 +62,7 @@ export default function MarketCrashDashboard() {
 
       {/* Alert Top Bar - Positioned right below navigation */}
       <div className="sticky top-[150px] z-30 w-full">
-        <AlertTopBar indicators={economicIndicators} />
+        <AlertTopBar indicators={economicIndicators} liveAlerts={liveAlerts} />
       </div>
 
       {/* Main Content */}
@@ -85,8 +103,14 @@ export default function MarketCrashDashboard() {
               {/* Market Status - S&P 500, Dow Jones, Nasdaq */}
               <Card className="bg-slate-800/50 backdrop-blur-sm md:col-span-3">
                 <CardHeader>
-                  <CardTitle className="text-sm font-medium text-muted-foreground">
+                  <CardTitle className="flex items-center justify-between text-sm font-medium text-muted-foreground">
                     Market Status
+                    <span className="flex items-center gap-1.5 text-xs font-normal">
+                      <span
+                        className={`h-2 w-2 rounded-full ${streamStatus === 'live' ? 'bg-green-500' : 'bg-slate-500'}`}
+                      />
+                      {streamStatus === 'live' ? 'Live' : 'Updating every 30s'}
+                    </span>
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
@@ -116,6 +140,9 @@ export default function MarketCrashDashboard() {
                         )}
                       </div>
                       <p className="text-sm text-muted-foreground mt-1">S&P 500</p>
+                      {estimatedIndexNote(marketData.sp500) && (
+                        <p className="text-xs text-muted-foreground">{estimatedIndexNote(marketData.sp500)}</p>
+                      )}
                     </div>
 
                     {/* Dow Jones 30 */}
@@ -142,6 +169,9 @@ export default function MarketCrashDashboard() {
                         )}
                       </div>
                       <p className="text-sm text-muted-foreground mt-1">Dow Jones 30</p>
+                      {estimatedIndexNote(marketData.dowjones) && (
+                        <p className="text-xs text-muted-foreground">{estimatedIndexNote(marketData.dowjones)}</p>
+                      )}
                     </div>
 
                     {/* Nasdaq 100 */}
@@ -168,422 +198,23 @@ export default function MarketCrashDashboard() {
                         )}
                       </div>
                       <p className="text-sm text-muted-foreground mt-1">Nasdaq 100</p>
+                      {estimatedIndexNote(marketData.nasdaq) && (
+                        <p className="text-xs text-muted-foreground">{estimatedIndexNote(marketData.nasdaq)}</p>
+                      )}
                     </div>
                   </div>
 
-                  {/* Stocks Section */}
-                  <div>
-                    <h3 className="text-sm font-semibold text-muted-foreground mb-4">Major Stocks</h3>
-                    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-                      {/* Alphabet (GOOGL) */}
-                      <div>
-                        <div className="flex items-baseline gap-2 flex-wrap">
-                          <span className="text-xl font-bold text-foreground">
-                            {marketData.stocks.alphabet.value > 0 ? (
-                              `$${marketData.stocks.alphabet.value.toLocaleString('en-US', {
-                                minimumFractionDigits: 2,
-                                maximumFractionDigits: 2,
-                              })}`
-                            ) : (
-                              <span className="text-muted-foreground text-sm">Loading...</span>
-                            )}
-                          </span>
-                          {marketData.stocks.alphabet.changePercent !== undefined && marketData.stocks.alphabet.value > 0 && (
-                            <Badge
-                              variant="outline"
-                              className={`text-xs ${
-                                marketData.stocks.alphabet.changePercent >= 0
-                                  ? 'text-green-600 dark:text-green-400 border-green-500/50'
-                                  : 'text-red-600 dark:text-red-400 border-red-500/50'
-                              }`}
-                            >
-                              {marketData.stocks.alphabet.changePercent >= 0 ? '+' : ''}
-                              {marketData.stocks.alphabet.changePercent.toFixed(2)}%
-                            </Badge>
-                          )}
-                        </div>
-                        <p className="text-xs text-muted-foreground mt-1">Alphabet</p>
-                      </div>
-
-                      {/* Amazon (AMZN) */}
-                      <div>
-                        <div className="flex items-baseline gap-2 flex-wrap">
-                          <span className="text-xl font-bold text-foreground">
-                            {marketData.stocks.amazon.value > 0 ? (
-                              `$${marketData.stocks.amazon.value.toLocaleString('en-US', {
-                                minimumFractionDigits: 2,
-                                maximumFractionDigits: 2,
-                              })}`
-                            ) : (
-                              <span className="text-muted-foreground text-sm">Loading...</span>
-                            )}
-                          </span>
-                          {marketData.stocks.amazon.changePercent !== undefined && marketData.stocks.amazon.value > 0 && (
-                            <Badge
-                              variant="outline"
-                              className={`text-xs ${
-                                marketData.stocks.amazon.changePercent >= 0
-                                  ? 'text-green-600 dark:text-green-400 border-green-500/50'
-                                  : 'text-red-600 dark:text-red-400 border-red-500/50'
-                              }`}
-                            >
-                              {marketData.stocks.amazon.changePercent >= 0 ? '+' : ''}
-                              {marketData.stocks.amazon.changePercent.toFixed(2)}%
-                            </Badge>
-                          )}
-                        </div>
-                        <p className="text-xs text-muted-foreground mt-1">Amazon</p>
-                      </div>
-
-                      {/* Apple (AAPL) */}
-                      <div>
-                        <div className="flex items-baseline gap-2 flex-wrap">
-                          <span className="text-xl font-bold text-foreground">
-                            {marketData.stocks.apple.value > 0 ? (
-                              `$${marketData.stocks.apple.value.toLocaleString('en-US', {
-                                minimumFractionDigits: 2,
-                                maximumFractionDigits: 2,
-                              })}`
-                            ) : (
-                              <span className="text-muted-foreground text-sm">Loading...</span>
-                            )}
-                          </span>
-                          {marketData.stocks.apple.changePercent !== undefined && marketData.stocks.apple.value > 0 && (
-                            <Badge
-                              variant="outline"
-                              className={`text-xs ${
-                                marketData.stocks.apple.changePercent >= 0
-                                  ? 'text-green-600 dark:text-green-400 border-green-500/50'
-                                  : 'text-red-600 dark:text-red-400 border-red-500/50'
-                              }`}
-                            >
-                              {marketData.stocks.apple.changePercent >= 0 ? '+' : ''}
-                              {marketData.stocks.apple.changePercent.toFixed(2)}%
-                            </Badge>
-                          )}
-                        </div>
-                        <p className="text-xs text-muted-foreground mt-1">Apple</p>
-                      </div>
-
-                      {/* Tesla (TSLA) */}
-                      <div>
-                        <div className="flex items-baseline gap-2 flex-wrap">
-                          <span className="text-xl font-bold text-foreground">
-                            {marketData.stocks.tesla.value > 0 ? (
-                              `$${marketData.stocks.tesla.value.toLocaleString('en-US', {
-                                minimumFractionDigits: 2,
-                                maximumFractionDigits: 2,
-                              })}`
-                            ) : (
-                              <span className="text-muted-foreground text-sm">Loading...</span>
-                            )}
-                          </span>
-                          {marketData.stocks.tesla.changePercent !== undefined && marketData.stocks.tesla.value > 0 && (
-                            <Badge
-                              variant="outline"
-                              className={`text-xs ${
-                                marketData.stocks.tesla.changePercent >= 0
-                                  ? 'text-green-600 dark:text-green-400 border-green-500/50'
-                                  : 'text-red-600 dark:text-red-400 border-red-500/50'
-                              }`}
-                            >
-                              {marketData.stocks.tesla.changePercent >= 0 ? '+' : ''}
-                              {marketData.stocks.tesla.changePercent.toFixed(2)}%
-                            </Badge>
-                          )}
-                        </div>
-                        <p className="text-xs text-muted-foreground mt-1">Tesla</p>
-                      </div>
-
-                      {/* Meta Platforms (META) */}
-                      <div>
-                        <div className="flex items-baseline gap-2 flex-wrap">
-                          <span className="text-xl font-bold text-foreground">
-                            {marketData.stocks.meta.value > 0 ? (
-                              `$${marketData.stocks.meta.value.toLocaleString('en-US', {
-                                minimumFractionDigits: 2,
-                                maximumFractionDigits: 2,
-                              })}`
-                            ) : (
-                              <span className="text-muted-foreground text-sm">Loading...</span>
-                            )}
-                          </span>
-                          {marketData.stocks.meta.changePercent !== undefined && marketData.stocks.meta.value > 0 && (
-                            <Badge
-                              variant="outline"
-                              className={`text-xs ${
-                                marketData.stocks.meta.changePercent >= 0
-                                  ? 'text-green-600 dark:text-green-400 border-green-500/50'
-                                  : 'text-red-600 dark:text-red-400 border-red-500/50'
-                              }`}
-                            >
-                              {marketData.stocks.meta.changePercent >= 0 ? '+' : ''}
-                              {marketData.stocks.meta.changePercent.toFixed(2)}%
-                            </Badge>
-                          )}
-                        </div>
-                        <p className="text-xs text-muted-foreground mt-1">Meta</p>
-                      </div>
-
-                      {/* Microsoft (MSFT) */}
-                      <div>
-                        <div className="flex items-baseline gap-2 flex-wrap">
-                          <span className="text-xl font-bold text-foreground">
-                            {marketData.stocks.microsoft.value > 0 ? (
-                              `$${marketData.stocks.microsoft.value.toLocaleString('en-US', {
-                                minimumFractionDigits: 2,
-                                maximumFractionDigits: 2,
-                              })}`
-                            ) : (
-                              <span className="text-muted-foreground text-sm">Loading...</span>
-                            )}
-                          </span>
-                          {marketData.stocks.microsoft.changePercent !== undefined && marketData.stocks.microsoft.value > 0 && (
-                            <Badge
-                              variant="outline"
-                              className={`text-xs ${
-                                marketData.stocks.microsoft.changePercent >= 0
-                                  ? 'text-green-600 dark:text-green-400 border-green-500/50'
-                                  : 'text-red-600 dark:text-red-400 border-red-500/50'
-                              }`}
-                            >
-                              {marketData.stocks.microsoft.changePercent >= 0 ? '+' : ''}
-                              {marketData.stocks.microsoft.changePercent.toFixed(2)}%
-                            </Badge>
-                          )}
-                        </div>
-                        <p className="text-xs text-muted-foreground mt-1">Microsoft</p>
-                      </div>
-
-                      {/* NVIDIA (NVDA) */}
-                      <div>
-                        <div className="flex items-baseline gap-2 flex-wrap">
-                          <span className="text-xl font-bold text-foreground">
-                            {marketData.stocks.nvidia.value > 0 ? (
-                              `$${marketData.stocks.nvidia.value.toLocaleString('en-US', {
-                                minimumFractionDigits: 2,
-                                maximumFractionDigits: 2,
-                              })}`
-                            ) : (
-                              <span className="text-muted-foreground text-sm">Loading...</span>
-                            )}
-                          </span>
-                          {marketData.stocks.nvidia.changePercent !== undefined && marketData.stocks.nvidia.value > 0 && (
-                            <Badge
-                              variant="outline"
-                              className={`text-xs ${
-                                marketData.stocks.nvidia.changePercent >= 0
-                                  ? 'text-green-600 dark:text-green-400 border-green-500/50'
-                                  : 'text-red-600 dark:text-red-400 border-red-500/50'
-                              }`}
-                            >
-                              {marketData.stocks.nvidia.changePercent >= 0 ? '+' : ''}
-                              {marketData.stocks.nvidia.changePercent.toFixed(2)}%
-                            </Badge>
-                          )}
-                        </div>
-                        <p className="text-xs text-muted-foreground mt-1">NVIDIA</p>
-                      </div>
-                    </div>
-                  </div>
-
-                  {/* Major Cryptocurrencies Section */}
-                  <div className="mt-6 pt-6 border-t border-slate-700">
-                    <h3 className="text-sm font-semibold text-muted-foreground mb-4">Major Cryptocurrencies</h3>
-                    <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-                      {/* Bitcoin */}
-                      <div>
-                        <div className="flex items-baseline gap-2 flex-wrap">
-                          <span className="text-xl font-bold text-foreground">
-                            {marketData.crypto.bitcoin.value > 0 ? (
-                              `$${marketData.crypto.bitcoin.value.toLocaleString('en-US', {
-                                minimumFractionDigits: 2,
-                                maximumFractionDigits: 2,
-                              })}`
-                            ) : (
-                              <span className="text-muted-foreground text-sm">Loading...</span>
-                            )}
-                          </span>
-                          {marketData.crypto.bitcoin.changePercent !== undefined && marketData.crypto.bitcoin.value > 0 && (
-                            <Badge
-                              variant="outline"
-                              className={`text-xs ${
-                                marketData.crypto.bitcoin.changePercent >= 0
-                                  ? 'text-green-600 dark:text-green-400 border-green-500/50'
-                                  : 'text-red-600 dark:text-red-400 border-red-500/50'
-                              }`}
-                            >
-                              {marketData.crypto.bitcoin.changePercent >= 0 ? '+' : ''}
-                              {marketData.crypto.bitcoin.changePercent.toFixed(2)}%
-                            </Badge>
-                          )}
-                        </div>
-                        <p className="text-xs text-muted-foreground mt-1">Bitcoin (BTC)</p>
-                      </div>
-
-                      {/* Ethereum */}
-                      <div>
-                        <div className="flex items-baseline gap-2 flex-wrap">
-                          <span className="text-xl font-bold text-foreground">
-                            {marketData.crypto.ethereum.value > 0 ? (
-                              `$${marketData.crypto.ethereum.value.toLocaleString('en-US', {
-                                minimumFractionDigits: 2,
-                                maximumFractionDigits: 2,
-                              })}`
-                            ) : (
-                              <span className="text-muted-foreground text-sm">Loading...</span>
-                            )}
-                          </span>
-                          {marketData.crypto.ethereum.changePercent !== undefined && marketData.crypto.ethereum.value > 0 && (
-                            <Badge
-                              variant="outline"
-                              className={`text-xs ${
-                                marketData.crypto.ethereum.changePercent >= 0
-                                  ? 'text-green-600 dark:text-green-400 border-green-500/50'
-                                  : 'text-red-600 dark:text-red-400 border-red-500/50'
-                              }`}
-                            >
-                              {marketData.crypto.ethereum.changePercent >= 0 ? '+' : ''}
-                              {marketData.crypto.ethereum.changePercent.toFixed(2)}%
-                            </Badge>
-                          )}
-                        </div>
-                        <p className="text-xs text-muted-foreground mt-1">Ethereum (ETH)</p>
-                      </div>
-
-                      {/* XRP */}
-                      <div>
-                        <div className="flex items-baseline gap-2 flex-wrap">
-                          <span className="text-xl font-bold text-foreground">
-                            {marketData.crypto.xrp.value > 0 ? (
-                              `$${marketData.crypto.xrp.value.toLocaleString('en-US', {
-                                minimumFractionDigits: 2,
-                                maximumFractionDigits: 2,
-                              })}`
-                            ) : (
-                              <span className="text-muted-foreground text-sm">Loading...</span>
-                            )}
-                          </span>
-                          {marketData.crypto.xrp.changePercent !== undefined && marketData.crypto.xrp.value > 0 && (
-                            <Badge
-                              variant="outline"
-                              className={`text-xs ${
-                                marketData.crypto.xrp.changePercent >= 0
-                                  ? 'text-green-600 dark:text-green-400 border-green-500/50'
-                                  : 'text-red-600 dark:text-red-400 border-red-500/50'
-                              }`}
-                            >
-                              {marketData.crypto.xrp.changePercent >= 0 ? '+' : ''}
-                              {marketData.crypto.xrp.changePercent.toFixed(2)}%
-                            </Badge>
-                          )}
-                        </div>
-                        <p className="text-xs text-muted-foreground mt-1">XRP</p>
-                      </div>
-                    </div>
-                  </div>
-
-                  {/* Commodities Section */}
-                  <div className="mt-6 pt-6 border-t border-slate-700">
-                    <h3 className="text-sm font-semibold text-muted-foreground mb-4">Commodities</h3>
-                    <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-                      {/* Gold */}
-                      <div>
-                        <div className="flex items-baseline gap-2 flex-wrap">
-                          <span className="text-xl font-bold text-foreground">
-                            {marketData.commodities.gold.value > 0 ? (
-                              `$${marketData.commodities.gold.value.toLocaleString('en-US', {
-                                minimumFractionDigits: 2,
-                                maximumFractionDigits: 2,
-                              })}`
-                            ) : (
-                              <span className="text-muted-foreground text-sm">Loading...</span>
-                            )}
-                          </span>
-                          {marketData.commodities.gold.changePercent !== undefined && marketData.commodities.gold.value > 0 && (
-                            <Badge
-                              variant="outline"
-                              className={`text-xs ${
-                                marketData.commodities.gold.changePercent >= 0
-                                  ? 'text-green-600 dark:text-green-400 border-green-500/50'
-                                  : 'text-red-600 dark:text-red-400 border-red-500/50'
-                              }`}
-                            >
-                              {marketData.commodities.gold.changePercent >= 0 ? '+' : ''}
-                              {marketData.commodities.gold.changePercent.toFixed(2)}%
-                            </Badge>
-                          )}
-                        </div>
-                        <p className="text-xs text-muted-foreground mt-1">Gold (XAU/USD)</p>
-                      </div>
-
-                      {/* Silver */}
-                      <div>
-                        <div className="flex items-baseline gap-2 flex-wrap">
-                          <span className="text-xl font-bold text-foreground">
-                            {marketData.commodities.silver.value > 0 ? (
-                              `$${marketData.commodities.silver.value.toLocaleString('en-US', {
-                                minimumFractionDigits: 2,
-                                maximumFractionDigits: 2,
-                              })}`
-                            ) : (
-                              <span className="text-muted-foreground text-sm">Loading...</span>
-                            )}
-                          </span>
-                          {marketData.commodities.silver.changePercent !== undefined && marketData.commodities.silver.value > 0 && (
-                            <Badge
-                              variant="outline"
-                              className={`text-xs ${
-                                marketData.commodities.silver.changePercent >= 0
-                                  ? 'text-green-600 dark:text-green-400 border-green-500/50'
-                                  : 'text-red-600 dark:text-red-400 border-red-500/50'
-                              }`}
-                            >
-                              {marketData.commodities.silver.changePercent >= 0 ? '+' : ''}
-                              {marketData.commodities.silver.changePercent.toFixed(2)}%
-                            </Badge>
-                          )}
-                        </div>
-                        <p className="text-xs text-muted-foreground mt-1">Silver (XAG/USD)</p>
-                      </div>
-
-                      {/* Oil */}
-                      <div>
-                        <div className="flex items-baseline gap-2 flex-wrap">
-                          <span className="text-xl font-bold text-foreground">
-                            {marketData.commodities.oil.value > 0 ? (
-                              `$${marketData.commodities.oil.value.toLocaleString('en-US', {
-                                minimumFractionDigits: 2,
-                                maximumFractionDigits: 2,
-                              })}`
-                            ) : (
-                              <span className="text-muted-foreground text-sm">Loading...</span>
-                            )}
-                          </span>
-                          {marketData.commodities.oil.changePercent !== undefined && marketData.commodities.oil.value > 0 && (
-                            <Badge
-                              variant="outline"
-                              className={`text-xs ${
-                                marketData.commodities.oil.changePercent >= 0
-                                  ? 'text-green-600 dark:text-green-400 border-green-500/50'
-                                  : 'text-red-600 dark:text-red-400 border-red-500/50'
-                              }`}
-                            >
-                              {marketData.commodities.oil.changePercent >= 0 ? '+' : ''}
-                              {marketData.commodities.oil.changePercent.toFixed(2)}%
-                            </Badge>
-                          )}
-                        </div>
-                        <p className="text-xs text-muted-foreground mt-1">Oil (WTI)</p>
-                      </div>
-                    </div>
-                  </div>
+                  {/* Watchlists (stocks, crypto, commodities) */}
+                  <WatchlistPanel />
                 </CardContent>
               </Card>
 
               {/* Enhanced Crash Risk Score */}
               <EnhancedCrashRiskCard />
 
+              {/* Crash Risk Score History */}
+              <CrashRiskHistoryChart />
+
               {/* VIX Level */}
               <KPICard
                 title="VIX Level"
@@ -596,8 +227,12 @@ export default function MarketCrashDashboard() {
                 formatValue={(value) => value.toFixed(1)}
                 unit="Volatility Index"
                 invertThresholds={true}
+                symbol="VIX"
                 className="bg-slate-800/50 backdrop-blur-sm"
               />
+
+              {/* VIX Term Structure */}
+              <VixTermStructureCard className="md:col-span-3" />
             </>
           )}
         </div>
@@ -608,6 +243,11 @@ export default function MarketCrashDashboard() {
           <IndicatorGrid />
         </div>
 
+        {/* Market Regime */}
+        <div className="mt-4 lg:mt-8">
+          <MarketRegimePanel />
+        </div>
+
         {/* High Impact USD News */}
         <div className="mt-4 lg:mt-8">
           <HighImpactNews />
@@ -0,0 +1,312 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { ThemeToggle } from '@/components/theme-toggle';
+import { Navbar } from '@/components/layout/navbar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { PushNotificationSettings } from '@/components/dashboard/push-notification-settings';
+import { AlertRuleInput, useAlertPreferences } from '@/hooks/use-alert-preferences';
+import {
+  ALERT_RULE_TARGETS,
+  describeAlertRule,
+  getAlertRuleTarget,
+  MAX_ALERT_RULE_DESCRIPTION_LENGTH,
+  MAX_ALERT_RULES,
+} from '@/lib/data/alertRules';
+import type { AlertRule, AlertRuleTarget } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+const inputClassName =
+  'px-3 py-1.5 border border-input rounded-md text-sm bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50';
+
+const LEVEL_STYLES = {
+  safe: 'text-green-400 border-green-500/50',
+  warning: 'text-yellow-400 border-yellow-500/50',
+  critical: 'text-red-400 border-red-500/50',
+};
+
+const SUBSCRIPTION_OPTIONS = [
+  { key: 'alertSubscription', label: 'Risk alerts', description: 'Email me when an indicator crosses its warning or danger level, or crash risk changes' },
+  { key: 'newsletterWeekly', label: 'Weekly newsletter', description: 'Market risk summary every week' },
+  { key: 'newsletterMonthly', label: 'Monthly newsletter', description: 'In-depth analysis every month' },
+] as const;
+
+function defaultRule(target: AlertRuleTarget): AlertRuleInput {
+  const info = getAlertRuleTarget(target) ?? ALERT_RULE_TARGETS[0];
+  return {
+    target: info.target,
+    direction: info.direction,
+    warning: info.warning,
+    critical: info.critical,
+    enabled: true,
+    description: '',
+  };
+}
+
+function toInput(rule: AlertRule): AlertRuleInput {
+  const { target, direction, warning, critical, enabled, description } = rule;
+  return { target, direction, warning, critical, enabled, description };
+}
+
+function PreferencesContent() {
+  const token = useSearchParams().get('token');
+  const { data, isLoading, error, updatePreferences, createRule, updateRule, deleteRule } = useAlertPreferences(token);
+
+  const [draft, setDraft] = useState<AlertRuleInput>(() => defaultRule('vix'));
+  const [isBusy, setIsBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setActionError(null);
+    try {
+      await action();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <div className="rounded-lg border border-slate-700 bg-slate-800/50 p-6">
+        <p className="text-slate-300">
+          Open this page from the &quot;Manage alerts and preferences&quot; link in any of our emails.
+          Not subscribed yet? <Link href="/newsletter" className="text-blue-400 underline">Subscribe here</Link>.
+        </p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-lg border border-red-500/50 bg-red-500/10 p-4">
+        <p className="text-red-400">{error.message}</p>
+        <p className="mt-1 text-sm text-slate-400">The link may have expired if you unsubscribed. Subscribe again to get a new one.</p>
+      </div>
+    );
+  }
+
+  if (isLoading || !data) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-40 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  const draftTarget = getAlertRuleTarget(draft.target);
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-slate-400">Signed in as {data.preferences.email}</p>
+
+      {actionError && (
+        <div className="rounded-lg border border-red-500/50 bg-red-500/10 p-3">
+          <p className="text-sm text-red-400">{actionError}</p>
+        </div>
+      )}
+
+      {/* Subscriptions */}
+      <Card className="bg-slate-800/50 border-slate-700">
+        <CardHeader>
+          <CardTitle>Emails</CardTitle>
+          <CardDescription>Choose what we send you</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {SUBSCRIPTION_OPTIONS.map((option) => (
+            <label key={option.key} className="flex cursor-pointer items-start gap-3">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={data.preferences[option.key]}
+                disabled={isBusy}
+                onChange={(e) => run(() => updatePreferences({ [option.key]: e.target.checked }))}
+              />
+              <span>
+                <span className="block text-sm font-medium text-white">{option.label}</span>
+                <span className="block text-xs text-slate-400">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Rules */}
+      <Card className="bg-slate-800/50 border-slate-700">
+        <CardHeader>
+          <CardTitle>My Alert Rules</CardTitle>
+          <CardDescription>
+            We check your rules every hour and email you when one is crossed (up to {MAX_ALERT_RULES} rules)
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {data.rules.length === 0 ? (
+            <p className="text-sm text-slate-400">No rules yet. Add one below.</p>
+          ) : (
+            <ul className="divide-y divide-slate-700 rounded-md border border-slate-700">
+              {data.rules.map((rule) => (
+                <li key={rule.id} className="flex flex-wrap items-center gap-3 px-3 py-2">
+                  <div className="min-w-0 flex-1">
+                    <p className={cn('text-sm', rule.enabled ? 'text-white' : 'text-slate-500')}>
+                      {rule.description || describeAlertRule(rule)}
+                    </p>
+                    <p className="text-xs text-slate-400">
+                      {rule.description && `${describeAlertRule(rule)} · `}
+                      {rule.lastTriggeredAt
+                        ? `last alerted ${formatDistanceToNow(new Date(rule.lastTriggeredAt), { addSuffix: true })}`
+                        : 'not triggered yet'}
+                    </p>
+                  </div>
+                  {rule.lastLevel && (
+                    <Badge variant="outline" className={cn('text-xs', LEVEL_STYLES[rule.lastLevel])}>
+                      {rule.lastLevel}
+                    </Badge>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={isBusy}
+                    onClick={() => run(() => updateRule(rule.id, { ...toInput(rule), enabled: !rule.enabled }))}
+                  >
+                    {rule.enabled ? 'Pause' : 'Resume'}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={isBusy}
+                    onClick={() => run(() => deleteRule(rule.id))}
+                    aria-label="Delete rule"
+                  >
+                    ✕
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* New rule */}
+          <form
+            className="space-y-3 rounded-md border border-slate-700 p-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              run(async () => {
+                await createRule(draft);
+                setDraft(defaultRule(draft.target));
+              });
+            }}
+          >
+            <p className="text-sm font-medium text-white">Add a rule</p>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={draft.target}
+                onChange={(e) => setDraft(defaultRule(e.target.value as AlertRuleTarget))}
+                className={inputClassName}
+                aria-label="Metric"
+              >
+                {ALERT_RULE_TARGETS.map((target) => (
+                  <option key={target.target} value={target.target}>
+                    {target.label}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={draft.direction}
+                onChange={(e) => setDraft({ ...draft, direction: e.target.value as AlertRuleInput['direction'] })}
+                className={inputClassName}
+                aria-label="Direction"
+              >
+                <option value="above">above</option>
+                <option value="below">below</option>
+              </select>
+              <label className="flex items-center gap-1 text-sm text-slate-300">
+                warning
+                <input
+                  type="number"
+                  step="any"
+                  value={draft.warning}
+                  onChange={(e) => setDraft({ ...draft, warning: parseFloat(e.target.value) })}
+                  className={cn(inputClassName, 'w-24')}
+                />
+                {draftTarget?.unit}
+              </label>
+              <label className="flex items-center gap-1 text-sm text-slate-300">
+                critical
+                <input
+                  type="number"
+                  step="any"
+                  value={draft.critical}
+                  onChange={(e) => setDraft({ ...draft, critical: parseFloat(e.target.value) })}
+                  className={cn(inputClassName, 'w-24')}
+                />
+                {draftTarget?.unit}
+              </label>
+            </div>
+            <input
+              type="text"
+              value={draft.description ?? ''}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              placeholder="Name (optional), e.g. &quot;VIX spike&quot;"
+              maxLength={MAX_ALERT_RULE_DESCRIPTION_LENGTH}
+              className={cn(inputClassName, 'w-full')}
+              aria-label="Rule name"
+            />
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-slate-400">{describeAlertRule(draft)}</p>
+              <Button type="submit" size="sm" disabled={isBusy || data.rules.length >= MAX_ALERT_RULES}>
+                Add rule
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function PreferencesPage() {
+  return (
+    <div className="min-h-screen bg-white dark:bg-slate-900 text-slate-900 dark:text-white">
+      {/* Header */}
+      <header className="bg-slate-800 border-b border-slate-700 p-6 sticky top-0 z-40">
+        <div className="mx-auto max-w-7xl flex justify-between items-center">
+          <Link href="/">
+            <h1 className="text-3xl font-bold text-white hover:text-slate-200 transition-colors cursor-pointer">
+              📊 Market Crash Monitor
+            </h1>
+          </Link>
+
+          <ThemeToggle />
+        </div>
+      </header>
+
+      {/* Navigation Bar */}
+      <Navbar />
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        <div>
+          <h1 className="text-4xl font-bold mb-2">Alerts &amp; Preferences</h1>
+          <p className="text-slate-400 text-sm lg:text-base">
+            Set your own alert thresholds and choose which emails and browser notifications you receive.
+          </p>
+        </div>
+
+        {/* useSearchParams needs a Suspense boundary */}
+        <Suspense fallback={<Skeleton className="h-64 w-full" />}>
+          <PreferencesContent />
+        </Suspense>
+
+        {/* Push notifications belong to this browser, not the subscriber token */}
+        <PushNotificationSettings />
+      </main>
+    </div>
+  );
+}
@@ -4,9 +4,11 @@ import { useState, useEffect } from 'react';
 import { AlertTriangle, ChevronDown, ChevronUp, X, AlertCircle, Info } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { CombinedEconomicIndicators } from '@/hooks/use-economic-indicators';
+import type { StreamAlert } from '@/lib/stream';
 
 interface AlertTopBarProps {
   indicators?: CombinedEconomicIndicators;
+  liveAlerts?: StreamAlert[]; // transitions pushed on the live update stream, newest first
   className?: string;
 }
 
@@ -17,7 +19,7 @@ interface Alert {
   severity: AlertSeverity;
   metric: string;
   value: number;
-  threshold: number;
+  threshold?: number; // not set for live alerts
   message: string;
 }
 
@@ -68,7 +70,7 @@ function getAlertKey(alertId: string): string {
   return alertId;
 }
 
-export function AlertTopBar({ indicators, className }: AlertTopBarProps) {
+export function AlertTopBar({ indicators, liveAlerts = [], className }: AlertTopBarProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [dismissedAlertKeys, setDismissedAlertKeys] = useState<Set<string>>(new Set());
 
@@ -77,8 +79,14 @@ export function AlertTopBar({ indicators, className }: AlertTopBarProps) {
     setDismissedAlertKeys(getDismissedAlertKeys());
   }, []);
 
-  // Generate alerts from indicators
-  const alerts: Alert[] = [];
+  // Live alerts first (ids are "metric-severity-timestamp"), then alerts from indicators
+  const alerts: Alert[] = liveAlerts.map((alert) => ({
+    id: alert.id,
+    severity: alert.severity,
+    metric: `Live alert · ${new Date(alert.timestamp).toLocaleTimeString()}`,
+    value: alert.value,
+    message: alert.message,
+  }));
   
   if (indicators) {
     // CAPE Ratio alert
@@ -176,6 +184,48 @@ export function AlertTopBar({ indicators, className }: AlertTopBarProps) {
         message: `Market Cap/GDP elevated at ${indicators.buffett.value.toFixed(1)}% (Warning: ${indicators.buffett.warningLevel}%)`,
       });
     }
+
+    // Sahm Rule alert
+    if (indicators.sahmRule.status === 'danger') {
+      alerts.push({
+        id: 'sahm-critical',
+        severity: 'critical',
+        metric: 'Sahm Rule',
+        value: indicators.sahmRule.value,
+        threshold: indicators.sahmRule.dangerLevel,
+        message: `Sahm Rule triggered at ${indicators.sahmRule.value.toFixed(2)} pts (Danger: ${indicators.sahmRule.dangerLevel} pts)`,
+      });
+    } else if (indicators.sahmRule.status === 'warning') {
+      alerts.push({
+        id: 'sahm-warning',
+        severity: 'warning',
+        metric: 'Sahm Rule',
+        value: indicators.sahmRule.value,
+        threshold: indicators.sahmRule.warningLevel,
+        message: `Unemployment rising, Sahm Rule at ${indicators.sahmRule.value.toFixed(2)} pts (Warning: ${indicators.sahmRule.warningLevel} pts)`,
+      });
+    }
+
+    // Initial Claims alert
+    if (indicators.initialClaims.status === 'danger') {
+      alerts.push({
+        id: 'claims-critical',
+        severity: 'critical',
+        metric: 'Initial Claims',
+        value: indicators.initialClaims.value,
+        threshold: indicators.initialClaims.dangerLevel,
+        message: `Initial claims ${indicators.initialClaims.value.toFixed(1)}% above their 52-week low (Danger: ${indicators.initialClaims.dangerLevel}%)`,
+      });
+    } else if (indicators.initialClaims.status === 'warning') {
+      alerts.push({
+        id: 'claims-warning',
+        severity: 'warning',
+        metric: 'Initial Claims',
+        value: indicators.initialClaims.value,
+        threshold: indicators.initialClaims.warningLevel,
+        message: `Initial claims rising, ${indicators.initialClaims.value.toFixed(1)}% above their 52-week low (Warning: ${indicators.initialClaims.warningLevel}%)`,
+      });
+    }
   }
 
   // Filter out dismissed alerts by checking alert keys
@@ -0,0 +1,225 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Bar,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { format } from 'date-fns';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useCandles } from '@/hooks/use-candles';
+import { cn } from '@/lib/utils';
+import type { Candle, CandleResolution } from '@/lib/types';
+
+export interface CandlestickChartProps {
+  candles: Candle[];
+  resolution: CandleResolution;
+  height?: number;
+  className?: string;
+}
+
+export interface CandlestickChartDialogProps {
+  symbol: string;
+  title?: string;
+  assetClass?: 'index' | 'stock' | 'crypto';
+  onClose: () => void;
+}
+
+const UP_COLOR = '#16a34a';
+const DOWN_COLOR = '#dc2626';
+
+const RESOLUTION_LABELS: Record<CandleResolution, string> = {
+  '1': '1m',
+  '5': '5m',
+  '60': '1h',
+  D: '1D',
+  W: '1W',
+};
+
+interface CandlePoint extends Candle {
+  range: [number, number];
+}
+
+/**
+ * Wick from high to low and a body from open to close, drawn inside the
+ * bar recharts lays out for the [low, high] range
+ */
+function CandleShape(props: unknown) {
+  const { x, y, width, height, payload } = props as {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    payload: CandlePoint;
+  };
+  const { open, close, high, low } = payload;
+  const color = close >= open ? UP_COLOR : DOWN_COLOR;
+  const span = high - low || 1;
+  const priceY = (price: number) => y + ((high - price) / span) * height;
+  const bodyTop = priceY(Math.max(open, close));
+  const bodyHeight = Math.max(1, priceY(Math.min(open, close)) - bodyTop);
+  const centerX = x + width / 2;
+
+  return (
+    <g>
+      <line x1={centerX} x2={centerX} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect x={x + width * 0.15} y={bodyTop} width={Math.max(1, width * 0.7)} height={bodyHeight} fill={color} />
+    </g>
+  );
+}
+
+/**
+ * Tooltip with OHLC and volume for the hovered bar
+ */
+function CandleTooltip({
+  active,
+  payload,
+  resolution,
+}: {
+  active?: boolean;
+  payload?: Array<{ payload?: CandlePoint }>;
+  resolution: CandleResolution;
+}) {
+  const candle = active ? payload?.[0]?.payload : undefined;
+  if (!candle) return null;
+
+  const price = (value: number) => value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const intraday = resolution !== 'D' && resolution !== 'W';
+
+  return (
+    <div className="rounded-lg border bg-background p-3 shadow-md text-xs space-y-0.5">
+      <p className="font-medium text-muted-foreground">
+        {format(new Date(candle.time), intraday ? 'MMM dd, yyyy HH:mm' : 'MMM dd, yyyy')}
+      </p>
+      <p>O {price(candle.open)} H {price(candle.high)}</p>
+      <p>L {price(candle.low)} C {price(candle.close)}</p>
+      {candle.volume > 0 && <p className="text-muted-foreground">Volume: {candle.volume.toLocaleString()}</p>}
+    </div>
+  );
+}
+
+/**
+ * Candlestick Chart Component
+ * OHLC candles with volume bars along the bottom
+ */
+export function CandlestickChart({ candles, resolution, height = 360, className }: CandlestickChartProps) {
+  const data: CandlePoint[] = candles.map((candle) => ({ ...candle, range: [candle.low, candle.high] }));
+  const maxVolume = Math.max(0, ...candles.map((candle) => candle.volume));
+  const intraday = resolution !== 'D' && resolution !== 'W';
+
+  return (
+    <div className={className} style={{ width: '100%', height }}>
+      <ResponsiveContainer width="100%" height={height}>
+        <ComposedChart data={data} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-muted" opacity={0.3} />
+          <XAxis
+            dataKey="time"
+            tickFormatter={(time: string) => format(new Date(time), intraday ? 'MMM dd HH:mm' : 'MMM dd')}
+            className="text-xs text-muted-foreground"
+            stroke="hsl(var(--muted-foreground))"
+            minTickGap={24}
+          />
+          <YAxis
+            yAxisId="price"
+            domain={['auto', 'auto']}
+            tickFormatter={(value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 2 })}
+            className="text-xs text-muted-foreground"
+            stroke="hsl(var(--muted-foreground))"
+            width={70}
+          />
+          {/* Volume uses the bottom quarter of the chart */}
+          <YAxis yAxisId="volume" orientation="right" hide domain={[0, maxVolume * 4 || 1]} />
+          <Tooltip content={<CandleTooltip resolution={resolution} />} />
+          {maxVolume > 0 && (
+            <Bar yAxisId="volume" dataKey="volume" isAnimationActive={false} opacity={0.35}>
+              {data.map((candle) => (
+                <Cell key={candle.time} fill={candle.close >= candle.open ? UP_COLOR : DOWN_COLOR} />
+              ))}
+            </Bar>
+          )}
+          <Bar yAxisId="price" dataKey="range" shape={CandleShape} isAnimationActive={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+/**
+ * Modal with a candlestick chart for a symbol and a resolution picker
+ */
+export function CandlestickChartDialog({ symbol, title, assetClass, onClose }: CandlestickChartDialogProps) {
+  const [resolution, setResolution] = useState<CandleResolution>('D');
+  const { data, isLoading, error } = useCandles(symbol, resolution, assetClass);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label={`${title || symbol} chart`}
+    >
+      <Card className="w-full max-w-4xl bg-slate-900" onClick={(event) => event.stopPropagation()}>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-base font-medium">{title || symbol}</CardTitle>
+          <div className="flex items-center gap-1">
+            {(Object.keys(RESOLUTION_LABELS) as CandleResolution[]).map((value) => (
+              <Button
+                key={value}
+                variant={value === resolution ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setResolution(value)}
+              >
+                {RESOLUTION_LABELS[value]}
+              </Button>
+            ))}
+            <Button variant="ghost" size="icon-sm" onClick={onClose} aria-label="Close chart">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-[360px] w-full" />
+          ) : error ? (
+            <div className="flex h-[360px] items-center justify-center text-sm text-muted-foreground">
+              {error.message}
+            </div>
+          ) : !data || data.candles.length === 0 ? (
+            <div className="flex h-[360px] items-center justify-center text-sm text-muted-foreground">
+              No candles for this period
+            </div>
+          ) : (
+            <>
+              <CandlestickChart candles={data.candles} resolution={resolution} />
+              <p className={cn('mt-2 text-xs text-muted-foreground', data.stale && 'text-yellow-500')}>
+                {data.stale
+                  ? 'Provider unavailable — showing cached candles'
+                  : data.provider
+                    ? `Source: ${data.provider}`
+                    : 'Cached'}
+              </p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { format } from 'date-fns';
+import type { LiquidityPoint } from '@/lib/liquidity';
+
+/**
+ * Props for NetLiquidityChart component
+ */
+export interface NetLiquidityChartProps {
+  data: LiquidityPoint[];
+  height?: number;
+  className?: string;
+}
+
+const SERIES: Array<{ key: keyof LiquidityPoint; name: string; color: string; width: number }> = [
+  { key: 'fedAssets', name: 'Fed total assets', color: '#94a3b8', width: 1.5 },
+  { key: 'netLiquidity', name: 'Net liquidity', color: '#3b82f6', width: 2.5 },
+  { key: 'tga', name: 'TGA', color: '#f97316', width: 1.5 },
+  { key: 'rrp', name: 'Reverse repo', color: '#a855f7', width: 1.5 },
+];
+
+function formatBillions(value: number): string {
+  return value >= 1000 ? `$${(value / 1000).toFixed(1)}T` : `$${value.toFixed(0)}B`;
+}
+
+/**
+ * Net Liquidity Chart
+ * Weekly Fed total assets, TGA and reverse repo with the net liquidity they
+ * leave (assets − TGA − RRP), in dollars
+ */
+export function NetLiquidityChart({ data, height = 360, className }: NetLiquidityChartProps) {
+  return (
+    <div className={className} style={{ width: '100%', height }}>
+      <ResponsiveContainer width="100%" height={height}>
+        <LineChart data={data} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-muted" opacity={0.3} />
+          <XAxis
+            dataKey="date"
+            tickFormatter={(date: string) => format(new Date(date), 'MMM yy')}
+            minTickGap={40}
+            className="text-xs text-muted-foreground"
+            stroke="hsl(var(--muted-foreground))"
+          />
+          <YAxis
+            tickFormatter={formatBillions}
+            className="text-xs text-muted-foreground"
+            stroke="hsl(var(--muted-foreground))"
+          />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: 6 }}
+            labelFormatter={(date) => format(new Date(String(date)), 'MMM d, yyyy')}
+            formatter={(value) => (typeof value === 'number' ? formatBillions(value) : value)}
+          />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          {SERIES.map((series) => (
+            <Line
+              key={series.key}
+              type="monotone"
+              dataKey={series.key}
+              name={series.name}
+              stroke={series.color}
+              strokeWidth={series.width}
+              dot={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { format } from 'date-fns';
+
+/**
+ * One line on the chart
+ */
+export interface RateOfChangeSeries {
+  key: string;
+  name: string;
+  color: string;
+}
+
+/**
+ * Props for RateOfChangeChart component
+ */
+export interface RateOfChangeChartProps {
+  data: Array<{ date: string } & Record<string, number | string | null>>;
+  series: RateOfChangeSeries[];
+  unit?: string;
+  height?: number;
+  className?: string;
+}
+
+/**
+ * Rate of Change Chart
+ * Dated series that swing around zero (percent changes, z-score indexes),
+ * with a reference line at zero
+ */
+export function RateOfChangeChart({ data, series, unit = '%', height = 240, className }: RateOfChangeChartProps) {
+  const formatValue = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}${unit}`;
+
+  return (
+    <div className={className} style={{ width: '100%', height }}>
+      <ResponsiveContainer width="100%" height={height}>
+        <LineChart data={data} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-muted" opacity={0.3} />
+          <XAxis
+            dataKey="date"
+            tickFormatter={(date: string) => format(new Date(date), 'MMM yy')}
+            minTickGap={40}
+            className="text-xs text-muted-foreground"
+            stroke="hsl(var(--muted-foreground))"
+          />
+          <YAxis
+            tickFormatter={(value: number) => `${value}${unit}`}
+            className="text-xs text-muted-foreground"
+            stroke="hsl(var(--muted-foreground))"
+          />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: 6 }}
+            labelFormatter={(date) => format(new Date(String(date)), 'MMM d, yyyy')}
+            formatter={(value) => (typeof value === 'number' ? formatValue(value) : value)}
+          />
+          {series.length > 1 && <Legend wrapperStyle={{ fontSize: 12 }} />}
+          <ReferenceLine y={0} stroke="#64748b" strokeDasharray="4 4" />
+          {series.map((line) => (
+            <Line
+              key={line.key}
+              type="monotone"
+              dataKey={line.key}
+              name={line.name}
+              stroke={line.color}
+              strokeWidth={2}
+              dot={false}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { format } from 'date-fns';
+
+/**
+ * One line on the chart, drawn against its own Y axis
+ */
+export interface ExplorerChartSeries {
+  key: string;
+  name: string;
+  color: string;
+  unit?: string;
+}
+
+/**
+ * Props for SeriesExplorerChart component
+ */
+export interface SeriesExplorerChartProps {
+  data: Array<{ date: string } & Record<string, number | string | null>>;
+  series: ExplorerChartSeries[];
+  height?: number;
+  className?: string;
+}
+
+function formatTick(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1e6) return `${(value / 1e6).toFixed(1)}M`;
+  if (abs >= 1e3) return `${(value / 1e3).toFixed(1)}K`;
+  return abs >= 10 ? value.toFixed(0) : Number(value.toFixed(2)).toString();
+}
+
+/**
+ * Series Explorer Chart
+ * Overlays series with different units; each gets an independent Y axis in
+ * its own color, alternating left and right
+ */
+export function SeriesExplorerChart({ data, series, height = 420, className }: SeriesExplorerChartProps) {
+  return (
+    <div className={className} style={{ width: '100%', height }}>
+      <ResponsiveContainer width="100%" height={height}>
+        <LineChart data={data} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-muted" opacity={0.3} />
+          <XAxis
+            dataKey="date"
+            tickFormatter={(date: string) => format(new Date(date), 'MMM yy')}
+            minTickGap={40}
+            className="text-xs text-muted-foreground"
+            stroke="hsl(var(--muted-foreground))"
+          />
+          {series.map((line, i) => (
+            <YAxis
+              key={line.key}
+              yAxisId={line.key}
+              orientation={i % 2 === 0 ? 'left' : 'right'}
+              tickFormatter={formatTick}
+              domain={['auto', 'auto']}
+              width={52}
+              className="text-xs"
+              stroke={line.color}
+            />
+          ))}
+          <Tooltip
+            contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: 6 }}
+            labelFormatter={(date) => format(new Date(String(date)), 'MMM d, yyyy')}
+            formatter={(value, name) => {
+              const line = series.find((item) => item.name === name);
+              return typeof value === 'number'
+                ? `${value.toLocaleString(undefined, { maximumFractionDigits: 3 })}${line?.unit ? ` ${line.unit}` : ''}`
+                : value;
+            }}
+          />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          {series.map((line) => (
+            <Line
+              key={line.key}
+              yAxisId={line.key}
+              type="monotone"
+              dataKey={line.key}
+              name={line.name}
+              stroke={line.color}
+              strokeWidth={2}
+              dot={false}
+              connectNulls
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
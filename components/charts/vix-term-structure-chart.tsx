@@ -0,0 +1,100 @@
+'use client';
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { format } from 'date-fns';
+import type { TermStructurePoint } from '@/lib/vixTermStructure';
+
+/**
+ * Props for VixTermStructureChart component
+ */
+export interface VixTermStructureChartProps {
+  curve: TermStructurePoint[];
+  comparison?: { date: string; curve: TermStructurePoint[] } | null;
+  date: string;
+  color?: string;
+  height?: number;
+  className?: string;
+}
+
+/**
+ * VIX Term Structure Chart
+ * Implied volatility by tenor (VIX9D → VIX6M) for the latest close, with an
+ * earlier curve dashed for comparison. An upward slope is contango, a
+ * downward slope at the front is backwardation.
+ */
+export function VixTermStructureChart({
+  curve,
+  comparison,
+  date,
+  color = '#3b82f6',
+  height = 220,
+  className,
+}: VixTermStructureChartProps) {
+  const latestLabel = format(new Date(date), 'MMM d');
+  const comparisonLabel = comparison ? format(new Date(comparison.date), 'MMM d') : null;
+
+  // One row per tenor; tenors without a close are skipped by connectNulls
+  const chartData = curve.map((point, i) => ({
+    tenor: point.label,
+    latest: point.value,
+    comparison: comparison?.curve[i]?.value ?? null,
+  }));
+
+  return (
+    <div className={className} style={{ width: '100%', height }}>
+      <ResponsiveContainer width="100%" height={height}>
+        <LineChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-muted" opacity={0.3} />
+          <XAxis
+            dataKey="tenor"
+            className="text-xs text-muted-foreground"
+            stroke="hsl(var(--muted-foreground))"
+            tickLine={{ stroke: 'hsl(var(--muted-foreground))' }}
+          />
+          <YAxis
+            domain={['auto', 'auto']}
+            tickFormatter={(value: number) => value.toFixed(0)}
+            className="text-xs text-muted-foreground"
+            stroke="hsl(var(--muted-foreground))"
+            tickLine={{ stroke: 'hsl(var(--muted-foreground))' }}
+          />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: 6 }}
+            formatter={(value) => (typeof value === 'number' ? value.toFixed(2) : value)}
+          />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          <Line
+            type="monotone"
+            dataKey="latest"
+            name={latestLabel}
+            stroke={color}
+            strokeWidth={2}
+            dot={{ r: 3, fill: color }}
+            connectNulls
+          />
+          {comparisonLabel && (
+            <Line
+              type="monotone"
+              dataKey="comparison"
+              name={comparisonLabel}
+              stroke="#94a3b8"
+              strokeWidth={1.5}
+              strokeDasharray="5 5"
+              dot={{ r: 2, fill: '#94a3b8' }}
+              connectNulls
+            />
+          )}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
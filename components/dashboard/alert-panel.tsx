@@ -47,6 +47,8 @@ function getIndicatorName(indicatorId: string): string {
     marginDebt: 'Margin Debt / GDP',
     creditSpreads: 'Credit Spreads',
     buffett: 'Buffett Indicator',
+    sahmRule: 'Sahm Rule',
+    initialClaims: 'Initial Claims',
   };
   return names[indicatorId] || indicatorId;
 }
@@ -67,6 +69,8 @@ function generateAlerts(indicators: CombinedEconomicIndicators | undefined): Ale
     { id: 'marginDebt', data: indicators.marginDebt },
     { id: 'creditSpreads', data: indicators.creditSpreads },
     { id: 'buffett', data: indicators.buffett },
+    { id: 'sahmRule', data: indicators.sahmRule },
+    { id: 'initialClaims', data: indicators.initialClaims },
   ];
 
   indicatorMap.forEach(({ id, data }) => {
@@ -6,7 +6,14 @@ import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { cn } from '@/lib/utils';
 import { useEconomicIndicators } from '@/hooks/use-economic-indicators';
-import { SparklineChart, SparklineDataPoint } from '@/components/charts/sparkline-chart';
+import { useIndicatorHistory } from '@/hooks/use-indicator-history';
+import { useMarketBreadth } from '@/hooks/use-market-breadth';
+import { useRecessionProbability } from '@/hooks/use-recession-probability';
+import { SparklineChart } from '@/components/charts/sparkline-chart';
+import type { IndicatorId } from '@/lib/indicatorSnapshots';
+import { BUFFETT_SERIES } from '@/lib/data/economicIndicators';
+import type { EconomicIndicatorResponse, BuffettIndicatorResponse } from '@/lib/data/economicIndicators';
+import type { BreadthIndicatorResponse } from '@/lib/breadth';
 
 /**
  * Indicator status type
@@ -22,7 +29,7 @@ export type TrendDirection = 'up' | 'down' | 'neutral';
  * Indicator data structure
  */
 export interface Indicator {
-  id: string;
+  id: IndicatorId;
   name: string;
   currentValue: number;
   unit: string;
@@ -33,6 +40,8 @@ export interface Indicator {
   status: IndicatorStatus;
   trend: TrendDirection;
   description?: string;
+  derivation?: string; // How the value was computed from its source series
+  staleSince?: string; // ISO date of the latest data, when behind its update schedule
   invertThresholds?: boolean; // If true, lower values are worse
 }
 
@@ -119,81 +128,44 @@ function formatValue(value: number, unit: string): string {
 }
 
 /**
- * Generate mock 12-month historical data showing trend rising into danger zones
+ * Format billions of dollars as trillions (e.g. $30.4T)
  */
-function generateHistoricalData(
-  indicatorId: string,
-  currentValue: number,
-  historicalAvg?: number
-): SparklineDataPoint[] {
-  const months = 12;
-  const data: SparklineDataPoint[] = [];
-  const now = new Date();
-
-  // Generate dates for last 12 months
-  for (let i = months - 1; i >= 0; i--) {
-    const date = new Date(now);
-    date.setMonth(date.getMonth() - i);
-    data.push({ date: date.toISOString().slice(0, 7), value: 0 });
-  }
+function formatTrillions(billions: number): string {
+  return `$${(billions / 1000).toFixed(1)}T`;
+}
 
-  // Calculate trend based on indicator type
-  switch (indicatorId) {
-    case 'cape':
-      // Start around historical avg (16.8), rise to current (39.2)
-      const capeStart = historicalAvg || 16.8;
-      data.forEach((point, i) => {
-        const progress = i / (months - 1);
-        point.value = capeStart + (currentValue - capeStart) * progress;
-      });
-      break;
-
-    case 'yield-curve':
-      // Start positive, decline to negative (inverted)
-      const yieldStart = 1.5;
-      data.forEach((point, i) => {
-        const progress = i / (months - 1);
-        point.value = yieldStart - (yieldStart - currentValue) * progress;
-      });
-      break;
-
-    case 'margin-debt':
-      // Start around historical avg (1.8), rise to current (3.8)
-      const marginStart = historicalAvg || 1.8;
-      data.forEach((point, i) => {
-        const progress = i / (months - 1);
-        point.value = marginStart + (currentValue - marginStart) * progress;
-      });
-      break;
-
-    case 'credit-spreads':
-      // Start lower, rise to current
-      const creditStart = 3.0;
-      data.forEach((point, i) => {
-        const progress = i / (months - 1);
-        point.value = creditStart + (currentValue - creditStart) * progress;
-      });
-      break;
-
-    case 'buffett':
-      // Start around historical avg (80), rise dramatically to current (228)
-      const buffettStart = historicalAvg || 80;
-      data.forEach((point, i) => {
-        const progress = i / (months - 1);
-        // Exponential growth curve for dramatic rise
-        const exponentialProgress = Math.pow(progress, 0.7);
-        point.value = buffettStart + (currentValue - buffettStart) * exponentialProgress;
-      });
-      break;
-
-    default:
-      // Default linear trend
-      data.forEach((point, i) => {
-        point.value = currentValue * (0.7 + (i / (months - 1)) * 0.3);
-      });
-  }
+/**
+ * Describe how the Buffett Indicator was derived, when the response includes it
+ */
+function getBuffettDerivation(
+  buffett: EconomicIndicatorResponse | BuffettIndicatorResponse
+): string | undefined {
+  if (!('marketCap' in buffett)) return undefined;
+  const source = buffett.marketCapSeries === BUFFETT_SERIES.wilshire
+    ? 'Wilshire 5000'
+    : 'Z.1 corporate equities';
+  return `${source} ${formatTrillions(buffett.marketCap)} ÷ GDP ${formatTrillions(buffett.gdp)} (interpolated)`;
+}
 
-  return data;
+/**
+ * Map a breadth reading to a card (lower breadth is worse)
+ */
+function toBreadthIndicator(id: IndicatorId, name: string, reading: BreadthIndicatorResponse): Indicator {
+  return {
+    id,
+    name,
+    currentValue: reading.value,
+    unit: '%',
+    warningThreshold: reading.warningLevel,
+    dangerThreshold: reading.dangerLevel,
+    historicalAverage: reading.historicalAvg,
+    status: reading.status,
+    trend: reading.value < reading.historicalAvg ? 'down' : reading.value > reading.historicalAvg ? 'up' : 'neutral',
+    description: reading.description,
+    derivation: reading.detail,
+    staleSince: reading.staleSince,
+    invertThresholds: true,
+  };
 }
 
 /**
@@ -215,11 +187,7 @@ function getChartColor(status: IndicatorStatus): string {
  */
 function IndicatorCard({ indicator }: { indicator: Indicator }) {
   const statusBadge = getStatusBadge(indicator.status);
-  const historicalData = generateHistoricalData(
-    indicator.id,
-    indicator.currentValue,
-    indicator.historicalAverage
-  );
+  const { data: historicalData, isLoading: isHistoryLoading } = useIndicatorHistory(indicator.id);
   const chartColor = getChartColor(indicator.status);
 
   return (
@@ -260,6 +228,16 @@ function IndicatorCard({ indicator }: { indicator: Indicator }) {
           </p>
         )}
 
+        {indicator.staleSince && (
+          <p className="text-xs text-yellow-400">
+            Stale since {new Date(indicator.staleSince).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' })}
+          </p>
+        )}
+
+        {indicator.derivation && (
+          <p className="text-xs text-slate-500">{indicator.derivation}</p>
+        )}
+
         <div className="space-y-1 text-xs text-slate-500">
           {indicator.historicalAverage !== undefined && (
             <div>
@@ -288,13 +266,17 @@ function IndicatorCard({ indicator }: { indicator: Indicator }) {
           </div>
         </div>
 
-        {/* 12-Month Trend Sparkline */}
+        {/* 12-Month Trend Sparkline (recorded snapshots) */}
         <div className="pt-2 border-t border-slate-700">
-          <SparklineChart
-            data={historicalData}
-            color={chartColor}
-            showArea={true}
-          />
+          {isHistoryLoading ? (
+            <Skeleton className="h-[60px] w-full" />
+          ) : (
+            <SparklineChart
+              data={historicalData ?? []}
+              color={chartColor}
+              showArea={true}
+            />
+          )}
         </div>
       </CardContent>
     </Card>
@@ -308,6 +290,9 @@ function IndicatorCard({ indicator }: { indicator: Indicator }) {
 export function IndicatorGrid() {
   // Fetch real economic indicator data
   const { data, isLoading, error } = useEconomicIndicators();
+  const { data: breadth, isLoading: isBreadthLoading, error: breadthError } = useMarketBreadth();
+  // Shown beside the yield curve when stored; the grid keeps five cards without it
+  const { data: recession } = useRecessionProbability();
 
   // Map API data to Indicator format
   const indicators: Indicator[] = data
@@ -323,6 +308,7 @@ export function IndicatorGrid() {
           status: data.cape.status,
           trend: data.cape.value > data.cape.historicalAvg ? 'up' : 'down',
           description: data.cape.description,
+          staleSince: data.cape.staleSince,
         },
         {
           id: 'yield-curve',
@@ -338,6 +324,24 @@ export function IndicatorGrid() {
           description: data.yieldCurve.description,
           invertThresholds: true,
         },
+        ...(recession
+          ? [
+              {
+                id: 'recession-probability' as const,
+                name: 'Recession Probability (12m)',
+                currentValue: recession.value,
+                unit: '%',
+                warningThreshold: recession.warningLevel,
+                dangerThreshold: recession.dangerLevel,
+                historicalAverage: recession.historicalAvg,
+                status: recession.status,
+                trend: recession.value > recession.historicalAvg ? ('up' as const) : ('down' as const),
+                description: recession.description,
+                derivation: `Probit on the monthly average 10Y-3M spread; refers to ${new Date(recession.targetMonth).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' })}`,
+                staleSince: recession.staleSince,
+              },
+            ]
+          : []),
         {
           id: 'margin-debt',
           name: 'Margin Debt / GDP',
@@ -374,10 +378,59 @@ export function IndicatorGrid() {
           status: data.buffett.status,
           trend: data.buffett.value > data.buffett.historicalAvg ? 'up' : 'down',
           description: data.buffett.description,
+          derivation: getBuffettDerivation(data.buffett),
+        },
+      ]
+    : [];
+
+  // Labor market cards (real-economy signals)
+  const laborIndicators: Indicator[] = data
+    ? [
+        {
+          id: 'sahm-rule',
+          name: 'Sahm Rule',
+          currentValue: data.sahmRule.value,
+          unit: ' pts',
+          warningThreshold: data.sahmRule.warningLevel,
+          dangerThreshold: data.sahmRule.dangerLevel,
+          historicalAverage: data.sahmRule.historicalAvg,
+          status: data.sahmRule.status,
+          trend: data.sahmRule.value > data.sahmRule.historicalAvg ? 'up' : 'down',
+          description: data.sahmRule.description,
+          derivation: 'unemploymentRate' in data.sahmRule
+            ? `Unemployment ${data.sahmRule.unemploymentRate.toFixed(1)}%, 3-month avg ${data.sahmRule.threeMonthAverage.toFixed(2)}% vs. low ${data.sahmRule.twelveMonthLow.toFixed(2)}%`
+            : undefined,
+          staleSince: data.sahmRule.staleSince,
+        },
+        {
+          id: 'initial-claims',
+          name: 'Initial Claims Trend',
+          currentValue: data.initialClaims.value,
+          unit: '%',
+          warningThreshold: data.initialClaims.warningLevel,
+          dangerThreshold: data.initialClaims.dangerLevel,
+          historicalAverage: data.initialClaims.historicalAvg,
+          status: data.initialClaims.status,
+          trend: data.initialClaims.value > data.initialClaims.historicalAvg ? 'up' : 'down',
+          description: data.initialClaims.description,
+          derivation: 'fourWeekAverage' in data.initialClaims && data.initialClaims.yearAgoChange !== null
+            ? `4-week average ${data.initialClaims.yearAgoChange >= 0 ? '+' : ''}${data.initialClaims.yearAgoChange.toFixed(1)}% year over year`
+            : undefined,
+          staleSince: data.initialClaims.staleSince,
         },
       ]
     : [];
 
+  // Breadth cards; the sparkline under the A/D card shows the cumulative line
+  const breadthIndicators: Indicator[] = breadth
+    ? [
+        toBreadthIndicator('breadth-200', '% Above 200-Day MA', breadth.breadth200),
+        toBreadthIndicator('breadth-50', '% Above 50-Day MA', breadth.breadth50),
+        toBreadthIndicator('net-new-highs', 'Net New Highs', breadth.netNewHighs),
+        toBreadthIndicator('advance-decline', 'Advance/Decline Line', breadth.advanceDecline),
+      ]
+    : [];
+
   return (
     <div className="w-full">
       <div className="mb-6 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
@@ -437,8 +490,8 @@ export function IndicatorGrid() {
 
       {/* Loading State */}
       {isLoading ? (
-        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5">
-          {[...Array(5)].map((_, i) => (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {[...Array(6)].map((_, i) => (
             <Card key={i} className="bg-slate-800/50 backdrop-blur-sm border-slate-700">
               <CardHeader className="pb-3">
                 <Skeleton className="h-4 w-24" />
@@ -452,12 +505,67 @@ export function IndicatorGrid() {
           ))}
         </div>
       ) : indicators.length > 0 ? (
-        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
           {indicators.map((indicator) => (
             <IndicatorCard key={indicator.id} indicator={indicator} />
           ))}
         </div>
       ) : null}
+
+      {/* Labor Market */}
+      {laborIndicators.length > 0 && (
+        <>
+          <div className="mt-8 mb-4">
+            <h3 className="text-lg font-semibold text-white">Labor Market</h3>
+            <p className="mt-1 text-sm text-slate-400">
+              Unemployment and jobless claims, from FRED
+            </p>
+          </div>
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            {laborIndicators.map((indicator) => (
+              <IndicatorCard key={indicator.id} indicator={indicator} />
+            ))}
+          </div>
+        </>
+      )}
+
+      {/* Market Breadth */}
+      <div className="mt-8 mb-4">
+        <h3 className="text-lg font-semibold text-white">Market Breadth</h3>
+        <p className="mt-1 text-sm text-slate-400">
+          Participation across S&amp;P 500 constituents, from daily closes
+        </p>
+      </div>
+
+      {breadthError && (
+        <div className="mb-4 rounded-lg border border-slate-600 bg-slate-800/50 p-4">
+          <p className="text-sm text-slate-400">
+            Breadth unavailable: {breadthError.message}
+          </p>
+        </div>
+      )}
+
+      {isBreadthLoading ? (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 xl:grid-cols-4">
+          {[...Array(4)].map((_, i) => (
+            <Card key={i} className="bg-slate-800/50 backdrop-blur-sm border-slate-700">
+              <CardHeader className="pb-3">
+                <Skeleton className="h-4 w-24" />
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Skeleton className="h-8 w-32" />
+                <Skeleton className="h-3 w-full" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : breadthIndicators.length > 0 ? (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 xl:grid-cols-4">
+          {breadthIndicators.map((indicator) => (
+            <IndicatorCard key={indicator.id} indicator={indicator} />
+          ))}
+        </div>
+      ) : null}
     </div>
   );
 }
@@ -1,5 +1,9 @@
+'use client';
+
+import { useState, type KeyboardEvent } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { CandlestickChartDialog } from '@/components/charts/candlestick-chart';
 import { cn } from '@/lib/utils';
 
 export interface KPICardProps {
@@ -14,6 +18,8 @@ export interface KPICardProps {
   unit?: string;
   className?: string;
   invertThresholds?: boolean; // If true, higher values are worse (e.g., VIX)
+  symbol?: string; // If set, clicking the card opens its candlestick chart
+  assetClass?: 'index' | 'stock' | 'crypto';
 }
 
 type StatusColor = 'success' | 'warning' | 'critical';
@@ -92,6 +98,7 @@ function getColorClasses(status: StatusColor) {
 /**
  * KPI Card Component
  * Displays a key performance indicator with title, value, change percentage, and color coding
+ * With a symbol, clicking the card opens a candlestick chart for it
  */
 export function KPICard({
   title,
@@ -102,7 +109,10 @@ export function KPICard({
   unit,
   className,
   invertThresholds = false,
+  symbol,
+  assetClass,
 }: KPICardProps) {
+  const [isChartOpen, setIsChartOpen] = useState(false);
   const status = getStatusColor(value, changePercent, threshold, invertThresholds);
   const colors = getColorClasses(status);
   const formattedValue = formatValue
@@ -113,37 +123,57 @@ export function KPICard({
       });
 
   return (
-    <Card
-      className={cn(
-        'transition-all hover:shadow-md',
-        colors.border,
-        className
-      )}
-    >
-      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-        <CardTitle className="text-sm font-medium text-muted-foreground">
-          {title}
-        </CardTitle>
-        {changePercent !== undefined && (
-          <Badge
-            variant="outline"
-            className={cn('text-xs font-semibold', colors.badge)}
-          >
-            {formatChangePercent(changePercent)}
-          </Badge>
+    <>
+      <Card
+        className={cn(
+          'transition-all hover:shadow-md',
+          symbol && 'cursor-pointer',
+          colors.border,
+          className
         )}
-      </CardHeader>
-      <CardContent>
-        <div className="flex items-baseline gap-2">
-          <span className={cn('text-2xl font-bold', colors.value)}>
-            {formattedValue}
-          </span>
-          {unit && (
-            <span className="text-sm text-muted-foreground">{unit}</span>
+        {...(symbol && {
+          role: 'button',
+          tabIndex: 0,
+          'aria-label': `Open ${title} chart`,
+          onClick: () => setIsChartOpen(true),
+          onKeyDown: (event: KeyboardEvent) => {
+            if (event.key === 'Enter' || event.key === ' ') setIsChartOpen(true);
+          },
+        })}
+      >
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium text-muted-foreground">
+            {title}
+          </CardTitle>
+          {changePercent !== undefined && (
+            <Badge
+              variant="outline"
+              className={cn('text-xs font-semibold', colors.badge)}
+            >
+              {formatChangePercent(changePercent)}
+            </Badge>
           )}
-        </div>
-      </CardContent>
-    </Card>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-baseline gap-2">
+            <span className={cn('text-2xl font-bold', colors.value)}>
+              {formattedValue}
+            </span>
+            {unit && (
+              <span className="text-sm text-muted-foreground">{unit}</span>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+      {symbol && isChartOpen && (
+        <CandlestickChartDialog
+          symbol={symbol}
+          title={title}
+          assetClass={assetClass}
+          onClose={() => setIsChartOpen(false)}
+        />
+      )}
+    </>
   );
 }
 
@@ -0,0 +1,174 @@
+'use client';
+
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { SparklineChart } from '@/components/charts/sparkline-chart';
+import { cn } from '@/lib/utils';
+import { useMarketRegime } from '@/hooks/use-market-regime';
+import type { DrawdownRegime, IndexRegime } from '@/lib/marketRegime';
+
+/**
+ * Props for MarketRegimePanel component
+ */
+export interface MarketRegimePanelProps {
+  className?: string;
+}
+
+const REGIME_STYLES: Record<DrawdownRegime, { badge: string; chart: string }> = {
+  'near-high': { badge: 'bg-green-500 text-white border-green-600', chart: '#22c55e' },
+  pullback: { badge: 'bg-yellow-500 text-white border-yellow-600', chart: '#eab308' },
+  correction: { badge: 'bg-orange-500 text-white border-orange-600', chart: '#f97316' },
+  bear: { badge: 'bg-red-500 text-white border-red-600', chart: '#ef4444' },
+};
+
+function formatPercent(value: number | null, signed: boolean = false): string {
+  if (value === null) return '—';
+  return `${signed && value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+}
+
+/**
+ * Drawdown, days since peak and realized volatility for one index
+ */
+function IndexRegimeStat({ index }: { index: IndexRegime }) {
+  const style = REGIME_STYLES[index.drawdownRegime];
+
+  return (
+    <div className="space-y-1">
+      <p className="text-sm text-muted-foreground">{index.name}</p>
+      <div className="flex items-baseline gap-2">
+        <span className="text-2xl font-bold text-foreground">{formatPercent(index.drawdown)}</span>
+        <span className="text-xs text-muted-foreground">from peak</span>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {index.daysSincePeak === 0
+          ? 'At a new high'
+          : `${index.daysSincePeak} days since peak of ${index.peak.toLocaleString('en-US', { maximumFractionDigits: 2 })} (${format(new Date(index.peakDate), 'MMM d, yyyy')})`}
+      </p>
+      <p className="text-xs text-muted-foreground">
+        Realized vol: {formatPercent(index.realizedVol20)} (20d) · {formatPercent(index.realizedVol60)} (60d)
+      </p>
+      <SparklineChart
+        data={index.history.map((point) => ({ date: point.date, value: point.drawdown }))}
+        color={style.chart}
+        showArea={true}
+      />
+    </div>
+  );
+}
+
+/**
+ * Market Regime Panel
+ * Index drawdowns from their peaks, realized vs implied volatility, and how
+ * the S&P 500 drawdown compares with past crashes at the same stage
+ */
+export function MarketRegimePanel({ className }: MarketRegimePanelProps) {
+  const { data, isLoading, error } = useMarketRegime();
+
+  if (isLoading) {
+    return (
+      <Card className={cn('bg-slate-800/50 backdrop-blur-sm border-slate-700', className)}>
+        <CardHeader>
+          <Skeleton className="h-4 w-32" />
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Skeleton className="h-8 w-48" />
+          <Skeleton className="h-[60px] w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="rounded-lg border border-red-500/50 bg-red-500/10 p-4">
+        <p className="text-sm text-red-400">
+          Error loading market regime: {error?.message ?? 'No data'}
+        </p>
+      </div>
+    );
+  }
+
+  const sp500 = data.indices[0];
+
+  return (
+    <Card className={cn('bg-slate-800/50 backdrop-blur-sm border-slate-700', className)}>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-xl font-semibold text-white">Market Regime</CardTitle>
+            <p className="mt-1 text-sm text-slate-400">
+              Drawdowns and volatility from daily closes since {format(new Date(sp500.historyStart), 'MMM yyyy')}
+            </p>
+          </div>
+          <Badge className={cn('text-xs font-semibold', REGIME_STYLES[data.drawdownRegime].badge)}>
+            {data.regime}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+          {data.indices.map((index) => (
+            <IndexRegimeStat key={index.symbol} index={index} />
+          ))}
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 border-t border-slate-700 pt-4 text-sm">
+          <div>
+            <p className="text-xs text-muted-foreground">VIX</p>
+            <p className="font-semibold text-foreground">{data.vix !== null ? data.vix.toFixed(1) : '—'}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">S&amp;P 500 realized vol (20d)</p>
+            <p className="font-semibold text-foreground">{formatPercent(sp500.realizedVol20)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground" title="VIX minus 20-day realized volatility">
+              VIX premium
+            </p>
+            <p
+              className={cn(
+                'font-semibold',
+                data.vixPremium !== null && data.vixPremium < 0 ? 'text-red-400' : 'text-foreground'
+              )}
+            >
+              {data.vixPremium !== null ? `${data.vixPremium > 0 ? '+' : ''}${data.vixPremium.toFixed(1)} pts` : '—'}
+            </p>
+          </div>
+        </div>
+
+        <div className="border-t border-slate-700 pt-4">
+          <h3 className="text-sm font-semibold text-muted-foreground">Compared with past crashes</h3>
+          <p className="mt-1 text-xs text-muted-foreground">
+            S&amp;P 500 is {data.monthsSincePeak.toFixed(1)} months past its peak at {formatPercent(sp500.drawdown)}
+          </p>
+          <div className="mt-3 overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-1 pr-4 font-medium">Crash</th>
+                  <th className="py-1 pr-4 font-medium">Same stage</th>
+                  <th className="py-1 pr-4 font-medium">Trough</th>
+                  <th className="py-1 font-medium">Peak to trough</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.crashComparisons.map((crash) => (
+                  <tr key={crash.id} className="border-t border-slate-700/50">
+                    <td className="py-1 pr-4 text-foreground">
+                      {crash.name} <span className="text-muted-foreground">({crash.peak.slice(0, 4)})</span>
+                    </td>
+                    <td className="py-1 pr-4">{formatPercent(crash.pathDrawdown)}</td>
+                    <td className="py-1 pr-4 text-red-400">{formatPercent(crash.troughDrawdown)}</td>
+                    <td className="py-1">{crash.monthsToTrough} months</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
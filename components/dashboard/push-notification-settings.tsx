@@ -0,0 +1,117 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { usePushNotifications } from '@/hooks/use-push-notifications';
+import type { AlertSeverity } from '@/lib/alertEngine';
+
+const SEVERITY_OPTIONS: Array<{ severity: AlertSeverity; label: string; description: string }> = [
+  { severity: 'critical', label: 'Critical', description: 'An indicator reaches danger, or crash risk rises to High or Critical' },
+  { severity: 'warning', label: 'Warning', description: 'An indicator reaches warning, or crash risk rises to Moderate or Elevated' },
+  { severity: 'info', label: 'Info', description: 'A reading eases, or crash risk falls' },
+];
+
+/**
+ * Opt this browser in or out of push notifications, per alert severity
+ */
+export function PushNotificationSettings() {
+  const { isSupported, data, isLoading, error, subscribe, unsubscribe, sendTest } = usePushNotifications();
+  const [selected, setSelected] = useState<AlertSeverity[]>(['critical']);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const subscription = data?.subscription ?? null;
+  const severities = subscription?.severities ?? selected;
+
+  const run = async (action: () => Promise<void>, success?: string) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      if (success) setMessage({ text: success, isError: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Something went wrong', isError: true });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const toggle = (severity: AlertSeverity, checked: boolean) => {
+    const next = checked ? [...severities, severity] : severities.filter((item) => item !== severity);
+    if (subscription) {
+      run(() => subscribe(next));
+    } else {
+      setSelected(next);
+    }
+  };
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700">
+      <CardHeader>
+        <CardTitle>Browser Notifications</CardTitle>
+        <CardDescription>Get a notification on this device when an alert fires, even with the site closed</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isSupported ? (
+          <p className="text-sm text-slate-400">This browser does not support push notifications.</p>
+        ) : isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : (
+          <>
+            {error && <p className="text-sm text-red-400">{error.message}</p>}
+            {data?.permission === 'denied' && (
+              <p className="text-sm text-yellow-400">
+                Notifications are blocked for this site. Allow them in your browser settings to turn them on.
+              </p>
+            )}
+
+            <div className="space-y-3">
+              {SEVERITY_OPTIONS.map((option) => (
+                <label key={option.severity} className="flex cursor-pointer items-start gap-3">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={severities.includes(option.severity)}
+                    // At least one severity stays selected; turn notifications off instead
+                    disabled={isBusy || (severities.length === 1 && severities.includes(option.severity))}
+                    onChange={(e) => toggle(option.severity, e.target.checked)}
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-white">{option.label}</span>
+                    <span className="block text-xs text-slate-400">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              {subscription ? (
+                <>
+                  <Button size="sm" variant="outline" disabled={isBusy} onClick={() => run(unsubscribe)}>
+                    Turn off
+                  </Button>
+                  <Button size="sm" variant="ghost" disabled={isBusy} onClick={() => run(sendTest, 'Test notification sent')}>
+                    Send test
+                  </Button>
+                </>
+              ) : (
+                <Button
+                  size="sm"
+                  disabled={isBusy || data?.permission === 'denied'}
+                  onClick={() => run(() => subscribe(severities), 'Notifications are on for this browser')}
+                >
+                  Turn on notifications
+                </Button>
+              )}
+              {message && (
+                <span className={message.isError ? 'text-sm text-red-400' : 'text-sm text-green-400'}>{message.text}</span>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { SparklineChart } from '@/components/charts/sparkline-chart';
+import { VixTermStructureChart } from '@/components/charts/vix-term-structure-chart';
+import { cn } from '@/lib/utils';
+import { useVixTermStructure } from '@/hooks/use-vix-term-structure';
+import type { TermStructureState } from '@/lib/vixTermStructure';
+
+/**
+ * Props for VixTermStructureCard component
+ */
+export interface VixTermStructureCardProps {
+  className?: string;
+}
+
+const STATE_STYLES: Record<TermStructureState, { label: string; badge: string; chart: string }> = {
+  contango: { label: 'Contango', badge: 'bg-green-500 text-white border-green-600', chart: '#22c55e' },
+  flat: { label: 'Flat', badge: 'bg-yellow-500 text-white border-yellow-600', chart: '#eab308' },
+  backwardation: { label: 'Backwardation', badge: 'bg-red-500 text-white border-red-600', chart: '#ef4444' },
+};
+
+function formatRatio(value: number | null): string {
+  return value !== null ? value.toFixed(2) : '—';
+}
+
+/**
+ * VIX Term Structure Card
+ * The implied volatility curve across tenors, its contango / backwardation
+ * state and a year of the VIX / VIX3M ratio
+ */
+export function VixTermStructureCard({ className }: VixTermStructureCardProps) {
+  const { data, isLoading, error } = useVixTermStructure();
+
+  if (isLoading) {
+    return (
+      <Card className={cn('bg-slate-800/50 backdrop-blur-sm border-slate-700', className)}>
+        <CardHeader>
+          <Skeleton className="h-4 w-32" />
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Skeleton className="h-8 w-48" />
+          <Skeleton className="h-[220px] w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className={cn('rounded-lg border border-red-500/50 bg-red-500/10 p-4', className)}>
+        <p className="text-sm text-red-400">
+          Error loading VIX term structure: {error?.message ?? 'No data'}
+        </p>
+      </div>
+    );
+  }
+
+  const style = STATE_STYLES[data.state];
+
+  return (
+    <Card className={cn('bg-slate-800/50 backdrop-blur-sm border-slate-700', className)}>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-sm font-medium text-muted-foreground">VIX Term Structure</CardTitle>
+            <p className="mt-1 text-xs text-muted-foreground">
+              Closes of {format(new Date(data.date), 'MMM d, yyyy')}
+              {data.reading.staleSince && ' (stale)'}
+            </p>
+          </div>
+          <Badge className={cn('text-xs font-semibold', style.badge)}>{style.label}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+          <VixTermStructureChart
+            curve={data.curve}
+            comparison={data.comparisonCurve}
+            date={data.date}
+            color={style.chart}
+            className="md:col-span-2"
+          />
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <p className="text-xs text-muted-foreground" title="Above 1 means backwardation">
+                  VIX / VIX3M
+                </p>
+                <p className={cn('text-2xl font-bold', data.ratio >= 1 ? 'text-red-400' : 'text-foreground')}>
+                  {formatRatio(data.ratio)}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground" title="Above 1 means backwardation at the front">
+                  VIX9D / VIX3M
+                </p>
+                <p
+                  className={cn(
+                    'text-2xl font-bold',
+                    data.frontRatio !== null && data.frontRatio >= 1 ? 'text-red-400' : 'text-foreground'
+                  )}
+                >
+                  {formatRatio(data.frontRatio)}
+                </p>
+              </div>
+            </div>
+
+            <div>
+              <p className="text-xs text-muted-foreground">VIX / VIX3M, past year</p>
+              <SparklineChart
+                data={data.history.map((point) => ({ date: point.date, value: point.ratio }))}
+                color={style.chart}
+                showArea={false}
+              />
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
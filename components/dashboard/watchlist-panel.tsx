@@ -0,0 +1,281 @@
+'use client';
+
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Plus, Search, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { MarketDataResponse } from '@/lib/api/marketData';
+import type { Watchlist, WatchlistAssetClass, WatchlistItem } from '@/lib/types';
+import { watchlistItemKey } from '@/lib/data/watchlists';
+import { lookupSymbol, useWatchlistQuotes, useWatchlists } from '@/hooks/use-watchlists';
+
+/**
+ * Props for WatchlistPanel component
+ */
+export interface WatchlistPanelProps {
+  className?: string;
+}
+
+const ASSET_CLASS_LABELS: Record<WatchlistAssetClass, string> = {
+  stock: 'Stock',
+  crypto: 'Crypto',
+  commodity: 'Commodity',
+};
+
+const inputClassName =
+  'px-3 py-1.5 border border-input rounded-md text-sm bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50';
+
+/**
+ * Price and daily change for one watchlist item
+ */
+function WatchlistQuote({
+  item,
+  quote,
+  onRemove,
+}: {
+  item: WatchlistItem;
+  quote?: MarketDataResponse;
+  onRemove?: () => void;
+}) {
+  const hasValue = quote !== undefined && quote.value > 0;
+
+  return (
+    <div className="relative">
+      <div className="flex items-baseline gap-2 flex-wrap">
+        <span className="text-xl font-bold text-foreground">
+          {hasValue ? (
+            `$${quote.value.toLocaleString('en-US', {
+              minimumFractionDigits: 2,
+              maximumFractionDigits: 2,
+            })}`
+          ) : (
+            <span className="text-muted-foreground text-sm">{quote?.error ? 'Unavailable' : 'Loading...'}</span>
+          )}
+        </span>
+        {hasValue && quote.changePercent !== undefined && (
+          <Badge
+            variant="outline"
+            className={`text-xs ${
+              quote.changePercent >= 0
+                ? 'text-green-600 dark:text-green-400 border-green-500/50'
+                : 'text-red-600 dark:text-red-400 border-red-500/50'
+            }`}
+          >
+            {quote.changePercent >= 0 ? '+' : ''}
+            {quote.changePercent.toFixed(2)}%
+          </Badge>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground mt-1">{item.label || item.symbol}</p>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="absolute top-0 right-0 text-muted-foreground hover:text-red-500"
+          aria-label={`Remove ${item.symbol}`}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * One watchlist rendered as a grid of quotes
+ */
+function WatchlistSection({
+  watchlist,
+  isEditing,
+  onRemoveItem,
+  onDelete,
+}: {
+  watchlist: Watchlist;
+  isEditing: boolean;
+  onRemoveItem: (item: WatchlistItem) => void;
+  onDelete: () => void;
+}) {
+  const { quotes } = useWatchlistQuotes(watchlist.items);
+
+  return (
+    <div className="mt-6 pt-6 border-t border-slate-700">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-muted-foreground">{watchlist.name}</h3>
+        {isEditing && (
+          <Button variant="ghost" size="sm" onClick={onDelete} aria-label={`Delete ${watchlist.name}`}>
+            <Trash2 className="h-4 w-4" />
+            Delete list
+          </Button>
+        )}
+      </div>
+      {watchlist.items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No symbols yet{isEditing ? '' : ' — use Edit to add some'}.</p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+          {watchlist.items.map((item) => (
+            <WatchlistQuote
+              key={watchlistItemKey(item)}
+              item={item}
+              quote={quotes[watchlistItemKey(item)]}
+              onRemove={isEditing ? () => onRemoveItem(item) : undefined}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Dashboard watchlists: a quote grid per watchlist plus add/remove/search
+ * controls. Symbols are validated against the market data routes before
+ * they are added.
+ */
+export function WatchlistPanel({ className }: WatchlistPanelProps) {
+  const { watchlists, storage, createWatchlist, deleteWatchlist, addSymbol, removeSymbol } = useWatchlists();
+  const [isEditing, setIsEditing] = useState(false);
+  const [targetId, setTargetId] = useState('');
+  const [assetClass, setAssetClass] = useState<WatchlistAssetClass>('stock');
+  const [symbol, setSymbol] = useState('');
+  const [preview, setPreview] = useState<MarketDataResponse | null>(null);
+  const [newListName, setNewListName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const selectedId = watchlists.some((watchlist) => watchlist.id === targetId) ? targetId : watchlists[0]?.id ?? '';
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await action();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleLookup = () =>
+    run(async () => {
+      setPreview(null);
+      setPreview(await lookupSymbol(symbol, assetClass));
+    });
+
+  const handleAdd = () =>
+    run(async () => {
+      await addSymbol(selectedId, { symbol: symbol.trim().toUpperCase(), assetClass });
+      setSymbol('');
+      setPreview(null);
+    });
+
+  const handleCreate = () =>
+    run(async () => {
+      await createWatchlist(newListName);
+      setNewListName('');
+    });
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          {storage === 'account' ? 'Watchlists saved to your subscription' : 'Watchlists saved in this browser'}
+        </p>
+        <Button variant="outline" size="sm" onClick={() => setIsEditing(!isEditing)}>
+          {isEditing ? 'Done' : 'Edit watchlists'}
+        </Button>
+      </div>
+
+      {isEditing && (
+        <div className="mt-4 space-y-3 rounded-lg border border-slate-700 p-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={selectedId}
+              onChange={(e) => setTargetId(e.target.value)}
+              className={inputClassName}
+              aria-label="Watchlist"
+            >
+              {watchlists.map((watchlist) => (
+                <option key={watchlist.id} value={watchlist.id}>
+                  {watchlist.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={assetClass}
+              onChange={(e) => {
+                setAssetClass(e.target.value as WatchlistAssetClass);
+                setPreview(null);
+              }}
+              className={inputClassName}
+              aria-label="Asset class"
+            >
+              {(Object.keys(ASSET_CLASS_LABELS) as WatchlistAssetClass[]).map((value) => (
+                <option key={value} value={value}>
+                  {ASSET_CLASS_LABELS[value]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={symbol}
+              onChange={(e) => {
+                setSymbol(e.target.value);
+                setPreview(null);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && symbol.trim()) handleLookup();
+              }}
+              placeholder={assetClass === 'crypto' ? 'e.g. SOL' : assetClass === 'commodity' ? 'e.g. GOLD' : 'e.g. AMD'}
+              className={cn(inputClassName, 'w-32 uppercase')}
+              disabled={isBusy}
+              aria-label="Symbol"
+            />
+            <Button variant="outline" size="sm" onClick={handleLookup} disabled={isBusy || !symbol.trim()}>
+              <Search className="h-4 w-4" />
+              Look up
+            </Button>
+            <Button size="sm" onClick={handleAdd} disabled={isBusy || !preview || !selectedId}>
+              <Plus className="h-4 w-4" />
+              Add
+            </Button>
+          </div>
+          {preview && (
+            <p className="text-sm text-muted-foreground">
+              {symbol.trim().toUpperCase()}: ${preview.value.toLocaleString('en-US', { maximumFractionDigits: 2 })} (
+              {preview.changePercent >= 0 ? '+' : ''}
+              {preview.changePercent.toFixed(2)}%)
+            </p>
+          )}
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={newListName}
+              onChange={(e) => setNewListName(e.target.value)}
+              placeholder="New watchlist name"
+              className={cn(inputClassName, 'w-48')}
+              disabled={isBusy}
+              aria-label="New watchlist name"
+            />
+            <Button variant="outline" size="sm" onClick={handleCreate} disabled={isBusy || !newListName.trim()}>
+              <Plus className="h-4 w-4" />
+              New list
+            </Button>
+          </div>
+          {message && <p className="text-sm text-red-500">{message}</p>}
+        </div>
+      )}
+
+      {watchlists.map((watchlist) => (
+        <WatchlistSection
+          key={watchlist.id}
+          watchlist={watchlist}
+          isEditing={isEditing}
+          onRemoveItem={(item) => run(() => removeSymbol(watchlist.id, item))}
+          onDelete={() => run(() => deleteWatchlist(watchlist.id))}
+        />
+      ))}
+    </div>
+  );
+}
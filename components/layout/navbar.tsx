@@ -10,6 +10,8 @@ const navigationItems = [
   { name: 'Dashboard', href: '/' },
   { name: 'About', href: '/about' },
   { name: 'Crash Timeline', href: '/crash-timeline' },
+  { name: 'Liquidity', href: '/liquidity' },
+  { name: 'Explore', href: '/explore' },
   { name: 'AI Picks', href: '/ai-picks' },
   { name: 'Newsletter', href: '/newsletter' },
   { name: 'Contact Us', href: '/contact' },
@@ -0,0 +1,137 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { AlertRule } from '@/lib/types';
+import type { SubscriberPreferences } from '@/lib/alertRules';
+
+interface AlertPreferencesState {
+  preferences: SubscriberPreferences;
+  rules: AlertRule[];
+}
+
+/**
+ * Editable fields of an alert rule
+ */
+export type AlertRuleInput = Pick<AlertRule, 'target' | 'direction' | 'warning' | 'critical' | 'enabled' | 'description'>;
+
+/**
+ * Return type for useAlertPreferences hook
+ */
+export interface UseAlertPreferencesReturn {
+  data: AlertPreferencesState | undefined;
+  isLoading: boolean;
+  error: Error | null;
+  updatePreferences: (changes: Partial<Omit<SubscriberPreferences, 'email'>>) => Promise<void>;
+  createRule: (rule: AlertRuleInput) => Promise<void>;
+  updateRule: (id: string, rule: AlertRuleInput) => Promise<void>;
+  deleteRule: (id: string) => Promise<void>;
+}
+
+async function preferencesRequest<T>(
+  token: string,
+  path: '/api/preferences' | '/api/preferences/alert-rules',
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+  body?: Record<string, unknown>
+): Promise<T> {
+  const url = method === 'DELETE' ? `${path}?id=${encodeURIComponent(String(body?.id))}` : path;
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json', 'x-subscriber-token': token },
+    body: method === 'DELETE' || method === 'GET' ? undefined : JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Preferences request failed: ${response.status}`);
+  }
+  return data as T;
+}
+
+/**
+ * Custom React hook for a subscriber's email preferences and alert rules,
+ * authenticated with the token from the link in our emails
+ *
+ * @param token - Subscriber token; null disables the query
+ * @returns {UseAlertPreferencesReturn} Preferences and rules, loading state, error, and functions to edit them
+ *
+ * @example
+ * ```tsx
+ * const { data, createRule } = useAlertPreferences(token);
+ *
+ * return (
+ *   <button onClick={() => createRule({ target: 'vix', direction: 'above', warning: 28, critical: 35, enabled: true })}>
+ *     Alert me when VIX is above 28 ({data?.rules.length ?? 0} rules)
+ *   </button>
+ * );
+ * ```
+ */
+export function useAlertPreferences(token: string | null): UseAlertPreferencesReturn {
+  const queryClient = useQueryClient();
+  const queryKey = ['preferences', token];
+
+  const { data, isLoading, error } = useQuery<AlertPreferencesState>({
+    queryKey,
+    queryFn: () => preferencesRequest<AlertPreferencesState>(token ?? '', '/api/preferences', 'GET'),
+    enabled: Boolean(token),
+    staleTime: 5 * 60 * 1000,
+    retry: 1,
+    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+  });
+
+  const update = useCallback(
+    (change: (state: AlertPreferencesState) => AlertPreferencesState) => {
+      queryClient.setQueryData<AlertPreferencesState>(['preferences', token], (state) => (state ? change(state) : state));
+    },
+    [queryClient, token]
+  );
+
+  const updatePreferences = useCallback(
+    async (changes: Partial<Omit<SubscriberPreferences, 'email'>>) => {
+      const { preferences } = await preferencesRequest<{ preferences: SubscriberPreferences }>(
+        token ?? '',
+        '/api/preferences',
+        'PATCH',
+        changes
+      );
+      update((state) => ({ ...state, preferences }));
+    },
+    [token, update]
+  );
+
+  const createRule = useCallback(
+    async (input: AlertRuleInput) => {
+      const { rule } = await preferencesRequest<{ rule: AlertRule }>(token ?? '', '/api/preferences/alert-rules', 'POST', {
+        ...input,
+      });
+      update((state) => ({ ...state, rules: [...state.rules, rule] }));
+    },
+    [token, update]
+  );
+
+  const updateRule = useCallback(
+    async (id: string, input: AlertRuleInput) => {
+      const { rule } = await preferencesRequest<{ rule: AlertRule }>(token ?? '', '/api/preferences/alert-rules', 'PATCH', {
+        id,
+        ...input,
+      });
+      update((state) => ({ ...state, rules: state.rules.map((existing) => (existing.id === id ? rule : existing)) }));
+    },
+    [token, update]
+  );
+
+  const deleteRule = useCallback(
+    async (id: string) => {
+      await preferencesRequest(token ?? '', '/api/preferences/alert-rules', 'DELETE', { id });
+      update((state) => ({ ...state, rules: state.rules.filter((rule) => rule.id !== id) }));
+    },
+    [token, update]
+  );
+
+  return {
+    data,
+    isLoading,
+    error: error as Error | null,
+    updatePreferences,
+    createRule,
+    updateRule,
+    deleteRule,
+  };
+}
@@ -0,0 +1,74 @@
+import { useQuery } from '@tanstack/react-query';
+import type { CandleSeries } from '@/lib/candles';
+import type { CandleResolution } from '@/lib/types';
+
+/**
+ * Return type for useCandles hook
+ */
+export interface UseCandlesReturn {
+  data: CandleSeries | undefined;
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => void;
+}
+
+/**
+ * Refetch interval per resolution (intraday bars refresh faster)
+ */
+const REFETCH_INTERVAL_MS: Record<CandleResolution, number> = {
+  '1': 60 * 1000,
+  '5': 5 * 60 * 1000,
+  '60': 15 * 60 * 1000,
+  D: 60 * 60 * 1000,
+  W: 6 * 60 * 60 * 1000,
+};
+
+/**
+ * Custom React hook to fetch OHLCV candles for a symbol from
+ * /api/market-data/[symbol]/candles (default window for the resolution)
+ *
+ * @param symbol - App symbol (e.g. 'AAPL', 'VIX', 'BTC'); null disables the query
+ * @param resolution - 1, 5 or 60 minutes, D or W (default 'D')
+ * @param assetClass - Override the asset class (e.g. 'crypto' for BTC)
+ * @returns {UseCandlesReturn} Object containing the candle series, loading state, error, and refetch function
+ *
+ * @example
+ * ```tsx
+ * const { data } = useCandles('AAPL', '60');
+ *
+ * return <CandlestickChart candles={data?.candles ?? []} resolution="60" />;
+ * ```
+ */
+export function useCandles(
+  symbol: string | null,
+  resolution: CandleResolution = 'D',
+  assetClass?: 'index' | 'stock' | 'crypto'
+): UseCandlesReturn {
+  const { data, isLoading, error, refetch } = useQuery<CandleSeries>({
+    queryKey: ['market-data', 'candles', symbol, resolution, assetClass ?? null],
+    queryFn: async () => {
+      const params = new URLSearchParams({ resolution });
+      if (assetClass) params.set('assetClass', assetClass);
+
+      const response = await fetch(`/api/market-data/${encodeURIComponent(symbol ?? '')}/candles?${params.toString()}`);
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || `Failed to fetch ${symbol} candles`);
+      }
+      return body as CandleSeries;
+    },
+    enabled: Boolean(symbol),
+    refetchInterval: REFETCH_INTERVAL_MS[resolution],
+    staleTime: REFETCH_INTERVAL_MS[resolution] / 2,
+    gcTime: 30 * 60 * 1000,
+    retry: 1,
+    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+  });
+
+  return {
+    data,
+    isLoading,
+    error: error as Error | null,
+    refetch,
+  };
+}
@@ -1,5 +1,7 @@
 import { useQueries } from '@tanstack/react-query';
-import { EconomicIndicatorResponse } from '@/lib/api/economicIndicators';
+import type { BuffettIndicatorResponse, EconomicIndicatorResponse } from '@/lib/data/economicIndicators';
+import type { InitialClaimsResponse, SahmRuleResponse } from '@/lib/api/laborMarket';
+import { useStreamStatus } from '@/hooks/use-live-updates';
 
 /**
  * Combined economic indicators response
@@ -9,7 +11,9 @@ export interface CombinedEconomicIndicators {
   yieldCurve: EconomicIndicatorResponse;
   marginDebt: EconomicIndicatorResponse;
   creditSpreads: EconomicIndicatorResponse;
-  buffett: EconomicIndicatorResponse;
+  buffett: EconomicIndicatorResponse | BuffettIndicatorResponse;
+  sahmRule: EconomicIndicatorResponse | SahmRuleResponse;
+  initialClaims: EconomicIndicatorResponse | InitialClaimsResponse;
 }
 
 /**
@@ -29,6 +33,9 @@ export interface UseEconomicIndicatorsReturn {
  * @returns {UseEconomicIndicatorsReturn} Object containing combined data, loading state, error, and refetch function
  */
 export function useEconomicIndicators(): UseEconomicIndicatorsReturn {
+  // Indicators arrive on the live stream while it is connected
+  const refetchInterval = useStreamStatus() === 'live' ? false : 5 * 60 * 1000;
+
   const queries = useQueries({
     queries: [
       {
@@ -40,6 +47,7 @@ export function useEconomicIndicators(): UseEconomicIndicatorsReturn {
             if (data.error) {
               // Return fallback data instead of throwing
               return {
+                error: data.error,
                 value: 0,
                 status: 'safe' as const,
                 historicalAvg: 16.8,
@@ -53,6 +61,7 @@ export function useEconomicIndicators(): UseEconomicIndicatorsReturn {
           } catch (error) {
             // Return fallback data on network errors
             return {
+              error: error instanceof Error ? error.message : 'Network error',
               value: 0,
               status: 'safe' as const,
               historicalAvg: 16.8,
@@ -63,7 +72,7 @@ export function useEconomicIndicators(): UseEconomicIndicatorsReturn {
             } as EconomicIndicatorResponse;
           }
         },
-        refetchInterval: 5 * 60 * 1000, // Refetch every 5 minutes
+        refetchInterval, // Every 5 minutes unless streaming
         refetchIntervalInBackground: true,
         staleTime: 4 * 60 * 1000, // Consider data stale after 4 minutes
         gcTime: 10 * 60 * 1000, // Keep unused data in cache for 10 minutes
@@ -78,6 +87,7 @@ export function useEconomicIndicators(): UseEconomicIndicatorsReturn {
             const data = await response.json();
             if (data.error) {
               return {
+                error: data.error,
                 value: 0,
                 status: 'safe' as const,
                 historicalAvg: 1.5,
@@ -90,6 +100,7 @@ export function useEconomicIndicators(): UseEconomicIndicatorsReturn {
             return data as EconomicIndicatorResponse;
           } catch (error) {
             return {
+              error: error instanceof Error ? error.message : 'Network error',
               value: 0,
               status: 'safe' as const,
               historicalAvg: 1.5,
@@ -100,7 +111,7 @@ export function useEconomicIndicators(): UseEconomicIndicatorsReturn {
             } as EconomicIndicatorResponse;
           }
         },
-        refetchInterval: 5 * 60 * 1000,
+        refetchInterval,
         refetchIntervalInBackground: true,
         staleTime: 4 * 60 * 1000,
         gcTime: 10 * 60 * 1000,
@@ -115,6 +126,7 @@ export function useEconomicIndicators(): UseEconomicIndicatorsReturn {
             const data = await response.json();
             if (data.error) {
               return {
+                error: data.error,
                 value: 0,
                 status: 'safe' as const,
                 historicalAvg: 1.8,
@@ -127,6 +139,7 @@ export function useEconomicIndicators(): UseEconomicIndicatorsReturn {
             return data as EconomicIndicatorResponse;
           } catch (error) {
             return {
+              error: error instanceof Error ? error.message : 'Network error',
               value: 0,
               status: 'safe' as const,
               historicalAvg: 1.8,
@@ -137,7 +150,7 @@ export function useEconomicIndicators(): UseEconomicIndicatorsReturn {
             } as EconomicIndicatorResponse;
           }
         },
-        refetchInterval: 5 * 60 * 1000,
+        refetchInterval,
         refetchIntervalInBackground: true,
         staleTime: 4 * 60 * 1000,
         gcTime: 10 * 60 * 1000,
@@ -152,6 +165,7 @@ export function useEconomicIndicators(): UseEconomicIndicatorsReturn {
             const data = await response.json();
             if (data.error) {
               return {
+                error: data.error,
                 value: 0,
                 status: 'safe' as const,
                 historicalAvg: 4.0,
@@ -164,6 +178,7 @@ export function useEconomicIndicators(): UseEconomicIndicatorsReturn {
             return data as EconomicIndicatorResponse;
           } catch (error) {
             return {
+              error: error instanceof Error ? error.message : 'Network error',
               value: 0,
               status: 'safe' as const,
               historicalAvg: 4.0,
@@ -174,7 +189,7 @@ export function useEconomicIndicators(): UseEconomicIndicatorsReturn {
             } as EconomicIndicatorResponse;
           }
         },
-        refetchInterval: 5 * 60 * 1000,
+        refetchInterval,
         refetchIntervalInBackground: true,
         staleTime: 4 * 60 * 1000,
         gcTime: 10 * 60 * 1000,
@@ -189,6 +204,7 @@ export function useEconomicIndicators(): UseEconomicIndicatorsReturn {
             const data = await response.json();
             if (data.error) {
               return {
+                error: data.error,
                 value: 0,
                 status: 'safe' as const,
                 historicalAvg: 80,
@@ -198,9 +214,10 @@ export function useEconomicIndicators(): UseEconomicIndicatorsReturn {
                 description: 'Market Cap / GDP Ratio',
               } as EconomicIndicatorResponse;
             }
-            return data as EconomicIndicatorResponse;
+            return data as BuffettIndicatorResponse;
           } catch (error) {
             return {
+              error: error instanceof Error ? error.message : 'Network error',
               value: 0,
               status: 'safe' as const,
               historicalAvg: 80,
@@ -211,7 +228,85 @@ export function useEconomicIndicators(): UseEconomicIndicatorsReturn {
             } as EconomicIndicatorResponse;
           }
         },
-        refetchInterval: 5 * 60 * 1000,
+        refetchInterval,
+        refetchIntervalInBackground: true,
+        staleTime: 4 * 60 * 1000,
+        gcTime: 10 * 60 * 1000,
+        retry: 2,
+        retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+      },
+      {
+        queryKey: ['economic-indicators', 'sahm-rule'],
+        queryFn: async () => {
+          try {
+            const response = await fetch('/api/economic-indicators/sahm-rule');
+            const data = await response.json();
+            if (data.error) {
+              return {
+                error: data.error,
+                value: 0,
+                status: 'safe' as const,
+                historicalAvg: 0.3,
+                warningLevel: 0.3,
+                dangerLevel: 0.5,
+                timestamp: new Date().toISOString(),
+                description: 'Sahm Rule - 3-month unemployment average vs. its 12-month low',
+              } as EconomicIndicatorResponse;
+            }
+            return data as SahmRuleResponse;
+          } catch (error) {
+            return {
+              error: error instanceof Error ? error.message : 'Network error',
+              value: 0,
+              status: 'safe' as const,
+              historicalAvg: 0.3,
+              warningLevel: 0.3,
+              dangerLevel: 0.5,
+              timestamp: new Date().toISOString(),
+              description: 'Sahm Rule - 3-month unemployment average vs. its 12-month low',
+            } as EconomicIndicatorResponse;
+          }
+        },
+        refetchInterval,
+        refetchIntervalInBackground: true,
+        staleTime: 4 * 60 * 1000,
+        gcTime: 10 * 60 * 1000,
+        retry: 2,
+        retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+      },
+      {
+        queryKey: ['economic-indicators', 'initial-claims'],
+        queryFn: async () => {
+          try {
+            const response = await fetch('/api/economic-indicators/initial-claims');
+            const data = await response.json();
+            if (data.error) {
+              return {
+                error: data.error,
+                value: 0,
+                status: 'safe' as const,
+                historicalAvg: 10,
+                warningLevel: 15,
+                dangerLevel: 25,
+                timestamp: new Date().toISOString(),
+                description: 'Initial Claims - 4-week average vs. 52-week low',
+              } as EconomicIndicatorResponse;
+            }
+            return data as InitialClaimsResponse;
+          } catch (error) {
+            return {
+              error: error instanceof Error ? error.message : 'Network error',
+              value: 0,
+              status: 'safe' as const,
+              historicalAvg: 10,
+              warningLevel: 15,
+              dangerLevel: 25,
+              timestamp: new Date().toISOString(),
+              description: 'Initial Claims - 4-week average vs. 52-week low',
+            } as EconomicIndicatorResponse;
+          }
+        },
+        refetchInterval,
         refetchIntervalInBackground: true,
         staleTime: 4 * 60 * 1000,
         gcTime: 10 * 60 * 1000,
@@ -221,23 +316,25 @@ export function useEconomicIndicators(): UseEconomicIndicatorsReturn {
     ],
   });
 
-  const [capeQuery, yieldCurveQuery, marginDebtQuery, creditSpreadsQuery, buffettQuery] = queries;
+  const [capeQuery, yieldCurveQuery, marginDebtQuery, creditSpreadsQuery, buffettQuery, sahmRuleQuery, initialClaimsQuery] = queries;
 
   // Combine loading states
-  const isLoading = capeQuery.isLoading || yieldCurveQuery.isLoading || marginDebtQuery.isLoading || creditSpreadsQuery.isLoading || buffettQuery.isLoading;
+  const isLoading = capeQuery.isLoading || yieldCurveQuery.isLoading || marginDebtQuery.isLoading || creditSpreadsQuery.isLoading || buffettQuery.isLoading || sahmRuleQuery.isLoading || initialClaimsQuery.isLoading;
 
   // Combine errors - return first error found
-  const error = capeQuery.error || yieldCurveQuery.error || marginDebtQuery.error || creditSpreadsQuery.error || buffettQuery.error || null;
+  const error = capeQuery.error || yieldCurveQuery.error || marginDebtQuery.error || creditSpreadsQuery.error || buffettQuery.error || sahmRuleQuery.error || initialClaimsQuery.error || null;
 
   // Combine data - always return data structure with fallbacks
   const data: CombinedEconomicIndicators | undefined =
-    capeQuery.data && yieldCurveQuery.data && marginDebtQuery.data && creditSpreadsQuery.data && buffettQuery.data
+    capeQuery.data && yieldCurveQuery.data && marginDebtQuery.data && creditSpreadsQuery.data && buffettQuery.data && sahmRuleQuery.data && initialClaimsQuery.data
       ? {
           cape: capeQuery.data,
           yieldCurve: yieldCurveQuery.data,
           marginDebt: marginDebtQuery.data,
           creditSpreads: creditSpreadsQuery.data,
           buffett: buffettQuery.data,
+          sahmRule: sahmRuleQuery.data,
+          initialClaims: initialClaimsQuery.data,
         }
       : undefined;
 
@@ -248,6 +345,8 @@ export function useEconomicIndicators(): UseEconomicIndicatorsReturn {
     marginDebtQuery.refetch();
     creditSpreadsQuery.refetch();
     buffettQuery.refetch();
+    sahmRuleQuery.refetch();
+    initialClaimsQuery.refetch();
   };
 
   return {
@@ -0,0 +1,115 @@
+import { useQueries, useQuery } from '@tanstack/react-query';
+import type { FREDSeriesInfo } from '@/lib/api/economicIndicators';
+import type { ExplorerSeries } from '@/lib/fredExplorer';
+
+/**
+ * Return type for useFredSearch hook
+ */
+export interface UseFredSearchReturn {
+  data: FREDSeriesInfo[] | undefined;
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => void;
+}
+
+/**
+ * Return type for useFredSeries hook
+ */
+export interface UseFredSeriesReturn {
+  data: Record<string, ExplorerSeries>; // loaded series by ID
+  errors: Record<string, Error>; // failed series by ID
+  isLoading: boolean;
+}
+
+/**
+ * Custom React hook to search FRED series by keyword through /api/fred
+ *
+ * @param query - Search text; shorter than 2 characters disables the query
+ * @returns {UseFredSearchReturn} Object containing the matching series, loading state, error, and refetch function
+ *
+ * @example
+ * ```tsx
+ * const { data } = useFredSearch('unemployment');
+ *
+ * return <ul>{data?.map((series) => <li key={series.id}>{series.title}</li>)}</ul>;
+ * ```
+ */
+export function useFredSearch(query: string): UseFredSearchReturn {
+  const text = query.trim();
+  const { data, isLoading, error, refetch } = useQuery<FREDSeriesInfo[]>({
+    queryKey: ['fred', 'search', text.toLowerCase()],
+    queryFn: async () => {
+      const response = await fetch(`/api/fred?${new URLSearchParams({ q: text }).toString()}`);
+      const body = await response.json();
+      if (!response.ok || body.error) {
+        throw new Error(body.error || `Failed to search FRED series: ${response.status}`);
+      }
+      return body.results as FREDSeriesInfo[];
+    },
+    enabled: text.length >= 2,
+    staleTime: 60 * 60 * 1000,
+    gcTime: 2 * 60 * 60 * 1000,
+    retry: 1,
+    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+  });
+
+  return {
+    data,
+    isLoading: isLoading && text.length >= 2,
+    error: error as Error | null,
+    refetch,
+  };
+}
+
+/**
+ * Custom React hook to fetch several FRED series through /api/fred/[seriesId]
+ * Each series is its own query, so adding one to the chart only fetches that one
+ *
+ * @param seriesIds - FRED series IDs (duplicates are fetched once)
+ * @param start - Optional first date (YYYY-MM-DD)
+ * @returns {UseFredSeriesReturn} Object containing loaded series and errors by ID, and loading state
+ *
+ * @example
+ * ```tsx
+ * const { data } = useFredSeries(['UNRATE', 'T10Y3M'], '2000-01-01');
+ *
+ * return <div>{data.UNRATE?.info.title}</div>;
+ * ```
+ */
+export function useFredSeries(seriesIds: string[], start?: string): UseFredSeriesReturn {
+  const ids = [...new Set(seriesIds)];
+
+  const queries = useQueries({
+    queries: ids.map((id) => ({
+      queryKey: ['fred', 'series', id, start ?? null],
+      queryFn: async () => {
+        const params = new URLSearchParams();
+        if (start) params.set('start', start);
+
+        const response = await fetch(`/api/fred/${encodeURIComponent(id)}?${params.toString()}`);
+        const body = await response.json();
+        if (!response.ok || body.error) {
+          throw new Error(body.error || `Failed to fetch FRED series ${id}: ${response.status}`);
+        }
+        return body as ExplorerSeries;
+      },
+      staleTime: 60 * 60 * 1000,
+      gcTime: 2 * 60 * 60 * 1000,
+      retry: 1,
+      retryDelay: (attemptIndex: number) => Math.min(1000 * 2 ** attemptIndex, 30000),
+    })),
+  });
+
+  const data: Record<string, ExplorerSeries> = {};
+  const errors: Record<string, Error> = {};
+  queries.forEach((query, i) => {
+    if (query.data) data[ids[i]] = query.data;
+    if (query.error) errors[ids[i]] = query.error as Error;
+  });
+
+  return {
+    data,
+    errors,
+    isLoading: queries.some((query) => query.isLoading),
+  };
+}
@@ -0,0 +1,63 @@
+import { useQuery } from '@tanstack/react-query';
+import type { IndicatorId, IndicatorSnapshot } from '@/lib/indicatorSnapshots';
+
+/**
+ * Return type for useIndicatorHistory hook
+ */
+export interface UseIndicatorHistoryReturn {
+  data: IndicatorSnapshot[] | undefined;
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => void;
+}
+
+/**
+ * Custom React hook to fetch recorded history for an economic indicator
+ * Snapshots are recorded daily, so this refetches every 30 minutes
+ *
+ * @param id - Indicator ID (e.g. 'cape', 'yield-curve')
+ * @param months - Number of months of history to fetch (default 12)
+ * @returns {UseIndicatorHistoryReturn} Object containing history points, loading state, error, and refetch function
+ *
+ * @example
+ * ```tsx
+ * const { data } = useIndicatorHistory('cape');
+ *
+ * return <SparklineChart data={data ?? []} />;
+ * ```
+ */
+export function useIndicatorHistory(id: IndicatorId, months: number = 12): UseIndicatorHistoryReturn {
+  const {
+    data,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery<IndicatorSnapshot[]>({
+    queryKey: ['economic-indicators', id, 'history', months],
+    queryFn: async () => {
+      const from = new Date();
+      from.setMonth(from.getMonth() - months);
+
+      const response = await fetch(
+        `/api/economic-indicators/${id}/history?from=${encodeURIComponent(from.toISOString())}`
+      );
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || `Failed to fetch ${id} history`);
+      }
+      return body.data as IndicatorSnapshot[];
+    },
+    refetchInterval: 30 * 60 * 1000, // Refetch every 30 minutes
+    staleTime: 25 * 60 * 1000,
+    gcTime: 60 * 60 * 1000,
+    retry: 2,
+    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+  });
+
+  return {
+    data,
+    isLoading,
+    error: error as Error | null,
+    refetch,
+  };
+}
@@ -0,0 +1,57 @@
+import { useQuery } from '@tanstack/react-query';
+import type { LiquidityReport } from '@/lib/liquidity';
+
+/**
+ * Return type for useLiquidity hook
+ */
+export interface UseLiquidityReturn {
+  data: LiquidityReport | undefined;
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => void;
+}
+
+/**
+ * Custom React hook to fetch the liquidity report (Fed total assets, TGA,
+ * reverse repo, net liquidity and NFCI)
+ * The series are weekly, so this refetches every hour
+ *
+ * @returns {UseLiquidityReturn} Object containing the report, loading state, error, and refetch function
+ *
+ * @example
+ * ```tsx
+ * const { data } = useLiquidity();
+ *
+ * return <div>Net liquidity: ${data?.latest.netLiquidity}B</div>;
+ * ```
+ */
+export function useLiquidity(): UseLiquidityReturn {
+  const {
+    data,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery<LiquidityReport>({
+    queryKey: ['analysis', 'liquidity'],
+    queryFn: async () => {
+      const response = await fetch('/api/analysis/liquidity');
+      const body = await response.json();
+      if (!response.ok || body.error) {
+        throw new Error(body.error || `Failed to fetch liquidity report: ${response.status}`);
+      }
+      return body as LiquidityReport;
+    },
+    refetchInterval: 60 * 60 * 1000, // Refetch every hour
+    staleTime: 55 * 60 * 1000,
+    gcTime: 2 * 60 * 60 * 1000,
+    retry: 2,
+    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+  });
+
+  return {
+    data,
+    isLoading,
+    error: error as Error | null,
+    refetch,
+  };
+}
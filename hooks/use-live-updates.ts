@@ -0,0 +1,132 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { CurrentCrashRisk, CurrentIndicators } from '@/lib/crashRisk';
+import type { MarketSnapshot } from '@/lib/api/marketSnapshot';
+import type { StreamAlert } from '@/lib/stream';
+
+/**
+ * Live update status: 'live' while the stream is connected, otherwise the
+ * dashboard hooks keep polling
+ */
+export type StreamStatus = 'connecting' | 'live' | 'polling';
+
+/**
+ * Return type for useLiveUpdates hook
+ */
+export interface UseLiveUpdatesReturn {
+  status: StreamStatus;
+  alerts: StreamAlert[];
+}
+
+const STREAM_STATUS_KEY = ['stream', 'status'];
+const LIVE_ALERTS_KEY = ['stream', 'alerts'];
+const MAX_LIVE_ALERTS = 20;
+
+/**
+ * Query key holding the latest crash score from the stream (default profile)
+ */
+export const STREAM_CRASH_SCORE_KEY = ['crash-risk', 'current'];
+
+/**
+ * Query keys the indicator hooks use for each indicator
+ */
+const INDICATOR_QUERY_KEYS: Record<keyof CurrentIndicators, string> = {
+  cape: 'cape',
+  yieldCurve: 'yield-curve',
+  marginDebt: 'margin-debt',
+  creditSpreads: 'credit-spreads',
+  buffett: 'buffett',
+  sahmRule: 'sahm-rule',
+  initialClaims: 'initial-claims',
+};
+
+/**
+ * Read the current stream status (used by polling hooks to pause while live)
+ *
+ * @returns {StreamStatus} 'live' while /api/stream is connected
+ */
+export function useStreamStatus(): StreamStatus {
+  const { data } = useQuery({
+    queryKey: STREAM_STATUS_KEY,
+    queryFn: () => 'polling' as StreamStatus,
+    initialData: 'polling' as StreamStatus,
+    staleTime: Infinity,
+  });
+  return data;
+}
+
+/**
+ * Custom React hook that connects to /api/stream and merges quote,
+ * indicator and crash-score events into the React Query cache. While the
+ * stream is down the regular hooks fall back to polling; EventSource
+ * reconnects on its own.
+ *
+ * @returns {UseLiveUpdatesReturn} Stream status and alerts received on the stream (newest first)
+ *
+ * @example
+ * ```tsx
+ * const { status, alerts } = useLiveUpdates();
+ *
+ * return (
+ *   <div>
+ *     <span>{status === 'live' ? 'Live' : 'Polling'}</span>
+ *     {alerts.map((alert) => <div key={alert.id}>{alert.message}</div>)}
+ *   </div>
+ * );
+ * ```
+ */
+export function useLiveUpdates(): UseLiveUpdatesReturn {
+  const queryClient = useQueryClient();
+  const status = useStreamStatus();
+  const { data: alerts } = useQuery({
+    queryKey: LIVE_ALERTS_KEY,
+    queryFn: () => [] as StreamAlert[],
+    initialData: [] as StreamAlert[],
+    staleTime: Infinity,
+  });
+
+  useEffect(() => {
+    if (typeof EventSource === 'undefined') return;
+
+    const setStatus = (next: StreamStatus) => queryClient.setQueryData(STREAM_STATUS_KEY, next);
+    const source = new EventSource('/api/stream');
+    setStatus('connecting');
+
+    source.onopen = () => setStatus('live');
+    // EventSource retries by itself; poll until it is back
+    source.onerror = () => setStatus('polling');
+
+    source.addEventListener('quotes', (event) => {
+      const snapshot = JSON.parse((event as MessageEvent).data) as MarketSnapshot;
+      queryClient.setQueryData(['market-data', 'snapshot'], snapshot);
+    });
+
+    source.addEventListener('indicators', (event) => {
+      const indicators = JSON.parse((event as MessageEvent).data) as CurrentIndicators;
+      (Object.keys(INDICATOR_QUERY_KEYS) as Array<keyof CurrentIndicators>).forEach((key) => {
+        if (indicators[key]) {
+          queryClient.setQueryData(['economic-indicators', INDICATOR_QUERY_KEYS[key]], indicators[key]);
+        }
+      });
+    });
+
+    source.addEventListener('crash-score', (event) => {
+      const crashRisk = JSON.parse((event as MessageEvent).data) as CurrentCrashRisk;
+      queryClient.setQueryData(STREAM_CRASH_SCORE_KEY, crashRisk);
+    });
+
+    source.addEventListener('alert', (event) => {
+      const alert = JSON.parse((event as MessageEvent).data) as StreamAlert;
+      queryClient.setQueryData<StreamAlert[]>(LIVE_ALERTS_KEY, (previous = []) =>
+        [alert, ...previous.filter((existing) => existing.id !== alert.id)].slice(0, MAX_LIVE_ALERTS)
+      );
+    });
+
+    return () => {
+      source.close();
+      setStatus('polling');
+    };
+  }, [queryClient]);
+
+  return { status, alerts };
+}
@@ -0,0 +1,57 @@
+import { useQuery } from '@tanstack/react-query';
+import type { MarketBreadthResponse } from '@/lib/breadth';
+
+/**
+ * Return type for useMarketBreadth hook
+ */
+export interface UseMarketBreadthReturn {
+  data: MarketBreadthResponse | undefined;
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => void;
+}
+
+/**
+ * Custom React hook to fetch S&P 500 breadth (% above 50/200-day MA,
+ * net new highs, advance/decline line)
+ * Breadth is computed from daily closes, so this refetches every 30 minutes
+ *
+ * @returns {UseMarketBreadthReturn} Object containing breadth readings, loading state, error, and refetch function
+ *
+ * @example
+ * ```tsx
+ * const { data } = useMarketBreadth();
+ *
+ * return <div>{data?.breadth200.value}% above 200-day MA</div>;
+ * ```
+ */
+export function useMarketBreadth(): UseMarketBreadthReturn {
+  const {
+    data,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery<MarketBreadthResponse>({
+    queryKey: ['economic-indicators', 'breadth'],
+    queryFn: async () => {
+      const response = await fetch('/api/economic-indicators/breadth');
+      const body = await response.json();
+      if (!response.ok || body.error) {
+        throw new Error(body.error || `Failed to fetch market breadth: ${response.status}`);
+      }
+      return body as MarketBreadthResponse;
+    },
+    refetchInterval: 30 * 60 * 1000, // Refetch every 30 minutes
+    staleTime: 25 * 60 * 1000,
+    gcTime: 60 * 60 * 1000,
+    retry: 1,
+    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+  });
+
+  return {
+    data,
+    isLoading,
+    error: error as Error | null,
+    refetch,
+  };
+}
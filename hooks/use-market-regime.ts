@@ -0,0 +1,57 @@
+import { useQuery } from '@tanstack/react-query';
+import type { MarketRegime } from '@/lib/marketRegime';
+
+/**
+ * Return type for useMarketRegime hook
+ */
+export interface UseMarketRegimeReturn {
+  data: MarketRegime | undefined;
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => void;
+}
+
+/**
+ * Custom React hook to fetch index drawdowns, realized volatility and the
+ * market regime label
+ * Computed from daily closes, so this refetches every 15 minutes
+ *
+ * @returns {UseMarketRegimeReturn} Object containing the regime, loading state, error, and refetch function
+ *
+ * @example
+ * ```tsx
+ * const { data } = useMarketRegime();
+ *
+ * return <div>{data?.regime}: S&P 500 {data?.indices[0].drawdown}% from peak</div>;
+ * ```
+ */
+export function useMarketRegime(): UseMarketRegimeReturn {
+  const {
+    data,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery<MarketRegime>({
+    queryKey: ['market-regime'],
+    queryFn: async () => {
+      const response = await fetch('/api/analysis/regime');
+      const body = await response.json();
+      if (!response.ok || body.error) {
+        throw new Error(body.error || `Failed to fetch market regime: ${response.status}`);
+      }
+      return body as MarketRegime;
+    },
+    refetchInterval: 15 * 60 * 1000, // Refetch every 15 minutes
+    staleTime: 10 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+    retry: 2,
+    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+  });
+
+  return {
+    data,
+    isLoading,
+    error: error as Error | null,
+    refetch,
+  };
+}
@@ -0,0 +1,167 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { AlertSeverity } from '@/lib/alertEngine';
+import type { StoredPushSubscription } from '@/lib/webPush';
+
+interface PushState {
+  permission: NotificationPermission;
+  subscription: StoredPushSubscription | null; // null when this browser is not subscribed
+}
+
+/**
+ * Return type for usePushNotifications hook
+ */
+export interface UsePushNotificationsReturn {
+  isSupported: boolean;
+  data: PushState | undefined;
+  isLoading: boolean;
+  error: Error | null;
+  subscribe: (severities: AlertSeverity[]) => Promise<void>;
+  unsubscribe: () => Promise<void>;
+  sendTest: () => Promise<void>;
+}
+
+const QUERY_KEY = ['push-subscription'];
+
+// Push support never changes while the page is open
+const noopSubscribe = () => () => {};
+const getSupported = () => 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+const getServerSupported = () => false;
+
+async function pushRequest<T>(url: string, method: 'GET' | 'POST' | 'DELETE' = 'GET', body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Push request failed: ${response.status}`);
+  }
+  return data as T;
+}
+
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+function sameKey(current: ArrayBuffer | null, key: Uint8Array): boolean {
+  if (!current || current.byteLength !== key.length) return false;
+  const bytes = new Uint8Array(current);
+  return bytes.every((byte, i) => byte === key[i]);
+}
+
+function getRegistration(): Promise<ServiceWorkerRegistration> {
+  return navigator.serviceWorker.register('/sw.js');
+}
+
+async function fetchPushState(): Promise<PushState> {
+  const registration = await getRegistration();
+  const browserSubscription = await registration.pushManager.getSubscription();
+  if (!browserSubscription) {
+    return { permission: Notification.permission, subscription: null };
+  }
+
+  const response = await fetch(`/api/push/subscriptions?endpoint=${encodeURIComponent(browserSubscription.endpoint)}`);
+  if (response.status === 404) {
+    return { permission: Notification.permission, subscription: null };
+  }
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to fetch push subscription: ${response.status}`);
+  }
+  return { permission: Notification.permission, subscription: data.subscription };
+}
+
+/**
+ * Custom React hook for this browser's push notification subscription
+ *
+ * Registers the service worker (public/sw.js) and reads which alert
+ * severities this browser is subscribed to. subscribe asks for notification
+ * permission the first time, and is also used to change the severities.
+ *
+ * @returns {UsePushNotificationsReturn} Support flag, permission and subscription, loading state, error, and functions to manage it
+ *
+ * @example
+ * ```tsx
+ * const { isSupported, data, subscribe } = usePushNotifications();
+ *
+ * if (!isSupported) return null;
+ * return (
+ *   <button onClick={() => subscribe(['critical'])}>
+ *     {data?.subscription ? 'Notifications on' : 'Notify me of critical alerts'}
+ *   </button>
+ * );
+ * ```
+ */
+export function usePushNotifications(): UsePushNotificationsReturn {
+  const queryClient = useQueryClient();
+  const isSupported = useSyncExternalStore(noopSubscribe, getSupported, getServerSupported);
+
+  const { data, isLoading, error } = useQuery<PushState>({
+    queryKey: QUERY_KEY,
+    queryFn: fetchPushState,
+    enabled: isSupported,
+    staleTime: 5 * 60 * 1000,
+    retry: 1,
+    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+  });
+
+  const subscribe = useCallback(
+    async (severities: AlertSeverity[]) => {
+      const permission = await Notification.requestPermission();
+      if (permission !== 'granted') {
+        queryClient.setQueryData<PushState>(QUERY_KEY, { permission, subscription: null });
+        throw new Error('Notifications are blocked for this site. Allow them in your browser settings.');
+      }
+
+      const registration = await getRegistration();
+      const { publicKey } = await pushRequest<{ publicKey: string }>('/api/push/vapid-key');
+      const applicationServerKey = base64UrlToBytes(publicKey);
+
+      // A subscription made with a different server key cannot receive our messages
+      let browserSubscription = await registration.pushManager.getSubscription();
+      if (browserSubscription && !sameKey(browserSubscription.options.applicationServerKey, applicationServerKey)) {
+        await browserSubscription.unsubscribe();
+        browserSubscription = null;
+      }
+      browserSubscription ??= await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey });
+
+      const { subscription } = await pushRequest<{ subscription: StoredPushSubscription }>('/api/push/subscriptions', 'POST', {
+        subscription: browserSubscription.toJSON(),
+        severities,
+      });
+      queryClient.setQueryData<PushState>(QUERY_KEY, { permission, subscription });
+    },
+    [queryClient]
+  );
+
+  const unsubscribe = useCallback(async () => {
+    const registration = await getRegistration();
+    const browserSubscription = await registration.pushManager.getSubscription();
+    if (browserSubscription) {
+      await pushRequest(`/api/push/subscriptions?endpoint=${encodeURIComponent(browserSubscription.endpoint)}`, 'DELETE');
+      await browserSubscription.unsubscribe();
+    }
+    queryClient.setQueryData<PushState>(QUERY_KEY, { permission: Notification.permission, subscription: null });
+  }, [queryClient]);
+
+  const sendTest = useCallback(async () => {
+    const endpoint = queryClient.getQueryData<PushState>(QUERY_KEY)?.subscription?.endpoint;
+    if (!endpoint) {
+      throw new Error('Turn on notifications first');
+    }
+    await pushRequest('/api/push/test', 'POST', { endpoint });
+  }, [queryClient]);
+
+  return {
+    isSupported,
+    data,
+    isLoading: isSupported && isLoading,
+    error: error as Error | null,
+    subscribe,
+    unsubscribe,
+    sendTest,
+  };
+}
@@ -0,0 +1,57 @@
+import { useQuery } from '@tanstack/react-query';
+import type { RecessionProbabilityResponse } from '@/lib/recessionProbability';
+
+/**
+ * Return type for useRecessionProbability hook
+ */
+export interface UseRecessionProbabilityReturn {
+  data: RecessionProbabilityResponse | undefined;
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => void;
+}
+
+/**
+ * Custom React hook to fetch the 12-month-ahead recession probability from
+ * the NY Fed yield curve model
+ * The probability is computed from monthly averages, so this refetches every hour
+ *
+ * @returns {UseRecessionProbabilityReturn} Object containing the probability, loading state, error, and refetch function
+ *
+ * @example
+ * ```tsx
+ * const { data } = useRecessionProbability();
+ *
+ * return <div>Recession probability: {data?.value}%</div>;
+ * ```
+ */
+export function useRecessionProbability(): UseRecessionProbabilityReturn {
+  const {
+    data,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery<RecessionProbabilityResponse>({
+    queryKey: ['economic-indicators', 'recession-probability'],
+    queryFn: async () => {
+      const response = await fetch('/api/economic-indicators/recession-probability');
+      const body = await response.json();
+      if (!response.ok || body.error) {
+        throw new Error(body.error || `Failed to fetch recession probability: ${response.status}`);
+      }
+      return body as RecessionProbabilityResponse;
+    },
+    refetchInterval: 60 * 60 * 1000, // Refetch every hour
+    staleTime: 55 * 60 * 1000,
+    gcTime: 2 * 60 * 60 * 1000,
+    retry: 1,
+    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+  });
+
+  return {
+    data,
+    isLoading,
+    error: error as Error | null,
+    refetch,
+  };
+}
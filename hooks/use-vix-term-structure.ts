@@ -0,0 +1,57 @@
+import { useQuery } from '@tanstack/react-query';
+import type { VixTermStructure } from '@/lib/vixTermStructure';
+
+/**
+ * Return type for useVixTermStructure hook
+ */
+export interface UseVixTermStructureReturn {
+  data: VixTermStructure | undefined;
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => void;
+}
+
+/**
+ * Custom React hook to fetch the VIX term structure (VIX9D, VIX, VIX3M, VIX6M)
+ * and its contango / backwardation state
+ * The curve is built from daily closes, so this refetches every 30 minutes
+ *
+ * @returns {UseVixTermStructureReturn} Object containing the curve, loading state, error, and refetch function
+ *
+ * @example
+ * ```tsx
+ * const { data } = useVixTermStructure();
+ *
+ * return <div>VIX/VIX3M: {data?.ratio} ({data?.state})</div>;
+ * ```
+ */
+export function useVixTermStructure(): UseVixTermStructureReturn {
+  const {
+    data,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery<VixTermStructure>({
+    queryKey: ['market-data', 'vix', 'term-structure'],
+    queryFn: async () => {
+      const response = await fetch('/api/market-data/vix/term-structure');
+      const body = await response.json();
+      if (!response.ok || body.error) {
+        throw new Error(body.error || `Failed to fetch VIX term structure: ${response.status}`);
+      }
+      return body as VixTermStructure;
+    },
+    refetchInterval: 30 * 60 * 1000, // Refetch every 30 minutes
+    staleTime: 25 * 60 * 1000,
+    gcTime: 60 * 60 * 1000,
+    retry: 1,
+    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+  });
+
+  return {
+    data,
+    isLoading,
+    error: error as Error | null,
+    refetch,
+  };
+}
@@ -0,0 +1,333 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { MarketDataResponse } from '@/lib/api/marketData';
+import type { Watchlist, WatchlistAssetClass, WatchlistItem } from '@/lib/types';
+import {
+  DEFAULT_WATCHLISTS,
+  MAX_WATCHLIST_NAME_LENGTH,
+  MAX_WATCHLISTS,
+  normalizeWatchlistItems,
+  watchlistItemKey,
+} from '@/lib/data/watchlists';
+
+/**
+ * Where the watchlists are kept: the subscriber's account or this browser
+ */
+export type WatchlistStorage = 'account' | 'local';
+
+interface WatchlistState {
+  watchlists: Watchlist[];
+  storage: WatchlistStorage;
+}
+
+/**
+ * Return type for useWatchlists hook
+ */
+export interface UseWatchlistsReturn {
+  watchlists: Watchlist[];
+  storage: WatchlistStorage;
+  isLoading: boolean;
+  error: Error | null;
+  createWatchlist: (name: string) => Promise<void>;
+  renameWatchlist: (id: string, name: string) => Promise<void>;
+  deleteWatchlist: (id: string) => Promise<void>;
+  addSymbol: (id: string, item: WatchlistItem) => Promise<void>;
+  removeSymbol: (id: string, item: WatchlistItem) => Promise<void>;
+}
+
+const WATCHLISTS_KEY = ['watchlists'];
+const LOCAL_WATCHLISTS_KEY = 'watchlists';
+const SUBSCRIBER_TOKEN_KEY = 'watchlist-subscriber-token';
+const SUBSCRIBER_TOKEN_PARAM = 'subscriber';
+
+/**
+ * Quote route used to validate a symbol before it is added
+ */
+const QUOTE_ROUTES: Record<WatchlistAssetClass, string> = {
+  stock: 'stocks',
+  crypto: 'crypto',
+  commodity: 'commodities',
+};
+
+/**
+ * Subscriber preferences token from the link in our emails (?subscriber=...),
+ * remembered in localStorage and removed from the address bar
+ */
+function getSubscriberToken(): string | null {
+  const url = new URL(window.location.href);
+  const fromUrl = url.searchParams.get(SUBSCRIBER_TOKEN_PARAM);
+  if (fromUrl) {
+    localStorage.setItem(SUBSCRIBER_TOKEN_KEY, fromUrl);
+    url.searchParams.delete(SUBSCRIBER_TOKEN_PARAM);
+    window.history.replaceState(window.history.state, '', url.toString());
+  }
+  return localStorage.getItem(SUBSCRIBER_TOKEN_KEY);
+}
+
+function readLocalWatchlists(): Watchlist[] {
+  try {
+    const stored = localStorage.getItem(LOCAL_WATCHLISTS_KEY);
+    if (stored) {
+      return JSON.parse(stored) as Watchlist[];
+    }
+  } catch {
+    // Corrupt storage falls back to the defaults
+  }
+  return DEFAULT_WATCHLISTS;
+}
+
+async function watchlistRequest(
+  token: string,
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+  body?: Record<string, unknown>
+): Promise<{ watchlists?: Watchlist[]; watchlist?: Watchlist; code?: string }> {
+  const url = method === 'DELETE' ? `/api/watchlists?id=${encodeURIComponent(String(body?.id))}` : '/api/watchlists';
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json', 'x-subscriber-token': token },
+    body: method === 'DELETE' || method === 'GET' ? undefined : JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    const error = new Error(data.error || `Watchlist request failed: ${response.status}`) as Error & { status?: number };
+    error.status = response.status;
+    throw error;
+  }
+  return data;
+}
+
+async function loadWatchlists(): Promise<WatchlistState> {
+  const token = getSubscriberToken();
+  if (token) {
+    try {
+      const { watchlists = [] } = await watchlistRequest(token, 'GET');
+      return { watchlists, storage: 'account' };
+    } catch (error) {
+      // Token no longer valid (e.g. unsubscribed): forget it and use this browser
+      if ((error as { status?: number }).status !== 401) throw error;
+      localStorage.removeItem(SUBSCRIBER_TOKEN_KEY);
+    }
+  }
+  return { watchlists: readLocalWatchlists(), storage: 'local' };
+}
+
+function validName(name: string, watchlists: Watchlist[], id?: string): string {
+  const trimmed = name.trim();
+  if (!trimmed || trimmed.length > MAX_WATCHLIST_NAME_LENGTH) {
+    throw new Error(`Watchlist name is required (max ${MAX_WATCHLIST_NAME_LENGTH} characters)`);
+  }
+  if (watchlists.some((watchlist) => watchlist.id !== id && watchlist.name === trimmed)) {
+    throw new Error(`A watchlist named "${trimmed}" already exists`);
+  }
+  return trimmed;
+}
+
+/**
+ * Look up a symbol through its market data route; rejects when no quote is available
+ *
+ * @example
+ * ```ts
+ * const quote = await lookupSymbol('AAPL', 'stock');
+ * ```
+ */
+export async function lookupSymbol(symbol: string, assetClass: WatchlistAssetClass): Promise<MarketDataResponse> {
+  const { items, errors } = normalizeWatchlistItems([{ symbol, assetClass }]);
+  if (errors.length > 0) {
+    throw new Error(`"${symbol}" is not a valid symbol`);
+  }
+
+  const response = await fetch(`/api/market-data/${QUOTE_ROUTES[assetClass]}/${encodeURIComponent(items[0].symbol)}`);
+  const data = (await response.json()) as MarketDataResponse;
+  if (!response.ok || data.error || !(data.value > 0)) {
+    throw new Error(`No quote found for ${items[0].symbol}`);
+  }
+  return data;
+}
+
+/**
+ * Custom React hook for the dashboard watchlists. Subscribers who opened the
+ * dashboard from their email link keep watchlists on their account; everyone
+ * else keeps them in localStorage (starting from the defaults).
+ *
+ * @returns {UseWatchlistsReturn} Watchlists, where they are stored, and functions to edit them
+ *
+ * @example
+ * ```tsx
+ * const { watchlists, addSymbol } = useWatchlists();
+ *
+ * return (
+ *   <div>
+ *     {watchlists.map((watchlist) => (
+ *       <button key={watchlist.id} onClick={() => addSymbol(watchlist.id, { symbol: 'AMD', assetClass: 'stock' })}>
+ *         Add AMD to {watchlist.name}
+ *       </button>
+ *     ))}
+ *   </div>
+ * );
+ * ```
+ */
+export function useWatchlists(): UseWatchlistsReturn {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: WATCHLISTS_KEY,
+    queryFn: loadWatchlists,
+    staleTime: 5 * 60 * 1000,
+    retry: 2,
+    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+  });
+
+  const current = useCallback(
+    (): WatchlistState => queryClient.getQueryData<WatchlistState>(WATCHLISTS_KEY) ?? { watchlists: DEFAULT_WATCHLISTS, storage: 'local' },
+    [queryClient]
+  );
+
+  const commit = useCallback(
+    (state: WatchlistState) => {
+      if (state.storage === 'local') {
+        localStorage.setItem(LOCAL_WATCHLISTS_KEY, JSON.stringify(state.watchlists));
+      }
+      queryClient.setQueryData(WATCHLISTS_KEY, state);
+    },
+    [queryClient]
+  );
+
+  const updateWatchlist = useCallback(
+    async (id: string, changes: { name?: string; items?: WatchlistItem[] }) => {
+      const state = current();
+      const existing = state.watchlists.find((watchlist) => watchlist.id === id);
+      if (!existing) throw new Error('Watchlist not found');
+
+      const name = changes.name !== undefined ? validName(changes.name, state.watchlists, id) : existing.name;
+      const { items, errors } = normalizeWatchlistItems(changes.items ?? existing.items);
+      if (errors.length > 0) throw new Error(errors.join('; '));
+
+      let updated: Watchlist = { ...existing, name, items };
+      const token = state.storage === 'account' ? localStorage.getItem(SUBSCRIBER_TOKEN_KEY) : null;
+      if (token) {
+        const { watchlist } = await watchlistRequest(token, 'PATCH', { id, name, items });
+        if (watchlist) updated = watchlist;
+      }
+
+      commit({
+        ...current(),
+        watchlists: current().watchlists.map((watchlist) => (watchlist.id === id ? updated : watchlist)),
+      });
+    },
+    [commit, current]
+  );
+
+  const createWatchlist = useCallback(
+    async (name: string) => {
+      const state = current();
+      if (state.watchlists.length >= MAX_WATCHLISTS) {
+        throw new Error(`You can have at most ${MAX_WATCHLISTS} watchlists`);
+      }
+
+      let created: Watchlist = { id: `local-${Date.now()}`, name: validName(name, state.watchlists), items: [] };
+      const token = state.storage === 'account' ? localStorage.getItem(SUBSCRIBER_TOKEN_KEY) : null;
+      if (token) {
+        const { watchlist } = await watchlistRequest(token, 'POST', { name: created.name, items: [] });
+        if (watchlist) created = watchlist;
+      }
+
+      commit({ ...current(), watchlists: [...current().watchlists, created] });
+    },
+    [commit, current]
+  );
+
+  const deleteWatchlist = useCallback(
+    async (id: string) => {
+      const token = current().storage === 'account' ? localStorage.getItem(SUBSCRIBER_TOKEN_KEY) : null;
+      if (token) {
+        await watchlistRequest(token, 'DELETE', { id });
+      }
+      commit({ ...current(), watchlists: current().watchlists.filter((watchlist) => watchlist.id !== id) });
+    },
+    [commit, current]
+  );
+
+  const addSymbol = useCallback(
+    async (id: string, item: WatchlistItem) => {
+      await lookupSymbol(item.symbol, item.assetClass);
+      const existing = current().watchlists.find((watchlist) => watchlist.id === id);
+      await updateWatchlist(id, { items: [...(existing?.items ?? []), item] });
+    },
+    [current, updateWatchlist]
+  );
+
+  const removeSymbol = useCallback(
+    async (id: string, item: WatchlistItem) => {
+      const existing = current().watchlists.find((watchlist) => watchlist.id === id);
+      const key = watchlistItemKey(item);
+      await updateWatchlist(id, {
+        items: (existing?.items ?? []).filter((entry) => watchlistItemKey(entry) !== key),
+      });
+    },
+    [current, updateWatchlist]
+  );
+
+  return {
+    watchlists: query.data?.watchlists ?? DEFAULT_WATCHLISTS,
+    storage: query.data?.storage ?? 'local',
+    isLoading: query.isLoading,
+    error: query.error as Error | null,
+    createWatchlist,
+    renameWatchlist: (id, name) => updateWatchlist(id, { name }),
+    deleteWatchlist,
+    addSymbol,
+    removeSymbol,
+  };
+}
+
+/**
+ * Return type for useWatchlistQuotes hook
+ */
+export interface UseWatchlistQuotesReturn {
+  quotes: Record<string, MarketDataResponse>;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Custom React hook to fetch quotes for one watchlist's symbols from
+ * /api/market-data/quotes. Quotes are keyed by watchlistItemKey ("stock:AAPL").
+ * Automatically refetches every 30 seconds.
+ *
+ * @returns {UseWatchlistQuotesReturn} Quotes by item key, loading state and error
+ *
+ * @example
+ * ```tsx
+ * const { quotes } = useWatchlistQuotes(watchlist.items);
+ *
+ * return <div>{quotes['stock:AAPL']?.value}</div>;
+ * ```
+ */
+export function useWatchlistQuotes(items: WatchlistItem[]): UseWatchlistQuotesReturn {
+  const symbols = items.map(watchlistItemKey).join(',');
+
+  const query = useQuery({
+    queryKey: ['market-data', 'quotes', symbols],
+    queryFn: async () => {
+      const response = await fetch(`/api/market-data/quotes?symbols=${encodeURIComponent(symbols)}`);
+      const data = await response.json();
+      if (!response.ok || data.error) {
+        throw new Error(data.error || `Failed to fetch quotes: ${response.status}`);
+      }
+      return data.quotes as Record<string, MarketDataResponse>;
+    },
+    enabled: symbols.length > 0,
+    refetchInterval: 30000,
+    refetchIntervalInBackground: true,
+    staleTime: 25000,
+    gcTime: 5 * 60 * 1000,
+    retry: 3,
+    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+  });
+
+  return {
+    quotes: query.data ?? {},
+    isLoading: query.isLoading,
+    error: query.error as Error | null,
+  };
+}
@@ -0,0 +1,545 @@
+/**
+ * Alert Engine
+ * Emails alert subscribers when an indicator crosses its warningLevel or
+ * dangerLevel, or the crash-risk level changes. Each run compares the
+ * current readings with the levels stored in alert_state by the previous
+ * run, so a transition is only reported once; alert_events records what was
+ * sent and holds back repeats of the same transition within a cooldown.
+ * Subscribers' own rules (lib/alertRules) are evaluated in the same run.
+ * Browsers opted into push notifications (lib/webPush) and the admin's chat
+ * and webhook channels (lib/notificationChannels) get the transitions of the
+ * severities they chose.
+ */
+
+import { db } from '@/lib/db';
+import { IndicatorStatus } from '@/lib/api/economicIndicators';
+import { getVIXData, MarketDataResponse } from '@/lib/api/marketData';
+import { CurrentIndicators, getCurrentCrashRisk, getCurrentIndicators } from '@/lib/crashRisk';
+import { emailService } from '@/lib/emailService';
+import { getMarketRegime } from '@/lib/marketRegime';
+import { ChannelDeliveryResult, deliverChannelAlerts, getAlertChannels } from '@/lib/notificationChannels';
+import { deliverPushAlerts, getPushRecipients, PushDeliveryResult } from '@/lib/webPush';
+import { EvaluatedAlertRule, getRulesToEvaluate, saveRuleEvaluations } from '@/lib/alertRules';
+import { describeAlertRule, getAlertRuleLevel, getAlertRuleTarget } from '@/lib/data/alertRules';
+import type { AlertRuleLevel, AlertRuleTarget } from '@/lib/types';
+import { CrashRiskBreakdown } from '@/src/lib/enhanced-crash-risk';
+
+/**
+ * info: a reading eased (e.g. danger to warning, or crash risk fell)
+ * warning: an indicator reached warning, or crash risk rose to Moderate/Elevated
+ * critical: an indicator reached danger, or crash risk rose to High/Critical
+ */
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export type AlertMetric = keyof CurrentIndicators | 'crashScore';
+
+type RiskLevel = CrashRiskBreakdown['riskLevel'];
+
+/**
+ * Hours before the same transition (metric and new level) is sent again
+ */
+export const ALERT_COOLDOWN_HOURS: Record<AlertSeverity, number> = {
+  info: 24,
+  warning: 24,
+  critical: 12,
+};
+
+const ALERT_LABELS: Record<AlertMetric, string> = {
+  cape: 'CAPE Ratio',
+  yieldCurve: 'Yield Curve',
+  marginDebt: 'Margin Debt/GDP',
+  creditSpreads: 'Credit Spreads',
+  buffett: 'Buffett Indicator',
+  sahmRule: 'Sahm Rule',
+  initialClaims: 'Initial Claims',
+  crashScore: 'Crash Risk',
+};
+
+/**
+ * Indicator behind each indicator rule target
+ */
+const RULE_INDICATORS: Partial<Record<AlertRuleTarget, keyof CurrentIndicators>> = {
+  cape: 'cape',
+  'yield-curve': 'yieldCurve',
+  'margin-debt': 'marginDebt',
+  'credit-spreads': 'creditSpreads',
+  buffett: 'buffett',
+  'sahm-rule': 'sahmRule',
+  'initial-claims': 'initialClaims',
+};
+
+const STATUS_RANK: Record<IndicatorStatus, number> = { safe: 0, warning: 1, danger: 2 };
+const RISK_LEVELS: RiskLevel[] = ['Low', 'Moderate', 'Elevated', 'High', 'Critical'];
+
+/**
+ * Current level of one metric
+ */
+export interface AlertReading {
+  metric: AlertMetric;
+  level: string; // IndicatorStatus, or RiskLevel for crashScore
+  value: number;
+  detail: string; // thresholds or score, for the message
+}
+
+/**
+ * A level change worth alerting on
+ */
+export interface AlertTransition {
+  metric: AlertMetric;
+  severity: AlertSeverity;
+  previousLevel: string;
+  level: string;
+  value: number;
+  title: string;
+  message: string;
+}
+
+/**
+ * Transition held back because the same one was sent recently
+ */
+export interface SuppressedAlert extends AlertTransition {
+  lastSentAt: string;
+  cooldownUntil: string;
+}
+
+/**
+ * A subscriber's own rule that reached warning or critical
+ */
+export interface RuleAlert {
+  ruleId: string;
+  subscriberId: string;
+  email: string;
+  severity: 'warning' | 'critical';
+  value: number;
+  title: string;
+  message: string;
+}
+
+type AlertRecipient = { id: string; email: string; unsubscribe_token: string; preferences_token: string };
+type EmailAlert = Pick<AlertTransition, 'severity' | 'title' | 'message'>;
+
+export interface AlertRunOptions {
+  dryRun?: boolean; // evaluate and list recipients without sending or storing anything
+}
+
+/**
+ * Result of an alert run
+ */
+export interface AlertRunResult {
+  dryRun: boolean;
+  evaluatedAt: string;
+  readings: AlertReading[];
+  seeded: AlertMetric[]; // metrics seen for the first time (no previous level, no alert)
+  alerts: AlertTransition[]; // sent, or would be sent in a dry run
+  undelivered: AlertMetric[]; // every delivery failed; the level is not saved so the next run retries
+  suppressed: SuppressedAlert[];
+  ruleAlerts: RuleAlert[]; // subscribers' own rules that were crossed
+  suppressedRuleAlerts: RuleAlert[]; // crossed again within the cooldown
+  recipients: string[]; // subscriber emails (notified, or would be notified)
+  sent: number;
+  failed: number;
+  errors: Array<{ email: string; error: string }>;
+  push: PushDeliveryResult; // browser notifications (recipients only in a dry run)
+  channels: ChannelDeliveryResult; // Slack, Discord and webhook channels (names only in a dry run)
+}
+
+/**
+ * Read the alertable level of each indicator and of the crash score
+ * Indicators that failed or returned placeholder values are left out.
+ */
+export function getAlertReadings(
+  indicators: CurrentIndicators,
+  crashRisk: { totalScore: number; riskLevel: RiskLevel }
+): AlertReading[] {
+  const readings: AlertReading[] = [];
+
+  for (const metric of Object.keys(indicators) as Array<keyof CurrentIndicators>) {
+    const indicator = indicators[metric];
+    if (!indicator || indicator.error || indicator.fallback) continue;
+    readings.push({
+      metric,
+      level: indicator.status,
+      value: indicator.value,
+      detail: `warning ${indicator.warningLevel}, danger ${indicator.dangerLevel}`,
+    });
+  }
+
+  readings.push({
+    metric: 'crashScore',
+    level: crashRisk.riskLevel,
+    value: crashRisk.totalScore,
+    detail: 'out of 100',
+  });
+
+  return readings;
+}
+
+/**
+ * Compare a reading with the previous level; null when nothing changed
+ */
+export function detectTransition(previousLevel: string, reading: AlertReading): AlertTransition | null {
+  if (previousLevel === reading.level) return null;
+
+  const label = ALERT_LABELS[reading.metric];
+  const value = Number.isInteger(reading.value) ? reading.value.toString() : reading.value.toFixed(2);
+  let severity: AlertSeverity;
+  let title: string;
+
+  if (reading.metric === 'crashScore') {
+    const before = RISK_LEVELS.indexOf(previousLevel as RiskLevel);
+    const after = RISK_LEVELS.indexOf(reading.level as RiskLevel);
+    if (before === -1 || after === -1) return null;
+
+    const rose = after > before;
+    severity = !rose ? 'info' : reading.level === 'High' || reading.level === 'Critical' ? 'critical' : 'warning';
+    title = `${label} ${rose ? 'rose' : 'fell'} from ${previousLevel} to ${reading.level}`;
+  } else {
+    const before = STATUS_RANK[previousLevel as IndicatorStatus];
+    const after = STATUS_RANK[reading.level as IndicatorStatus];
+    if (before === undefined || after === undefined) return null;
+
+    severity = after < before ? 'info' : reading.level === 'danger' ? 'critical' : 'warning';
+    title = after < before
+      ? `${label} eased from ${previousLevel} to ${reading.level}`
+      : `${label} crossed into ${reading.level}`;
+  }
+
+  return {
+    metric: reading.metric,
+    severity,
+    previousLevel,
+    level: reading.level,
+    value: reading.value,
+    title,
+    message: `${label} is at ${value} (${reading.detail}).`,
+  };
+}
+
+async function getPreviousLevels(): Promise<Map<string, string>> {
+  const result = await db.query('SELECT metric, level FROM alert_state');
+  return new Map(result.rows.map((row) => [row.metric as string, row.level as string]));
+}
+
+/**
+ * Time each metric/level transition was last sent, within the longest cooldown
+ */
+async function getLastSent(): Promise<Map<string, Date>> {
+  const longest = Math.max(...Object.values(ALERT_COOLDOWN_HOURS));
+  const result = await db.query(
+    `SELECT metric, level, MAX(created_at) AS last_sent
+     FROM alert_events
+     WHERE created_at > NOW() - ($1 || ' hours')::interval
+     GROUP BY metric, level`,
+    [longest.toString()]
+  );
+  return new Map(result.rows.map((row) => [`${row.metric}:${row.level}`, new Date(row.last_sent)]));
+}
+
+async function getAlertRecipients(): Promise<AlertRecipient[]> {
+  const result = await db.query(
+    `SELECT id, email, unsubscribe_token, preferences_token FROM subscribers
+     WHERE alert_subscription = true
+     AND verified = true
+     AND status = $1`,
+    ['active']
+  );
+  return result.rows;
+}
+
+async function saveLevels(readings: AlertReading[]): Promise<void> {
+  await db.query(
+    `INSERT INTO alert_state (metric, level, value)
+     SELECT * FROM unnest($1::varchar[], $2::varchar[], $3::numeric[])
+     ON CONFLICT (metric)
+     DO UPDATE SET level = EXCLUDED.level, value = EXCLUDED.value, updated_at = NOW()`,
+    [readings.map((r) => r.metric), readings.map((r) => r.level), readings.map((r) => r.value)]
+  );
+}
+
+/**
+ * Current value of each alert rule target (targets that could not be read are absent)
+ */
+async function getRuleValues(
+  indicators: CurrentIndicators,
+  crashRisk: { totalScore: number },
+  vix: MarketDataResponse | undefined,
+  targets: Set<AlertRuleTarget>
+): Promise<Partial<Record<AlertRuleTarget, number>>> {
+  const values: Partial<Record<AlertRuleTarget, number>> = { 'crash-score': crashRisk.totalScore };
+
+  if (vix && !vix.error) values.vix = vix.value;
+
+  for (const [target, key] of Object.entries(RULE_INDICATORS) as Array<[AlertRuleTarget, keyof CurrentIndicators]>) {
+    const indicator = indicators[key];
+    if (indicator && !indicator.error && !indicator.fallback) values[target] = indicator.value;
+  }
+
+  if (targets.has('sp500-drawdown') || targets.has('sp500-volatility')) {
+    const regime = await getMarketRegime().catch((error) => {
+      console.error('Alert rules: market regime unavailable:', error instanceof Error ? error.message : error);
+      return undefined;
+    });
+    const sp500 = regime?.indices.find((index) => index.symbol === 'SP500');
+    if (sp500) {
+      values['sp500-drawdown'] = Math.abs(sp500.drawdown);
+      if (sp500.realizedVol20 !== null) values['sp500-volatility'] = sp500.realizedVol20;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Evaluate subscribers' own rules against the current values
+ * A rule alerts when it moves up to warning or critical; falling back only
+ * re-arms it. Repeats within the cooldown are held back.
+ */
+function evaluateRules(
+  rules: EvaluatedAlertRule[],
+  values: Partial<Record<AlertRuleTarget, number>>,
+  now: number
+): {
+  alerts: RuleAlert[];
+  suppressed: RuleAlert[];
+  evaluations: Array<{ id: string; level: AlertRuleLevel; value: number; triggered: boolean }>;
+} {
+  const rank: Record<AlertRuleLevel, number> = { safe: 0, warning: 1, critical: 2 };
+  const alerts: RuleAlert[] = [];
+  const suppressed: RuleAlert[] = [];
+  const evaluations: Array<{ id: string; level: AlertRuleLevel; value: number; triggered: boolean }> = [];
+
+  for (const rule of rules) {
+    const value = values[rule.target];
+    if (value === undefined) continue;
+
+    const level = getAlertRuleLevel(rule, value);
+    const previousLevel = rule.lastLevel ?? 'safe';
+    let triggered = false;
+
+    if (level !== 'safe' && rank[level] > rank[previousLevel]) {
+      const info = getAlertRuleTarget(rule.target);
+      const threshold = level === 'critical' ? rule.critical : rule.warning;
+      const alert: RuleAlert = {
+        ruleId: rule.id,
+        subscriberId: rule.subscriber.id,
+        email: rule.subscriber.email,
+        severity: level,
+        value,
+        title: `${info?.label ?? rule.target} ${rule.direction === 'above' ? 'rose above' : 'fell below'} ${threshold}${info?.unit ?? ''}`,
+        message: `Your rule "${rule.description || describeAlertRule(rule)}" reached ${level} at ${Number.isInteger(value) ? value : value.toFixed(2)}${info?.unit ?? ''}.`,
+      };
+
+      const lastTriggered = rule.lastTriggeredAt ? new Date(rule.lastTriggeredAt).getTime() : 0;
+      if (lastTriggered + ALERT_COOLDOWN_HOURS[level] * 60 * 60 * 1000 > now) {
+        suppressed.push(alert);
+      } else {
+        alerts.push(alert);
+        triggered = true;
+      }
+    }
+
+    if (level !== previousLevel || triggered) {
+      evaluations.push({ id: rule.id, level, value, triggered });
+    }
+  }
+
+  return { alerts, suppressed, evaluations };
+}
+
+/**
+ * Evaluate the current readings and subscribers' own rules, email each
+ * affected subscriber once (alert subscribers get the level transitions,
+ * rule owners their rule alerts) and log every email in email_logs; the
+ * transitions are also pushed to browsers and posted to notification
+ * channels that opted into their severity. A transition no delivery got
+ * through for, or a rule whose email failed, is retried on the next run.
+ * In a dry run nothing is sent or stored; the result lists the alerts and
+ * the subscribers who would have been notified.
+ */
+export async function runAlertEngine(options: AlertRunOptions = {}): Promise<AlertRunResult> {
+  const dryRun = options.dryRun ?? false;
+  const [indicators, vix, rules] = await Promise.all([
+    getCurrentIndicators(),
+    getVIXData().catch(() => undefined),
+    getRulesToEvaluate(),
+  ]);
+  const crashRisk = await getCurrentCrashRisk(undefined, indicators, vix);
+  const readings = getAlertReadings(indicators, crashRisk);
+
+  const [previousLevels, lastSent] = await Promise.all([getPreviousLevels(), getLastSent()]);
+  const now = Date.now();
+
+  const result: AlertRunResult = {
+    dryRun,
+    evaluatedAt: new Date(now).toISOString(),
+    readings,
+    seeded: [],
+    alerts: [],
+    undelivered: [],
+    suppressed: [],
+    ruleAlerts: [],
+    suppressedRuleAlerts: [],
+    recipients: [],
+    sent: 0,
+    failed: 0,
+    errors: [],
+    push: { recipients: 0, sent: 0, failed: 0, removed: 0, errors: [] },
+    channels: { channels: [], sent: 0, failed: 0, errors: [] },
+  };
+
+  for (const reading of readings) {
+    const previousLevel = previousLevels.get(reading.metric);
+    if (previousLevel === undefined) {
+      result.seeded.push(reading.metric);
+      continue;
+    }
+
+    const transition = detectTransition(previousLevel, reading);
+    if (!transition) continue;
+
+    const sentAt = lastSent.get(`${transition.metric}:${transition.level}`);
+    const cooldownUntil = sentAt ? sentAt.getTime() + ALERT_COOLDOWN_HOURS[transition.severity] * 60 * 60 * 1000 : 0;
+    if (sentAt && cooldownUntil > now) {
+      result.suppressed.push({
+        ...transition,
+        lastSentAt: sentAt.toISOString(),
+        cooldownUntil: new Date(cooldownUntil).toISOString(),
+      });
+      continue;
+    }
+
+    result.alerts.push(transition);
+  }
+
+  const ruleValues = await getRuleValues(indicators, crashRisk, vix, new Set(rules.map((rule) => rule.target)));
+  const ruleResult = evaluateRules(rules, ruleValues, now);
+  result.ruleAlerts = ruleResult.alerts;
+  result.suppressedRuleAlerts = ruleResult.suppressed;
+
+  // One email per subscriber with everything that applies to them
+  const outbox = new Map<string, { subscriber: AlertRecipient; alerts: EmailAlert[]; global: boolean }>();
+  if (result.alerts.length > 0) {
+    for (const subscriber of await getAlertRecipients()) {
+      outbox.set(subscriber.id, { subscriber, alerts: [...result.alerts], global: true });
+    }
+  }
+  for (const alert of result.ruleAlerts) {
+    const rule = rules.find((item) => item.id === alert.ruleId);
+    if (!rule) continue;
+    const entry = outbox.get(alert.subscriberId) ?? { subscriber: rule.subscriber, alerts: [], global: false };
+    entry.alerts.push(alert);
+    outbox.set(alert.subscriberId, entry);
+  }
+
+  const messages = [...outbox.values()];
+  result.recipients = messages.map((message) => message.subscriber.email);
+
+  // Browsers and channels that opted into any of the alerts' severities
+  const alertSeverities = [...new Set(result.alerts.map((alert) => alert.severity))];
+  const [pushRecipients, channels] = await Promise.all([
+    getPushRecipients(alertSeverities).catch((error) => {
+      console.error('Failed to load push subscriptions:', error);
+      return [];
+    }),
+    getAlertChannels(alertSeverities).catch((error) => {
+      console.error('Failed to load notification channels:', error);
+      return [];
+    }),
+  ]);
+  result.push.recipients = pushRecipients.length;
+  result.channels.channels = channels.map((channel) => channel.name);
+
+  if (dryRun) {
+    return result;
+  }
+
+  // Send emails (in batches to avoid rate limits)
+  const batchSize = parseInt(process.env.EMAIL_BATCH_SIZE || '100', 10);
+  const batchDelay = parseInt(process.env.EMAIL_BATCH_DELAY || '1000', 10); // milliseconds
+  let globalSent = 0;
+  const failedSubscribers = new Set<string>();
+
+  for (let i = 0; i < messages.length; i += batchSize) {
+    const batch = messages.slice(i, i + batchSize);
+
+    await Promise.all(
+      batch.map(async ({ subscriber, alerts, global }) => {
+        const email = await emailService.sendAlertEmail(subscriber, alerts);
+
+        try {
+          await db.query(
+            `INSERT INTO email_logs (subscriber_id, email_type, subject, status, mailgun_id, error_message)
+             VALUES ($1, $2, $3, $4, $5, $6)`,
+            [
+              subscriber.id,
+              'alert',
+              email.subject,
+              email.success ? 'sent' : 'failed',
+              email.messageId || null,
+              email.error || null,
+            ]
+          );
+          if (email.success) {
+            await db.query('UPDATE subscribers SET last_email_sent = NOW() WHERE id = $1', [subscriber.id]);
+          }
+        } catch (logError) {
+          console.error('Failed to log alert email:', logError);
+        }
+
+        if (email.success) {
+          result.sent++;
+          if (global) globalSent++;
+        } else {
+          result.failed++;
+          failedSubscribers.add(subscriber.id);
+          result.errors.push({ email: subscriber.email, error: email.error || 'Unknown error' });
+        }
+      })
+    );
+
+    if (i + batchSize < messages.length) {
+      await new Promise((resolve) => setTimeout(resolve, batchDelay));
+    }
+  }
+
+  if (pushRecipients.length > 0) {
+    try {
+      result.push = await deliverPushAlerts(pushRecipients, result.alerts);
+    } catch (pushError) {
+      console.error('Failed to send push notifications:', pushError);
+    }
+  }
+
+  if (channels.length > 0) {
+    result.channels = await deliverChannelAlerts(channels, result.alerts);
+  }
+
+  // Transitions go to every recipient together: unless one delivery got
+  // through, keep the previous level (and log no event, which would start the
+  // cooldown) so the next run sends them again
+  const hadRecipients = messages.some((message) => message.global) || pushRecipients.length > 0 || channels.length > 0;
+  const delivered = globalSent > 0 || result.push.sent > 0 || result.channels.sent > 0;
+  if (hadRecipients && !delivered) {
+    result.undelivered = result.alerts.map((alert) => alert.metric);
+  }
+
+  for (const alert of result.alerts) {
+    if (result.undelivered.includes(alert.metric)) continue;
+    await db.query(
+      `INSERT INTO alert_events (metric, severity, previous_level, level, value, message, recipients)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [alert.metric, alert.severity, alert.previousLevel, alert.level, alert.value, `${alert.title}. ${alert.message}`, globalSent]
+    );
+  }
+
+  await saveLevels(readings.filter((reading) => !result.undelivered.includes(reading.metric)));
+  // Rules whose owner's email failed stay at their previous level, to fire again next run
+  const ruleOwners = new Map(rules.map((rule) => [rule.id, rule.subscriber.id]));
+  await saveRuleEvaluations(
+    ruleResult.evaluations.filter(
+      (evaluation) => !evaluation.triggered || !failedSubscribers.has(ruleOwners.get(evaluation.id) as string)
+    )
+  );
+
+  return result;
+}
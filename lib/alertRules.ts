@@ -0,0 +1,257 @@
+/**
+ * Alert Rules
+ * Subscribers' own alert thresholds ("VIX above 28", "crash score above
+ * 65"), stored in alert_rules and managed from the preferences page.
+ * Subscribers are identified by their preferences token, as for watchlists.
+ * The alert engine evaluates the rules on every run and records the level
+ * each rule was at, so a rule alerts when it is crossed, not while it stays
+ * crossed.
+ */
+
+import { db } from '@/lib/db';
+import type { AlertRule, AlertRuleLevel, AlertRuleTarget } from '@/lib/types';
+import { MAX_ALERT_RULES, normalizeAlertRule } from '@/lib/data/alertRules';
+
+/**
+ * Alert rule errors (statusCode maps to the HTTP response)
+ */
+export class AlertRuleError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'AlertRuleError';
+  }
+}
+
+/**
+ * Subscription settings shown on the preferences page
+ */
+export interface SubscriberPreferences {
+  email: string;
+  alertSubscription: boolean;
+  newsletterWeekly: boolean;
+  newsletterMonthly: boolean;
+}
+
+/**
+ * Enabled rule with the subscriber it belongs to, for the alert engine
+ */
+export interface EvaluatedAlertRule extends AlertRule {
+  subscriber: { id: string; email: string; unsubscribe_token: string; preferences_token: string };
+}
+
+interface AlertRuleRow {
+  id: string;
+  metric: AlertRule['metric'];
+  target: AlertRuleTarget;
+  direction: 'above' | 'below';
+  warning: string;
+  critical: string;
+  enabled: boolean;
+  description: string | null;
+  last_level: AlertRuleLevel;
+  last_triggered_at: Date | null;
+}
+
+const RULE_COLUMNS = 'id, metric, target, direction, warning, critical, enabled, description, last_level, last_triggered_at';
+
+function toAlertRule(row: AlertRuleRow): AlertRule {
+  return {
+    id: row.id,
+    metric: row.metric,
+    target: row.target,
+    direction: row.direction,
+    warning: parseFloat(row.warning),
+    critical: parseFloat(row.critical),
+    enabled: row.enabled,
+    description: row.description ?? undefined,
+    lastLevel: row.last_level,
+    lastTriggeredAt: row.last_triggered_at ? new Date(row.last_triggered_at).toISOString() : null,
+  };
+}
+
+function validRule(input: unknown) {
+  const result = normalizeAlertRule(input);
+  if (!result.rule) {
+    throw new AlertRuleError(result.errors.join('; '), 400, 'INVALID_RULE');
+  }
+  return result.rule;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function assertId(id: string): void {
+  if (!UUID_PATTERN.test(id)) {
+    throw new AlertRuleError('Alert rule not found', 404, 'RULE_NOT_FOUND');
+  }
+}
+
+/**
+ * Resolve a verified, active subscriber from their token
+ */
+export async function getSubscriberIdByToken(token: string | null): Promise<string> {
+  if (!token) {
+    throw new AlertRuleError('Subscriber token is required', 401, 'TOKEN_REQUIRED');
+  }
+
+  const result = await db.query(
+    `SELECT id FROM subscribers WHERE preferences_token = $1 AND status = 'active' AND verified = true`,
+    [token]
+  );
+  if (result.rows.length === 0) {
+    throw new AlertRuleError('Invalid subscriber token', 401, 'INVALID_TOKEN');
+  }
+  return result.rows[0].id;
+}
+
+export async function getSubscriberPreferences(subscriberId: string): Promise<SubscriberPreferences> {
+  const result = await db.query(
+    `SELECT email, alert_subscription, newsletter_weekly, newsletter_monthly
+     FROM subscribers WHERE id = $1`,
+    [subscriberId]
+  );
+  const row = result.rows[0];
+  return {
+    email: row.email,
+    alertSubscription: row.alert_subscription === true,
+    newsletterWeekly: row.newsletter_weekly === true,
+    newsletterMonthly: row.newsletter_monthly === true,
+  };
+}
+
+/**
+ * Update subscription settings (omitted fields are unchanged)
+ */
+export async function updateSubscriberPreferences(
+  subscriberId: string,
+  updates: Partial<Record<'alertSubscription' | 'newsletterWeekly' | 'newsletterMonthly', unknown>>
+): Promise<SubscriberPreferences> {
+  for (const [key, value] of Object.entries(updates)) {
+    if (value !== undefined && typeof value !== 'boolean') {
+      throw new AlertRuleError(`${key} must be true or false`, 400, 'INVALID_PREFERENCES');
+    }
+  }
+
+  await db.query(
+    `UPDATE subscribers
+     SET alert_subscription = COALESCE($2, alert_subscription),
+         newsletter_weekly = COALESCE($3, newsletter_weekly),
+         newsletter_monthly = COALESCE($4, newsletter_monthly),
+         updated_at = NOW()
+     WHERE id = $1`,
+    [subscriberId, updates.alertSubscription ?? null, updates.newsletterWeekly ?? null, updates.newsletterMonthly ?? null]
+  );
+  return getSubscriberPreferences(subscriberId);
+}
+
+/**
+ * List a subscriber's alert rules, oldest first
+ */
+export async function getAlertRules(subscriberId: string): Promise<AlertRule[]> {
+  const result = await db.query(
+    `SELECT ${RULE_COLUMNS} FROM alert_rules WHERE subscriber_id = $1 ORDER BY created_at ASC`,
+    [subscriberId]
+  );
+  return result.rows.map(toAlertRule);
+}
+
+export async function createAlertRule(subscriberId: string, input: unknown): Promise<AlertRule> {
+  const rule = validRule(input);
+
+  const count = await db.query('SELECT COUNT(*)::int AS count FROM alert_rules WHERE subscriber_id = $1', [subscriberId]);
+  if (count.rows[0].count >= MAX_ALERT_RULES) {
+    throw new AlertRuleError(`You can have at most ${MAX_ALERT_RULES} alert rules`, 400, 'TOO_MANY_RULES');
+  }
+
+  const result = await db.query(
+    `INSERT INTO alert_rules (subscriber_id, metric, target, direction, warning, critical, enabled, description)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING ${RULE_COLUMNS}`,
+    [subscriberId, rule.metric, rule.target, rule.direction, rule.warning, rule.critical, rule.enabled, rule.description ?? null]
+  );
+  return toAlertRule(result.rows[0]);
+}
+
+/**
+ * Replace a rule's settings; changing the thresholds re-arms it
+ */
+export async function updateAlertRule(subscriberId: string, id: string, input: unknown): Promise<AlertRule> {
+  assertId(id);
+  const rule = validRule(input);
+
+  const result = await db.query(
+    `UPDATE alert_rules
+     SET metric = $3, target = $4, direction = $5, warning = $6, critical = $7,
+         enabled = $8, description = $9, last_level = 'safe', updated_at = NOW()
+     WHERE id = $1 AND subscriber_id = $2
+     RETURNING ${RULE_COLUMNS}`,
+    [id, subscriberId, rule.metric, rule.target, rule.direction, rule.warning, rule.critical, rule.enabled, rule.description ?? null]
+  );
+  if (result.rows.length === 0) {
+    throw new AlertRuleError('Alert rule not found', 404, 'RULE_NOT_FOUND');
+  }
+  return toAlertRule(result.rows[0]);
+}
+
+export async function deleteAlertRule(subscriberId: string, id: string): Promise<void> {
+  assertId(id);
+  const result = await db.query(
+    'DELETE FROM alert_rules WHERE id = $1 AND subscriber_id = $2 RETURNING id',
+    [id, subscriberId]
+  );
+  if (result.rows.length === 0) {
+    throw new AlertRuleError('Alert rule not found', 404, 'RULE_NOT_FOUND');
+  }
+}
+
+/**
+ * Enabled rules of verified, active subscribers
+ */
+export async function getRulesToEvaluate(): Promise<EvaluatedAlertRule[]> {
+  const result = await db.query(
+    `SELECT r.id, r.metric, r.target, r.direction, r.warning, r.critical, r.enabled, r.description,
+            r.last_level, r.last_triggered_at, s.id AS subscriber_id, s.email, s.unsubscribe_token,
+            s.preferences_token
+     FROM alert_rules r
+     JOIN subscribers s ON s.id = r.subscriber_id
+     WHERE r.enabled = true
+       AND s.verified = true
+       AND s.status = 'active'`
+  );
+
+  return result.rows.map((row) => ({
+    ...toAlertRule(row),
+    subscriber: {
+      id: row.subscriber_id,
+      email: row.email,
+      unsubscribe_token: row.unsubscribe_token,
+      preferences_token: row.preferences_token,
+    },
+  }));
+}
+
+/**
+ * Store the level each rule was evaluated at (and when it last alerted)
+ */
+export async function saveRuleEvaluations(
+  evaluations: Array<{ id: string; level: AlertRuleLevel; value: number; triggered: boolean }>
+): Promise<void> {
+  if (evaluations.length === 0) return;
+  await db.query(
+    `UPDATE alert_rules r
+     SET last_level = e.level,
+         last_value = e.value,
+         last_triggered_at = CASE WHEN e.triggered THEN NOW() ELSE r.last_triggered_at END
+     FROM unnest($1::uuid[], $2::varchar[], $3::numeric[], $4::boolean[]) AS e(id, level, value, triggered)
+     WHERE r.id = e.id`,
+    [
+      evaluations.map((e) => e.id),
+      evaluations.map((e) => e.level),
+      evaluations.map((e) => e.value),
+      evaluations.map((e) => e.triggered),
+    ]
+  );
+}
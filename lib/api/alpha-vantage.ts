@@ -1,4 +1,4 @@
-import { MarketData } from '@/lib/types';
+import { Candle, CandleResolution, MarketData } from '@/lib/types';
 
 /**
  * Alpha Vantage API Response Types
@@ -47,6 +47,17 @@ interface AlphaVantageTimeSeriesResponse {
   };
 }
 
+/**
+ * OHLCV bar as returned by every TIME_SERIES_* function
+ */
+interface AlphaVantageBar {
+  '1. open': string;
+  '2. high': string;
+  '3. low': string;
+  '4. close': string;
+  '5. volume': string;
+}
+
 interface AlphaVantageErrorResponse {
   'Error Message'?: string;
   'Note'?: string;
@@ -159,43 +170,50 @@ function parseResponse<T>(data: unknown): T {
   return data as T;
 }
 
+/**
+ * Get the latest quote for any symbol via the GLOBAL_QUOTE endpoint
+ */
+export async function getGlobalQuote(symbol: string): Promise<MarketData> {
+  const response = await fetchAlphaVantageData('GLOBAL_QUOTE', symbol);
+  const data = await response.json();
+  const parsed = parseResponse<AlphaVantageQuoteResponse>(data);
+
+  const quote = parsed['Global Quote'];
+  if (!quote || !quote['05. price']) {
+    throw new AlphaVantageError(
+      `Invalid response format from Alpha Vantage API for ${symbol}`,
+      undefined,
+      'INVALID_RESPONSE'
+    );
+  }
+
+  const price = parseFloat(quote['05. price']);
+  const volume = parseInt(quote['06. volume'] || '0', 10);
+  const change = parseFloat(quote['09. change'] || '0');
+  const changePercent = parseFloat(
+    quote['10. change percent']?.replace('%', '') || '0'
+  );
+  const timestamp = quote['07. latest trading day']
+    ? new Date(quote['07. latest trading day'])
+    : new Date();
+
+  return {
+    price,
+    volume,
+    timestamp,
+    symbol,
+    change,
+    changePercent,
+  };
+}
+
 /**
  * Get S&P 500 current price and market data
  * Uses SPY ETF as a proxy for S&P 500
  */
 export async function getSP500CurrentPrice(): Promise<MarketData> {
   try {
-    const response = await fetchAlphaVantageData('GLOBAL_QUOTE', 'SPY');
-    const data = await response.json();
-    const parsed = parseResponse<AlphaVantageQuoteResponse>(data);
-
-    const quote = parsed['Global Quote'];
-    if (!quote || !quote['05. price']) {
-      throw new AlphaVantageError(
-        'Invalid response format from Alpha Vantage API',
-        undefined,
-        'INVALID_RESPONSE'
-      );
-    }
-
-    const price = parseFloat(quote['05. price']);
-    const volume = parseInt(quote['06. volume'] || '0', 10);
-    const change = parseFloat(quote['09. change'] || '0');
-    const changePercent = parseFloat(
-      quote['10. change percent']?.replace('%', '') || '0'
-    );
-    const timestamp = quote['07. latest trading day']
-      ? new Date(quote['07. latest trading day'])
-      : new Date();
-
-    return {
-      price,
-      volume,
-      timestamp,
-      symbol: 'SPY',
-      change,
-      changePercent,
-    };
+    return await getGlobalQuote('SPY');
   } catch (error) {
     if (error instanceof AlphaVantageError) {
       throw error;
@@ -327,3 +345,58 @@ export async function getTimeSeriesData(
   }
 }
 
+/**
+ * TIME_SERIES_* function, interval parameter and response key per resolution
+ */
+const CANDLE_SERIES: Record<CandleResolution, { functionName: string; interval?: string; key: string }> = {
+  '1': { functionName: 'TIME_SERIES_INTRADAY', interval: '1min', key: 'Time Series (1min)' },
+  '5': { functionName: 'TIME_SERIES_INTRADAY', interval: '5min', key: 'Time Series (5min)' },
+  '60': { functionName: 'TIME_SERIES_INTRADAY', interval: '60min', key: 'Time Series (60min)' },
+  D: { functionName: 'TIME_SERIES_DAILY', key: 'Time Series (Daily)' },
+  W: { functionName: 'TIME_SERIES_WEEKLY', key: 'Weekly Time Series' },
+};
+
+/**
+ * Convert an Alpha Vantage timestamp (US/Eastern wall clock) to UTC
+ */
+function easternToISO(dateTime: string): string {
+  const [date, time = '00:00:00'] = dateTime.split(' ');
+  const asUTC = new Date(`${date}T${time}Z`);
+  // Offset of New York from UTC at that moment (handles daylight saving)
+  const eastern = new Date(asUTC.toLocaleString('en-US', { timeZone: 'America/New_York' }));
+  const utc = new Date(asUTC.toLocaleString('en-US', { timeZone: 'UTC' }));
+  return new Date(asUTC.getTime() + (utc.getTime() - eastern.getTime())).toISOString();
+}
+
+/**
+ * Get OHLCV candles for a symbol (the most recent ~100 bars Alpha Vantage
+ * returns for the resolution), oldest first
+ */
+export async function getCandles(symbol: string, resolution: CandleResolution): Promise<Candle[]> {
+  const series = CANDLE_SERIES[resolution];
+  const response = await fetchAlphaVantageData(
+    series.functionName,
+    symbol,
+    series.interval ? { interval: series.interval } : undefined
+  );
+  const data = await response.json();
+  const parsed = parseResponse<Record<string, Record<string, AlphaVantageBar> | undefined>>(data);
+
+  const bars = parsed[series.key];
+  if (!bars) {
+    throw new AlphaVantageError(`No ${series.key} data found for ${symbol}`, undefined, 'NO_DATA');
+  }
+
+  return Object.entries(bars)
+    .map(([dateTime, bar]) => ({
+      // Daily and weekly bars are dated by trading day
+      time: series.interval ? easternToISO(dateTime) : new Date(`${dateTime}T00:00:00Z`).toISOString(),
+      open: parseFloat(bar['1. open']),
+      high: parseFloat(bar['2. high']),
+      low: parseFloat(bar['3. low']),
+      close: parseFloat(bar['4. close']),
+      volume: parseInt(bar['5. volume'], 10) || 0,
+    }))
+    .sort((a, b) => a.time.localeCompare(b.time));
+}
+
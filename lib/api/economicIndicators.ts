@@ -1,25 +1,28 @@
 /**
  * Economic Indicators API Utility
  * Fetches economic indicator data from FRED API and other sources
+ * Server-only; client components use the types in lib/data/economicIndicators.
  */
 
-/**
- * Indicator status type
- */
-export type IndicatorStatus = 'safe' | 'warning' | 'danger';
-
-/**
- * Economic Indicator Response
- */
-export interface EconomicIndicatorResponse {
-  value: number;
-  status: IndicatorStatus;
-  historicalAvg: number;
-  warningLevel: number;
-  dangerLevel: number;
-  timestamp: string;
-  description: string;
-}
+import 'server-only';
+import { BUFFETT_SERIES } from '@/lib/data/economicIndicators';
+import type {
+  BuffettHistoryPoint,
+  BuffettIndicatorResponse,
+  EconomicIndicatorResponse,
+  IndicatorHistoryPoint,
+  IndicatorStatus,
+} from '@/lib/data/economicIndicators';
+import { readFinraMarginData } from '@/lib/finra';
+
+export { BUFFETT_SERIES } from '@/lib/data/economicIndicators';
+export type {
+  BuffettHistoryPoint,
+  BuffettIndicatorResponse,
+  EconomicIndicatorResponse,
+  IndicatorHistoryPoint,
+  IndicatorStatus,
+} from '@/lib/data/economicIndicators';
 
 /**
  * Custom Error Class for Economic Indicators API
@@ -64,45 +67,113 @@ interface FREDErrorResponse {
   error_message?: string;
 }
 
+interface FREDSeriesResponse {
+  seriess?: Array<{
+    id: string;
+    title: string;
+    observation_start: string;
+    observation_end: string;
+    frequency: string;
+    frequency_short: string;
+    units: string;
+    units_short: string;
+    seasonal_adjustment_short: string;
+    last_updated: string;
+    popularity: number;
+    notes?: string;
+  }>;
+}
+
+/**
+ * FRED series metadata
+ */
+export interface FREDSeriesInfo {
+  id: string;
+  title: string;
+  frequency: string; // e.g. 'Monthly'
+  frequencyShort: string; // e.g. 'M'
+  units: string;
+  unitsShort: string;
+  seasonalAdjustment: string; // e.g. 'SA', 'NSA'
+  observationStart: string; // YYYY-MM-DD
+  observationEnd: string; // YYYY-MM-DD
+  lastUpdated: string;
+  popularity: number;
+}
+
+/**
+ * Optional FRED observation query parameters
+ */
+export interface FREDFetchOptions {
+  observationStart?: string; // YYYY-MM-DD
+  observationEnd?: string; // YYYY-MM-DD
+  frequency?: 'd' | 'w' | 'm' | 'q' | 'a';
+  aggregationMethod?: 'avg' | 'sum' | 'eop';
+  sortOrder?: 'asc' | 'desc';
+}
+
+/**
+ * Single numeric FRED observation
+ */
+export interface FREDObservation {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+let warnedPublicFREDKey = false;
+
 /**
  * Get FRED API Key from environment variables
+ * FRED_API_KEY stays on the server; NEXT_PUBLIC_FRED_API_KEY is still read
+ * as a deprecated fallback, since Next inlines it into client bundles.
  */
-function getFREDApiKey(): string {
-  const apiKey = process.env.NEXT_PUBLIC_FRED_API_KEY;
-  if (!apiKey) {
-    throw new EconomicIndicatorError(
-      'FRED API key is not configured. Please set NEXT_PUBLIC_FRED_API_KEY in your environment variables.',
-      500,
-      'MISSING_API_KEY'
-    );
+function getFREDApiKey(): string | undefined {
+  if (process.env.FRED_API_KEY) return process.env.FRED_API_KEY;
+
+  const legacyKey = process.env.NEXT_PUBLIC_FRED_API_KEY;
+  if (legacyKey && !warnedPublicFREDKey) {
+    console.warn('⚠️  NEXT_PUBLIC_FRED_API_KEY is deprecated and exposed to the browser. Rename it to FRED_API_KEY.');
+    warnedPublicFREDKey = true;
   }
-  return apiKey;
+  return legacyKey;
 }
 
 /**
- * Fetch data from FRED API
+ * Whether a FRED API key is configured
  */
-async function fetchFREDData(seriesId: string, limit: number = 1): Promise<FREDObservationsResponse> {
+export function isFREDConfigured(): boolean {
+  return Boolean(getFREDApiKey());
+}
+
+/**
+ * Request a FRED API endpoint, throwing on HTTP and API errors
+ */
+async function requestFRED(path: string, params: Record<string, string>): Promise<unknown> {
   const apiKey = getFREDApiKey();
-  const baseUrl = 'https://api.stlouisfed.org/fred/series/observations';
-  
+  if (!apiKey) {
+    throw new EconomicIndicatorError(
+      'FRED API key is not configured. Please set FRED_API_KEY in your environment variables.',
+      500,
+      'MISSING_API_KEY'
+    );
+  }
   const searchParams = new URLSearchParams({
-    series_id: seriesId,
+    ...params,
     api_key: apiKey,
     file_type: 'json',
-    limit: limit.toString(),
-    sort_order: 'desc', // Most recent first
   });
 
-  const url = `${baseUrl}?${searchParams.toString()}`;
+  const url = `https://api.stlouisfed.org/fred/${path}?${searchParams.toString()}`;
 
   const response = await fetch(url, {
     next: { revalidate: 3600 }, // Cache for 1 hour (economic data updates less frequently)
   });
 
   if (!response.ok) {
+    // FRED explains bad requests (e.g. an unknown series) in the JSON body
+    const errorData = (await response.json().catch(() => ({}))) as FREDErrorResponse;
     throw new EconomicIndicatorError(
-      `FRED API request failed with status ${response.status}`,
+      errorData.error_message || `FRED API request failed with status ${response.status}`,
       response.status,
       'HTTP_ERROR'
     );
@@ -120,13 +191,143 @@ async function fetchFREDData(seriesId: string, limit: number = 1): Promise<FREDO
     );
   }
 
-  return data as FREDObservationsResponse;
+  return data;
+}
+
+/**
+ * Fetch data from FRED API
+ */
+async function fetchFREDData(
+  seriesId: string,
+  limit: number = 1,
+  options: FREDFetchOptions = {}
+): Promise<FREDObservationsResponse> {
+  const params: Record<string, string> = {
+    series_id: seriesId,
+    limit: limit.toString(),
+    sort_order: options.sortOrder || 'desc', // Most recent first by default
+  };
+
+  if (options.observationStart) {
+    params.observation_start = options.observationStart;
+  }
+  if (options.observationEnd) {
+    params.observation_end = options.observationEnd;
+  }
+  if (options.frequency) {
+    params.frequency = options.frequency;
+    params.aggregation_method = options.aggregationMethod || 'avg';
+  }
+
+  return (await requestFRED('series/observations', params)) as FREDObservationsResponse;
+}
+
+function toSeriesInfo(series: NonNullable<FREDSeriesResponse['seriess']>[number]): FREDSeriesInfo {
+  return {
+    id: series.id,
+    title: series.title,
+    frequency: series.frequency,
+    frequencyShort: series.frequency_short,
+    units: series.units,
+    unitsShort: series.units_short,
+    seasonalAdjustment: series.seasonal_adjustment_short,
+    observationStart: series.observation_start,
+    observationEnd: series.observation_end,
+    lastUpdated: series.last_updated,
+    popularity: series.popularity,
+  };
+}
+
+/**
+ * Get metadata (title, units, frequency) of a FRED series
+ */
+export async function getFREDSeriesInfo(seriesId: string): Promise<FREDSeriesInfo> {
+  const data = (await requestFRED('series', { series_id: seriesId })) as FREDSeriesResponse;
+  const series = data.seriess?.[0];
+
+  if (!series) {
+    throw new EconomicIndicatorError(`FRED series ${seriesId} not found`, 404, 'NOT_FOUND');
+  }
+
+  return toSeriesInfo(series);
+}
+
+/**
+ * Search FRED series by keyword, most popular first
+ */
+export async function searchFREDSeries(text: string, limit: number = 20): Promise<FREDSeriesInfo[]> {
+  const data = (await requestFRED('series/search', {
+    search_text: text,
+    limit: limit.toString(),
+    order_by: 'popularity',
+    sort_order: 'desc',
+  })) as FREDSeriesResponse;
+
+  return (data.seriess || []).map(toSeriesInfo);
+}
+
+/**
+ * Get the full observation history of a FRED series (oldest first)
+ * Missing observations ('.') are skipped
+ */
+export async function getFREDSeriesHistory(
+  seriesId: string,
+  options: Omit<FREDFetchOptions, 'sortOrder'> = {}
+): Promise<FREDObservation[]> {
+  // FRED allows up to 100,000 observations per request
+  const data = await fetchFREDData(seriesId, 100000, { ...options, sortOrder: 'asc' });
+
+  if (!data.observations) {
+    throw new EconomicIndicatorError(
+      `No observations found for FRED series ${seriesId}`,
+      undefined,
+      'NO_DATA'
+    );
+  }
+
+  return data.observations
+    .filter((observation) => observation.value && observation.value !== '.')
+    .map((observation) => ({
+      date: observation.date,
+      value: parseFloat(observation.value),
+    }))
+    .filter((observation) => !isNaN(observation.value));
+}
+
+/**
+ * Get the most recent observations of a FRED series (newest first)
+ * Missing observations ('.') are skipped
+ */
+export async function getFREDLatestObservations(
+  seriesId: string,
+  count: number = 2
+): Promise<FREDObservation[]> {
+  // Fetch a few extra in case the latest days are missing ('.')
+  const data = await fetchFREDData(seriesId, count + 5);
+
+  const observations = (data.observations || [])
+    .filter((observation) => observation.value && observation.value !== '.')
+    .map((observation) => ({
+      date: observation.date,
+      value: parseFloat(observation.value),
+    }))
+    .filter((observation) => !isNaN(observation.value));
+
+  if (observations.length === 0) {
+    throw new EconomicIndicatorError(
+      `No observations found for FRED series ${seriesId}`,
+      undefined,
+      'NO_DATA'
+    );
+  }
+
+  return observations.slice(0, count);
 }
 
 /**
  * Determine status based on value and thresholds
  */
-function determineStatus(
+export function determineStatus(
   value: number,
   warningLevel: number,
   dangerLevel: number,
@@ -145,72 +346,6 @@ function determineStatus(
   }
 }
 
-/**
- * Get CAPE Ratio (Shiller P/E)
- * Reads from local JSON file (updated monthly via parseShillerData.js script)
- * Set monthly reminder: Update /public/data/shiller-data.xls and rerun parser script
- */
-export async function getCAPERatio(): Promise<EconomicIndicatorResponse> {
-  // Fallback data structure
-  const fallbackData: EconomicIndicatorResponse = {
-    value: 39.2,
-    status: 'danger' as const,
-    historicalAvg: 16.8,
-    warningLevel: 25,
-    dangerLevel: 30,
-    timestamp: new Date().toISOString(),
-    description: 'Shiller P/E - Cyclically Adjusted Price-to-Earnings',
-  };
-
-  try {
-    // Read from local JSON file using Node.js fs (server-side only)
-    // Use dynamic imports to avoid bundling issues
-    const fs = await import('fs/promises');
-    const path = await import('path');
-    const filePath = path.join(process.cwd(), 'public', 'data', 'cape-latest.json');
-    
-    try {
-      const fileContents = await fs.readFile(filePath, 'utf-8');
-      const data = JSON.parse(fileContents);
-
-      if (!data || typeof data.cape !== 'number') {
-        console.warn('Invalid CAPE data structure, using fallback');
-        return fallbackData;
-      }
-
-      const value = parseFloat(String(data.cape));
-      if (isNaN(value)) {
-        console.warn('CAPE value is not a number, using fallback');
-        return fallbackData;
-      }
-
-      const historicalAvg = data.historicalAverage || 16.8;
-      const warningLevel = 25;
-      const dangerLevel = 30;
-
-      const status = determineStatus(value, warningLevel, dangerLevel);
-
-      return {
-        value,
-        status,
-        historicalAvg,
-        warningLevel,
-        dangerLevel,
-        timestamp: data.updatedAt || data.date || new Date().toISOString(),
-        description: 'Shiller P/E - Cyclically Adjusted Price-to-Earnings',
-      };
-    } catch (fileError) {
-      // File not found or can't be read - use fallback
-      console.warn('Could not read CAPE file, using fallback:', fileError instanceof Error ? fileError.message : 'Unknown error');
-      return fallbackData;
-    }
-  } catch (error) {
-    // Any other error - use fallback
-    console.error('Error fetching CAPE ratio:', error);
-    return fallbackData;
-  }
-}
-
 /**
  * Get Yield Curve Spread (10Y-3M)
  * Fetches from FRED API (series: T10Y3M)
@@ -266,32 +401,80 @@ export async function getYieldCurveSpread(): Promise<EconomicIndicatorResponse>
   }
 }
 
+/**
+ * Latest observation value dated at or before the given month (YYYY-MM)
+ * Observations must be sorted oldest first
+ */
+function latestValueAtOrBefore(observations: FREDObservation[], month: string): number | undefined {
+  let value: number | undefined;
+  for (const observation of observations) {
+    if (observation.date.slice(0, 7) > month) break;
+    value = observation.value;
+  }
+  return value;
+}
+
+/**
+ * Get Margin Debt / GDP history (oldest first)
+ * FINRA debit balances in margin accounts (millions, monthly CSV in public/data)
+ * divided by nominal GDP from FRED (series: GDP, billions SAAR, quarterly).
+ * Each month uses the GDP of the latest quarter starting at or before it.
+ */
+export async function getMarginDebtHistory(): Promise<IndicatorHistoryPoint[]> {
+  const [marginMonths, gdp] = await Promise.all([
+    readFinraMarginData(),
+    getFREDSeriesHistory('GDP'),
+  ]);
+
+  const warningLevel = 2.5;
+  const dangerLevel = 3.0;
+  const points: IndicatorHistoryPoint[] = [];
+
+  for (const month of marginMonths) {
+    const gdpValue = latestValueAtOrBefore(gdp, month.date);
+    if (!gdpValue) continue;
+
+    // Debit balances are in millions, GDP in billions
+    const value = (month.debitBalances / 1000 / gdpValue) * 100;
+    points.push({
+      date: new Date(`${month.date}-01T00:00:00Z`).toISOString(),
+      value,
+      status: determineStatus(value, warningLevel, dangerLevel),
+    });
+  }
+
+  return points;
+}
+
 /**
  * Get Margin Debt / GDP
- * Manual/mock for now (FINRA publishes monthly)
- * TODO: Integrate with FINRA API or manual data source
+ * Latest FINRA month divided by FRED GDP; the timestamp is the FINRA month
+ * Set monthly reminder: Export FINRA margin statistics CSV to /public/data/margin-statistics.csv
  */
 export async function getMarginDebt(): Promise<EconomicIndicatorResponse> {
   try {
-    // TODO: Replace with actual FINRA data or manual calculation
-    // FINRA publishes margin debt data monthly
-    // GDP data available from FRED (GDP)
+    const history = await getMarginDebtHistory();
+    const latest = history[history.length - 1];
+
+    if (!latest) {
+      throw new EconomicIndicatorError(
+        'No margin debt months could be matched with FRED GDP data',
+        undefined,
+        'NO_DATA'
+      );
+    }
 
-    // Mock data for now
-    const value = 3.8;
     const historicalAvg = 1.8;
     const warningLevel = 2.5;
     const dangerLevel = 3.0;
 
-    const status = determineStatus(value, warningLevel, dangerLevel);
-
     return {
-      value,
-      status,
+      value: latest.value,
+      status: latest.status,
       historicalAvg,
       warningLevel,
       dangerLevel,
-      timestamp: new Date().toISOString(),
+      timestamp: latest.date,
       description: 'Margin Debt as percentage of GDP',
     };
   } catch (error) {
@@ -362,34 +545,158 @@ export async function getCreditSpreads(): Promise<EconomicIndicatorResponse> {
   }
 }
 
+/**
+ * Market cap older than this switches from Wilshire 5000 to the Z.1 series
+ */
+const MAX_WILSHIRE_AGE_DAYS = 30;
+
+/**
+ * Last day of the period starting at `date` (YYYY-MM-DD), capped at now
+ */
+function periodEnd(date: string, months: number): Date {
+  const end = new Date(`${date}T00:00:00Z`);
+  end.setUTCMonth(end.getUTCMonth() + months);
+  end.setUTCDate(0);
+  const now = new Date();
+  return end > now ? now : end;
+}
+
+/**
+ * Interpolate quarterly GDP to a date.
+ * Each GDP value is an average over its quarter, so it is placed at the
+ * quarter midpoint and dates in between are linearly interpolated. Dates past
+ * the latest release hold the last value.
+ */
+function interpolateGDP(gdp: FREDObservation[], date: Date): number | undefined {
+  const time = date.getTime();
+  let previous: { time: number; value: number } | undefined;
+
+  for (const observation of gdp) {
+    const start = new Date(`${observation.date}T00:00:00Z`);
+    const end = new Date(start);
+    end.setUTCMonth(end.getUTCMonth() + 3);
+    const midpoint = { time: (start.getTime() + end.getTime()) / 2, value: observation.value };
+
+    if (midpoint.time >= time) {
+      if (!previous) return midpoint.value;
+      const fraction = (time - previous.time) / (midpoint.time - previous.time);
+      return previous.value + fraction * (midpoint.value - previous.value);
+    }
+    previous = midpoint;
+  }
+
+  return previous?.value;
+}
+
+/**
+ * Market cap history in billions, dated at the end of each period.
+ * Uses month-end Wilshire 5000 levels, falling back to the quarterly Z.1
+ * corporate equities series when Wilshire is unavailable or out of date.
+ */
+async function getMarketCapHistory(): Promise<{ seriesId: string; points: Array<{ date: Date; value: number }> }> {
+  try {
+    const wilshire = await getFREDSeriesHistory(BUFFETT_SERIES.wilshire, {
+      frequency: 'm',
+      aggregationMethod: 'eop',
+    });
+    const points = wilshire.map((observation) => ({
+      date: periodEnd(observation.date, 1),
+      value: observation.value,
+    }));
+
+    const latest = points[points.length - 1];
+    if (latest && Date.now() - latest.date.getTime() <= MAX_WILSHIRE_AGE_DAYS * 24 * 60 * 60 * 1000) {
+      return { seriesId: BUFFETT_SERIES.wilshire, points };
+    }
+    console.warn('Wilshire 5000 data is out of date, using Z.1 corporate equities');
+  } catch (error) {
+    console.warn('Wilshire 5000 unavailable, using Z.1 corporate equities:', error instanceof Error ? error.message : error);
+  }
+
+  const equities = await getFREDSeriesHistory(BUFFETT_SERIES.corporateEquities);
+  return {
+    seriesId: BUFFETT_SERIES.corporateEquities,
+    // Quarter-end levels, millions → billions
+    points: equities.map((observation) => ({
+      date: periodEnd(observation.date, 3),
+      value: observation.value / 1000,
+    })),
+  };
+}
+
+/**
+ * Build the Buffett Indicator history and report which market cap series was used
+ */
+async function buildBuffettHistory(): Promise<{ marketCapSeries: string; points: BuffettHistoryPoint[] }> {
+  const [marketCap, gdp] = await Promise.all([
+    getMarketCapHistory(),
+    getFREDSeriesHistory(BUFFETT_SERIES.gdp),
+  ]);
+
+  const warningLevel = 115;
+  const dangerLevel = 160;
+  const points: BuffettHistoryPoint[] = [];
+
+  for (const point of marketCap.points) {
+    const gdpValue = interpolateGDP(gdp, point.date);
+    if (!gdpValue) continue;
+
+    const value = (point.value / gdpValue) * 100;
+    points.push({
+      date: point.date.toISOString(),
+      value,
+      status: determineStatus(value, warningLevel, dangerLevel),
+      marketCap: point.value,
+      gdp: gdpValue,
+    });
+  }
+
+  return { marketCapSeries: marketCap.seriesId, points };
+}
+
+/**
+ * Get Buffett Indicator history (oldest first)
+ */
+export async function getBuffettIndicatorHistory(): Promise<BuffettHistoryPoint[]> {
+  const { points } = await buildBuffettHistory();
+  return points;
+}
+
 /**
  * Get Buffett Indicator (Market Cap / GDP)
- * Mock for now - requires market cap and GDP data
- * TODO: Calculate from actual market cap and GDP data
+ * Market cap from FRED (Wilshire 5000 full cap, or Z.1 corporate equities)
+ * divided by nominal GDP interpolated between quarterly releases
  */
-export async function getBuffettIndicator(): Promise<EconomicIndicatorResponse> {
+export async function getBuffettIndicator(): Promise<BuffettIndicatorResponse> {
   try {
-    // TODO: Calculate from actual data
-    // Market Cap: Can use Wilshire 5000 or S&P 500 market cap
-    // GDP: Available from FRED (GDP series)
-    // Formula: (Market Cap / GDP) * 100
+    const { marketCapSeries, points } = await buildBuffettHistory();
+    const latest = points[points.length - 1];
+
+    if (!latest) {
+      throw new EconomicIndicatorError(
+        'No market cap data could be matched with FRED GDP data',
+        undefined,
+        'NO_DATA'
+      );
+    }
 
-    // Mock data for now
-    const value = 228;
     const historicalAvg = 80;
     const warningLevel = 115;
     const dangerLevel = 160;
 
-    const status = determineStatus(value, warningLevel, dangerLevel);
-
     return {
-      value,
-      status,
+      value: latest.value,
+      status: latest.status,
       historicalAvg,
       warningLevel,
       dangerLevel,
-      timestamp: new Date().toISOString(),
+      timestamp: latest.date,
       description: 'Market Capitalization / GDP Ratio',
+      marketCapSeries,
+      gdpSeries: BUFFETT_SERIES.gdp,
+      marketCap: latest.marketCap,
+      gdp: latest.gdp,
+      history: points,
     };
   } catch (error) {
     if (error instanceof EconomicIndicatorError) {
@@ -402,4 +709,3 @@ export async function getBuffettIndicator(): Promise<EconomicIndicatorResponse>
     );
   }
 }
-
@@ -0,0 +1,262 @@
+/**
+ * Labor Market Indicators
+ * Real-economy signals from FRED, in the same EconomicIndicatorResponse shape
+ * as the financial indicators:
+ * - Sahm rule: 3-month average unemployment rate (UNRATE) minus its lowest
+ *   3-month average over the previous 12 months; 0.50 points or more has
+ *   marked the start of every recession since 1970
+ * - Initial claims trend: 4-week average of weekly initial jobless claims
+ *   (ICSA) relative to its lowest 4-week average over the previous 52 weeks
+ */
+
+import {
+  determineStatus,
+  EconomicIndicatorError,
+  EconomicIndicatorResponse,
+  FREDObservation,
+  getFREDSeriesHistory,
+  IndicatorHistoryPoint,
+} from '@/lib/api/economicIndicators';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sahm rule levels (percentage points)
+ */
+const SAHM_WARNING_LEVEL = 0.3;
+const SAHM_DANGER_LEVEL = 0.5; // The Sahm rule trigger
+const SAHM_HISTORY_START = '1959-01-01';
+
+/**
+ * Claims trend levels (% above the 52-week low of the 4-week average)
+ */
+const CLAIMS_WARNING_LEVEL = 15;
+const CLAIMS_DANGER_LEVEL = 25;
+const CLAIMS_HISTORY_START = '1967-01-01';
+
+/**
+ * UNRATE for a month is published early the next month; ICSA every Thursday
+ * for the week ending the previous Saturday
+ */
+const UNRATE_MAX_LAG_MONTHS = 2;
+const ICSA_MAX_AGE_DAYS = 14;
+
+/**
+ * Sahm rule reading with the values behind it
+ */
+export interface SahmRuleResponse extends EconomicIndicatorResponse {
+  unemploymentRate: number; // latest month (%)
+  threeMonthAverage: number;
+  twelveMonthLow: number; // lowest 3-month average in the previous 12 months
+  triggered: boolean; // value >= 0.50
+}
+
+/**
+ * Initial claims trend with the values behind it
+ */
+export interface InitialClaimsResponse extends EconomicIndicatorResponse {
+  claims: number; // latest week
+  fourWeekAverage: number;
+  yearLow: number; // lowest 4-week average in the previous 52 weeks
+  yearAgoChange: number | null; // % change of the 4-week average from a year earlier
+}
+
+interface SahmPoint {
+  date: string; // YYYY-MM-DD (first of the month)
+  unemploymentRate: number;
+  threeMonthAverage: number;
+  twelveMonthLow: number;
+  value: number;
+}
+
+interface ClaimsPoint {
+  date: string; // YYYY-MM-DD (week ending)
+  claims: number;
+  fourWeekAverage: number;
+  yearLow: number;
+  yearAgoAverage: number | undefined;
+  value: number;
+}
+
+function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Trailing averages over `window` observations, aligned with the input
+ * (undefined until the window is full)
+ */
+function movingAverages(observations: FREDObservation[], window: number): Array<number | undefined> {
+  let sum = 0;
+  return observations.map((observation, i) => {
+    sum += observation.value;
+    if (i >= window) sum -= observations[i - window].value;
+    return i >= window - 1 ? sum / window : undefined;
+  });
+}
+
+function average(points: Array<{ value: number }>): number {
+  return points.length > 0 ? points.reduce((total, point) => total + point.value, 0) / points.length : 0;
+}
+
+async function buildSahmHistory(): Promise<SahmPoint[]> {
+  const observations = await getFREDSeriesHistory('UNRATE', { observationStart: SAHM_HISTORY_START });
+  const averages = movingAverages(observations, 3);
+  const points: SahmPoint[] = [];
+
+  for (let i = 14; i < observations.length; i++) {
+    const current = averages[i];
+    const previous = averages.slice(i - 12, i).filter((value): value is number => value !== undefined);
+    if (current === undefined || previous.length < 12) continue;
+
+    const twelveMonthLow = Math.min(...previous);
+    points.push({
+      date: observations[i].date,
+      unemploymentRate: observations[i].value,
+      threeMonthAverage: round(current),
+      twelveMonthLow: round(twelveMonthLow),
+      value: round(current - twelveMonthLow),
+    });
+  }
+
+  return points;
+}
+
+async function buildClaimsHistory(): Promise<ClaimsPoint[]> {
+  const observations = await getFREDSeriesHistory('ICSA', { observationStart: CLAIMS_HISTORY_START });
+  const averages = movingAverages(observations, 4);
+  const points: ClaimsPoint[] = [];
+
+  for (let i = 55; i < observations.length; i++) {
+    const current = averages[i];
+    const previous = averages.slice(i - 52, i).filter((value): value is number => value !== undefined);
+    if (current === undefined || previous.length < 52) continue;
+
+    const yearLow = Math.min(...previous);
+    points.push({
+      date: observations[i].date,
+      claims: observations[i].value,
+      fourWeekAverage: Math.round(current),
+      yearLow: Math.round(yearLow),
+      yearAgoAverage: averages[i - 52],
+      value: round((current / yearLow - 1) * 100, 1),
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Get Sahm rule history (oldest first)
+ */
+export async function getSahmRuleHistory(): Promise<IndicatorHistoryPoint[]> {
+  const points = await buildSahmHistory();
+  return points.map((point) => ({
+    date: new Date(`${point.date}T00:00:00Z`).toISOString(),
+    value: point.value,
+    status: determineStatus(point.value, SAHM_WARNING_LEVEL, SAHM_DANGER_LEVEL),
+  }));
+}
+
+/**
+ * Get Sahm Rule
+ * Fetches from FRED API (series: UNRATE); the timestamp is the latest month
+ * and staleSince is set once it falls behind the monthly release
+ */
+export async function getSahmRule(): Promise<SahmRuleResponse> {
+  try {
+    const points = await buildSahmHistory();
+    const latest = points[points.length - 1];
+
+    if (!latest) {
+      throw new EconomicIndicatorError('Not enough UNRATE history for the Sahm rule', undefined, 'NO_DATA');
+    }
+
+    const now = new Date();
+    const [year, month] = latest.date.split('-').map(Number);
+    const lag = (now.getUTCFullYear() - year) * 12 + (now.getUTCMonth() + 1 - month);
+    const timestamp = new Date(`${latest.date}T00:00:00Z`).toISOString();
+
+    return {
+      value: latest.value,
+      status: determineStatus(latest.value, SAHM_WARNING_LEVEL, SAHM_DANGER_LEVEL),
+      historicalAvg: round(average(points)),
+      warningLevel: SAHM_WARNING_LEVEL,
+      dangerLevel: SAHM_DANGER_LEVEL,
+      timestamp,
+      description: 'Sahm Rule - 3-month unemployment average vs. its 12-month low',
+      ...(lag > UNRATE_MAX_LAG_MONTHS && { staleSince: timestamp }),
+      unemploymentRate: latest.unemploymentRate,
+      threeMonthAverage: latest.threeMonthAverage,
+      twelveMonthLow: latest.twelveMonthLow,
+      triggered: latest.value >= SAHM_DANGER_LEVEL,
+    };
+  } catch (error) {
+    if (error instanceof EconomicIndicatorError) {
+      throw error;
+    }
+    throw new EconomicIndicatorError(
+      `Failed to fetch Sahm Rule: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      undefined,
+      'FETCH_ERROR'
+    );
+  }
+}
+
+/**
+ * Get initial claims trend history (oldest first)
+ */
+export async function getInitialClaimsHistory(): Promise<IndicatorHistoryPoint[]> {
+  const points = await buildClaimsHistory();
+  return points.map((point) => ({
+    date: new Date(`${point.date}T00:00:00Z`).toISOString(),
+    value: point.value,
+    status: determineStatus(point.value, CLAIMS_WARNING_LEVEL, CLAIMS_DANGER_LEVEL),
+  }));
+}
+
+/**
+ * Get Initial Claims Trend
+ * Fetches from FRED API (series: ICSA, weekly); the value is how far the
+ * 4-week average is above its 52-week low
+ */
+export async function getInitialClaims(): Promise<InitialClaimsResponse> {
+  try {
+    const points = await buildClaimsHistory();
+    const latest = points[points.length - 1];
+
+    if (!latest) {
+      throw new EconomicIndicatorError('Not enough ICSA history for the claims trend', undefined, 'NO_DATA');
+    }
+
+    const timestamp = new Date(`${latest.date}T00:00:00Z`).toISOString();
+    const stale = Date.now() - new Date(timestamp).getTime() > ICSA_MAX_AGE_DAYS * DAY_MS;
+
+    return {
+      value: latest.value,
+      status: determineStatus(latest.value, CLAIMS_WARNING_LEVEL, CLAIMS_DANGER_LEVEL),
+      historicalAvg: round(average(points), 1),
+      warningLevel: CLAIMS_WARNING_LEVEL,
+      dangerLevel: CLAIMS_DANGER_LEVEL,
+      timestamp,
+      description: `Initial Claims - 4-week average ${(latest.fourWeekAverage / 1000).toFixed(0)}K vs. 52-week low`,
+      ...(stale && { staleSince: timestamp }),
+      claims: latest.claims,
+      fourWeekAverage: latest.fourWeekAverage,
+      yearLow: latest.yearLow,
+      yearAgoChange: latest.yearAgoAverage
+        ? round((latest.fourWeekAverage / latest.yearAgoAverage - 1) * 100, 1)
+        : null,
+    };
+  } catch (error) {
+    if (error instanceof EconomicIndicatorError) {
+      throw error;
+    }
+    throw new EconomicIndicatorError(
+      `Failed to fetch Initial Claims: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      undefined,
+      'FETCH_ERROR'
+    );
+  }
+}
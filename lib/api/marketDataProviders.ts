@@ -0,0 +1,606 @@
+/**
+ * Market Data Providers
+ * Common interface over the quote sources (Finnhub, Alpha Vantage, FRED,
+ * CBOE). Each symbol has a priority list of providers; when a provider fails
+ * or is rate-limited the next one is tried, and the response is tagged with
+ * the provider that served it.
+ */
+
+import { Candle, CandleResolution } from '@/lib/types';
+import { MarketDataResponse } from './marketData';
+import { getCandles as getAlphaVantageCandles, getGlobalQuote } from './alpha-vantage';
+import { getFREDLatestObservations, getFREDSeriesHistory, isFREDConfigured } from './economicIndicators';
+import { fetchMarketDataFromExchange, SYMBOL_MAP } from './tradingview-adapter';
+
+export type MarketDataProviderName = 'finnhub' | 'alpha-vantage' | 'fred' | 'cboe';
+
+export type AssetClass = 'index' | 'stock' | 'crypto' | 'commodity';
+
+/**
+ * A source of quotes. Symbols are the app's own symbols (SP500, VIX, GOLD,
+ * BTC, AAPL...); each provider maps them to its own tickers or series.
+ */
+export interface MarketDataProvider {
+  name: MarketDataProviderName;
+  isConfigured(): boolean;
+  supports(symbol: string, assetClass: AssetClass): boolean;
+  getQuote(symbol: string, assetClass: AssetClass): Promise<MarketDataResponse>;
+  /**
+   * OHLCV bars between from and to, oldest first (providers without
+   * history leave this out)
+   */
+  getCandles?(symbol: string, assetClass: AssetClass, resolution: CandleResolution, from: Date, to: Date): Promise<Candle[]>;
+}
+
+/**
+ * Custom Error Class for market data providers
+ */
+export class MarketDataProviderError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'MarketDataProviderError';
+  }
+}
+
+/**
+ * Providers tried in order, per asset class and per symbol
+ * Unconfigured providers are skipped, so exchange feeds can sit first
+ */
+export const PROVIDER_PRIORITY: Record<
+  AssetClass,
+  { default: MarketDataProviderName[]; bySymbol: Record<string, MarketDataProviderName[]> }
+> = {
+  index: {
+    default: ['cboe', 'fred'],
+    bySymbol: {
+      SP500: ['cboe', 'finnhub', 'alpha-vantage', 'fred'],
+      DOW: ['finnhub', 'alpha-vantage', 'fred'],
+      NASDAQ: ['finnhub', 'alpha-vantage', 'fred'],
+      VIX: ['cboe', 'fred'],
+    },
+  },
+  stock: { default: ['finnhub', 'alpha-vantage'], bySymbol: {} },
+  crypto: { default: ['finnhub'], bySymbol: {} },
+  commodity: { default: ['fred'], bySymbol: {} },
+};
+
+/**
+ * Providers tried in order for candles (only providers with history)
+ */
+export const CANDLE_PROVIDER_PRIORITY: Record<AssetClass, MarketDataProviderName[]> = {
+  index: ['finnhub', 'fred'],
+  stock: ['finnhub', 'alpha-vantage'],
+  crypto: ['finnhub'],
+  commodity: ['fred'],
+};
+
+/**
+ * How long a rate-limited provider is skipped before being tried again
+ */
+export const RATE_LIMIT_COOLDOWN_MS = 60 * 1000;
+
+/**
+ * ETFs used as index proxies where the index itself is not available
+ * (e.g. Finnhub free tier). The ratio is only a starting point: it is
+ * recalibrated daily against the official close published on FRED.
+ */
+const INDEX_ETF_PROXIES: Record<string, { symbol: string; ratio: number }> = {
+  SP500: { symbol: 'SPY', ratio: 10 }, // SPY is roughly 1/10th of the S&P 500
+  DOW: { symbol: 'DIA', ratio: 100 }, // DIA is roughly 1/100th of the Dow Jones
+  NASDAQ: { symbol: 'QQQ', ratio: 41 }, // QQQ is roughly 1/41st of the Nasdaq 100
+};
+
+/**
+ * FRED series with the official daily index/commodity close
+ */
+const FRED_QUOTE_SERIES: Record<string, string> = {
+  SP500: 'SP500', // S&P 500 index close
+  DOW: 'DJIA', // Dow Jones Industrial Average close
+  NASDAQ: 'NASDAQ100', // Nasdaq 100 index close
+  VIX: 'VIXCLS', // CBOE VIX close
+  VIX3M: 'VXVCLS', // CBOE S&P 500 3-Month Volatility close
+  GOLD: 'GOLDAMGBD228NLBM', // Gold (London Fixing)
+  SILVER: 'SLVPRUSD', // Silver Price USD
+  OIL: 'DCOILWTICO', // Crude Oil WTI
+};
+
+/**
+ * Index-to-ETF ratio derived from an official close
+ */
+interface IndexCalibration {
+  ratio: number;
+  date: string | null; // official close used (YYYY-MM-DD); null when uncalibrated
+  tradingDate?: string; // session the calibration was made for
+}
+
+const calibrations = new Map<string, IndexCalibration>();
+
+/**
+ * New York trading date (YYYY-MM-DD) of a quote timestamp
+ */
+function toTradingDate(timestamp: string): string {
+  return new Date(timestamp).toLocaleDateString('en-CA', { timeZone: 'America/New_York' });
+}
+
+/**
+ * Whether `next` is the first weekday after `previous` (both YYYY-MM-DD)
+ */
+function isNextWeekday(previous: string, next: string): boolean {
+  const day = new Date(`${previous}T00:00:00Z`);
+  do {
+    day.setUTCDate(day.getUTCDate() + 1);
+  } while (day.getUTCDay() === 0 || day.getUTCDay() === 6);
+  return day.toISOString().slice(0, 10) === next;
+}
+
+/**
+ * Calibrate the index-to-ETF ratio from the previous official close.
+ * The ETF's previous close (value - change) is paired with FRED's latest
+ * index close only when that close is for the session right before the
+ * quote's; otherwise (FRED not yet updated, holidays) the last calibration
+ * is kept.
+ */
+async function getIndexCalibration(symbol: string, etfQuote: MarketDataResponse): Promise<IndexCalibration> {
+  const tradingDate = toTradingDate(etfQuote.timestamp);
+  const cached = calibrations.get(symbol);
+  if (cached && cached.tradingDate === tradingDate) {
+    return cached;
+  }
+
+  const previousClose = etfQuote.value - etfQuote.change;
+  try {
+    const [latest] = await getFREDLatestObservations(FRED_QUOTE_SERIES[symbol], 1);
+    if (previousClose > 0 && isNextWeekday(latest.date, tradingDate)) {
+      const calibration = { ratio: latest.value / previousClose, date: latest.date, tradingDate };
+      calibrations.set(symbol, calibration);
+      return calibration;
+    }
+  } catch (error) {
+    console.warn(`Could not calibrate ${symbol} from FRED:`, error instanceof Error ? error.message : error);
+  }
+
+  return cached || { ratio: INDEX_ETF_PROXIES[symbol].ratio, date: null };
+}
+
+/**
+ * Estimate an index level from its ETF proxy using the calibrated ratio
+ */
+async function estimateIndexQuote(
+  symbol: string,
+  fetchEtfQuote: (etfSymbol: string) => Promise<MarketDataResponse>
+): Promise<MarketDataResponse> {
+  const proxy = INDEX_ETF_PROXIES[symbol];
+  const quote = await fetchEtfQuote(proxy.symbol);
+  const calibration = await getIndexCalibration(symbol, quote);
+
+  return {
+    ...quote,
+    value: quote.value * calibration.ratio,
+    change: quote.change * calibration.ratio,
+    valueSource: 'estimated',
+    proxySymbol: proxy.symbol,
+    calibrationRatio: calibration.ratio,
+    calibrationDate: calibration.date,
+  };
+}
+
+// ============================================================================
+// Finnhub
+// ============================================================================
+
+/**
+ * Crypto is quoted against USDT on Binance (BTC → BINANCE:BTCUSDT)
+ */
+function finnhubCryptoSymbol(symbol: string): string {
+  return `BINANCE:${symbol}USDT`;
+}
+
+/**
+ * Index tickers tried before the ETF proxy (indices need a paid Finnhub plan)
+ */
+const FINNHUB_INDEX_SYMBOLS: Record<string, string> = {
+  SP500: '^GSPC',
+  DOW: '^DJI',
+  NASDAQ: '^NDX',
+};
+
+/**
+ * Index tickers for candles (no ETF fallback for history)
+ */
+const FINNHUB_CANDLE_INDEX_SYMBOLS: Record<string, string> = {
+  ...FINNHUB_INDEX_SYMBOLS,
+  VIX: '^VIX',
+};
+
+/**
+ * After an index ticker is refused (403, or an all-zero quote), use the ETF
+ * proxy for this long
+ */
+const DIRECT_INDEX_RETRY_MS = 24 * 60 * 60 * 1000;
+
+let finnhubIndexUnavailableUntil = 0;
+
+/**
+ * GET a Finnhub endpoint and return the parsed JSON, mapping HTTP and API
+ * errors to MarketDataProviderError
+ */
+async function finnhubRequest<T>(path: string, params: Record<string, string>): Promise<T> {
+  const searchParams = new URLSearchParams({ ...params, token: process.env.NEXT_PUBLIC_FINNHUB_API_KEY || '' });
+  const response = await fetch(`https://finnhub.io/api/v1/${path}?${searchParams.toString()}`, {
+    next: { revalidate: 60 }, // Cache for 60 seconds
+  });
+
+  const contentType = response.headers.get('content-type');
+
+  if (!response.ok) {
+    let errorMessage = `Finnhub API error: ${response.status} ${response.statusText}`;
+
+    if (contentType && contentType.includes('application/json')) {
+      try {
+        const errorData = await response.json();
+        if (errorData.error || errorData.message) {
+          errorMessage = `Finnhub API error: ${errorData.error || errorData.message}`;
+        }
+      } catch {
+        // If we can't parse JSON, use the default error message
+      }
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new MarketDataProviderError('Invalid or expired Finnhub API key', response.status, 'UNAUTHORIZED');
+    } else if (response.status === 429) {
+      throw new MarketDataProviderError('Finnhub API rate limit exceeded', 429, 'RATE_LIMIT');
+    }
+    throw new MarketDataProviderError(errorMessage, response.status, 'HTTP_ERROR');
+  }
+
+  if (!contentType || !contentType.includes('application/json')) {
+    throw new MarketDataProviderError(`Expected JSON but got ${contentType}`, 502, 'INVALID_RESPONSE');
+  }
+
+  const data = await response.json();
+
+  if (data.error) {
+    throw new MarketDataProviderError(`Finnhub API error: ${data.error}`, 502, 'API_ERROR');
+  }
+
+  return data as T;
+}
+
+async function fetchFinnhubQuote(symbol: string): Promise<MarketDataResponse> {
+  const data = await finnhubRequest<{ c?: number; pc?: number; t?: number }>('quote', { symbol });
+
+  if (data.c === undefined || data.c === null) {
+    throw new MarketDataProviderError(`Invalid data received from Finnhub for ${symbol}`, 502, 'INVALID_RESPONSE');
+  }
+  // Finnhub returns zeros for symbols it does not cover
+  if (data.c === 0) {
+    throw new MarketDataProviderError(`Finnhub has no quote for ${symbol}`, 404, 'UNSUPPORTED_SYMBOL');
+  }
+
+  return {
+    value: data.c,
+    change: data.pc ? data.c - data.pc : 0,
+    changePercent: data.pc ? ((data.c - data.pc) / data.pc) * 100 : 0,
+    timestamp: data.t ? new Date(data.t * 1000).toISOString() : new Date().toISOString(),
+  };
+}
+
+/**
+ * Candles from /stock/candle or /crypto/candle (parallel arrays, unix seconds)
+ */
+async function fetchFinnhubCandles(
+  path: 'stock/candle' | 'crypto/candle',
+  symbol: string,
+  resolution: CandleResolution,
+  from: Date,
+  to: Date
+): Promise<Candle[]> {
+  const data = await finnhubRequest<{ s: string; t?: number[]; o?: number[]; h?: number[]; l?: number[]; c?: number[]; v?: number[] }>(
+    path,
+    {
+      symbol,
+      resolution,
+      from: String(Math.floor(from.getTime() / 1000)),
+      to: String(Math.floor(to.getTime() / 1000)),
+    }
+  );
+
+  const { t, o, h, l, c, v } = data;
+  if (data.s === 'no_data') return [];
+  if (data.s !== 'ok' || !t || !o || !h || !l || !c) {
+    throw new MarketDataProviderError(`Invalid candle data received from Finnhub for ${symbol}`, 502, 'INVALID_RESPONSE');
+  }
+
+  return t.map((time, i) => ({
+    time: new Date(time * 1000).toISOString(),
+    open: o[i],
+    high: h[i],
+    low: l[i],
+    close: c[i],
+    volume: v?.[i] ?? 0,
+  }));
+}
+
+function unsupportedCandles(symbol: string, name: MarketDataProviderName): never {
+  throw new MarketDataProviderError(`${name} has no candles for ${symbol}`, 400, 'UNSUPPORTED_SYMBOL');
+}
+
+const finnhubProvider: MarketDataProvider = {
+  name: 'finnhub',
+  isConfigured: () => Boolean(process.env.NEXT_PUBLIC_FINNHUB_API_KEY),
+  supports: (symbol, assetClass) =>
+    assetClass === 'stock' ||
+    assetClass === 'crypto' ||
+    (assetClass === 'index' && symbol in INDEX_ETF_PROXIES),
+  async getQuote(symbol, assetClass) {
+    if (assetClass === 'index') {
+      if (finnhubIndexUnavailableUntil < Date.now()) {
+        try {
+          return { ...(await fetchFinnhubQuote(FINNHUB_INDEX_SYMBOLS[symbol])), valueSource: 'direct' };
+        } catch (error) {
+          // Other failures (timeouts, 5xx, rate limits) fail this attempt only
+          const { statusCode, code } = error as { statusCode?: number; code?: string };
+          if (statusCode !== 403 && code !== 'UNSUPPORTED_SYMBOL') throw error;
+          finnhubIndexUnavailableUntil = Date.now() + DIRECT_INDEX_RETRY_MS;
+        }
+      }
+      return estimateIndexQuote(symbol, fetchFinnhubQuote);
+    }
+    if (assetClass === 'crypto') {
+      return fetchFinnhubQuote(finnhubCryptoSymbol(symbol));
+    }
+    return fetchFinnhubQuote(symbol);
+  },
+  async getCandles(symbol, assetClass, resolution, from, to) {
+    if (assetClass === 'crypto') {
+      return fetchFinnhubCandles('crypto/candle', finnhubCryptoSymbol(symbol), resolution, from, to);
+    }
+    if (assetClass === 'index') {
+      const ticker = FINNHUB_CANDLE_INDEX_SYMBOLS[symbol];
+      if (!ticker) unsupportedCandles(symbol, 'finnhub');
+      return fetchFinnhubCandles('stock/candle', ticker, resolution, from, to);
+    }
+    return fetchFinnhubCandles('stock/candle', symbol, resolution, from, to);
+  },
+};
+
+// ============================================================================
+// Alpha Vantage
+// ============================================================================
+
+async function fetchAlphaVantageQuote(symbol: string): Promise<MarketDataResponse> {
+  const quote = await getGlobalQuote(symbol);
+  // Alpha Vantage only gives the trading day; use the same midday time as FRED closes
+  const tradingDay = new Date(quote.timestamp).toISOString().slice(0, 10);
+  return {
+    value: quote.price,
+    change: quote.change ?? 0,
+    changePercent: quote.changePercent ?? 0,
+    timestamp: new Date(tradingDay + 'T16:00:00Z').toISOString(),
+  };
+}
+
+const alphaVantageProvider: MarketDataProvider = {
+  name: 'alpha-vantage',
+  isConfigured: () => Boolean(process.env.NEXT_PUBLIC_ALPHA_VANTAGE_API_KEY),
+  supports: (symbol, assetClass) =>
+    assetClass === 'stock' || (assetClass === 'index' && symbol in INDEX_ETF_PROXIES),
+  async getQuote(symbol, assetClass) {
+    if (assetClass === 'index') {
+      return estimateIndexQuote(symbol, fetchAlphaVantageQuote);
+    }
+    return fetchAlphaVantageQuote(symbol);
+  },
+  async getCandles(symbol, assetClass, resolution, from, to) {
+    if (assetClass !== 'stock') unsupportedCandles(symbol, 'alpha-vantage');
+    // Alpha Vantage returns the latest bars only; keep the requested window
+    const candles = await getAlphaVantageCandles(symbol, resolution);
+    const fromISO = from.toISOString();
+    const toISO = to.toISOString();
+    return candles.filter((candle) => candle.time >= fromISO && candle.time <= toISO);
+  },
+};
+
+// ============================================================================
+// FRED (daily closes)
+// ============================================================================
+
+const fredProvider: MarketDataProvider = {
+  name: 'fred',
+  isConfigured: isFREDConfigured,
+  supports: (symbol, assetClass) =>
+    (assetClass === 'index' || assetClass === 'commodity') && symbol in FRED_QUOTE_SERIES,
+  async getQuote(symbol) {
+    const [latest, previous] = await getFREDLatestObservations(FRED_QUOTE_SERIES[symbol], 2);
+    const previousValue = previous ? previous.value : latest.value;
+    const change = latest.value - previousValue;
+
+    return {
+      value: latest.value,
+      change,
+      changePercent: previousValue !== 0 ? (change / previousValue) * 100 : 0,
+      timestamp: new Date(latest.date + 'T16:00:00Z').toISOString(),
+      valueSource: 'direct',
+    };
+  },
+  // Closes only (open, high and low equal the close); daily or weekly
+  async getCandles(symbol, assetClass, resolution, from, to) {
+    const seriesId = FRED_QUOTE_SERIES[symbol];
+    if (!seriesId || (resolution !== 'D' && resolution !== 'W')) unsupportedCandles(symbol, 'fred');
+
+    const observations = await getFREDSeriesHistory(seriesId, {
+      observationStart: from.toISOString().slice(0, 10),
+      observationEnd: to.toISOString().slice(0, 10),
+      ...(resolution === 'W' ? { frequency: 'w' as const, aggregationMethod: 'eop' as const } : {}),
+    });
+
+    return observations.map((observation) => ({
+      time: new Date(observation.date + 'T00:00:00Z').toISOString(),
+      open: observation.value,
+      high: observation.value,
+      low: observation.value,
+      close: observation.value,
+      volume: 0,
+    }));
+  },
+};
+
+// ============================================================================
+// CBOE
+// ============================================================================
+
+const cboeProvider: MarketDataProvider = {
+  name: 'cboe',
+  isConfigured: () => Boolean(process.env.NEXT_PUBLIC_CBOE_API_KEY),
+  supports: (symbol, assetClass) => assetClass === 'index' && Boolean(SYMBOL_MAP[symbol]?.CBOE),
+  async getQuote(symbol) {
+    const quote = await fetchMarketDataFromExchange(SYMBOL_MAP[symbol].CBOE as string, 'CBOE');
+    return { ...quote, valueSource: 'direct' };
+  },
+};
+
+// ============================================================================
+// Registry and failover
+// ============================================================================
+
+const providers = new Map<MarketDataProviderName, MarketDataProvider>();
+const rateLimitedUntil = new Map<MarketDataProviderName, number>();
+
+/**
+ * Register (or replace) a provider
+ */
+export function registerMarketDataProvider(provider: MarketDataProvider): void {
+  providers.set(provider.name, provider);
+}
+
+[finnhubProvider, alphaVantageProvider, fredProvider, cboeProvider].forEach(registerMarketDataProvider);
+
+/**
+ * Providers to try for a symbol, in order
+ */
+export function getProviderPriority(symbol: string, assetClass: AssetClass): MarketDataProviderName[] {
+  const priority = PROVIDER_PRIORITY[assetClass];
+  return priority.bySymbol[symbol.toUpperCase()] || priority.default;
+}
+
+function isRateLimitError(error: unknown): boolean {
+  const { statusCode, code, message } = (error || {}) as { statusCode?: number; code?: string; message?: string };
+  return statusCode === 429 || code === 'RATE_LIMIT' || /\b429\b|rate limit|frequency limit/i.test(message || '');
+}
+
+/**
+ * Fetch a quote, walking the symbol's provider priority list until one
+ * succeeds. Rate-limited providers are skipped for RATE_LIMIT_COOLDOWN_MS.
+ */
+export async function fetchQuote(symbol: string, assetClass: AssetClass): Promise<MarketDataResponse> {
+  const normalized = symbol.toUpperCase();
+  const failures: string[] = [];
+  let supported = false;
+
+  for (const name of getProviderPriority(normalized, assetClass)) {
+    const provider = providers.get(name);
+    if (!provider || !provider.supports(normalized, assetClass)) continue;
+    supported = true;
+
+    if (!provider.isConfigured()) {
+      failures.push(`${name}: not configured`);
+      continue;
+    }
+
+    const limitedUntil = rateLimitedUntil.get(name);
+    if (limitedUntil && limitedUntil > Date.now()) {
+      failures.push(`${name}: rate limited`);
+      continue;
+    }
+
+    try {
+      const quote = await provider.getQuote(normalized, assetClass);
+      if (!quote || !Number.isFinite(quote.value) || quote.value <= 0) {
+        throw new MarketDataProviderError(`Invalid ${normalized} value from ${name}`, 502, 'INVALID_RESPONSE');
+      }
+      return { ...quote, provider: name };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (isRateLimitError(error)) {
+        rateLimitedUntil.set(name, Date.now() + RATE_LIMIT_COOLDOWN_MS);
+        failures.push(`${name}: rate limited`);
+      } else {
+        failures.push(`${name}: ${message}`);
+      }
+      console.warn(`Market data provider ${name} failed for ${normalized}, trying next:`, message);
+    }
+  }
+
+  if (!supported) {
+    throw new MarketDataProviderError(`No market data provider supports ${normalized}`, 400, 'UNSUPPORTED_SYMBOL');
+  }
+  throw new MarketDataProviderError(
+    `All market data providers failed for ${normalized} (${failures.join('; ')})`,
+    502,
+    'ALL_PROVIDERS_FAILED'
+  );
+}
+
+/**
+ * Fetch OHLCV candles, walking CANDLE_PROVIDER_PRIORITY for the asset class
+ * with the same rate-limit cooldown as quotes
+ */
+export async function fetchCandles(
+  symbol: string,
+  assetClass: AssetClass,
+  resolution: CandleResolution,
+  from: Date,
+  to: Date
+): Promise<{ candles: Candle[]; provider: MarketDataProviderName }> {
+  const normalized = symbol.toUpperCase();
+  const failures: string[] = [];
+  let supported = false;
+
+  for (const name of CANDLE_PROVIDER_PRIORITY[assetClass]) {
+    const provider = providers.get(name);
+    if (!provider?.getCandles) continue;
+
+    if (!provider.isConfigured()) {
+      supported = true;
+      failures.push(`${name}: not configured`);
+      continue;
+    }
+
+    const limitedUntil = rateLimitedUntil.get(name);
+    if (limitedUntil && limitedUntil > Date.now()) {
+      supported = true;
+      failures.push(`${name}: rate limited`);
+      continue;
+    }
+
+    try {
+      const candles = await provider.getCandles(normalized, assetClass, resolution, from, to);
+      return { candles, provider: name };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if ((error as { code?: string }).code === 'UNSUPPORTED_SYMBOL') continue;
+      supported = true;
+      if (isRateLimitError(error)) {
+        rateLimitedUntil.set(name, Date.now() + RATE_LIMIT_COOLDOWN_MS);
+        failures.push(`${name}: rate limited`);
+      } else {
+        failures.push(`${name}: ${message}`);
+      }
+      console.warn(`Candle provider ${name} failed for ${normalized}, trying next:`, message);
+    }
+  }
+
+  if (!supported) {
+    throw new MarketDataProviderError(`No market data provider has candles for ${normalized}`, 400, 'UNSUPPORTED_SYMBOL');
+  }
+  throw new MarketDataProviderError(
+    `All candle providers failed for ${normalized} (${failures.join('; ')})`,
+    502,
+    'ALL_PROVIDERS_FAILED'
+  );
+}
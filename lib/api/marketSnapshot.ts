@@ -0,0 +1,158 @@
+/**
+ * Market Snapshot
+ * Fetches the dashboard index quotes server-side in one pass. The snapshot
+ * is cached for SNAPSHOT_TTL_MS and concurrent requests share a single
+ * in-flight fetch, so any number of open tabs cost the same upstream calls.
+ * Watchlist quotes are cached and coalesced the same way, per symbol, so
+ * overlapping watchlists share upstream calls too.
+ */
+
+import type { WatchlistItem } from '@/lib/types';
+import { watchlistItemKey } from '@/lib/data/watchlists';
+import {
+  getCommodityData,
+  getCryptoData,
+  getDowJonesData,
+  getNasdaq100Data,
+  getSP500Data,
+  getStockData,
+  getVIXData,
+  MarketDataResponse,
+} from './marketData';
+
+/**
+ * Index and VIX quotes on the dashboard; entries that could not be fetched
+ * have value 0 and an error. Watchlist symbols are quoted separately with
+ * getWatchlistQuotes.
+ */
+export interface MarketSnapshot {
+  sp500: MarketDataResponse;
+  dowjones: MarketDataResponse;
+  nasdaq: MarketDataResponse;
+  vix: MarketDataResponse;
+  generatedAt: string;
+}
+
+/**
+ * How long a snapshot is served before the quotes are fetched again
+ */
+export const SNAPSHOT_TTL_MS = 30 * 1000;
+
+let cachedSnapshot: { snapshot: MarketSnapshot; expiresAt: number } | null = null;
+let inFlight: Promise<MarketSnapshot> | null = null;
+
+/**
+ * Quote placeholder for a symbol that could not be fetched
+ */
+function failedQuote(error: unknown): MarketDataResponse {
+  return {
+    error: error instanceof Error ? error.message : String(error),
+    value: 0,
+    change: 0,
+    changePercent: 0,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+function settle(quote: Promise<MarketDataResponse>): Promise<MarketDataResponse> {
+  return quote.catch(failedQuote);
+}
+
+async function buildMarketSnapshot(): Promise<MarketSnapshot> {
+  const [sp500, dowjones, nasdaq, vix] = await Promise.all([
+    settle(getSP500Data()),
+    settle(getDowJonesData()),
+    settle(getNasdaq100Data()),
+    settle(getVIXData()),
+  ]);
+
+  return {
+    sp500,
+    dowjones,
+    nasdaq,
+    vix,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Get the current snapshot, from cache when fresh
+ * Concurrent callers during a refresh wait on the same fetch
+ */
+export async function getMarketSnapshot(): Promise<MarketSnapshot> {
+  if (cachedSnapshot && cachedSnapshot.expiresAt > Date.now()) {
+    return cachedSnapshot.snapshot;
+  }
+
+  if (!inFlight) {
+    inFlight = buildMarketSnapshot()
+      .then((snapshot) => {
+        cachedSnapshot = { snapshot, expiresAt: Date.now() + SNAPSHOT_TTL_MS };
+        return snapshot;
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+  }
+
+  return inFlight;
+}
+
+// ============================================================================
+// Watchlist quotes
+// ============================================================================
+
+const WATCHLIST_FETCHERS: Record<WatchlistItem['assetClass'], (symbol: string) => Promise<MarketDataResponse>> = {
+  stock: getStockData,
+  crypto: getCryptoData,
+  commodity: getCommodityData,
+};
+
+// Expired entries are dropped once the cache grows past this many symbols
+const MAX_CACHED_QUOTES = 500;
+
+const cachedQuotes = new Map<string, { quote: MarketDataResponse; expiresAt: number }>();
+const inFlightQuotes = new Map<string, Promise<MarketDataResponse>>();
+
+function pruneExpiredQuotes(): void {
+  const now = Date.now();
+  for (const [key, entry] of cachedQuotes) {
+    if (entry.expiresAt <= now) cachedQuotes.delete(key);
+  }
+}
+
+function getCachedQuote(item: WatchlistItem): Promise<MarketDataResponse> {
+  const key = watchlistItemKey(item);
+  const cached = cachedQuotes.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return Promise.resolve(cached.quote);
+  }
+
+  let pending = inFlightQuotes.get(key);
+  if (!pending) {
+    pending = settle(WATCHLIST_FETCHERS[item.assetClass](item.symbol))
+      .then((quote) => {
+        // Failed quotes are not cached so the next poll retries them
+        if (!quote.error) {
+          if (cachedQuotes.size >= MAX_CACHED_QUOTES) pruneExpiredQuotes();
+          cachedQuotes.set(key, { quote, expiresAt: Date.now() + SNAPSHOT_TTL_MS });
+        }
+        return quote;
+      })
+      .finally(() => {
+        inFlightQuotes.delete(key);
+      });
+    inFlightQuotes.set(key, pending);
+  }
+  return pending;
+}
+
+/**
+ * Quotes for watchlist items, keyed by watchlistItemKey ("stock:AAPL")
+ * Symbols that could not be fetched have value 0 and an error
+ */
+export async function getWatchlistQuotes(items: WatchlistItem[]): Promise<Record<string, MarketDataResponse>> {
+  const unique = Array.from(new Map(items.map((item) => [watchlistItemKey(item), item])).values());
+  const quotes = await Promise.all(unique.map(getCachedQuote));
+  return Object.fromEntries(unique.map((item, i) => [watchlistItemKey(item), quotes[i]]));
+}
@@ -162,6 +162,9 @@ export async function fetchMarketDataFromExchange(
 export const SYMBOL_MAP: Record<string, { CME?: string; CBOE?: string }> = {
   'SP500': { CME: 'ES', CBOE: 'SPX' },
   'VIX': { CBOE: 'VIX' },
+  'VIX9D': { CBOE: 'VIX9D' },
+  'VIX3M': { CBOE: 'VIX3M' },
+  'VIX6M': { CBOE: 'VIX6M' },
   'DOW': { CME: 'YM' },
   'NASDAQ': { CME: 'NQ' },
   'GOLD': { CME: 'GC' },
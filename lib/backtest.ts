@@ -0,0 +1,206 @@
+/**
+ * Crash Risk Backtest
+ * Replays historical indicator values through the crash-risk model and
+ * measures how well each risk level led the S&P 500 drawdowns in
+ * lib/data/historicalCrashes.ts
+ */
+
+import { buildCrashRiskHistory, CrashRiskHistoryPoint } from '@/lib/crashRiskHistory';
+import { drawdownEvents, DrawdownEvent } from '@/lib/data/historicalCrashes';
+import { CrashRiskBreakdown, CrashRiskInputs, RISK_LEVEL_MIN_SCORES } from '@/src/lib/enhanced-crash-risk';
+
+/**
+ * First month replayed (start of the Shiller CAPE series)
+ */
+export const BACKTEST_START = '1881-01-01';
+
+/**
+ * Default number of months before a peak in which a signal counts as a lead
+ */
+export const DEFAULT_LEAD_WINDOW_MONTHS = 24;
+
+type SignalLevel = Exclude<CrashRiskBreakdown['riskLevel'], 'Low'>;
+
+const SIGNAL_LEVELS: SignalLevel[] = ['Moderate', 'Elevated', 'High', 'Critical'];
+
+/**
+ * How the model behaved ahead of one drawdown
+ */
+export interface BacktestEventResult extends DrawdownEvent {
+  evaluated: boolean; // false when no month in the lead window could be scored
+  availableInputs: Array<keyof CrashRiskInputs>;
+  maxScoreInWindow: number | null;
+  scoreAtPeak: number | null;
+}
+
+/**
+ * Classification results for one risk-level threshold
+ */
+export interface BacktestThresholdResult {
+  riskLevel: SignalLevel;
+  minScore: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+  precision: number | null;
+  recall: number | null;
+  falsePositiveRate: number | null;
+  eventsDetected: number;
+  eventsEvaluated: number;
+  medianLeadMonths: number | null;
+  leadTimes: Array<{ eventId: string; leadMonths: number | null }>;
+}
+
+/**
+ * Full backtest report
+ */
+export interface BacktestReport {
+  generatedAt: string;
+  leadWindowMonths: number;
+  monthsScored: number;
+  firstMonth: string | null;
+  lastMonth: string | null;
+  events: BacktestEventResult[];
+  thresholds: BacktestThresholdResult[];
+}
+
+/**
+ * Months from a to b (both YYYY-MM)
+ */
+function monthsBetween(a: string, b: string): number {
+  const [yearA, monthA] = a.split('-').map(Number);
+  const [yearB, monthB] = b.split('-').map(Number);
+  return (yearB - yearA) * 12 + (monthB - monthA);
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Months in the lead window before a peak (peak month included)
+ */
+function inLeadWindow(month: string, event: DrawdownEvent, leadWindowMonths: number): boolean {
+  const monthsBeforePeak = monthsBetween(month, event.peak);
+  return monthsBeforePeak >= 0 && monthsBeforePeak <= leadWindowMonths;
+}
+
+/**
+ * Months after the peak up to and including the trough
+ */
+function inDrawdown(month: string, event: DrawdownEvent): boolean {
+  return month > event.peak && month <= event.trough;
+}
+
+/**
+ * Score a replayed history against the drawdown events.
+ *
+ * Each scored month is labelled positive when it falls in the lead window
+ * before a peak. Months inside a drawdown are excluded, since a high score
+ * during a crash is neither a lead nor a false alarm.
+ */
+export function evaluateBacktest(
+  history: CrashRiskHistoryPoint[],
+  events: DrawdownEvent[] = drawdownEvents,
+  leadWindowMonths: number = DEFAULT_LEAD_WINDOW_MONTHS
+): BacktestReport {
+  const points = history.map((point) => ({ ...point, month: point.date.slice(0, 7) }));
+
+  const eventResults: BacktestEventResult[] = events.map((event) => {
+    const window = points.filter((point) => inLeadWindow(point.month, event, leadWindowMonths));
+    const atPeak = points.find((point) => point.month === event.peak);
+    const availableInputs = new Set<keyof CrashRiskInputs>();
+    window.forEach((point) => {
+      (Object.keys(point.inputs) as Array<keyof CrashRiskInputs>).forEach((key) => {
+        if (point.inputs[key] !== undefined && point.inputs[key] !== null) {
+          availableInputs.add(key);
+        }
+      });
+    });
+
+    return {
+      ...event,
+      evaluated: window.length > 0,
+      availableInputs: [...availableInputs],
+      maxScoreInWindow: window.length > 0 ? Math.max(...window.map((point) => point.totalScore)) : null,
+      scoreAtPeak: atPeak ? atPeak.totalScore : null,
+    };
+  });
+
+  const evaluatedEvents = events.filter((_, i) => eventResults[i].evaluated);
+
+  const thresholds: BacktestThresholdResult[] = SIGNAL_LEVELS.map((riskLevel) => {
+    const minScore = RISK_LEVEL_MIN_SCORES[riskLevel];
+    let truePositives = 0;
+    let falsePositives = 0;
+    let falseNegatives = 0;
+    let trueNegatives = 0;
+
+    for (const point of points) {
+      if (events.some((event) => inDrawdown(point.month, event))) continue;
+
+      const actual = events.some((event) => inLeadWindow(point.month, event, leadWindowMonths));
+      const predicted = point.totalScore >= minScore;
+
+      if (predicted && actual) truePositives++;
+      else if (predicted && !actual) falsePositives++;
+      else if (!predicted && actual) falseNegatives++;
+      else trueNegatives++;
+    }
+
+    const leadTimes = evaluatedEvents.map((event) => {
+      const firstSignal = points.find(
+        (point) => inLeadWindow(point.month, event, leadWindowMonths) && point.totalScore >= minScore
+      );
+      return {
+        eventId: event.id,
+        leadMonths: firstSignal ? monthsBetween(firstSignal.month, event.peak) : null,
+      };
+    });
+    const detected = leadTimes.filter((lead) => lead.leadMonths !== null);
+
+    return {
+      riskLevel,
+      minScore,
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      trueNegatives,
+      precision: ratio(truePositives, truePositives + falsePositives),
+      recall: ratio(truePositives, truePositives + falseNegatives),
+      falsePositiveRate: ratio(falsePositives, falsePositives + trueNegatives),
+      eventsDetected: detected.length,
+      eventsEvaluated: evaluatedEvents.length,
+      medianLeadMonths: median(detected.map((lead) => lead.leadMonths as number)),
+      leadTimes,
+    };
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    leadWindowMonths,
+    monthsScored: points.length,
+    firstMonth: points[0]?.month ?? null,
+    lastMonth: points[points.length - 1]?.month ?? null,
+    events: eventResults,
+    thresholds,
+  };
+}
+
+/**
+ * Replay the full indicator history and build the backtest report
+ */
+export async function runBacktest(
+  leadWindowMonths: number = DEFAULT_LEAD_WINDOW_MONTHS
+): Promise<BacktestReport> {
+  const history = await buildCrashRiskHistory(BACKTEST_START);
+  return evaluateBacktest(history, drawdownEvents, leadWindowMonths);
+}
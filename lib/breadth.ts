@@ -0,0 +1,404 @@
+/**
+ * Market Breadth
+ * Breadth of the S&P 500 computed from daily constituent closes in the
+ * candle cache (lib/candles.ts):
+ * - percent of constituents above their 50- and 200-day moving averages
+ * - net new 52-week highs minus lows
+ * - cumulative advance/decline line
+ *
+ * Constituent candles are refreshed in batches by /api/cron/breadth so the
+ * provider rate limits are respected; the indicators are computed in SQL over
+ * whatever has been cached and skip sessions without enough coverage.
+ */
+
+import { db } from '@/lib/db';
+import { getCandles } from '@/lib/candles';
+import { SP500_CONSTITUENTS } from '@/lib/data/sp500Constituents';
+import { EconomicIndicatorResponse, IndicatorHistoryPoint, IndicatorStatus } from '@/lib/api/economicIndicators';
+import type { BreadthComponent } from '@/src/lib/enhanced-crash-risk';
+
+/**
+ * Breadth errors (statusCode maps to the HTTP response)
+ */
+export class BreadthError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'BreadthError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Calendar days of closes kept per constituent: a year of breadth history
+ * plus the 252 sessions needed for the first 52-week high/low
+ */
+const LOOKBACK_DAYS = 760;
+
+/**
+ * Sessions in the moving averages and the 52-week high/low
+ */
+const SHORT_MA_SESSIONS = 50;
+const LONG_MA_SESSIONS = 200;
+const YEAR_SESSIONS = 252;
+
+/**
+ * Sessions over which the advance/decline line change is measured
+ */
+const AD_CHANGE_SESSIONS = 20;
+
+/**
+ * Share of constituents that need a full year of closes for a session to be reported
+ */
+const MIN_COVERAGE = 0.8;
+
+/**
+ * Constituents refreshed per batch, with a pause between requests to stay
+ * under the Finnhub free tier limit (60 requests/minute)
+ */
+export const REFRESH_BATCH_SIZE = 30;
+const REFRESH_SPACING_MS = 1100;
+
+/**
+ * No new request starts after this long, so a batch of slow responses still
+ * ends within the cron route's 60 second maxDuration
+ */
+const REFRESH_TIME_BUDGET_MS = 40 * 1000;
+
+/**
+ * Constituents whose candles were fetched more recently than this are skipped
+ */
+const REFRESH_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
+const BREADTH_CACHE_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Breadth for one session
+ */
+export interface BreadthPoint {
+  date: string; // session date (ISO)
+  constituents: number; // constituents with a close for the session
+  above50: number;
+  above200: number;
+  pctAbove50: number;
+  pctAbove200: number;
+  newHighs: number;
+  newLows: number;
+  netNewHighs: number; // new highs minus new lows, % of constituents
+  advances: number;
+  declines: number;
+  adLine: number; // cumulative advances minus declines
+  adLineChange: number; // AD_CHANGE_SESSIONS-session change in adLine, % of constituents
+}
+
+/**
+ * Breadth indicator reading, shaped like the economic indicators
+ */
+export interface BreadthIndicatorResponse extends EconomicIndicatorResponse {
+  detail: string; // counts behind the value
+}
+
+/**
+ * Latest breadth readings, keyed by crash-risk component
+ */
+export type MarketBreadthResponse = Record<BreadthComponent, BreadthIndicatorResponse> & {
+  date: string;
+  constituents: number;
+};
+
+/**
+ * Result of a constituent refresh batch
+ */
+export interface RefreshBreadthResult {
+  refreshed: string[];
+  failed: Array<{ symbol: string; error: string }>;
+  remaining: number; // constituents still due after this batch
+}
+
+/**
+ * Thresholds and wording per indicator (lower breadth is worse)
+ */
+const BREADTH_LEVELS: Record<
+  BreadthComponent,
+  { historicalAvg: number; warningLevel: number; dangerLevel: number; description: string }
+> = {
+  breadth200: {
+    historicalAvg: 60,
+    warningLevel: 50,
+    dangerLevel: 35,
+    description: 'S&P 500 constituents above their 200-day moving average',
+  },
+  breadth50: {
+    historicalAvg: 55,
+    warningLevel: 40,
+    dangerLevel: 25,
+    description: 'S&P 500 constituents above their 50-day moving average',
+  },
+  netNewHighs: {
+    historicalAvg: 2,
+    warningLevel: 0,
+    dangerLevel: -5,
+    description: 'Net new 52-week highs minus lows (% of constituents)',
+  },
+  advanceDecline: {
+    historicalAvg: 0,
+    warningLevel: -25,
+    dangerLevel: -75,
+    description: `Advance/decline line change over ${AD_CHANGE_SESSIONS} sessions (% of constituents)`,
+  },
+};
+
+let cachedSeries: { series: BreadthPoint[]; expiresAt: number } | null = null;
+let inFlight: Promise<BreadthPoint[]> | null = null;
+
+function percent(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 1000) / 10 : 0;
+}
+
+function breadthStatus(value: number, warningLevel: number, dangerLevel: number): IndicatorStatus {
+  if (value <= dangerLevel) return 'danger';
+  if (value <= warningLevel) return 'warning';
+  return 'safe';
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Refresh the daily candles of the constituents that are most overdue.
+ * Stops early when the providers are rate limited or the time budget is
+ * spent; the next batch resumes where this one left off.
+ */
+export async function refreshConstituentCandles(limit: number = REFRESH_BATCH_SIZE): Promise<RefreshBreadthResult> {
+  const due = await db.query(
+    `SELECT constituent.symbol
+     FROM unnest($1::text[]) AS constituent(symbol)
+     LEFT JOIN (
+       SELECT symbol, MAX(fetched_at) AS fetched_at
+       FROM price_candle_fetches
+       WHERE asset_class = 'stock' AND resolution = 'D'
+       GROUP BY symbol
+     ) latest ON latest.symbol = constituent.symbol
+     WHERE latest.fetched_at IS NULL OR latest.fetched_at < $2
+     ORDER BY latest.fetched_at ASC NULLS FIRST, constituent.symbol ASC`,
+    [SP500_CONSTITUENTS, new Date(Date.now() - REFRESH_INTERVAL_MS).toISOString()]
+  );
+  const symbols: string[] = due.rows.map((row) => row.symbol);
+
+  const result: RefreshBreadthResult = { refreshed: [], failed: [], remaining: symbols.length };
+  const to = new Date();
+  const from = new Date(to.getTime() - LOOKBACK_DAYS * DAY_MS);
+  const deadline = Date.now() + REFRESH_TIME_BUDGET_MS;
+
+  for (const symbol of symbols.slice(0, limit)) {
+    if (result.refreshed.length + result.failed.length > 0) {
+      if (Date.now() + REFRESH_SPACING_MS > deadline) break;
+      await sleep(REFRESH_SPACING_MS);
+    }
+
+    try {
+      const series = await getCandles(symbol, 'stock', 'D', from, to);
+      if (series.stale) {
+        throw new Error('Candle providers unavailable');
+      }
+      result.refreshed.push(symbol);
+      result.remaining--;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      result.failed.push({ symbol, error: message });
+      if (/rate limit/i.test(message)) break;
+    }
+  }
+
+  if (result.refreshed.length > 0) {
+    cachedSeries = null;
+  }
+  return result;
+}
+
+/**
+ * Compute breadth for every session with enough constituent coverage, oldest first
+ */
+async function buildBreadthSeries(): Promise<BreadthPoint[]> {
+  const result = await db.query(
+    `WITH bars AS (
+       SELECT symbol, time::date AS session, high, low, close,
+              LAG(close) OVER w AS prev_close,
+              AVG(close) OVER (w ROWS BETWEEN ${SHORT_MA_SESSIONS - 1} PRECEDING AND CURRENT ROW) AS ma_short,
+              AVG(close) OVER (w ROWS BETWEEN ${LONG_MA_SESSIONS - 1} PRECEDING AND CURRENT ROW) AS ma_long,
+              MAX(high) OVER (w ROWS BETWEEN ${YEAR_SESSIONS - 1} PRECEDING AND 1 PRECEDING) AS year_high,
+              MIN(low) OVER (w ROWS BETWEEN ${YEAR_SESSIONS - 1} PRECEDING AND 1 PRECEDING) AS year_low,
+              ROW_NUMBER() OVER w AS bar_number
+       FROM price_candles
+       WHERE asset_class = 'stock' AND resolution = 'D'
+         AND symbol = ANY($1::text[])
+         AND time >= $2
+       WINDOW w AS (PARTITION BY symbol ORDER BY time)
+     )
+     SELECT session,
+            COUNT(*) AS constituents,
+            COUNT(*) FILTER (WHERE bar_number >= ${SHORT_MA_SESSIONS}) AS with_short,
+            COUNT(*) FILTER (WHERE bar_number >= ${SHORT_MA_SESSIONS} AND close > ma_short) AS above_short,
+            COUNT(*) FILTER (WHERE bar_number >= ${LONG_MA_SESSIONS}) AS with_long,
+            COUNT(*) FILTER (WHERE bar_number >= ${LONG_MA_SESSIONS} AND close > ma_long) AS above_long,
+            COUNT(*) FILTER (WHERE bar_number >= ${YEAR_SESSIONS}) AS with_year,
+            COUNT(*) FILTER (WHERE bar_number >= ${YEAR_SESSIONS} AND high > year_high) AS new_highs,
+            COUNT(*) FILTER (WHERE bar_number >= ${YEAR_SESSIONS} AND low < year_low) AS new_lows,
+            COUNT(*) FILTER (WHERE close > prev_close) AS advances,
+            COUNT(*) FILTER (WHERE close < prev_close) AS declines
+     FROM bars
+     GROUP BY session
+     HAVING COUNT(*) FILTER (WHERE bar_number >= ${YEAR_SESSIONS}) >= $3
+     ORDER BY session ASC`,
+    [
+      SP500_CONSTITUENTS,
+      new Date(Date.now() - LOOKBACK_DAYS * DAY_MS).toISOString(),
+      Math.ceil(SP500_CONSTITUENTS.length * MIN_COVERAGE),
+    ]
+  );
+
+  const series: BreadthPoint[] = [];
+  let adLine = 0;
+  const adLines: number[] = [];
+
+  for (const row of result.rows) {
+    const count = (column: string) => parseInt(row[column], 10);
+    const constituents = count('constituents');
+    const advances = count('advances');
+    const declines = count('declines');
+    adLine += advances - declines;
+    adLines.push(adLine);
+
+    // The first sessions have no line change to report yet
+    if (adLines.length <= AD_CHANGE_SESSIONS) continue;
+
+    series.push({
+      date: new Date(row.session).toISOString(),
+      constituents,
+      above50: count('above_short'),
+      above200: count('above_long'),
+      pctAbove50: percent(count('above_short'), count('with_short')),
+      pctAbove200: percent(count('above_long'), count('with_long')),
+      newHighs: count('new_highs'),
+      newLows: count('new_lows'),
+      netNewHighs: percent(count('new_highs') - count('new_lows'), count('with_year')),
+      advances,
+      declines,
+      adLine,
+      adLineChange: percent(adLine - adLines[adLines.length - 1 - AD_CHANGE_SESSIONS], constituents),
+    });
+  }
+
+  return series;
+}
+
+/**
+ * Breadth series, from cache when fresh
+ * Concurrent callers during a rebuild wait on the same query
+ */
+export async function getBreadthSeries(): Promise<BreadthPoint[]> {
+  if (cachedSeries && cachedSeries.expiresAt > Date.now()) {
+    return cachedSeries.series;
+  }
+
+  if (!inFlight) {
+    inFlight = buildBreadthSeries()
+      .then((series) => {
+        cachedSeries = { series, expiresAt: Date.now() + BREADTH_CACHE_TTL_MS };
+        return series;
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+  }
+
+  return inFlight;
+}
+
+function componentValue(point: BreadthPoint, component: BreadthComponent): number {
+  switch (component) {
+    case 'breadth200':
+      return point.pctAbove200;
+    case 'breadth50':
+      return point.pctAbove50;
+    case 'netNewHighs':
+      return point.netNewHighs;
+    case 'advanceDecline':
+      return point.adLineChange;
+  }
+}
+
+function componentDetail(point: BreadthPoint, component: BreadthComponent): string {
+  switch (component) {
+    case 'breadth200':
+      return `${point.above200} of ${point.constituents} constituents above`;
+    case 'breadth50':
+      return `${point.above50} of ${point.constituents} constituents above`;
+    case 'netNewHighs':
+      return `${point.newHighs} new highs, ${point.newLows} new lows`;
+    case 'advanceDecline':
+      return `A/D line ${point.adLine.toLocaleString('en-US')} (${point.advances} up, ${point.declines} down last session)`;
+  }
+}
+
+/**
+ * Latest breadth readings
+ * staleSince is set when the latest session is older than five days
+ */
+export async function getMarketBreadth(): Promise<MarketBreadthResponse> {
+  const series = await getBreadthSeries();
+  const latest = series[series.length - 1];
+  if (!latest) {
+    throw new BreadthError(
+      'Not enough constituent closes cached yet; run /api/cron/breadth until all constituents are refreshed',
+      503,
+      'INSUFFICIENT_DATA'
+    );
+  }
+
+  const stale = Date.now() - new Date(latest.date).getTime() > 5 * DAY_MS;
+  const reading = (component: BreadthComponent): BreadthIndicatorResponse => {
+    const levels = BREADTH_LEVELS[component];
+    const value = componentValue(latest, component);
+    return {
+      ...levels,
+      value,
+      status: breadthStatus(value, levels.warningLevel, levels.dangerLevel),
+      timestamp: latest.date,
+      staleSince: stale ? latest.date : undefined,
+      detail: componentDetail(latest, component),
+    };
+  };
+
+  return {
+    date: latest.date,
+    constituents: latest.constituents,
+    breadth200: reading('breadth200'),
+    breadth50: reading('breadth50'),
+    netNewHighs: reading('netNewHighs'),
+    advanceDecline: reading('advanceDecline'),
+  };
+}
+
+/**
+ * History of one breadth indicator. The advance/decline history is the
+ * cumulative line itself rather than its change.
+ */
+export async function getBreadthHistory(component: BreadthComponent): Promise<IndicatorHistoryPoint[]> {
+  const { warningLevel, dangerLevel } = BREADTH_LEVELS[component];
+  const series = await getBreadthSeries();
+
+  return series.map((point) => {
+    const value = componentValue(point, component);
+    return {
+      date: point.date,
+      value: component === 'advanceDecline' ? point.adLine : value,
+      status: breadthStatus(value, warningLevel, dangerLevel),
+    };
+  });
+}
@@ -0,0 +1,276 @@
+/**
+ * Candles
+ * OHLCV history for any symbol, fetched through the provider registry and
+ * cached in Postgres. Closed bars never change, so a window fetched after
+ * its last bar closed is served from the cache indefinitely; windows that
+ * reach the current bar are refetched once their TTL has passed.
+ */
+
+import { db } from '@/lib/db';
+import { Candle, CandleResolution } from '@/lib/types';
+import { AssetClass, fetchCandles } from '@/lib/api/marketDataProviders';
+
+/**
+ * Candle request errors (statusCode maps to the HTTP response)
+ */
+export class CandleError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'CandleError';
+  }
+}
+
+export const CANDLE_RESOLUTIONS: CandleResolution[] = ['1', '5', '60', 'D', 'W'];
+
+/**
+ * Bar length per resolution
+ */
+const RESOLUTION_MS: Record<CandleResolution, number> = {
+  '1': 60 * 1000,
+  '5': 5 * 60 * 1000,
+  '60': 60 * 60 * 1000,
+  D: 24 * 60 * 60 * 1000,
+  W: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * How long a window that includes the current bar is served before refetching
+ */
+const CACHE_TTL_MS: Record<CandleResolution, number> = {
+  '1': 60 * 1000,
+  '5': 5 * 60 * 1000,
+  '60': 15 * 60 * 1000,
+  D: 60 * 60 * 1000,
+  W: 6 * 60 * 60 * 1000,
+};
+
+/**
+ * Window used when no `from` is given, and the longest window allowed
+ */
+export const DEFAULT_CANDLE_WINDOW_MS: Record<CandleResolution, number> = {
+  '1': 24 * 60 * 60 * 1000,
+  '5': 5 * 24 * 60 * 60 * 1000,
+  '60': 30 * 24 * 60 * 60 * 1000,
+  D: 365 * 24 * 60 * 60 * 1000,
+  W: 5 * 365 * 24 * 60 * 60 * 1000,
+};
+
+export const MAX_CANDLE_WINDOW_MS: Record<CandleResolution, number> = {
+  '1': 7 * 24 * 60 * 60 * 1000,
+  '5': 30 * 24 * 60 * 60 * 1000,
+  '60': 180 * 24 * 60 * 60 * 1000,
+  D: 10 * 365 * 24 * 60 * 60 * 1000,
+  W: 30 * 365 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Candles for a symbol and window
+ */
+export interface CandleSeries {
+  symbol: string;
+  assetClass: AssetClass;
+  resolution: CandleResolution;
+  from: string;
+  to: string;
+  candles: Candle[];
+  provider: string | null; // null when served from the cache
+  cached: boolean;
+  stale?: boolean; // provider failed; cached bars returned instead
+}
+
+export function isCandleResolution(value: string): value is CandleResolution {
+  return (CANDLE_RESOLUTIONS as string[]).includes(value);
+}
+
+/**
+ * Check the window and clamp `to` to now
+ */
+function validateWindow(resolution: CandleResolution, from: Date, to: Date): { from: Date; to: Date } {
+  const end = new Date(Math.min(to.getTime(), Date.now()));
+  if (isNaN(from.getTime()) || isNaN(end.getTime()) || from >= end) {
+    throw new CandleError('from must be a valid date before to', 400, 'INVALID_RANGE');
+  }
+  if (end.getTime() - from.getTime() > MAX_CANDLE_WINDOW_MS[resolution]) {
+    const days = Math.round(MAX_CANDLE_WINDOW_MS[resolution] / RESOLUTION_MS.D);
+    throw new CandleError(`Resolution ${resolution} allows at most ${days} days per request`, 400, 'RANGE_TOO_LARGE');
+  }
+  return { from, to: end };
+}
+
+/**
+ * Whether a fetched window covers the request and is still valid:
+ * either all its bars had closed when it was fetched, or it is within TTL
+ */
+async function isCached(
+  symbol: string,
+  assetClass: AssetClass,
+  resolution: CandleResolution,
+  from: Date,
+  to: Date
+): Promise<boolean> {
+  const ttl = CACHE_TTL_MS[resolution];
+  const result = await db.query(
+    `SELECT 1
+     FROM price_candle_fetches
+     WHERE symbol = $1 AND asset_class = $2 AND resolution = $3
+       AND range_from <= $4
+       AND (
+         (range_to >= $5 AND fetched_at >= $6)
+         OR (fetched_at > $7 AND range_to >= $8)
+       )
+     LIMIT 1`,
+    [
+      symbol,
+      assetClass,
+      resolution,
+      from.toISOString(),
+      to.toISOString(),
+      new Date(to.getTime() + RESOLUTION_MS[resolution]).toISOString(),
+      new Date(Date.now() - ttl).toISOString(),
+      new Date(to.getTime() - ttl).toISOString(),
+    ]
+  );
+  return result.rows.length > 0;
+}
+
+async function readCandles(
+  symbol: string,
+  assetClass: AssetClass,
+  resolution: CandleResolution,
+  from: Date,
+  to: Date
+): Promise<Candle[]> {
+  const result = await db.query(
+    `SELECT time, open, high, low, close, volume
+     FROM price_candles
+     WHERE symbol = $1 AND asset_class = $2 AND resolution = $3
+       AND time >= $4 AND time <= $5
+     ORDER BY time ASC`,
+    [symbol, assetClass, resolution, from.toISOString(), to.toISOString()]
+  );
+
+  return result.rows.map((row) => ({
+    time: new Date(row.time).toISOString(),
+    open: parseFloat(row.open),
+    high: parseFloat(row.high),
+    low: parseFloat(row.low),
+    close: parseFloat(row.close),
+    volume: parseFloat(row.volume),
+  }));
+}
+
+/**
+ * Upsert fetched bars and record the window (replacing windows it contains)
+ */
+async function storeCandles(
+  symbol: string,
+  assetClass: AssetClass,
+  resolution: CandleResolution,
+  from: Date,
+  to: Date,
+  candles: Candle[],
+  provider: string
+): Promise<void> {
+  const client = await db.getClient();
+  try {
+    await client.query('BEGIN');
+
+    if (candles.length > 0) {
+      await client.query(
+        `INSERT INTO price_candles (symbol, asset_class, resolution, time, open, high, low, close, volume, provider)
+         SELECT $1, $2, $3, bar.time, bar.open, bar.high, bar.low, bar.close, bar.volume, $10
+         FROM unnest($4::timestamp[], $5::numeric[], $6::numeric[], $7::numeric[], $8::numeric[], $9::numeric[])
+           AS bar(time, open, high, low, close, volume)
+         ON CONFLICT (symbol, asset_class, resolution, time)
+         DO UPDATE SET open = EXCLUDED.open,
+                       high = EXCLUDED.high,
+                       low = EXCLUDED.low,
+                       close = EXCLUDED.close,
+                       volume = EXCLUDED.volume,
+                       provider = EXCLUDED.provider`,
+        [
+          symbol,
+          assetClass,
+          resolution,
+          candles.map((candle) => candle.time),
+          candles.map((candle) => candle.open),
+          candles.map((candle) => candle.high),
+          candles.map((candle) => candle.low),
+          candles.map((candle) => candle.close),
+          candles.map((candle) => candle.volume),
+          provider,
+        ]
+      );
+    }
+
+    await client.query(
+      `DELETE FROM price_candle_fetches
+       WHERE symbol = $1 AND asset_class = $2 AND resolution = $3
+         AND range_from >= $4 AND range_to <= $5`,
+      [symbol, assetClass, resolution, from.toISOString(), to.toISOString()]
+    );
+    await client.query(
+      `INSERT INTO price_candle_fetches (symbol, asset_class, resolution, range_from, range_to, fetched_at)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [symbol, assetClass, resolution, from.toISOString(), to.toISOString(), new Date().toISOString()]
+    );
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get candles for a symbol between from and to (to is clamped to now),
+ * from the cache when it covers the window, otherwise from the providers.
+ * If the providers fail, any cached bars in the window are returned as stale.
+ */
+export async function getCandles(
+  symbol: string,
+  assetClass: AssetClass,
+  resolution: CandleResolution,
+  from: Date,
+  to: Date
+): Promise<CandleSeries> {
+  const normalized = symbol.toUpperCase();
+  const window = validateWindow(resolution, from, to);
+  const series = {
+    symbol: normalized,
+    assetClass,
+    resolution,
+    from: window.from.toISOString(),
+    to: window.to.toISOString(),
+  };
+
+  if (await isCached(normalized, assetClass, resolution, window.from, window.to)) {
+    const candles = await readCandles(normalized, assetClass, resolution, window.from, window.to);
+    return { ...series, candles, provider: null, cached: true };
+  }
+
+  try {
+    const { candles, provider } = await fetchCandles(normalized, assetClass, resolution, window.from, window.to);
+    try {
+      await storeCandles(normalized, assetClass, resolution, window.from, window.to, candles, provider);
+    } catch (error) {
+      // Serving the fetched bars matters more than caching them
+      console.error(`Failed to cache candles for ${normalized}:`, error);
+    }
+    return { ...series, candles, provider, cached: false };
+  } catch (error) {
+    const candles = await readCandles(normalized, assetClass, resolution, window.from, window.to);
+    if (candles.length === 0) {
+      const { statusCode, code } = error as { statusCode?: number; code?: string };
+      throw new CandleError(error instanceof Error ? error.message : 'Failed to fetch candles', statusCode || 502, code);
+    }
+    console.warn(`Serving cached candles for ${normalized}:`, error instanceof Error ? error.message : error);
+    return { ...series, candles, provider: null, cached: true, stale: true };
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Current Crash Risk
+ * Fetches the live indicator readings and scores them server-side
+ * (used by /api/crash-risk and the live update stream)
+ */
+
+import {
+  BuffettIndicatorResponse,
+  EconomicIndicatorResponse,
+  getBuffettIndicator,
+  getCreditSpreads,
+  getMarginDebt,
+  getYieldCurveSpread,
+} from '@/lib/api/economicIndicators';
+import { getCAPERatio } from '@/lib/shiller';
+import {
+  getInitialClaims,
+  getSahmRule,
+  InitialClaimsResponse,
+  SahmRuleResponse,
+} from '@/lib/api/laborMarket';
+import { getVIXData, MarketDataResponse } from '@/lib/api/marketData';
+import { getMarketBreadth } from '@/lib/breadth';
+import { getVixTermStructure } from '@/lib/vixTermStructure';
+import { getRecessionProbability } from '@/lib/recessionProbability';
+import {
+  BREADTH_COMPONENTS,
+  calculateCrashRiskFromInputs,
+  CrashRiskBreakdown,
+  CrashRiskComponent,
+  CrashRiskInputs,
+  DEFAULT_SCORING_PROFILE,
+  getProfileComponents,
+  ScoringProfile,
+  readCrashRiskInputs,
+} from '@/src/lib/enhanced-crash-risk';
+
+/**
+ * Current economic indicators; indicators that could not be fetched are absent
+ */
+export interface CurrentIndicators {
+  cape?: EconomicIndicatorResponse;
+  yieldCurve?: EconomicIndicatorResponse;
+  marginDebt?: EconomicIndicatorResponse;
+  creditSpreads?: EconomicIndicatorResponse;
+  buffett?: BuffettIndicatorResponse;
+  sahmRule?: SahmRuleResponse;
+  initialClaims?: InitialClaimsResponse;
+}
+
+/**
+ * Current crash-risk breakdown with the inputs it was scored from
+ */
+export interface CurrentCrashRisk extends CrashRiskBreakdown {
+  inputs: CrashRiskInputs;
+  timestamp: string;
+}
+
+/**
+ * Value of a settled fetch, or undefined if it failed
+ */
+function valueOf<T>(result: PromiseSettledResult<T>): T | undefined {
+  return result.status === 'fulfilled' ? result.value : undefined;
+}
+
+/**
+ * Fetch all economic indicators
+ */
+export async function getCurrentIndicators(): Promise<CurrentIndicators> {
+  const [cape, yieldCurve, marginDebt, creditSpreads, buffett, sahmRule, initialClaims] = await Promise.allSettled([
+    getCAPERatio(),
+    getYieldCurveSpread(),
+    getMarginDebt(),
+    getCreditSpreads(),
+    getBuffettIndicator(),
+    getSahmRule(),
+    getInitialClaims(),
+  ]);
+
+  return {
+    cape: valueOf(cape),
+    yieldCurve: valueOf(yieldCurve),
+    marginDebt: valueOf(marginDebt),
+    creditSpreads: valueOf(creditSpreads),
+    buffett: valueOf(buffett),
+    sahmRule: valueOf(sahmRule),
+    initialClaims: valueOf(initialClaims),
+  };
+}
+
+/**
+ * Score the current readings with a profile
+ * Pass already-fetched indicators or VIX to avoid fetching them again.
+ * Breadth, the VIX term structure and the recession probability are only
+ * read for profiles that weight them.
+ */
+export async function getCurrentCrashRisk(
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  indicators?: CurrentIndicators,
+  vix?: MarketDataResponse
+): Promise<CurrentCrashRisk> {
+  const components = getProfileComponents(profile);
+  const usesBreadth = components.some((component) =>
+    (BREADTH_COMPONENTS as CrashRiskComponent[]).includes(component)
+  );
+  const usesTermStructure = components.includes('vixTermStructure');
+  const usesRecessionProbability = components.includes('recessionProbability');
+  const [currentIndicators, currentVix, breadth, termStructure, recessionProbability] = await Promise.all([
+    indicators ?? getCurrentIndicators(),
+    vix ?? getVIXData().catch(() => undefined),
+    usesBreadth ? getMarketBreadth().catch(() => undefined) : undefined,
+    usesTermStructure ? getVixTermStructure().catch(() => undefined) : undefined,
+    usesRecessionProbability ? getRecessionProbability().catch(() => undefined) : undefined,
+  ]);
+
+  const { inputs, quality } = readCrashRiskInputs({
+    ...currentIndicators,
+    vix: currentVix,
+    ...breadth,
+    vixTermStructure: termStructure?.reading,
+    recessionProbability,
+  });
+
+  return {
+    ...calculateCrashRiskFromInputs(inputs, profile, quality),
+    inputs,
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,256 @@
+/**
+ * Crash Risk History
+ * Rebuilds the monthly crash-risk score from historical indicator values
+ * (FRED + Shiller) and stores it so the dashboard can show how risk evolved
+ */
+
+import { db } from '@/lib/db';
+import {
+  BUFFETT_SERIES,
+  getBuffettIndicator,
+  getFREDSeriesHistory,
+  FREDObservation,
+} from '@/lib/api/economicIndicators';
+import { readFinraMarginData } from '@/lib/finra';
+import { getShillerData } from '@/lib/shiller';
+import {
+  calculateCrashRiskFromInputs,
+  CrashRiskBreakdown,
+  CrashRiskInputs,
+} from '@/src/lib/enhanced-crash-risk';
+
+/**
+ * First month of the backfill
+ */
+export const BACKFILL_START = '1990-01-01';
+
+/**
+ * FRED series used to rebuild historical indicator values
+ */
+export const HISTORY_FRED_SERIES = {
+  yieldCurve: 'T10Y3M', // 10-Year minus 3-Month Treasury spread (daily)
+  creditSpreads: 'BAMLH0A0HYM2', // ICE BofA High Yield OAS (daily)
+  vix: 'VIXCLS', // CBOE VIX close (daily)
+} as const;
+
+/**
+ * Days after a quarter ends before its GDP or Z.1 value counts as published
+ * (the third GDP estimate and the Z.1 release come about three months later)
+ */
+export const QUARTERLY_PUBLICATION_LAG_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * One month of the crash-risk time series
+ */
+export interface CrashRiskHistoryPoint {
+  date: string; // YYYY-MM-01
+  totalScore: number;
+  riskLevel: CrashRiskBreakdown['riskLevel'];
+  components: CrashRiskBreakdown['components'];
+  weights: CrashRiskBreakdown['weights'];
+  inputs: CrashRiskInputs;
+}
+
+/**
+ * Key observations by month (YYYY-MM)
+ */
+function byMonth(observations: FREDObservation[]): Map<string, number> {
+  return new Map(observations.map((o) => [o.date.slice(0, 7), o.value]));
+}
+
+/**
+ * Value with the date it became public (oldest first)
+ */
+interface PublishedValue {
+  published: Date;
+  value: number;
+}
+
+/**
+ * Publication date of a quarterly value dated at the quarter start
+ */
+function quarterlyPublished(date: string): Date {
+  const quarterEnd = new Date(`${date}T00:00:00Z`);
+  quarterEnd.setUTCMonth(quarterEnd.getUTCMonth() + 3);
+  return new Date(quarterEnd.getTime() + QUARTERLY_PUBLICATION_LAG_DAYS * DAY_MS);
+}
+
+/**
+ * Latest value published by the end of the given month, so a month is only
+ * scored with data that was out at the time
+ */
+function publishedBy(values: PublishedValue[], month: string): number | undefined {
+  const monthEnd = new Date(`${month}-01T00:00:00Z`);
+  monthEnd.setUTCMonth(monthEnd.getUTCMonth() + 1);
+
+  let value: number | undefined;
+  for (const point of values) {
+    if (point.published >= monthEnd) break;
+    value = point.value;
+  }
+  return value;
+}
+
+/**
+ * List months (YYYY-MM) from start through the current month
+ */
+function monthRange(start: string): string[] {
+  const months: string[] = [];
+  const current = new Date(`${start.slice(0, 7)}-01T00:00:00Z`);
+  const end = new Date();
+
+  while (current <= end) {
+    months.push(current.toISOString().slice(0, 7));
+    current.setUTCMonth(current.getUTCMonth() + 1);
+  }
+  return months;
+}
+
+/**
+ * Pull the indicator histories and score every month since `start`.
+ * Daily FRED series are averaged per month. Quarterly GDP and Z.1 values
+ * only count from their publication (QUARTERLY_PUBLICATION_LAG_DAYS after
+ * the quarter) and are carried forward until the next one is out, so GDP is
+ * not interpolated as it is for the live Buffett Indicator. Margin debt comes
+ * from the FINRA margin statistics and is left out when that file is not
+ * available.
+ */
+export async function buildCrashRiskHistory(start: string = BACKFILL_START): Promise<CrashRiskHistoryPoint[]> {
+  const monthly = { observationStart: start, frequency: 'm' as const };
+
+  const [yieldCurve, creditSpreads, vix, buffett, gdp, shiller, marginMonths] = await Promise.all([
+    getFREDSeriesHistory(HISTORY_FRED_SERIES.yieldCurve, monthly),
+    getFREDSeriesHistory(HISTORY_FRED_SERIES.creditSpreads, monthly),
+    getFREDSeriesHistory(HISTORY_FRED_SERIES.vix, monthly),
+    getBuffettIndicator(),
+    getFREDSeriesHistory(BUFFETT_SERIES.gdp),
+    getShillerData(),
+    readFinraMarginData().catch((error) => {
+      console.warn('Margin debt history unavailable, scoring without it:', error instanceof Error ? error.message : error);
+      return [];
+    }),
+  ]);
+
+  const yieldCurveByMonth = byMonth(yieldCurve);
+  const creditSpreadsByMonth = byMonth(creditSpreads);
+  const vixByMonth = byMonth(vix);
+  const capeByMonth = new Map(
+    shiller.filter((m) => m.cape !== null).map((m) => [m.date, m.cape as number])
+  );
+
+  const marginByMonth = new Map(marginMonths.map((m) => [m.date, m.debitBalances]));
+
+  const publishedGDP = gdp.map((o) => ({ published: quarterlyPublished(o.date), value: o.value }));
+  // Month-end Wilshire levels are known at once; Z.1 market value is dated at the quarter end
+  const isQuarterlyMarketCap = buffett.marketCapSeries === BUFFETT_SERIES.corporateEquities;
+  const publishedMarketCap = buffett.history.map((point) => ({
+    published: isQuarterlyMarketCap
+      ? new Date(new Date(point.date).getTime() + QUARTERLY_PUBLICATION_LAG_DAYS * DAY_MS)
+      : new Date(point.date),
+    value: point.marketCap,
+  }));
+
+  const points: CrashRiskHistoryPoint[] = [];
+
+  for (const month of monthRange(start)) {
+    const gdpValue = publishedBy(publishedGDP, month);
+    const marketCap = publishedBy(publishedMarketCap, month);
+    const debitBalances = marginByMonth.get(month);
+
+    const inputs: CrashRiskInputs = {
+      cape: capeByMonth.get(month),
+      yieldCurve: yieldCurveByMonth.get(month),
+      // Debit balances are in millions, GDP and market cap in billions
+      marginDebt: debitBalances !== undefined && gdpValue ? (debitBalances / 1000 / gdpValue) * 100 : undefined,
+      creditSpreads: creditSpreadsByMonth.get(month),
+      buffett: marketCap !== undefined && gdpValue ? (marketCap / gdpValue) * 100 : undefined,
+      vix: vixByMonth.get(month),
+    };
+
+    // Skip months with no data at all (e.g. the current month before any release)
+    if (Object.values(inputs).every((value) => value === undefined)) {
+      continue;
+    }
+
+    const breakdown = calculateCrashRiskFromInputs(inputs);
+    points.push({
+      date: `${month}-01`,
+      totalScore: breakdown.totalScore,
+      riskLevel: breakdown.riskLevel,
+      components: breakdown.components,
+      weights: breakdown.weights,
+      inputs,
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Rebuild the full crash-risk history and store it (replacing existing months)
+ */
+export async function backfillCrashRiskHistory(): Promise<{ months: number; from: string | null; to: string | null }> {
+  const points = await buildCrashRiskHistory();
+  const client = await db.getClient();
+
+  try {
+    await client.query('BEGIN');
+    for (const point of points) {
+      await client.query(
+        `INSERT INTO crash_risk_history (month, total_score, risk_level, components, weights, inputs)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (month)
+         DO UPDATE SET total_score = EXCLUDED.total_score,
+                       risk_level = EXCLUDED.risk_level,
+                       components = EXCLUDED.components,
+                       weights = EXCLUDED.weights,
+                       inputs = EXCLUDED.inputs,
+                       computed_at = NOW()`,
+        [
+          point.date,
+          point.totalScore,
+          point.riskLevel,
+          JSON.stringify(point.components),
+          JSON.stringify(point.weights),
+          JSON.stringify(point.inputs),
+        ]
+      );
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return {
+    months: points.length,
+    from: points[0]?.date ?? null,
+    to: points[points.length - 1]?.date ?? null,
+  };
+}
+
+/**
+ * Get stored crash-risk history between two dates (inclusive), oldest first
+ */
+export async function getCrashRiskHistory(from: Date, to: Date): Promise<CrashRiskHistoryPoint[]> {
+  const result = await db.query(
+    `SELECT to_char(month, 'YYYY-MM-DD') AS month, total_score, risk_level, components, weights, inputs
+     FROM crash_risk_history
+     WHERE month >= $1::date AND month <= $2::date
+     ORDER BY month ASC`,
+    [from.toISOString().slice(0, 10), to.toISOString().slice(0, 10)]
+  );
+
+  return result.rows.map((row) => ({
+    date: row.month,
+    totalScore: parseFloat(row.total_score),
+    riskLevel: row.risk_level,
+    components: row.components,
+    weights: row.weights,
+    inputs: row.inputs,
+  }));
+}
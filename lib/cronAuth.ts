@@ -0,0 +1,23 @@
+/**
+ * Cron Auth
+ * Shared check for the scheduled jobs under /api/cron.
+ */
+
+import type { NextRequest } from 'next/server';
+
+/**
+ * Accepts the Vercel Cron secret or the admin key (for manual runs)
+ * Throws Error('Unauthorized') otherwise; routes map it to a 401.
+ */
+export function requireCronOrAdmin(req: NextRequest): void {
+  const authHeader = req.headers.get('authorization');
+  const adminKey = req.headers.get('x-admin-key');
+  const cronSecret = process.env.CRON_SECRET;
+
+  const isCron = !!cronSecret && authHeader === `Bearer ${cronSecret}`;
+  const isAdmin = !!adminKey && adminKey === process.env.ADMIN_SECRET_KEY;
+
+  if (!isCron && !isAdmin) {
+    throw new Error('Unauthorized');
+  }
+}
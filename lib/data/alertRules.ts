@@ -0,0 +1,118 @@
+/**
+ * Alert Rule Targets
+ * The values subscribers can write alert rules against, with sensible
+ * starting thresholds, and the validation shared by the preferences page
+ * and the API.
+ */
+
+import type { AlertRule, AlertRuleLevel, AlertRuleTarget, MetricType } from '@/lib/types';
+
+export const MAX_ALERT_RULES = 20;
+export const MAX_ALERT_RULE_DESCRIPTION_LENGTH = 100;
+
+export interface AlertRuleTargetInfo {
+  target: AlertRuleTarget;
+  label: string;
+  metric: MetricType;
+  unit: string;
+  direction: 'above' | 'below'; // default direction
+  warning: number; // default thresholds
+  critical: number;
+}
+
+export const ALERT_RULE_TARGETS: AlertRuleTargetInfo[] = [
+  { target: 'vix', label: 'VIX', metric: 'volatility', unit: '', direction: 'above', warning: 25, critical: 30 },
+  { target: 'sp500-drawdown', label: 'S&P 500 drawdown from peak', metric: 'price-drop', unit: '%', direction: 'above', warning: 10, critical: 20 },
+  { target: 'sp500-volatility', label: 'S&P 500 20-day realized volatility', metric: 'volatility', unit: '%', direction: 'above', warning: 20, critical: 30 },
+  { target: 'crash-score', label: 'Crash score', metric: 'indicator-value', unit: '', direction: 'above', warning: 50, critical: 65 },
+  { target: 'cape', label: 'CAPE Ratio', metric: 'indicator-value', unit: '', direction: 'above', warning: 25, critical: 30 },
+  { target: 'yield-curve', label: 'Yield Curve (10Y-3M)', metric: 'indicator-value', unit: '%', direction: 'below', warning: 0.5, critical: 0 },
+  { target: 'margin-debt', label: 'Margin Debt/GDP', metric: 'indicator-value', unit: '%', direction: 'above', warning: 2.5, critical: 3 },
+  { target: 'credit-spreads', label: 'High-yield credit spreads', metric: 'indicator-value', unit: '%', direction: 'above', warning: 5, critical: 7 },
+  { target: 'buffett', label: 'Buffett Indicator', metric: 'indicator-value', unit: '%', direction: 'above', warning: 115, critical: 160 },
+  { target: 'sahm-rule', label: 'Sahm Rule', metric: 'indicator-value', unit: '', direction: 'above', warning: 0.3, critical: 0.5 },
+  { target: 'initial-claims', label: 'Initial claims vs. 52-week low', metric: 'indicator-value', unit: '%', direction: 'above', warning: 15, critical: 25 },
+];
+
+export function getAlertRuleTarget(target: string): AlertRuleTargetInfo | undefined {
+  return ALERT_RULE_TARGETS.find((info) => info.target === target);
+}
+
+/**
+ * Level of a value under a rule (critical takes precedence)
+ */
+export function getAlertRuleLevel(
+  rule: Pick<AlertRule, 'direction' | 'warning' | 'critical'>,
+  value: number
+): AlertRuleLevel {
+  const crossed = (threshold: number) => (rule.direction === 'above' ? value > threshold : value < threshold);
+  if (crossed(rule.critical)) return 'critical';
+  if (crossed(rule.warning)) return 'warning';
+  return 'safe';
+}
+
+/**
+ * Human-readable rule, e.g. "VIX above 25 (critical 30)"
+ */
+export function describeAlertRule(rule: Pick<AlertRule, 'target' | 'direction' | 'warning' | 'critical'>): string {
+  const info = getAlertRuleTarget(rule.target);
+  const unit = info?.unit ?? '';
+  return `${info?.label ?? rule.target} ${rule.direction} ${rule.warning}${unit} (critical ${rule.critical}${unit})`;
+}
+
+/**
+ * Validate a rule from a request; thresholds must be ordered in the rule's
+ * direction (critical beyond warning)
+ * Returns the cleaned rule fields and a list of problems
+ */
+export function normalizeAlertRule(input: unknown): {
+  rule: Pick<AlertRule, 'metric' | 'target' | 'direction' | 'warning' | 'critical' | 'enabled' | 'description'> | null;
+  errors: string[];
+} {
+  const raw = (input ?? {}) as Partial<Record<keyof AlertRule, unknown>>;
+  const errors: string[] = [];
+
+  const info = typeof raw.target === 'string' ? getAlertRuleTarget(raw.target) : undefined;
+  if (!info) {
+    errors.push(`target must be one of ${ALERT_RULE_TARGETS.map((target) => target.target).join(', ')}`);
+  }
+
+  const direction = raw.direction ?? info?.direction;
+  if (direction !== 'above' && direction !== 'below') {
+    errors.push('direction must be "above" or "below"');
+  }
+
+  const warning = typeof raw.warning === 'string' ? parseFloat(raw.warning) : raw.warning;
+  const critical = typeof raw.critical === 'string' ? parseFloat(raw.critical) : raw.critical;
+  if (typeof warning !== 'number' || !Number.isFinite(warning)) errors.push('warning must be a number');
+  if (typeof critical !== 'number' || !Number.isFinite(critical)) errors.push('critical must be a number');
+
+  if (errors.length > 0 || !info) {
+    return { rule: null, errors };
+  }
+
+  const warningLevel = warning as number;
+  const criticalLevel = critical as number;
+  if (direction === 'above' ? criticalLevel < warningLevel : criticalLevel > warningLevel) {
+    errors.push(`critical must be ${direction === 'above' ? 'at or above' : 'at or below'} warning`);
+    return { rule: null, errors };
+  }
+
+  const description =
+    typeof raw.description === 'string' && raw.description.trim()
+      ? raw.description.trim().slice(0, MAX_ALERT_RULE_DESCRIPTION_LENGTH)
+      : undefined;
+
+  return {
+    rule: {
+      metric: info.metric,
+      target: info.target,
+      direction: direction as 'above' | 'below',
+      warning: warningLevel,
+      critical: criticalLevel,
+      enabled: raw.enabled === undefined ? true : raw.enabled === true,
+      description,
+    },
+    errors,
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Economic Indicator Types
+ * Response shapes and series IDs shared by the indicator API routes and the
+ * dashboard. Client components import from here; the fetching code in
+ * lib/api/economicIndicators is server-only.
+ */
+
+/**
+ * Indicator status type
+ */
+export type IndicatorStatus = 'safe' | 'warning' | 'danger';
+
+/**
+ * Economic Indicator Response
+ */
+export interface EconomicIndicatorResponse {
+  value: number;
+  status: IndicatorStatus;
+  historicalAvg: number;
+  warningLevel: number;
+  dangerLevel: number;
+  timestamp: string;
+  description: string;
+  fallback?: boolean; // value is a built-in placeholder, not source data
+  staleSince?: string; // set when the source is behind its update schedule (date of the latest data)
+  error?: string; // set when the source could not be fetched
+}
+
+/**
+ * Historical indicator value
+ */
+export interface IndicatorHistoryPoint {
+  date: string; // ISO timestamp of the source period
+  value: number;
+  status: IndicatorStatus;
+}
+
+/**
+ * FRED series used for the Buffett Indicator
+ */
+export const BUFFETT_SERIES = {
+  wilshire: 'WILL5000PRFC', // Wilshire 5000 Full Cap Price Index (1 point ≈ $1B market cap)
+  corporateEquities: 'NCBEILQ027S', // Z.1 nonfinancial corporate equities, millions (quarterly)
+  gdp: 'GDP', // Nominal GDP, billions SAAR (quarterly)
+} as const;
+
+/**
+ * Historical Buffett Indicator value with the two series it was derived from
+ */
+export interface BuffettHistoryPoint extends IndicatorHistoryPoint {
+  marketCap: number; // billions
+  gdp: number; // billions SAAR, interpolated to the market cap date
+}
+
+/**
+ * Buffett Indicator response (includes derivation and full history)
+ */
+export interface BuffettIndicatorResponse extends EconomicIndicatorResponse {
+  marketCapSeries: string; // FRED series ID used for market cap
+  gdpSeries: string; // FRED series ID used for GDP
+  marketCap: number; // billions
+  gdp: number; // billions SAAR, interpolated to the market cap date
+  history: BuffettHistoryPoint[];
+}
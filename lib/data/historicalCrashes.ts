@@ -39,3 +39,37 @@ export const indicators1929vs2025 = {
   buffettIndicator: { '1929': 87, '2025': 228, danger: 160 },
 };
 
+
+/**
+ * S&P 500 drawdowns of 20% or more since 1881 (peak and trough months,
+ * close-to-close; before 1957 the S&P composite index)
+ * Used by the crash-risk backtest - add new events here
+ */
+export interface DrawdownEvent {
+  id: string;
+  name: string;
+  peak: string; // YYYY-MM
+  trough: string; // YYYY-MM
+  drawdown: number; // percent, negative
+}
+
+export const drawdownEvents: DrawdownEvent[] = [
+  { id: 'crash1906', name: 'Panic of 1907', peak: '1906-01', trough: '1907-11', drawdown: -38 },
+  { id: 'crash1916', name: 'World War I Bear Market', peak: '1916-11', trough: '1917-12', drawdown: -30 },
+  { id: 'crash1919', name: 'Depression of 1920-21', peak: '1919-11', trough: '1921-08', drawdown: -32 },
+  { id: 'crash1929', name: 'Great Crash', peak: '1929-09', trough: '1932-06', drawdown: -86 },
+  { id: 'crash1937', name: '1937 Recession', peak: '1937-03', trough: '1938-03', drawdown: -54 },
+  { id: 'crash1939', name: 'World War II Bear Market', peak: '1939-10', trough: '1942-04', drawdown: -40 },
+  { id: 'crash1946', name: 'Post-war Bear Market', peak: '1946-05', trough: '1947-05', drawdown: -28 },
+  { id: 'crash1956', name: 'Suez Crisis Bear Market', peak: '1956-08', trough: '1957-10', drawdown: -22 },
+  { id: 'crash1961', name: 'Kennedy Slide', peak: '1961-12', trough: '1962-06', drawdown: -28 },
+  { id: 'crash1966', name: '1966 Credit Crunch', peak: '1966-02', trough: '1966-10', drawdown: -22 },
+  { id: 'crash1968', name: '1969-70 Bear Market', peak: '1968-11', trough: '1970-05', drawdown: -36 },
+  { id: 'crash1973', name: 'Oil Crisis Bear Market', peak: '1973-01', trough: '1974-10', drawdown: -48 },
+  { id: 'crash1980', name: 'Volcker Bear Market', peak: '1980-11', trough: '1982-08', drawdown: -27 },
+  { id: 'crash1987', name: 'Black Monday', peak: '1987-08', trough: '1987-12', drawdown: -34 },
+  { id: 'crash2000', name: 'Dot-com Bust', peak: '2000-03', trough: '2002-10', drawdown: -49 },
+  { id: 'crash2008', name: 'Global Financial Crisis', peak: '2007-10', trough: '2009-03', drawdown: -57 },
+  { id: 'crash2020', name: 'COVID-19 Crash', peak: '2020-02', trough: '2020-03', drawdown: -34 },
+  { id: 'crash2022', name: '2022 Bear Market', peak: '2022-01', trough: '2022-10', drawdown: -25 },
+];
@@ -0,0 +1,102 @@
+/**
+ * Default Watchlists
+ * Shown to anonymous visitors and seeded for subscribers on first use.
+ * Symbols are the ones the market data providers expect (Finnhub tickers,
+ * crypto base symbols, FRED-backed commodity names).
+ */
+
+import type { Watchlist, WatchlistAssetClass, WatchlistItem } from '@/lib/types';
+
+export const MAX_WATCHLISTS = 10;
+export const MAX_WATCHLIST_ITEMS = 50;
+export const MAX_WATCHLIST_NAME_LENGTH = 50;
+
+/**
+ * Tickers such as AAPL, BRK.B or BTC
+ */
+export const WATCHLIST_SYMBOL_PATTERN = /^[A-Z0-9][A-Z0-9.\-]{0,14}$/;
+
+export const WATCHLIST_ASSET_CLASSES: WatchlistAssetClass[] = ['stock', 'crypto', 'commodity'];
+
+export const DEFAULT_WATCHLISTS: Watchlist[] = [
+  {
+    id: 'default-stocks',
+    name: 'Major Stocks',
+    items: [
+      { symbol: 'GOOGL', assetClass: 'stock', label: 'Alphabet' },
+      { symbol: 'AMZN', assetClass: 'stock', label: 'Amazon' },
+      { symbol: 'AAPL', assetClass: 'stock', label: 'Apple' },
+      { symbol: 'TSLA', assetClass: 'stock', label: 'Tesla' },
+      { symbol: 'META', assetClass: 'stock', label: 'Meta' },
+      { symbol: 'MSFT', assetClass: 'stock', label: 'Microsoft' },
+      { symbol: 'NVDA', assetClass: 'stock', label: 'NVIDIA' },
+    ],
+  },
+  {
+    id: 'default-crypto',
+    name: 'Major Cryptocurrencies',
+    items: [
+      { symbol: 'BTC', assetClass: 'crypto', label: 'Bitcoin (BTC)' },
+      { symbol: 'ETH', assetClass: 'crypto', label: 'Ethereum (ETH)' },
+      { symbol: 'XRP', assetClass: 'crypto', label: 'XRP' },
+    ],
+  },
+  {
+    id: 'default-commodities',
+    name: 'Commodities',
+    items: [
+      { symbol: 'GOLD', assetClass: 'commodity', label: 'Gold (XAU/USD)' },
+      { symbol: 'SILVER', assetClass: 'commodity', label: 'Silver (XAG/USD)' },
+      { symbol: 'OIL', assetClass: 'commodity', label: 'Oil (WTI)' },
+    ],
+  },
+];
+
+/**
+ * Key identifying a watchlist item's quote ("stock:AAPL")
+ */
+export function watchlistItemKey(item: Pick<WatchlistItem, 'symbol' | 'assetClass'>): string {
+  return `${item.assetClass}:${item.symbol}`;
+}
+
+/**
+ * Validate and normalise watchlist items (upper-case symbols, no duplicates)
+ * Returns the cleaned items and a list of problems
+ */
+export function normalizeWatchlistItems(items: unknown): { items: WatchlistItem[]; errors: string[] } {
+  const errors: string[] = [];
+  if (!Array.isArray(items)) {
+    return { items: [], errors: ['items must be an array'] };
+  }
+
+  const seen = new Set<string>();
+  const normalized: WatchlistItem[] = [];
+
+  items.forEach((raw, index) => {
+    const item = raw as Partial<WatchlistItem> | null;
+    const symbol = typeof item?.symbol === 'string' ? item.symbol.trim().toUpperCase() : '';
+    const assetClass = item?.assetClass;
+
+    if (!WATCHLIST_SYMBOL_PATTERN.test(symbol)) {
+      errors.push(`items[${index}]: invalid symbol "${item?.symbol ?? ''}"`);
+      return;
+    }
+    if (!assetClass || !WATCHLIST_ASSET_CLASSES.includes(assetClass)) {
+      errors.push(`items[${index}]: assetClass must be one of ${WATCHLIST_ASSET_CLASSES.join(', ')}`);
+      return;
+    }
+
+    const key = watchlistItemKey({ symbol, assetClass });
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    const label = typeof item?.label === 'string' && item.label.trim() ? item.label.trim().slice(0, 50) : undefined;
+    normalized.push(label ? { symbol, assetClass, label } : { symbol, assetClass });
+  });
+
+  if (normalized.length > MAX_WATCHLIST_ITEMS) {
+    errors.push(`A watchlist can hold at most ${MAX_WATCHLIST_ITEMS} symbols`);
+  }
+
+  return { items: normalized, errors };
+}
@@ -25,6 +25,25 @@ const getBaseUrl = () => {
 
 const BASE_URL = getBaseUrl();
 
+/**
+ * Link to the token-authenticated alerts and preferences page
+ */
+function getPreferencesUrl(preferencesToken: string): string {
+  return `${BASE_URL}/preferences?token=${preferencesToken}`;
+}
+
+/**
+ * Escape text for HTML (alert titles and messages include user-written rule descriptions)
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 /**
  * Generate a secure random token
  */
@@ -95,9 +114,13 @@ export async function sendVerificationEmail(
  */
 export async function sendWelcomeEmail(
   email: string,
-  unsubscribeToken: string
+  unsubscribeToken: string,
+  preferencesToken: string
 ): Promise<void> {
   const unsubscribeUrl = `${BASE_URL}/api/unsubscribe?token=${unsubscribeToken}`;
+  // Opening the dashboard with this link saves watchlists to the subscriber's account
+  const watchlistsUrl = `${BASE_URL}/?subscriber=${preferencesToken}`;
+  const preferencesUrl = getPreferencesUrl(preferencesToken);
   const subject = 'Welcome to Market Crash Monitor!';
   const html = `
     <!DOCTYPE html>
@@ -111,11 +134,14 @@ export async function sendWelcomeEmail(
         <h1 style="color: #2563eb;">Welcome to Market Crash Monitor!</h1>
         <p>Your email has been verified successfully.</p>
         <p>You'll now receive our market crash indicators and analysis to help you stay informed about potential market risks.</p>
+        <p>Want your own stocks, crypto and commodities on the dashboard? <a href="${watchlistsUrl}" style="color: #2563eb;">Open your watchlists</a> to keep them with your subscription on any device.</p>
+        <p>Set your own alert thresholds (for example "VIX above 28") on your <a href="${preferencesUrl}" style="color: #2563eb;">alerts and preferences page</a>.</p>
         <p>Thank you for joining us!</p>
         <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;">
         <p style="font-size: 12px; color: #666; text-align: center;">
           <a href="${BASE_URL}" style="color: #2563eb; text-decoration: none;">Market Crash Monitor</a><br>
           <a href="${BASE_URL}">${BASE_URL}</a><br><br>
+          <a href="${preferencesUrl}" style="color: #666; text-decoration: underline;">Manage alerts and preferences</a> ·
           <a href="${unsubscribeUrl}" style="color: #666; text-decoration: underline;">Unsubscribe</a>
         </p>
       </body>
@@ -129,12 +155,16 @@ export async function sendWelcomeEmail(
     
     You'll now receive our market crash indicators and analysis to help you stay informed about potential market risks.
     
+    Keep your own watchlists with your subscription: ${watchlistsUrl}
+    Set your own alert thresholds: ${preferencesUrl}
+    
     Thank you for joining us!
     
     ---
     Market Crash Monitor
     ${BASE_URL}
     
+    Manage alerts and preferences: ${preferencesUrl}
     Unsubscribe: ${unsubscribeUrl}
   `;
 
@@ -149,6 +179,7 @@ export async function sendNewsletterEmail(
     id: string;
     email: string;
     unsubscribe_token: string;
+    preferences_token: string;
   },
   newsletter: {
     id: string;
@@ -157,6 +188,7 @@ export async function sendNewsletterEmail(
   }
 ): Promise<{ success: boolean; messageId?: string; error?: string }> {
   const unsubscribeUrl = `${BASE_URL}/api/unsubscribe?token=${subscriber.unsubscribe_token}`;
+  const preferencesUrl = getPreferencesUrl(subscriber.preferences_token);
   
   const subject = newsletter.title;
   
@@ -182,6 +214,7 @@ export async function sendNewsletterEmail(
         
         <p style="font-size: 12px; color: #666; text-align: center;">
           <a href="${BASE_URL}">Market Crash Monitor</a><br>
+          <a href="${preferencesUrl}" style="color: #666;">Manage alerts and preferences</a> ·
           <a href="${unsubscribeUrl}" style="color: #666;">Unsubscribe</a>
         </p>
       </body>
@@ -198,6 +231,7 @@ export async function sendNewsletterEmail(
     Market Crash Monitor
     ${BASE_URL}
     
+    Manage alerts and preferences: ${preferencesUrl}
     Unsubscribe: ${unsubscribeUrl}
   `;
 
@@ -212,6 +246,102 @@ export async function sendNewsletterEmail(
   }
 }
 
+/**
+ * Send alert email to subscriber (one email listing every alert of a run)
+ */
+export async function sendAlertEmail(
+  subscriber: {
+    id: string;
+    email: string;
+    unsubscribe_token: string;
+    preferences_token: string;
+  },
+  alerts: Array<{
+    severity: 'info' | 'warning' | 'critical';
+    title: string;
+    message: string;
+  }>
+): Promise<{ success: boolean; subject: string; messageId?: string; error?: string }> {
+  const unsubscribeUrl = `${BASE_URL}/api/unsubscribe?token=${subscriber.unsubscribe_token}`;
+  const preferencesUrl = getPreferencesUrl(subscriber.preferences_token);
+  const severityColors = { info: '#16a34a', warning: '#d97706', critical: '#dc2626' };
+  const severityLabels = { info: 'Eased', warning: 'Warning', critical: 'Critical' };
+
+  const subject = alerts.length === 1
+    ? `Market Crash Monitor alert: ${alerts[0].title}`
+    : `Market Crash Monitor: ${alerts.length} risk alerts`;
+
+  const alertsHtml = alerts
+    .map(
+      (alert) => `
+        <div style="border-left: 4px solid ${severityColors[alert.severity]}; background: #f8f9fa; padding: 12px 16px; margin: 12px 0; border-radius: 4px;">
+          <p style="margin: 0; font-size: 12px; font-weight: bold; color: ${severityColors[alert.severity]}; text-transform: uppercase;">${severityLabels[alert.severity]}</p>
+          <p style="margin: 4px 0 0; font-weight: bold;">${escapeHtml(alert.title)}</p>
+          <p style="margin: 4px 0 0; color: #555;">${escapeHtml(alert.message)}</p>
+        </div>`
+    )
+    .join('');
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${escapeHtml(subject)}</title>
+      </head>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <h1 style="color: #2563eb;">Market Risk Alert</h1>
+        <p>The following readings changed since our last check:</p>
+        ${alertsHtml}
+        <p style="text-align: center; margin: 30px 0;">
+          <a href="${BASE_URL}"
+             style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">
+            Open the Dashboard
+          </a>
+        </p>
+        <p style="font-size: 12px; color: #666;">Alerts are informational only and not investment advice.</p>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;">
+        <p style="font-size: 12px; color: #666; text-align: center;">
+          <a href="${BASE_URL}">Market Crash Monitor</a><br>
+          <a href="${preferencesUrl}" style="color: #666;">Manage alerts and preferences</a> ·
+          <a href="${unsubscribeUrl}" style="color: #666;">Unsubscribe</a>
+        </p>
+      </body>
+    </html>
+  `;
+
+  const text = `
+    Market Risk Alert
+
+    The following readings changed since our last check:
+
+    ${alerts.map((alert) => `[${severityLabels[alert.severity]}] ${alert.title}\n    ${alert.message}`).join('\n\n    ')}
+
+    Open the dashboard: ${BASE_URL}
+
+    Alerts are informational only and not investment advice.
+
+    ---
+    Market Crash Monitor
+    ${BASE_URL}
+
+    Manage alerts and preferences: ${preferencesUrl}
+    Unsubscribe: ${unsubscribeUrl}
+  `;
+
+  try {
+    const messageId = await sendEmail(subscriber.email, subject, html, text);
+    return { success: true, subject, messageId };
+  } catch (error) {
+    return {
+      success: false,
+      subject,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
 /**
  * Core email sending function using Mailgun
  * Returns message ID if successful
@@ -412,6 +542,7 @@ export const emailService = {
   sendVerificationEmail,
   sendWelcomeEmail,
   sendNewsletterEmail,
+  sendAlertEmail,
   sendContactEmail,
 };
 
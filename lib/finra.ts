@@ -0,0 +1,123 @@
+/**
+ * FINRA Margin Statistics
+ * Reads FINRA's monthly margin statistics from a CSV file dropped into
+ * public/data (download from finra.org → Margin Statistics → Export CSV)
+ */
+
+import 'server-only';
+import * as XLSX from 'xlsx';
+
+/**
+ * One month of FINRA margin statistics
+ */
+export interface FinraMarginMonth {
+  date: string; // YYYY-MM
+  debitBalances: number; // Debit balances in customers' securities margin accounts, millions of dollars
+}
+
+/**
+ * CSV locations checked in order (relative to public/data)
+ */
+export const FINRA_MARGIN_FILES = ['margin-statistics.csv', 'finra-margin-statistics.csv'];
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Convert a FINRA month (e.g. 2025-09, 09/2025, Sep-25, September 2025) to YYYY-MM
+ */
+function toMonth(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+
+  let year: number | undefined;
+  let month: number | undefined;
+
+  const isoMatch = text.match(/^(\d{4})-(\d{1,2})(?:-\d{1,2})?$/);
+  const slashMatch = text.match(/^(\d{1,2})\/(?:\d{1,2}\/)?(\d{4})$/);
+  const nameMatch = text.match(/^([A-Za-z]{3,9})[-\s](\d{2}|\d{4})$/);
+
+  if (isoMatch) {
+    year = Number(isoMatch[1]);
+    month = Number(isoMatch[2]);
+  } else if (slashMatch) {
+    year = Number(slashMatch[2]);
+    month = Number(slashMatch[1]);
+  } else if (nameMatch) {
+    month = MONTH_NAMES.indexOf(nameMatch[1].slice(0, 3).toLowerCase()) + 1;
+    year = Number(nameMatch[2]);
+    // Two-digit years: FINRA data starts in 1997
+    if (nameMatch[2].length === 2) year += year >= 50 ? 1900 : 2000;
+  }
+
+  if (!year || !month || month < 1 || month > 12) return null;
+  return `${year}-${String(month).padStart(2, '0')}`;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  if (typeof value !== 'string') return null;
+  const parsed = parseFloat(value.replace(/[$,\s]/g, ''));
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Parse FINRA margin statistics CSV, oldest month first
+ */
+export function parseFinraMarginCsv(csv: string): FinraMarginMonth[] {
+  // raw keeps "2025-09" as text instead of converting it to a date
+  const workbook = XLSX.read(csv, { type: 'string', raw: true });
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[workbook.SheetNames[0]], {
+    header: 1,
+    defval: null,
+    raw: true,
+  });
+
+  // The header row has a month column and a "Debit Balances..." column
+  const headerIndex = rows.findIndex(
+    (row) => Array.isArray(row) && row.some((cell) => typeof cell === 'string' && /debit balances/i.test(cell))
+  );
+  if (headerIndex === -1) {
+    throw new Error('Could not find the "Debit Balances" column in the FINRA margin statistics file');
+  }
+
+  const header = rows[headerIndex].map((cell) => (typeof cell === 'string' ? cell.trim() : ''));
+  const monthCol = header.findIndex((cell) => /^(year[-\s]?month|month|date)$/i.test(cell));
+  const debitCol = header.findIndex((cell) => /debit balances/i.test(cell));
+  if (monthCol === -1) {
+    throw new Error('Could not find the Year-Month column in the FINRA margin statistics file');
+  }
+
+  const months = new Map<string, FinraMarginMonth>();
+  for (const row of rows.slice(headerIndex + 1)) {
+    const date = toMonth(row?.[monthCol]);
+    const debitBalances = toNumber(row?.[debitCol]);
+    if (!date || debitBalances === null) continue;
+    months.set(date, { date, debitBalances });
+  }
+
+  // FINRA exports newest first; sort so callers can walk forward in time
+  return [...months.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Read and parse the FINRA margin statistics CSV from public/data (server-side only)
+ */
+export async function readFinraMarginData(): Promise<FinraMarginMonth[]> {
+  const fs = await import('fs/promises');
+  const path = await import('path');
+
+  for (const file of FINRA_MARGIN_FILES) {
+    const filePath = path.join(process.cwd(), 'public', 'data', file);
+    try {
+      const csv = await fs.readFile(filePath, 'utf-8');
+      return parseFinraMarginCsv(csv);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+      throw error;
+    }
+  }
+
+  throw new Error(
+    `No FINRA margin statistics found in public/data (expected one of: ${FINRA_MARGIN_FILES.join(', ')})`
+  );
+}
@@ -0,0 +1,196 @@
+/**
+ * FRED Explorer
+ * Server side of the /explore page: keyword search and observations of any
+ * FRED series, fetched with the server's API key and cached in memory so
+ * repeated chart loads and shared links do not hit FRED again.
+ */
+
+import {
+  EconomicIndicatorError,
+  FREDFetchOptions,
+  FREDObservation,
+  FREDSeriesInfo,
+  getFREDSeriesHistory,
+  getFREDSeriesInfo,
+  searchFREDSeries,
+} from '@/lib/api/economicIndicators';
+
+/**
+ * FRED explorer errors (statusCode maps to the HTTP response)
+ */
+export class FredExplorerError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'FredExplorerError';
+  }
+}
+
+const SERIES_CACHE_TTL_MS = 60 * 60 * 1000;
+const SEARCH_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Entries kept per cache before the oldest are dropped
+ */
+const MAX_CACHE_ENTRIES = 200;
+
+export const MAX_SEARCH_RESULTS = 50;
+
+const SERIES_ID_PATTERN = /^[A-Z0-9_.]{1,40}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const FREQUENCIES = ['d', 'w', 'm', 'q', 'a'] as const;
+
+export type ExplorerFrequency = (typeof FREQUENCIES)[number];
+
+export interface SeriesQuery {
+  start?: string; // YYYY-MM-DD
+  end?: string; // YYYY-MM-DD
+  frequency?: ExplorerFrequency; // aggregate to a lower frequency (averages)
+}
+
+export interface ExplorerSeries {
+  info: FREDSeriesInfo;
+  observations: FREDObservation[];
+  fetchedAt: string;
+}
+
+const seriesCache = new Map<string, { series: ExplorerSeries; expiresAt: number }>();
+const searchCache = new Map<string, { results: FREDSeriesInfo[]; expiresAt: number }>();
+const inFlight = new Map<string, Promise<ExplorerSeries>>();
+
+function remember<T>(cache: Map<string, T>, key: string, value: T): void {
+  cache.delete(key);
+  cache.set(key, value);
+  if (cache.size > MAX_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value as string);
+  }
+}
+
+/**
+ * Normalize a series ID (FRED IDs are upper case), rejecting anything that
+ * could not be one
+ */
+export function normalizeSeriesId(seriesId: string): string {
+  const normalized = seriesId.trim().toUpperCase();
+  if (!SERIES_ID_PATTERN.test(normalized)) {
+    throw new FredExplorerError(`Invalid FRED series ID: ${seriesId}`, 400, 'INVALID_SERIES_ID');
+  }
+  return normalized;
+}
+
+/**
+ * Validate start/end/frequency query parameters
+ */
+export function parseSeriesQuery(params: URLSearchParams): SeriesQuery {
+  const query: SeriesQuery = {};
+
+  for (const key of ['start', 'end'] as const) {
+    const value = params.get(key);
+    if (!value) continue;
+    if (!DATE_PATTERN.test(value) || isNaN(new Date(value).getTime())) {
+      throw new FredExplorerError(`"${key}" must be a date in YYYY-MM-DD format`, 400, 'INVALID_DATE');
+    }
+    query[key] = value;
+  }
+  if (query.start && query.end && query.start > query.end) {
+    throw new FredExplorerError('"start" must be before "end"', 400, 'INVALID_DATE');
+  }
+
+  const frequency = params.get('frequency');
+  if (frequency) {
+    if (!FREQUENCIES.includes(frequency as ExplorerFrequency)) {
+      throw new FredExplorerError(`frequency must be one of ${FREQUENCIES.join(', ')}`, 400, 'INVALID_FREQUENCY');
+    }
+    query.frequency = frequency as ExplorerFrequency;
+  }
+
+  return query;
+}
+
+/**
+ * Map FRED errors to explorer errors (unknown series become 404s)
+ */
+function toExplorerError(error: unknown, seriesId: string): FredExplorerError {
+  if (error instanceof FredExplorerError) return error;
+  if (error instanceof EconomicIndicatorError) {
+    if (error.code === 'MISSING_API_KEY') {
+      return new FredExplorerError(error.message, 500, error.code);
+    }
+    if (error.code === 'NOT_FOUND' || /does not exist/i.test(error.message)) {
+      return new FredExplorerError(`FRED series ${seriesId} not found`, 404, 'NOT_FOUND');
+    }
+    return new FredExplorerError(error.message, 502, error.code || 'FRED_ERROR');
+  }
+  return new FredExplorerError(
+    `Failed to fetch FRED series ${seriesId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    502,
+    'FRED_ERROR'
+  );
+}
+
+/**
+ * Metadata and observations of a series, from cache when fresh
+ * Concurrent requests for the same series and window share one fetch
+ */
+export async function getExplorerSeries(seriesId: string, query: SeriesQuery = {}): Promise<ExplorerSeries> {
+  const id = normalizeSeriesId(seriesId);
+  const key = [id, query.start || '', query.end || '', query.frequency || ''].join('|');
+
+  const cached = seriesCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.series;
+  }
+
+  let pending = inFlight.get(key);
+  if (!pending) {
+    const options: Omit<FREDFetchOptions, 'sortOrder'> = {
+      observationStart: query.start,
+      observationEnd: query.end,
+      frequency: query.frequency,
+    };
+
+    pending = Promise.all([getFREDSeriesInfo(id), getFREDSeriesHistory(id, options)])
+      .then(([info, observations]) => {
+        const series = { info, observations, fetchedAt: new Date().toISOString() };
+        remember(seriesCache, key, { series, expiresAt: Date.now() + SERIES_CACHE_TTL_MS });
+        return series;
+      })
+      .catch((error) => {
+        throw toExplorerError(error, id);
+      })
+      .finally(() => {
+        inFlight.delete(key);
+      });
+    inFlight.set(key, pending);
+  }
+
+  return pending;
+}
+
+/**
+ * Search series by keyword (most popular first), from cache when fresh
+ */
+export async function searchExplorerSeries(text: string, limit: number = 20): Promise<FREDSeriesInfo[]> {
+  const query = text.trim();
+  if (query.length < 2) {
+    throw new FredExplorerError('Search text must be at least 2 characters', 400, 'INVALID_QUERY');
+  }
+
+  const count = Math.min(Math.max(Math.floor(limit) || 20, 1), MAX_SEARCH_RESULTS);
+  const key = `${query.toLowerCase()}|${count}`;
+  const cached = searchCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.results;
+  }
+
+  try {
+    const results = await searchFREDSeries(query, count);
+    remember(searchCache, key, { results, expiresAt: Date.now() + SEARCH_CACHE_TTL_MS });
+    return results;
+  } catch (error) {
+    throw toExplorerError(error, query);
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Indicator Snapshots
+ * Records the values returned by the economic indicator fetchers and
+ * serves them back as history for the dashboard sparklines
+ */
+
+import { db } from '@/lib/db';
+import {
+  getYieldCurveSpread,
+  getMarginDebt,
+  getCreditSpreads,
+  getBuffettIndicator,
+  getMarginDebtHistory,
+  getBuffettIndicatorHistory,
+  EconomicIndicatorResponse,
+  IndicatorHistoryPoint,
+  IndicatorStatus,
+} from '@/lib/api/economicIndicators';
+import { getCAPERatio } from '@/lib/shiller';
+import { getInitialClaims, getInitialClaimsHistory, getSahmRule, getSahmRuleHistory } from '@/lib/api/laborMarket';
+import { getBreadthHistory, getMarketBreadth } from '@/lib/breadth';
+import { getRecessionProbability, getRecessionProbabilityHistory } from '@/lib/recessionProbability';
+
+/**
+ * Indicator IDs (match the /api/economic-indicators/* route names)
+ */
+export const INDICATOR_IDS = [
+  'cape',
+  'yield-curve',
+  'margin-debt',
+  'credit-spreads',
+  'buffett',
+  'sahm-rule',
+  'initial-claims',
+  'breadth-200',
+  'breadth-50',
+  'net-new-highs',
+  'advance-decline',
+  'recession-probability',
+] as const;
+
+export type IndicatorId = (typeof INDICATOR_IDS)[number];
+
+/**
+ * Fetcher for each recorded indicator
+ */
+const INDICATOR_FETCHERS: Record<IndicatorId, () => Promise<EconomicIndicatorResponse>> = {
+  cape: getCAPERatio,
+  'yield-curve': getYieldCurveSpread,
+  'margin-debt': getMarginDebt,
+  'credit-spreads': getCreditSpreads,
+  buffett: getBuffettIndicator,
+  'sahm-rule': getSahmRule,
+  'initial-claims': getInitialClaims,
+  'breadth-200': async () => (await getMarketBreadth()).breadth200,
+  'breadth-50': async () => (await getMarketBreadth()).breadth50,
+  'net-new-highs': async () => (await getMarketBreadth()).netNewHighs,
+  'advance-decline': async () => (await getMarketBreadth()).advanceDecline,
+  'recession-probability': getRecessionProbability,
+};
+
+/**
+ * Indicators whose source publishes a full history; these are served from
+ * the source instead of the recorded snapshots
+ */
+const SOURCE_HISTORY: Partial<Record<IndicatorId, () => Promise<IndicatorHistoryPoint[]>>> = {
+  'margin-debt': getMarginDebtHistory,
+  buffett: getBuffettIndicatorHistory,
+  'sahm-rule': getSahmRuleHistory,
+  'initial-claims': getInitialClaimsHistory,
+  'breadth-200': () => getBreadthHistory('breadth200'),
+  'breadth-50': () => getBreadthHistory('breadth50'),
+  'net-new-highs': () => getBreadthHistory('netNewHighs'),
+  'advance-decline': () => getBreadthHistory('advanceDecline'),
+  'recession-probability': getRecessionProbabilityHistory,
+};
+
+/**
+ * A single recorded indicator value
+ */
+export interface IndicatorSnapshot {
+  date: string; // source timestamp (ISO)
+  value: number;
+  status: IndicatorStatus | null;
+}
+
+/**
+ * Result of a snapshot recording run
+ */
+export interface RecordSnapshotsResult {
+  recorded: Array<{ id: IndicatorId; value: number; timestamp: string }>;
+  failed: Array<{ id: IndicatorId; error: string }>;
+}
+
+export function isIndicatorId(id: string): id is IndicatorId {
+  return (INDICATOR_IDS as readonly string[]).includes(id);
+}
+
+/**
+ * Fetch every indicator and store its value with the source timestamp.
+ * Re-recording the same source timestamp updates the existing row, so the
+ * job can run as often as needed without creating duplicates.
+ */
+export async function recordIndicatorSnapshots(): Promise<RecordSnapshotsResult> {
+  const result: RecordSnapshotsResult = { recorded: [], failed: [] };
+
+  for (const id of INDICATOR_IDS) {
+    try {
+      const data = await INDICATOR_FETCHERS[id]();
+
+      await db.query(
+        `INSERT INTO indicator_snapshots (indicator_id, value, status, source_timestamp)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (indicator_id, source_timestamp)
+         DO UPDATE SET value = EXCLUDED.value, status = EXCLUDED.status, recorded_at = NOW()`,
+        [id, data.value, data.status, data.timestamp]
+      );
+
+      result.recorded.push({ id, value: data.value, timestamp: data.timestamp });
+    } catch (error) {
+      console.error(`Failed to record snapshot for ${id}:`, error);
+      result.failed.push({
+        id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Get recorded values for an indicator between two dates (inclusive), oldest first
+ */
+export async function getIndicatorHistory(
+  id: IndicatorId,
+  from: Date,
+  to: Date
+): Promise<IndicatorSnapshot[]> {
+  const sourceHistory = SOURCE_HISTORY[id];
+  if (sourceHistory) {
+    const points = await sourceHistory();
+    return points.filter((point) => {
+      const date = new Date(point.date);
+      return date >= from && date <= to;
+    });
+  }
+
+  const result = await db.query(
+    `SELECT value, status, source_timestamp
+     FROM indicator_snapshots
+     WHERE indicator_id = $1
+       AND source_timestamp >= $2
+       AND source_timestamp <= $3
+     ORDER BY source_timestamp ASC`,
+    [id, from.toISOString(), to.toISOString()]
+  );
+
+  return result.rows.map((row) => ({
+    date: new Date(row.source_timestamp).toISOString(),
+    value: parseFloat(row.value),
+    status: row.status,
+  }));
+}
@@ -0,0 +1,187 @@
+/**
+ * Liquidity
+ * Weekly Fed balance sheet and money-market liquidity from FRED, plus the
+ * Chicago Fed National Financial Conditions Index (all fetched through
+ * getFREDSeriesHistory / fetchFREDData):
+ * - WALCL: Fed total assets (millions, Wednesday level)
+ * - WTREGEN: Treasury General Account (millions, Wednesday level)
+ * - RRPONTSYD: overnight reverse repo (billions, daily)
+ * - NFCI: financial conditions (index, weekly; positive is tighter than average)
+ *
+ * Net liquidity = Fed total assets − TGA − reverse repo, on the Fed's
+ * Wednesday dates (TGA, RRP and NFCI use their latest value on or before).
+ */
+
+import { FREDObservation, getFREDSeriesHistory } from '@/lib/api/economicIndicators';
+
+/**
+ * Liquidity errors (statusCode maps to the HTTP response)
+ */
+export class LiquidityError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'LiquidityError';
+  }
+}
+
+export const LIQUIDITY_SERIES = {
+  fedAssets: 'WALCL',
+  tga: 'WTREGEN',
+  rrp: 'RRPONTSYD',
+  nfci: 'NFCI',
+} as const;
+
+const HISTORY_START = '2010-01-01';
+const LIQUIDITY_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Windows (weeks) for the rate-of-change figures
+ */
+export const CHANGE_WINDOWS = [4, 13, 52] as const;
+
+/**
+ * One Wednesday of the liquidity series (dollar amounts in billions)
+ */
+export interface LiquidityPoint {
+  date: string; // YYYY-MM-DD
+  fedAssets: number;
+  tga: number;
+  rrp: number;
+  netLiquidity: number;
+  nfci: number | null;
+  change4w: number | null; // % change of net liquidity over 4 weeks
+  change13w: number | null; // % change of net liquidity over 13 weeks
+}
+
+/**
+ * Change of net liquidity over one window
+ */
+export interface LiquidityChange {
+  weeks: number;
+  change: number; // billions
+  percent: number;
+}
+
+export interface LiquidityReport {
+  latest: LiquidityPoint;
+  changes: LiquidityChange[];
+  nfci: { value: number; date: string; conditions: 'tighter' | 'looser' } | null; // vs. the historical average
+  history: LiquidityPoint[];
+  generatedAt: string;
+}
+
+let cachedReport: { report: LiquidityReport; expiresAt: number } | null = null;
+let inFlight: Promise<LiquidityReport> | null = null;
+
+function round(value: number, digits: number = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Steps through an ascending series, returning the latest value on or before each date
+ * (dates must be requested in ascending order)
+ */
+function valueAtOrBefore(observations: FREDObservation[]): (date: string) => number | undefined {
+  let index = -1;
+  return (date: string) => {
+    while (index + 1 < observations.length && observations[index + 1].date <= date) index++;
+    return index >= 0 ? observations[index].value : undefined;
+  };
+}
+
+function percentChange(current: number, previous: number | undefined): number | null {
+  return previous ? round((current / previous - 1) * 100, 2) : null;
+}
+
+async function buildLiquidityReport(): Promise<LiquidityReport> {
+  const options = { observationStart: HISTORY_START };
+  const [fedAssets, tga, rrp, nfci] = await Promise.all([
+    getFREDSeriesHistory(LIQUIDITY_SERIES.fedAssets, options),
+    getFREDSeriesHistory(LIQUIDITY_SERIES.tga, options),
+    getFREDSeriesHistory(LIQUIDITY_SERIES.rrp, options),
+    getFREDSeriesHistory(LIQUIDITY_SERIES.nfci, options),
+  ]);
+
+  const tgaAt = valueAtOrBefore(tga);
+  const rrpAt = valueAtOrBefore(rrp);
+  const nfciAt = valueAtOrBefore(nfci);
+  const history: LiquidityPoint[] = [];
+
+  for (const { date, value } of fedAssets) {
+    const tgaValue = tgaAt(date);
+    if (tgaValue === undefined) continue;
+
+    // WALCL and WTREGEN are in millions, RRPONTSYD in billions
+    const assets = value / 1000;
+    const account = tgaValue / 1000;
+    const repo = rrpAt(date) ?? 0;
+    const netLiquidity = assets - account - repo;
+
+    history.push({
+      date,
+      fedAssets: round(assets),
+      tga: round(account),
+      rrp: round(repo),
+      netLiquidity: round(netLiquidity),
+      nfci: nfciAt(date) ?? null,
+      change4w: percentChange(netLiquidity, history[history.length - 4]?.netLiquidity),
+      change13w: percentChange(netLiquidity, history[history.length - 13]?.netLiquidity),
+    });
+  }
+
+  const latest = history[history.length - 1];
+  if (!latest) {
+    throw new LiquidityError('No Fed balance sheet data returned by FRED', 503, 'NO_DATA');
+  }
+
+  const changes: LiquidityChange[] = [];
+  for (const weeks of CHANGE_WINDOWS) {
+    const previous = history[history.length - 1 - weeks];
+    if (!previous) continue;
+    changes.push({
+      weeks,
+      change: round(latest.netLiquidity - previous.netLiquidity),
+      percent: round((latest.netLiquidity / previous.netLiquidity - 1) * 100, 2),
+    });
+  }
+
+  const latestNfci = nfci[nfci.length - 1];
+
+  return {
+    latest,
+    changes,
+    nfci: latestNfci
+      ? { value: latestNfci.value, date: latestNfci.date, conditions: latestNfci.value > 0 ? 'tighter' : 'looser' }
+      : null,
+    history,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Liquidity report, from cache when fresh (the series update weekly)
+ * Concurrent callers during a rebuild wait on the same fetch
+ */
+export async function getLiquidityReport(): Promise<LiquidityReport> {
+  if (cachedReport && cachedReport.expiresAt > Date.now()) {
+    return cachedReport.report;
+  }
+
+  if (!inFlight) {
+    inFlight = buildLiquidityReport()
+      .then((report) => {
+        cachedReport = { report, expiresAt: Date.now() + LIQUIDITY_CACHE_TTL_MS };
+        return report;
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+  }
+
+  return inFlight;
+}
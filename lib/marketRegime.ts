@@ -0,0 +1,282 @@
+/**
+ * Market Regime
+ * Drawdown and volatility analytics for the S&P 500, Nasdaq 100 and Dow from
+ * the daily closes stored in the candle cache (lib/candles.ts):
+ * - running peak, drawdown from the peak and days since the peak
+ * - 20- and 60-day realized volatility (annualized)
+ * - VIX minus S&P 500 realized volatility
+ * The S&P 500 readings set the regime label, and its drawdown is compared
+ * with the crash paths in lib/data/historicalCrashes.ts.
+ *
+ * Closes go back as far as one candle window allows (ten years), so the
+ * "all-time" high is the highest close in that history.
+ */
+
+import { getCandles, MAX_CANDLE_WINDOW_MS } from '@/lib/candles';
+import { getMarketSnapshot } from '@/lib/api/marketSnapshot';
+import { crashData, drawdownEvents } from '@/lib/data/historicalCrashes';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 30.44;
+const TRADING_DAYS_PER_YEAR = 252;
+
+const REGIME_CACHE_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Days of drawdown history returned for the chart
+ */
+const HISTORY_DAYS = 365;
+
+export const REGIME_INDICES = [
+  { symbol: 'SP500', name: 'S&P 500' },
+  { symbol: 'NASDAQ', name: 'Nasdaq 100' },
+  { symbol: 'DOW', name: 'Dow Jones 30' },
+] as const;
+
+export type RegimeIndexSymbol = (typeof REGIME_INDICES)[number]['symbol'];
+
+/**
+ * Drawdown bands: near-high > -5%, pullback -5 to -10%, correction -10 to -20%, bear <= -20%
+ */
+export type DrawdownRegime = 'near-high' | 'pullback' | 'correction' | 'bear';
+
+/**
+ * 20-day realized volatility bands: calm < 12%, normal 12-20%, elevated 20-30%, stressed >= 30%
+ */
+export type VolatilityRegime = 'calm' | 'normal' | 'elevated' | 'stressed';
+
+/**
+ * Drawdown and volatility for one index
+ */
+export interface IndexRegime {
+  symbol: RegimeIndexSymbol;
+  name: string;
+  close: number;
+  date: string; // date of the latest close (ISO)
+  peak: number;
+  peakDate: string;
+  drawdown: number; // percent from the peak, 0 or negative
+  daysSincePeak: number;
+  realizedVol20: number | null; // annualized percent
+  realizedVol60: number | null;
+  drawdownRegime: DrawdownRegime;
+  volatilityRegime: VolatilityRegime | null;
+  historyStart: string; // first stored close; the peak is the highest close since
+  history: Array<{ date: string; drawdown: number }>; // last HISTORY_DAYS
+}
+
+/**
+ * Today's S&P 500 drawdown next to a historical crash
+ */
+export interface CrashComparison {
+  id: string;
+  name: string;
+  peak: string; // YYYY-MM
+  trough: string; // YYYY-MM
+  troughDrawdown: number; // percent at the trough
+  monthsToTrough: number;
+  // Drawdown the crash path had reached the same number of months after its
+  // peak (null for crashes without a monthly path)
+  pathDrawdown: number | null;
+}
+
+export interface MarketRegime {
+  regime: string; // label, e.g. "Correction, elevated volatility"
+  drawdownRegime: DrawdownRegime;
+  volatilityRegime: VolatilityRegime | null;
+  indices: IndexRegime[];
+  vix: number | null;
+  vixPremium: number | null; // VIX minus S&P 500 20-day realized volatility
+  monthsSincePeak: number; // S&P 500
+  crashComparisons: CrashComparison[];
+  generatedAt: string;
+}
+
+/**
+ * Monthly paths (indexed to 100 at the peak) for crashes that have one
+ */
+const CRASH_PATHS: Record<string, Array<{ date: string; value: number }>> = {
+  crash1929: crashData.crash1929,
+  crash2008: crashData.crash2008,
+};
+
+let cachedRegime: { regime: MarketRegime; expiresAt: number } | null = null;
+let inFlight: Promise<MarketRegime> | null = null;
+
+function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Annualized standard deviation of the last `sessions` daily log returns (percent)
+ */
+function realizedVolatility(closes: number[], sessions: number): number | null {
+  if (closes.length < sessions + 1) return null;
+  const recent = closes.slice(-(sessions + 1));
+  const returns = recent.slice(1).map((close, i) => Math.log(close / recent[i]));
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance = returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (returns.length - 1);
+  return round(Math.sqrt(variance * TRADING_DAYS_PER_YEAR) * 100);
+}
+
+function drawdownRegimeOf(drawdown: number): DrawdownRegime {
+  if (drawdown <= -20) return 'bear';
+  if (drawdown <= -10) return 'correction';
+  if (drawdown <= -5) return 'pullback';
+  return 'near-high';
+}
+
+function volatilityRegimeOf(volatility: number | null): VolatilityRegime | null {
+  if (volatility === null) return null;
+  if (volatility >= 30) return 'stressed';
+  if (volatility >= 20) return 'elevated';
+  if (volatility >= 12) return 'normal';
+  return 'calm';
+}
+
+const DRAWDOWN_LABELS: Record<DrawdownRegime, string> = {
+  'near-high': 'Near highs',
+  pullback: 'Pullback',
+  correction: 'Correction',
+  bear: 'Bear market',
+};
+
+function regimeLabel(drawdownRegime: DrawdownRegime, volatilityRegime: VolatilityRegime | null): string {
+  const label = DRAWDOWN_LABELS[drawdownRegime];
+  return volatilityRegime ? `${label}, ${volatilityRegime} volatility` : label;
+}
+
+/**
+ * Months between two YYYY-MM strings
+ */
+function monthsBetween(from: string, to: string): number {
+  const [fromYear, fromMonth] = from.split('-').map(Number);
+  const [toYear, toMonth] = to.split('-').map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+}
+
+/**
+ * Drawdown of a crash path `months` after its peak, interpolated between
+ * monthly points (the last point is held once the path ends)
+ */
+function pathDrawdownAt(id: string, peak: string, months: number): number | null {
+  const path = CRASH_PATHS[id];
+  if (!path) return null;
+
+  const points = path
+    .map((point) => ({ months: monthsBetween(peak, point.date), drawdown: point.value - 100 }))
+    .filter((point) => point.months >= 0);
+  if (points.length === 0) return null;
+  if (months <= points[0].months) return points[0].drawdown;
+
+  for (let i = 1; i < points.length; i++) {
+    if (months <= points[i].months) {
+      const previous = points[i - 1];
+      const share = (months - previous.months) / (points[i].months - previous.months);
+      return round(previous.drawdown + share * (points[i].drawdown - previous.drawdown), 1);
+    }
+  }
+  return points[points.length - 1].drawdown;
+}
+
+/**
+ * Drawdown and volatility for one index from its stored daily closes
+ */
+async function getIndexRegime(symbol: RegimeIndexSymbol, name: string, now: Date): Promise<IndexRegime> {
+  // Stay a day inside the longest window getCandles allows
+  const from = new Date(now.getTime() - MAX_CANDLE_WINDOW_MS.D + DAY_MS);
+  const { candles } = await getCandles(symbol, 'index', 'D', from, now);
+  if (candles.length === 0) {
+    throw new Error(`No daily closes stored for ${symbol}`);
+  }
+
+  const historyFrom = new Date(now.getTime() - HISTORY_DAYS * DAY_MS).toISOString();
+  const history: IndexRegime['history'] = [];
+  let peak = candles[0];
+
+  for (const candle of candles) {
+    if (candle.close >= peak.close) peak = candle;
+    if (candle.time >= historyFrom) {
+      history.push({ date: candle.time, drawdown: round((candle.close / peak.close - 1) * 100) });
+    }
+  }
+
+  const latest = candles[candles.length - 1];
+  const closes = candles.map((candle) => candle.close);
+  const drawdown = round((latest.close / peak.close - 1) * 100);
+  const realizedVol20 = realizedVolatility(closes, 20);
+
+  return {
+    symbol,
+    name,
+    close: latest.close,
+    date: latest.time,
+    peak: peak.close,
+    peakDate: peak.time,
+    drawdown,
+    daysSincePeak: Math.round((new Date(latest.time).getTime() - new Date(peak.time).getTime()) / DAY_MS),
+    realizedVol20,
+    realizedVol60: realizedVolatility(closes, 60),
+    drawdownRegime: drawdownRegimeOf(drawdown),
+    volatilityRegime: volatilityRegimeOf(realizedVol20),
+    historyStart: candles[0].time,
+    history,
+  };
+}
+
+async function buildMarketRegime(): Promise<MarketRegime> {
+  const now = new Date();
+  const [indices, vix] = await Promise.all([
+    Promise.all(REGIME_INDICES.map(({ symbol, name }) => getIndexRegime(symbol, name, now))),
+    getMarketSnapshot()
+      .then((snapshot) => (snapshot.vix.value > 0 ? snapshot.vix.value : null))
+      .catch(() => null),
+  ]);
+
+  const sp500 = indices[0];
+  const monthsSincePeak = round(sp500.daysSincePeak / DAYS_PER_MONTH, 1);
+
+  return {
+    regime: regimeLabel(sp500.drawdownRegime, sp500.volatilityRegime),
+    drawdownRegime: sp500.drawdownRegime,
+    volatilityRegime: sp500.volatilityRegime,
+    indices,
+    vix,
+    vixPremium: vix !== null && sp500.realizedVol20 !== null ? round(vix - sp500.realizedVol20) : null,
+    monthsSincePeak,
+    crashComparisons: drawdownEvents.map((event) => ({
+      id: event.id,
+      name: event.name,
+      peak: event.peak,
+      trough: event.trough,
+      troughDrawdown: event.drawdown,
+      monthsToTrough: monthsBetween(event.peak, event.trough),
+      pathDrawdown: pathDrawdownAt(event.id, event.peak, monthsSincePeak),
+    })),
+    generatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Current market regime, from cache when fresh
+ * Concurrent callers during a rebuild wait on the same fetch
+ */
+export async function getMarketRegime(): Promise<MarketRegime> {
+  if (cachedRegime && cachedRegime.expiresAt > Date.now()) {
+    return cachedRegime.regime;
+  }
+
+  if (!inFlight) {
+    inFlight = buildMarketRegime()
+      .then((regime) => {
+        cachedRegime = { regime, expiresAt: Date.now() + REGIME_CACHE_TTL_MS };
+        return regime;
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+  }
+
+  return inFlight;
+}
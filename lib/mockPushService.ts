@@ -0,0 +1,221 @@
+/**
+ * Mock Push Service
+ * Stands in for a browser vendor's push service so push notifications can
+ * be tested without a browser. It issues subscriptions whose endpoint is
+ * /api/push/mock/<id>, then checks the VAPID signature on each message sent
+ * there and decrypts it the way a browser would, keeping the latest messages
+ * in memory. Enabled outside production, or with PUSH_MOCK_ENABLED=true.
+ */
+
+import { createDecipheriv, createECDH, createPublicKey, ECDH, hkdfSync, randomUUID, randomBytes, verify } from 'crypto';
+import { isMockPushEnabled, PushNotification, PushSubscriptionKeys, WebPushError } from '@/lib/webPush';
+
+const MAX_MOCK_CLIENTS = 100;
+const MAX_MESSAGES = 50; // per client, newest kept
+
+interface MockClient {
+  ecdh: ECDH;
+  publicKey: Buffer;
+  authSecret: Buffer;
+  endpoint: string;
+  messages: MockPushMessage[];
+}
+
+/**
+ * A message as the browser would have received it
+ */
+export interface MockPushMessage {
+  receivedAt: string;
+  ttl: number;
+  urgency: string | null;
+  topic: string | null;
+  vapidSubject: string;
+  notification: PushNotification;
+}
+
+const clients = new Map<string, MockClient>();
+
+function assertEnabled(): void {
+  if (!isMockPushEnabled()) {
+    throw new WebPushError('Mock push service is disabled', 404, 'MOCK_DISABLED');
+  }
+}
+
+function getClient(id: string): MockClient {
+  const client = clients.get(id);
+  if (!client) {
+    // Push services answer 410 Gone for subscriptions they no longer hold
+    throw new WebPushError('Mock subscription not found', 410, 'SUBSCRIPTION_GONE');
+  }
+  return client;
+}
+
+/**
+ * New mock browser subscription on this server (origin of the request)
+ */
+export function createMockSubscription(origin: string): { id: string; subscription: PushSubscriptionKeys } {
+  assertEnabled();
+
+  if (clients.size >= MAX_MOCK_CLIENTS) {
+    clients.delete(clients.keys().next().value as string);
+  }
+
+  const id = randomUUID();
+  const ecdh = createECDH('prime256v1');
+  const publicKey = ecdh.generateKeys();
+  const authSecret = randomBytes(16);
+  const endpoint = `${origin}/api/push/mock/${id}`;
+  clients.set(id, { ecdh, publicKey, authSecret, endpoint, messages: [] });
+
+  return {
+    id,
+    subscription: {
+      endpoint,
+      keys: { p256dh: publicKey.toString('base64url'), auth: authSecret.toString('base64url') },
+    },
+  };
+}
+
+/**
+ * Check a VAPID Authorization header: signature, audience and expiry
+ * Returns the subject claim.
+ */
+function verifyVapid(authorization: string | null, endpoint: string): string {
+  const match = authorization?.match(/^vapid t=([\w-]+\.[\w-]+\.[\w-]+),\s*k=([\w-]+)$/);
+  if (!match) {
+    throw new WebPushError('Missing or malformed VAPID authorization', 401, 'INVALID_VAPID');
+  }
+
+  const [header, claims, signature] = match[1].split('.');
+  const publicKey = Buffer.from(match[2], 'base64url');
+  if (publicKey.length !== 65) {
+    throw new WebPushError('Invalid VAPID public key', 401, 'INVALID_VAPID');
+  }
+
+  const key = createPublicKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33, 65).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+  const valid = verify('sha256', Buffer.from(`${header}.${claims}`), { key, dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64url'));
+  if (!valid) {
+    throw new WebPushError('VAPID signature does not verify', 401, 'INVALID_VAPID');
+  }
+
+  const payload = JSON.parse(Buffer.from(claims, 'base64url').toString()) as { aud?: string; exp?: number; sub?: string };
+  const now = Date.now() / 1000;
+  if (payload.aud !== new URL(endpoint).origin) {
+    throw new WebPushError('VAPID audience does not match the push service', 403, 'INVALID_VAPID');
+  }
+  if (!payload.exp || payload.exp < now || payload.exp > now + 24 * 60 * 60) {
+    throw new WebPushError('VAPID token expired or valid for over 24 hours', 403, 'INVALID_VAPID');
+  }
+  if (!payload.sub || !/^(mailto:|https:)/.test(payload.sub)) {
+    throw new WebPushError('VAPID subject must be a mailto: or https: URL', 403, 'INVALID_VAPID');
+  }
+
+  return payload.sub;
+}
+
+/**
+ * Content encryption key and nonce for one message (RFC 8291 section 3.4),
+ * derived independently of the web-push package that encrypts it
+ */
+function deriveContentKeys(
+  sharedSecret: Buffer,
+  authSecret: Buffer,
+  browserPublicKey: Buffer,
+  serverPublicKey: Buffer,
+  salt: Buffer
+): { key: Buffer; nonce: Buffer } {
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), browserPublicKey, serverPublicKey]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+
+  return {
+    key: Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16)),
+    nonce: Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12)),
+  };
+}
+
+/**
+ * Decrypt a single-record aes128gcm body with the client's keys
+ */
+function decrypt(client: MockClient, body: Buffer): string {
+  if (body.length < 21) {
+    throw new WebPushError('Body too short for an aes128gcm header', 400, 'INVALID_ENCRYPTION');
+  }
+  const salt = body.subarray(0, 16);
+  const idLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + idLength);
+  const record = body.subarray(21 + idLength);
+
+  try {
+    const { key, nonce } = deriveContentKeys(
+      client.ecdh.computeSecret(serverPublicKey),
+      client.authSecret,
+      client.publicKey,
+      serverPublicKey,
+      salt
+    );
+    const decipher = createDecipheriv('aes-128-gcm', key, nonce);
+    decipher.setAuthTag(record.subarray(record.length - 16));
+    const padded = Buffer.concat([decipher.update(record.subarray(0, record.length - 16)), decipher.final()]);
+
+    // Content ends with the 0x02 last-record delimiter, then zero padding
+    let end = padded.length - 1;
+    while (end >= 0 && padded[end] === 0) end--;
+    if (padded[end] !== 2) throw new Error('missing record delimiter');
+    return padded.subarray(0, end).toString();
+  } catch {
+    throw new WebPushError('Could not decrypt the push message', 400, 'INVALID_ENCRYPTION');
+  }
+}
+
+/**
+ * Accept a push message for a mock subscription, as a push service would
+ */
+export function receiveMockPush(id: string, headers: Headers, body: Buffer): MockPushMessage {
+  assertEnabled();
+  const client = getClient(id);
+
+  if (headers.get('content-encoding') !== 'aes128gcm') {
+    throw new WebPushError('Content-Encoding must be aes128gcm', 415, 'INVALID_ENCRYPTION');
+  }
+  const ttl = parseInt(headers.get('ttl') ?? '', 10);
+  if (!Number.isFinite(ttl) || ttl < 0) {
+    throw new WebPushError('TTL header is required', 400, 'MISSING_TTL');
+  }
+
+  const vapidSubject = verifyVapid(headers.get('authorization'), client.endpoint);
+  const message: MockPushMessage = {
+    receivedAt: new Date().toISOString(),
+    ttl,
+    urgency: headers.get('urgency'),
+    topic: headers.get('topic'),
+    vapidSubject,
+    notification: JSON.parse(decrypt(client, body)),
+  };
+
+  client.messages = [message, ...client.messages].slice(0, MAX_MESSAGES);
+  return message;
+}
+
+/**
+ * Messages received for a mock subscription, newest first
+ */
+export function getMockMessages(id: string): MockPushMessage[] {
+  assertEnabled();
+  return getClient(id).messages;
+}
+
+/**
+ * Forget a mock subscription; later pushes to it get 410 Gone
+ */
+export function deleteMockSubscription(id: string): void {
+  assertEnabled();
+  clients.delete(id);
+}
@@ -0,0 +1,492 @@
+/**
+ * Notification Channels
+ * Posts alerts to team chat and other services: Slack incoming webhooks,
+ * Discord webhooks, and generic JSON webhooks signed with an HMAC header.
+ * Channels are configured in the admin panel (notification_channels), each
+ * with the alert severities it receives. Failed posts are retried with
+ * backoff, and every notification is logged in notification_logs.
+ *
+ * Generic webhook signature: X-Webhook-Signature is
+ * "sha256=" + hex HMAC-SHA256(secret, `${X-Webhook-Timestamp}.${body}`).
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import { db } from '@/lib/db';
+import type { AlertSeverity } from '@/lib/alertEngine';
+
+/**
+ * Notification channel errors (statusCode maps to the HTTP response)
+ */
+export class NotificationChannelError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'NotificationChannelError';
+  }
+}
+
+export type ChannelType = 'slack' | 'discord' | 'webhook';
+
+export const CHANNEL_TYPES: ChannelType[] = ['slack', 'discord', 'webhook'];
+export const CHANNEL_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+export const DEFAULT_CHANNEL_SEVERITIES: AlertSeverity[] = ['warning', 'critical'];
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000; // doubled after each failed attempt
+const MAX_RETRY_DELAY_MS = 10000;
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_NAME_LENGTH = 100;
+
+const SEVERITY_COLORS: Record<AlertSeverity, string> = {
+  info: '#3b82f6',
+  warning: '#f59e0b',
+  critical: '#dc2626',
+};
+
+const SEVERITY_EMOJI: Record<AlertSeverity, string> = {
+  info: 'ℹ️',
+  warning: '⚠️',
+  critical: '🚨',
+};
+
+// Get base URL - prioritize explicit setting, then Vercel URL, then default to production domain
+const BASE_URL =
+  process.env.NEXT_PUBLIC_BASE_URL ||
+  (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'https://marketcrashmonitor.com');
+
+/**
+ * Channel as shown in the admin panel (the URL is masked, the secret never returned)
+ */
+export interface NotificationChannel {
+  id: string;
+  name: string;
+  type: ChannelType;
+  url: string;
+  hasSecret: boolean;
+  severities: AlertSeverity[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Alert posted to channels
+ */
+export interface ChannelAlert {
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+}
+
+/**
+ * Outcome of posting to one channel
+ */
+export interface ChannelDelivery {
+  ok: boolean;
+  attempts: number;
+  status: number | null; // last HTTP status, null when the request failed
+  error?: string;
+}
+
+export interface ChannelDeliveryResult {
+  channels: string[]; // names of the channels notified (or that would be, in a dry run)
+  sent: number;
+  failed: number;
+  errors: Array<{ channel: string; error: string }>;
+}
+
+interface ChannelRow {
+  id: string;
+  name: string;
+  type: ChannelType;
+  url: string;
+  secret: string | null;
+  severities: AlertSeverity[];
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Webhook URLs carry their own credentials, so only the host and the start
+ * of the path are shown
+ */
+function maskUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname.slice(0, 16)}…`;
+  } catch {
+    return '…';
+  }
+}
+
+function toChannel(row: ChannelRow): NotificationChannel {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.type,
+    url: maskUrl(row.url),
+    hasSecret: Boolean(row.secret),
+    severities: row.severities,
+    enabled: row.enabled,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  };
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function assertId(id: string): void {
+  if (!UUID_PATTERN.test(id)) {
+    throw new NotificationChannelError('Notification channel not found', 404, 'CHANNEL_NOT_FOUND');
+  }
+}
+
+/**
+ * Check a webhook URL belongs to the channel's service
+ */
+function validUrl(type: ChannelType, input: unknown): string {
+  let url: URL;
+  try {
+    url = new URL(typeof input === 'string' ? input.trim() : '');
+  } catch {
+    throw new NotificationChannelError('url must be a valid URL', 400, 'INVALID_CHANNEL');
+  }
+
+  if (type === 'slack' && !(url.protocol === 'https:' && url.hostname === 'hooks.slack.com')) {
+    throw new NotificationChannelError('Slack URLs must be incoming webhooks on https://hooks.slack.com', 400, 'INVALID_CHANNEL');
+  }
+  if (
+    type === 'discord' &&
+    !(
+      url.protocol === 'https:' &&
+      ['discord.com', 'discordapp.com', 'ptb.discord.com', 'canary.discord.com'].includes(url.hostname) &&
+      url.pathname.startsWith('/api/webhooks/')
+    )
+  ) {
+    throw new NotificationChannelError('Discord URLs must be webhooks on https://discord.com/api/webhooks/', 400, 'INVALID_CHANNEL');
+  }
+  // Plain http is accepted outside production, for local receivers
+  const allowHttp = process.env.NODE_ENV !== 'production';
+  if (type === 'webhook' && url.protocol !== 'https:' && !(allowHttp && url.protocol === 'http:')) {
+    throw new NotificationChannelError('Webhook URLs must use https', 400, 'INVALID_CHANNEL');
+  }
+
+  return url.toString();
+}
+
+function validSeverities(input: unknown): AlertSeverity[] {
+  if (!Array.isArray(input) || input.length === 0 || input.some((severity) => !CHANNEL_SEVERITIES.includes(severity))) {
+    throw new NotificationChannelError(
+      `severities must be a non-empty list of ${CHANNEL_SEVERITIES.join(', ')}`,
+      400,
+      'INVALID_CHANNEL'
+    );
+  }
+  return CHANNEL_SEVERITIES.filter((severity) => input.includes(severity));
+}
+
+function validName(input: unknown): string {
+  const name = typeof input === 'string' ? input.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw new NotificationChannelError(`name is required (at most ${MAX_NAME_LENGTH} characters)`, 400, 'INVALID_CHANNEL');
+  }
+  return name;
+}
+
+function validSecret(input: unknown): string | null {
+  if (input === undefined || input === null || input === '') return null;
+  if (typeof input !== 'string' || input.length < 16 || input.length > 255) {
+    throw new NotificationChannelError('secret must be 16 to 255 characters', 400, 'INVALID_CHANNEL');
+  }
+  return input;
+}
+
+async function getChannelRow(id: string): Promise<ChannelRow> {
+  assertId(id);
+  const result = await db.query('SELECT * FROM notification_channels WHERE id = $1', [id]);
+  if (result.rows.length === 0) {
+    throw new NotificationChannelError('Notification channel not found', 404, 'CHANNEL_NOT_FOUND');
+  }
+  return result.rows[0];
+}
+
+/**
+ * List all channels, oldest first
+ */
+export async function getNotificationChannels(): Promise<NotificationChannel[]> {
+  const result = await db.query('SELECT * FROM notification_channels ORDER BY created_at ASC');
+  return result.rows.map(toChannel);
+}
+
+/**
+ * Create a channel; generic webhooks without a secret get a generated one,
+ * returned once so the receiver can be configured to verify signatures
+ */
+export async function createNotificationChannel(input: {
+  name?: unknown;
+  type?: unknown;
+  url?: unknown;
+  secret?: unknown;
+  severities?: unknown;
+  enabled?: unknown;
+}): Promise<{ channel: NotificationChannel; secret?: string }> {
+  if (!CHANNEL_TYPES.includes(input.type as ChannelType)) {
+    throw new NotificationChannelError(`type must be one of ${CHANNEL_TYPES.join(', ')}`, 400, 'INVALID_CHANNEL');
+  }
+  const type = input.type as ChannelType;
+  const name = validName(input.name);
+  const url = validUrl(type, input.url);
+  const severities = input.severities === undefined ? DEFAULT_CHANNEL_SEVERITIES : validSeverities(input.severities);
+
+  let secret = type === 'webhook' ? validSecret(input.secret) : null;
+  const generated = type === 'webhook' && !secret;
+  if (generated) {
+    secret = randomBytes(32).toString('hex');
+  }
+
+  const result = await db.query(
+    `INSERT INTO notification_channels (name, type, url, secret, severities, enabled)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [name, type, url, secret, severities, input.enabled === undefined ? true : input.enabled === true]
+  );
+
+  return { channel: toChannel(result.rows[0]), ...(generated && secret ? { secret } : {}) };
+}
+
+/**
+ * Update a channel (omitted fields are unchanged; the type cannot change)
+ */
+export async function updateNotificationChannel(
+  id: string,
+  input: { name?: unknown; url?: unknown; secret?: unknown; severities?: unknown; enabled?: unknown }
+): Promise<NotificationChannel> {
+  const existing = await getChannelRow(id);
+
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    throw new NotificationChannelError('enabled must be true or false', 400, 'INVALID_CHANNEL');
+  }
+
+  const result = await db.query(
+    `UPDATE notification_channels
+     SET name = $2, url = $3, secret = $4, severities = $5, enabled = $6, updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [
+      id,
+      input.name === undefined ? existing.name : validName(input.name),
+      input.url === undefined || input.url === '' ? existing.url : validUrl(existing.type, input.url),
+      existing.type === 'webhook' && input.secret !== undefined && input.secret !== ''
+        ? validSecret(input.secret)
+        : existing.secret,
+      input.severities === undefined ? existing.severities : validSeverities(input.severities),
+      input.enabled === undefined ? existing.enabled : input.enabled,
+    ]
+  );
+  return toChannel(result.rows[0]);
+}
+
+export async function deleteNotificationChannel(id: string): Promise<void> {
+  assertId(id);
+  const result = await db.query('DELETE FROM notification_channels WHERE id = $1 RETURNING id', [id]);
+  if (result.rows.length === 0) {
+    throw new NotificationChannelError('Notification channel not found', 404, 'CHANNEL_NOT_FOUND');
+  }
+}
+
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function getSubject(alerts: ChannelAlert[]): string {
+  return alerts.length === 1 ? alerts[0].title : `${alerts.length} market alerts`;
+}
+
+/**
+ * Request body and headers for a channel's service
+ */
+function buildRequest(
+  channel: Pick<ChannelRow, 'type' | 'secret'>,
+  alerts: ChannelAlert[],
+  event: 'alert' | 'test'
+): { body: string; headers: Record<string, string> } {
+  const subject = getSubject(alerts);
+
+  if (channel.type === 'slack') {
+    return {
+      headers: {},
+      body: JSON.stringify({
+        text: escapeSlack(subject),
+        attachments: alerts.map((alert) => ({
+          color: SEVERITY_COLORS[alert.severity],
+          title: `${SEVERITY_EMOJI[alert.severity]} ${escapeSlack(alert.title)}`,
+          text: escapeSlack(alert.message),
+          footer: `Market Crash Monitor · <${BASE_URL}|View dashboard>`,
+        })),
+      }),
+    };
+  }
+
+  if (channel.type === 'discord') {
+    return {
+      headers: {},
+      body: JSON.stringify({
+        username: 'Market Crash Monitor',
+        allowed_mentions: { parse: [] },
+        embeds: alerts.slice(0, 10).map((alert) => ({
+          title: `${SEVERITY_EMOJI[alert.severity]} ${alert.title}`.slice(0, 256),
+          description: alert.message.slice(0, 4096),
+          color: parseInt(SEVERITY_COLORS[alert.severity].slice(1), 16),
+          url: BASE_URL,
+          timestamp: new Date().toISOString(),
+        })),
+      }),
+    };
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const body = JSON.stringify({ event, sentAt: new Date().toISOString(), subject, alerts, url: BASE_URL });
+  const headers: Record<string, string> = { 'X-Webhook-Timestamp': timestamp };
+  if (channel.secret) {
+    headers['X-Webhook-Signature'] = `sha256=${signWebhook(channel.secret, timestamp, body)}`;
+  }
+  return { body, headers };
+}
+
+/**
+ * Hex HMAC-SHA256 of `${timestamp}.${body}`, as sent in X-Webhook-Signature
+ */
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * POST with retries: network errors, 429 and 5xx are retried with
+ * exponential backoff (or the service's Retry-After); other 4xx are final
+ */
+async function postWithRetry(url: string, body: string, headers: Record<string, string>): Promise<ChannelDelivery> {
+  let status: number | null = null;
+  let error = 'Unknown error';
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    let delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'User-Agent': 'MarketCrashMonitor-Alerts/1.0', ...headers },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      status = response.status;
+      if (response.ok) {
+        return { ok: true, attempts: attempt, status };
+      }
+
+      error = `HTTP ${response.status}: ${(await response.text().catch(() => '')).slice(0, 200)}`;
+      if (response.status !== 429 && response.status < 500) {
+        return { ok: false, attempts: attempt, status, error };
+      }
+      const retryAfter = parseFloat(response.headers.get('retry-after') ?? '');
+      if (Number.isFinite(retryAfter)) delay = retryAfter * 1000;
+    } catch (requestError) {
+      status = null;
+      error = requestError instanceof Error ? requestError.message : 'Request failed';
+    }
+
+    if (attempt < MAX_ATTEMPTS) {
+      await new Promise((resolve) => setTimeout(resolve, Math.min(delay, MAX_RETRY_DELAY_MS)));
+    }
+  }
+
+  return { ok: false, attempts: MAX_ATTEMPTS, status, error };
+}
+
+/**
+ * Post alerts to one channel and log the outcome
+ */
+async function deliver(channel: ChannelRow, alerts: ChannelAlert[], event: 'alert' | 'test'): Promise<ChannelDelivery> {
+  const { body, headers } = buildRequest(channel, alerts, event);
+  const delivery = await postWithRetry(channel.url, body, headers);
+
+  try {
+    await db.query(
+      `INSERT INTO notification_logs (channel_id, channel_type, notification_type, subject, status, attempts, response_status, error_message)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        channel.id,
+        channel.type,
+        event,
+        getSubject(alerts).slice(0, 255),
+        delivery.ok ? 'sent' : 'failed',
+        delivery.attempts,
+        delivery.status,
+        delivery.error || null,
+      ]
+    );
+  } catch (logError) {
+    console.error('Failed to log channel notification:', logError);
+  }
+
+  return delivery;
+}
+
+/**
+ * Enabled channels that receive any of the given severities
+ */
+export async function getAlertChannels(severities: AlertSeverity[]): Promise<ChannelRow[]> {
+  if (severities.length === 0) return [];
+  const result = await db.query(
+    'SELECT * FROM notification_channels WHERE enabled = true AND severities && $1::text[] ORDER BY created_at ASC',
+    [severities]
+  );
+  return result.rows;
+}
+
+/**
+ * Post the alerts to each channel, filtered to the severities it receives
+ * Channels are notified in parallel; failures are counted, not thrown.
+ */
+export async function deliverChannelAlerts(channels: ChannelRow[], alerts: ChannelAlert[]): Promise<ChannelDeliveryResult> {
+  const result: ChannelDeliveryResult = { channels: [], sent: 0, failed: 0, errors: [] };
+
+  await Promise.all(
+    channels.map(async (channel) => {
+      const matching = alerts.filter((alert) => channel.severities.includes(alert.severity));
+      if (matching.length === 0) return;
+
+      result.channels.push(channel.name);
+      const delivery = await deliver(channel, matching, 'alert');
+      if (delivery.ok) {
+        result.sent++;
+      } else {
+        result.failed++;
+        result.errors.push({ channel: channel.name, error: delivery.error || 'Unknown error' });
+      }
+    })
+  );
+
+  return result;
+}
+
+/**
+ * Post a test alert to a channel, whatever its severities and enabled flag
+ */
+export async function sendTestChannelNotification(id: string): Promise<ChannelDelivery> {
+  const channel = await getChannelRow(id);
+  return deliver(
+    channel,
+    [
+      {
+        severity: channel.severities[channel.severities.length - 1] ?? 'info',
+        title: 'Test notification',
+        message: `"${channel.name}" is set up to receive ${channel.severities.join(', ')} alerts.`,
+      },
+    ],
+    'test'
+  );
+}
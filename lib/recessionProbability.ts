@@ -0,0 +1,227 @@
+/**
+ * Recession Probability
+ * The NY Fed yield curve model: a probit regression of "recession twelve
+ * months ahead" on the monthly average 10-year minus 3-month Treasury spread
+ * (Estrella & Trehan). Applying its published coefficients to the T10Y3M
+ * history gives a monthly probability series, stored in recession_probability.
+ *
+ * Only complete months are used, so the latest probability is for the spread
+ * of last month and refers to the same month next year.
+ */
+
+import { db } from '@/lib/db';
+import {
+  EconomicIndicatorResponse,
+  getFREDSeriesHistory,
+  IndicatorHistoryPoint,
+  IndicatorStatus,
+} from '@/lib/api/economicIndicators';
+
+/**
+ * Recession probability errors (statusCode maps to the HTTP response)
+ */
+export class RecessionProbabilityError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'RecessionProbabilityError';
+  }
+}
+
+/**
+ * Probit coefficients published by the NY Fed:
+ * P(recession in 12 months) = Φ(α + β × spread)
+ */
+export const PROBIT_ALPHA = -0.5333;
+export const PROBIT_BETA = -0.633;
+
+/**
+ * FRED series for the 10-year minus 3-month spread (daily, starts 1982)
+ */
+const SPREAD_SERIES = 'T10Y3M';
+const SPREAD_HISTORY_START = '1982-01-01';
+
+/**
+ * Status levels (%); readings above 30% have preceded every recession since the 1960s
+ */
+const WARNING_LEVEL = 30;
+const DANGER_LEVEL = 50;
+
+/**
+ * The latest month is stale when it is more than this many months behind the current month
+ */
+const MAX_LAG_MONTHS = 2;
+
+/**
+ * One month of the probability series
+ */
+export interface RecessionProbabilityPoint {
+  month: string; // YYYY-MM-01 of the averaged spread
+  spread: number; // percentage points
+  probability: number; // percent
+  targetMonth: string; // YYYY-MM-01, twelve months later
+}
+
+/**
+ * Latest probability in the indicator response shape
+ */
+export interface RecessionProbabilityResponse extends EconomicIndicatorResponse {
+  spread: number; // monthly average spread behind the probability
+  targetMonth: string; // month the probability refers to (ISO)
+}
+
+/**
+ * Result of a recompute run
+ */
+export interface UpdateRecessionProbabilityResult {
+  months: number;
+  latest: RecessionProbabilityPoint | null;
+}
+
+function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+ */
+function normalCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-z * z);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Probability (%) of a recession twelve months after a month with this average spread
+ */
+export function getRecessionProbabilityForSpread(spread: number): number {
+  return round(normalCdf(PROBIT_ALPHA + PROBIT_BETA * spread) * 100);
+}
+
+function getStatus(probability: number): IndicatorStatus {
+  if (probability >= DANGER_LEVEL) return 'danger';
+  if (probability >= WARNING_LEVEL) return 'warning';
+  return 'safe';
+}
+
+function addMonths(month: string, months: number): string {
+  const date = new Date(`${month}T00:00:00Z`);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Recompute the probability series from the T10Y3M history and store every
+ * complete month (re-running updates the stored rows)
+ */
+export async function updateRecessionProbability(): Promise<UpdateRecessionProbabilityResult> {
+  const observations = await getFREDSeriesHistory(SPREAD_SERIES, { observationStart: SPREAD_HISTORY_START });
+  const currentMonth = `${new Date().toISOString().slice(0, 7)}-01`;
+
+  const sums = new Map<string, { total: number; count: number }>();
+  for (const { date, value } of observations) {
+    const month = `${date.slice(0, 7)}-01`;
+    if (month >= currentMonth) continue;
+    const sum = sums.get(month) ?? { total: 0, count: 0 };
+    sum.total += value;
+    sum.count += 1;
+    sums.set(month, sum);
+  }
+
+  const points: RecessionProbabilityPoint[] = [...sums.entries()].map(([month, { total, count }]) => {
+    const spread = round(total / count, 3);
+    return {
+      month,
+      spread,
+      probability: getRecessionProbabilityForSpread(spread),
+      targetMonth: addMonths(month, 12),
+    };
+  });
+
+  if (points.length > 0) {
+    await db.query(
+      `INSERT INTO recession_probability (month, spread, probability, target_month)
+       SELECT * FROM unnest($1::date[], $2::numeric[], $3::numeric[], $4::date[])
+       ON CONFLICT (month)
+       DO UPDATE SET spread = EXCLUDED.spread, probability = EXCLUDED.probability,
+         target_month = EXCLUDED.target_month, computed_at = NOW()`,
+      [
+        points.map((point) => point.month),
+        points.map((point) => point.spread),
+        points.map((point) => point.probability),
+        points.map((point) => point.targetMonth),
+      ]
+    );
+  }
+
+  return { months: points.length, latest: points[points.length - 1] ?? null };
+}
+
+/**
+ * Stored probability series, oldest first
+ */
+export async function getRecessionProbabilitySeries(): Promise<RecessionProbabilityPoint[]> {
+  const result = await db.query(
+    `SELECT month, spread, probability, target_month
+     FROM recession_probability
+     ORDER BY month ASC`
+  );
+
+  return result.rows.map((row) => ({
+    month: new Date(row.month).toISOString().slice(0, 10),
+    spread: parseFloat(row.spread),
+    probability: parseFloat(row.probability),
+    targetMonth: new Date(row.target_month).toISOString().slice(0, 10),
+  }));
+}
+
+/**
+ * Latest stored probability with its status and the long-run average
+ */
+export async function getRecessionProbability(): Promise<RecessionProbabilityResponse> {
+  const series = await getRecessionProbabilitySeries();
+  const latest = series[series.length - 1];
+  if (!latest) {
+    throw new RecessionProbabilityError(
+      'No recession probabilities stored yet; run /api/cron/recession-probability',
+      503,
+      'NO_DATA'
+    );
+  }
+
+  const average = series.reduce((sum, point) => sum + point.probability, 0) / series.length;
+  const currentMonth = `${new Date().toISOString().slice(0, 7)}-01`;
+  const stale = addMonths(latest.month, MAX_LAG_MONTHS) < currentMonth;
+  const timestamp = new Date(`${latest.month}T00:00:00Z`).toISOString();
+
+  return {
+    value: latest.probability,
+    status: getStatus(latest.probability),
+    historicalAvg: round(average, 1),
+    warningLevel: WARNING_LEVEL,
+    dangerLevel: DANGER_LEVEL,
+    timestamp,
+    description: `12-month recession probability (NY Fed yield curve model, ${latest.spread.toFixed(2)}% spread)`,
+    staleSince: stale ? timestamp : undefined,
+    spread: latest.spread,
+    targetMonth: new Date(`${latest.targetMonth}T00:00:00Z`).toISOString(),
+  };
+}
+
+/**
+ * Probability history for the indicator sparkline
+ */
+export async function getRecessionProbabilityHistory(): Promise<IndicatorHistoryPoint[]> {
+  const series = await getRecessionProbabilitySeries();
+  return series.map((point) => ({
+    date: new Date(`${point.month}T00:00:00Z`).toISOString(),
+    value: point.probability,
+    status: getStatus(point.probability),
+  }));
+}
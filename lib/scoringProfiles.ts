@@ -0,0 +1,178 @@
+/**
+ * Scoring Profiles
+ * Named crash-risk weightings and score breakpoints stored in the
+ * scoring_profiles table. The built-in default profile is used whenever no
+ * profile is requested or the table has not been seeded.
+ */
+
+import { db } from '@/lib/db';
+import {
+  DEFAULT_SCORING_PROFILE,
+  ScoringProfile,
+  validateScoringProfile,
+} from '@/src/lib/enhanced-crash-risk';
+
+/**
+ * Scoring profile errors (statusCode maps to the HTTP response)
+ */
+export class ScoringProfileError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'ScoringProfileError';
+  }
+}
+
+/**
+ * Stored scoring profile
+ */
+export interface StoredScoringProfile extends ScoringProfile {
+  updatedAt: string | null;
+}
+
+interface ScoringProfileRow {
+  name: string;
+  description: string | null;
+  weights: ScoringProfile['weights'];
+  breakpoints: ScoringProfile['breakpoints'];
+  updated_at: Date | null;
+}
+
+function toProfile(row: ScoringProfileRow): StoredScoringProfile {
+  return {
+    name: row.name,
+    description: row.description ?? undefined,
+    weights: row.weights,
+    breakpoints: row.breakpoints,
+    updatedAt: row.updated_at ? new Date(row.updated_at).toISOString() : null,
+  };
+}
+
+function assertValid(profile: ScoringProfile): void {
+  const errors = validateScoringProfile(profile);
+  if (errors.length > 0) {
+    throw new ScoringProfileError(errors.join('; '), 400, 'INVALID_PROFILE');
+  }
+}
+
+/**
+ * List all profiles, default first
+ * Falls back to the built-in default when the table is empty
+ */
+export async function getScoringProfiles(): Promise<StoredScoringProfile[]> {
+  const result = await db.query(
+    `SELECT name, description, weights, breakpoints, updated_at
+     FROM scoring_profiles
+     ORDER BY (name = $1) DESC, name ASC`,
+    [DEFAULT_SCORING_PROFILE.name]
+  );
+
+  if (result.rows.length === 0) {
+    return [{ ...DEFAULT_SCORING_PROFILE, updatedAt: null }];
+  }
+  return result.rows.map(toProfile);
+}
+
+/**
+ * Get a profile by name
+ * Without a name (or for an unseeded default) returns the built-in default
+ */
+export async function getScoringProfile(name?: string | null): Promise<ScoringProfile> {
+  const profileName = name || DEFAULT_SCORING_PROFILE.name;
+
+  const result = await db.query(
+    `SELECT name, description, weights, breakpoints, updated_at
+     FROM scoring_profiles
+     WHERE name = $1`,
+    [profileName]
+  );
+
+  if (result.rows.length === 0) {
+    if (profileName === DEFAULT_SCORING_PROFILE.name) {
+      return DEFAULT_SCORING_PROFILE;
+    }
+    throw new ScoringProfileError(`Scoring profile "${profileName}" not found`, 404, 'PROFILE_NOT_FOUND');
+  }
+  return toProfile(result.rows[0]);
+}
+
+/**
+ * Create a new profile
+ */
+export async function createScoringProfile(profile: ScoringProfile): Promise<StoredScoringProfile> {
+  assertValid(profile);
+
+  try {
+    const result = await db.query(
+      `INSERT INTO scoring_profiles (name, description, weights, breakpoints)
+       VALUES ($1, $2, $3, $4)
+       RETURNING name, description, weights, breakpoints, updated_at`,
+      [
+        profile.name,
+        profile.description || null,
+        JSON.stringify(profile.weights),
+        JSON.stringify(profile.breakpoints),
+      ]
+    );
+    return toProfile(result.rows[0]);
+  } catch (error) {
+    // Unique violation on name
+    if ((error as { code?: string }).code === '23505') {
+      throw new ScoringProfileError(`Scoring profile "${profile.name}" already exists`, 409, 'PROFILE_EXISTS');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Update an existing profile's description, weights and/or breakpoints
+ */
+export async function updateScoringProfile(
+  name: string,
+  updates: Partial<Omit<ScoringProfile, 'name'>>
+): Promise<StoredScoringProfile> {
+  const existing = await getScoringProfile(name);
+  const profile: ScoringProfile = {
+    name: existing.name,
+    description: updates.description ?? existing.description,
+    weights: updates.weights ?? existing.weights,
+    breakpoints: updates.breakpoints ?? existing.breakpoints,
+  };
+  assertValid(profile);
+
+  // Upsert so the built-in default can be edited before the table is seeded
+  const result = await db.query(
+    `INSERT INTO scoring_profiles (name, description, weights, breakpoints)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (name)
+     DO UPDATE SET description = EXCLUDED.description,
+                   weights = EXCLUDED.weights,
+                   breakpoints = EXCLUDED.breakpoints,
+                   updated_at = NOW()
+     RETURNING name, description, weights, breakpoints, updated_at`,
+    [
+      profile.name,
+      profile.description || null,
+      JSON.stringify(profile.weights),
+      JSON.stringify(profile.breakpoints),
+    ]
+  );
+  return toProfile(result.rows[0]);
+}
+
+/**
+ * Delete a profile (the default profile cannot be deleted)
+ */
+export async function deleteScoringProfile(name: string): Promise<void> {
+  if (name === DEFAULT_SCORING_PROFILE.name) {
+    throw new ScoringProfileError('The default profile cannot be deleted', 400, 'DEFAULT_PROFILE');
+  }
+
+  const result = await db.query('DELETE FROM scoring_profiles WHERE name = $1 RETURNING name', [name]);
+  if (result.rows.length === 0) {
+    throw new ScoringProfileError(`Scoring profile "${name}" not found`, 404, 'PROFILE_NOT_FOUND');
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Series Transforms
+ * Transforms applied to FRED observations on the /explore page, and the
+ * chart configuration encoded in its URL. No server imports, so the page
+ * can transform series without refetching them.
+ */
+
+import type { FREDObservation } from '@/lib/api/economicIndicators';
+
+/**
+ * none: raw values
+ * yoy: % change from the latest value at least a year earlier
+ * log: natural log (non-positive values are dropped)
+ * zscore: standard deviations from the mean of the charted window
+ * ma: trailing moving average over `window` observations
+ */
+export type SeriesTransform = 'none' | 'yoy' | 'log' | 'zscore' | 'ma';
+
+export const SERIES_TRANSFORMS: Array<{ value: SeriesTransform; label: string }> = [
+  { value: 'none', label: 'Level' },
+  { value: 'yoy', label: 'YoY %' },
+  { value: 'log', label: 'Log' },
+  { value: 'zscore', label: 'Z-score' },
+  { value: 'ma', label: 'Moving avg' },
+];
+
+export const DEFAULT_MA_WINDOW = 12;
+const MAX_MA_WINDOW = 520;
+
+/**
+ * Series on the chart, in order
+ */
+export const MAX_EXPLORER_SERIES = 6;
+
+export interface ExplorerSeriesConfig {
+  id: string; // FRED series ID
+  transform: SeriesTransform;
+  window?: number; // observations, for 'ma'
+}
+
+export interface ExplorerConfig {
+  series: ExplorerSeriesConfig[];
+  start?: string; // YYYY-MM-DD
+}
+
+function isSeriesTransform(value: string): value is SeriesTransform {
+  return SERIES_TRANSFORMS.some((transform) => transform.value === value);
+}
+
+function round(value: number, digits: number = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function yearBefore(date: string): string {
+  return `${parseInt(date.slice(0, 4), 10) - 1}${date.slice(4)}`;
+}
+
+/**
+ * Apply a transform to observations (oldest first); the result may be
+ * shorter than the input where the transform needs earlier data
+ */
+export function applySeriesTransform(
+  observations: FREDObservation[],
+  transform: SeriesTransform,
+  window: number = DEFAULT_MA_WINDOW
+): FREDObservation[] {
+  switch (transform) {
+    case 'yoy': {
+      const result: FREDObservation[] = [];
+      let index = 0;
+      for (const observation of observations) {
+        const target = yearBefore(observation.date);
+        // Advance to the latest observation on or before a year earlier
+        while (index + 1 < observations.length && observations[index + 1].date <= target) index++;
+        const previous = observations[index];
+        if (previous.date > target || previous.value === 0) continue;
+        result.push({ date: observation.date, value: round((observation.value / previous.value - 1) * 100, 2) });
+      }
+      return result;
+    }
+    case 'log':
+      return observations
+        .filter((observation) => observation.value > 0)
+        .map((observation) => ({ date: observation.date, value: round(Math.log(observation.value)) }));
+    case 'zscore': {
+      if (observations.length < 2) return [];
+      const mean = observations.reduce((sum, observation) => sum + observation.value, 0) / observations.length;
+      const variance =
+        observations.reduce((sum, observation) => sum + (observation.value - mean) ** 2, 0) /
+        (observations.length - 1);
+      const deviation = Math.sqrt(variance);
+      if (deviation === 0) return observations.map((observation) => ({ date: observation.date, value: 0 }));
+      return observations.map((observation) => ({
+        date: observation.date,
+        value: round((observation.value - mean) / deviation, 3),
+      }));
+    }
+    case 'ma': {
+      const size = Math.max(1, Math.floor(window));
+      let sum = 0;
+      const result: FREDObservation[] = [];
+      observations.forEach((observation, i) => {
+        sum += observation.value;
+        if (i >= size) sum -= observations[i - size].value;
+        if (i >= size - 1) result.push({ date: observation.date, value: round(sum / size) });
+      });
+      return result;
+    }
+    default:
+      return observations;
+  }
+}
+
+/**
+ * Short label for a transformed series, e.g. "UNRATE (YoY %)"
+ */
+export function getSeriesLabel(config: ExplorerSeriesConfig): string {
+  if (config.transform === 'none') return config.id;
+  if (config.transform === 'ma') return `${config.id} (${config.window ?? DEFAULT_MA_WINDOW}-pt MA)`;
+  const label = SERIES_TRANSFORMS.find((transform) => transform.value === config.transform)?.label;
+  return `${config.id} (${label})`;
+}
+
+/**
+ * Join several series into chart rows keyed by date (oldest first)
+ */
+export function mergeSeries(
+  series: Array<{ key: string; observations: FREDObservation[] }>
+): Array<{ date: string } & Record<string, number | string | null>> {
+  const rows = new Map<string, { date: string } & Record<string, number | string | null>>();
+  for (const { key, observations } of series) {
+    for (const { date, value } of observations) {
+      const row = rows.get(date) ?? { date };
+      row[key] = value;
+      rows.set(date, row);
+    }
+  }
+  return [...rows.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Encode a chart configuration as URL parameters:
+ * ?series=UNRATE,CPIAUCSL:yoy,SP500:ma:50&start=2000-01-01
+ */
+export function encodeExplorerConfig(config: ExplorerConfig): URLSearchParams {
+  const params = new URLSearchParams();
+  if (config.series.length > 0) {
+    params.set(
+      'series',
+      config.series
+        .map(({ id, transform, window }) => {
+          if (transform === 'none') return id;
+          if (transform === 'ma') return `${id}:ma:${window ?? DEFAULT_MA_WINDOW}`;
+          return `${id}:${transform}`;
+        })
+        .join(',')
+    );
+  }
+  if (config.start) params.set('start', config.start);
+  return params;
+}
+
+/**
+ * Decode a chart configuration from URL parameters, skipping anything malformed
+ */
+export function decodeExplorerConfig(params: URLSearchParams): ExplorerConfig {
+  const series: ExplorerSeriesConfig[] = [];
+
+  for (const entry of (params.get('series') || '').split(',')) {
+    const [rawId, rawTransform = 'none', rawWindow] = entry.split(':');
+    const id = rawId.trim().toUpperCase();
+    if (!/^[A-Z0-9_.]{1,40}$/.test(id) || !isSeriesTransform(rawTransform)) continue;
+    if (series.some((existing) => existing.id === id && existing.transform === rawTransform)) continue;
+
+    const config: ExplorerSeriesConfig = { id, transform: rawTransform };
+    if (rawTransform === 'ma') {
+      const window = parseInt(rawWindow || '', 10);
+      config.window = window >= 1 && window <= MAX_MA_WINDOW ? window : DEFAULT_MA_WINDOW;
+    }
+    series.push(config);
+    if (series.length === MAX_EXPLORER_SERIES) break;
+  }
+
+  const start = params.get('start');
+  return {
+    series,
+    ...(start && /^\d{4}-\d{2}-\d{2}$/.test(start) && { start }),
+  };
+}
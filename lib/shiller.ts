@@ -0,0 +1,370 @@
+/**
+ * Shiller Data
+ * Parses the monthly series from Robert Shiller's "ie_data" workbook,
+ * validates it and stores it in the shiller_monthly table
+ */
+
+import 'server-only';
+import * as XLSX from 'xlsx';
+import { db } from '@/lib/db';
+import { determineStatus, EconomicIndicatorError } from '@/lib/api/economicIndicators';
+import type { EconomicIndicatorResponse } from '@/lib/data/economicIndicators';
+
+/**
+ * One month of Shiller data
+ */
+export interface ShillerMonth {
+  date: string; // YYYY-MM
+  price: number | null; // S&P Composite (P)
+  earnings: number | null; // Earnings (E)
+  cape: number | null; // Cyclically Adjusted P/E (P/E10)
+}
+
+/**
+ * Result of a workbook import
+ */
+export interface ShillerImportResult {
+  months: number;
+  from: string | null; // YYYY-MM
+  to: string | null; // YYYY-MM
+  latestCape: { date: string; value: number } | null;
+}
+
+/**
+ * Custom Error Class for Shiller data (statusCode maps to the HTTP response)
+ */
+export class ShillerDataError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'ShillerDataError';
+  }
+}
+
+/**
+ * Workbook locations checked in order (relative to public/data)
+ */
+export const SHILLER_FILES = ['shiller-data.xls', 'ie_data.xls', 'shiller-data.xlsx'];
+
+/**
+ * Columns the header row must contain
+ */
+export const SHILLER_REQUIRED_COLUMNS = ['Date', 'P', 'E', 'CAPE'] as const;
+
+/**
+ * Shiller publishes monthly with a short lag; data whose latest CAPE month
+ * is more than this many months behind the current month is stale
+ */
+export const SHILLER_MAX_LAG_MONTHS = 2;
+
+/**
+ * Convert a Shiller date (e.g. 1871.01, 2025.1 for October) to YYYY-MM
+ */
+function toMonth(shillerDate: number): string | null {
+  const year = Math.floor(shillerDate);
+  const month = Math.round((shillerDate - year) * 100);
+  if (month < 1 || month > 12) return null;
+  return `${year}-${String(month).padStart(2, '0')}`;
+}
+
+function toNumber(value: unknown): number | null {
+  return typeof value === 'number' && !isNaN(value) ? value : null;
+}
+
+/**
+ * Parse the monthly series from a Shiller workbook
+ * Throws ShillerDataError when the workbook or its columns are not as expected
+ */
+export function parseShillerWorkbook(buffer: Buffer | ArrayBuffer): ShillerMonth[] {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(buffer, { type: buffer instanceof ArrayBuffer ? 'array' : 'buffer' });
+  } catch (error) {
+    throw new ShillerDataError(
+      `Could not read the Shiller workbook: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      400,
+      'INVALID_WORKBOOK'
+    );
+  }
+
+  const sheetName = workbook.SheetNames.find((name) => name.toLowerCase() === 'data')
+    || workbook.SheetNames[workbook.SheetNames.length - 1];
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+    header: 1,
+    defval: null,
+  });
+
+  // The header row starts with "Date"
+  const headerIndex = rows.findIndex((row) => Array.isArray(row) && row[0] === 'Date');
+  if (headerIndex === -1) {
+    throw new ShillerDataError(
+      `Could not find the header row (starting with "Date") in sheet "${sheetName}"`,
+      400,
+      'INVALID_WORKBOOK'
+    );
+  }
+
+  const header = rows[headerIndex];
+  const missing = SHILLER_REQUIRED_COLUMNS.filter((column) => !header.includes(column));
+  if (missing.length > 0) {
+    throw new ShillerDataError(
+      `Shiller workbook is missing required columns: ${missing.join(', ')}`,
+      400,
+      'MISSING_COLUMNS'
+    );
+  }
+
+  const priceCol = header.indexOf('P');
+  const earningsCol = header.indexOf('E');
+  const capeCol = header.indexOf('CAPE');
+
+  const months: ShillerMonth[] = [];
+  for (const row of rows.slice(headerIndex + 1)) {
+    const rawDate = toNumber(row?.[0]);
+    if (rawDate === null) continue;
+
+    const date = toMonth(rawDate);
+    if (!date) continue;
+
+    months.push({
+      date,
+      price: toNumber(row[priceCol]),
+      earnings: toNumber(row[earningsCol]),
+      cape: toNumber(row[capeCol]),
+    });
+  }
+
+  validateShillerMonths(months);
+  return months;
+}
+
+/**
+ * Check the parsed series is complete and plausible
+ */
+function validateShillerMonths(months: ShillerMonth[]): void {
+  if (months.length === 0) {
+    throw new ShillerDataError('Shiller workbook contains no monthly rows', 400, 'NO_DATA');
+  }
+  if (!months.some((month) => month.cape !== null)) {
+    throw new ShillerDataError('Shiller workbook contains no CAPE values', 400, 'NO_DATA');
+  }
+
+  for (let i = 0; i < months.length; i++) {
+    const { date, price, cape } = months[i];
+    if (i > 0 && date <= months[i - 1].date) {
+      throw new ShillerDataError(`Shiller months are out of order at ${date}`, 400, 'INVALID_DATA');
+    }
+    if (price !== null && price <= 0) {
+      throw new ShillerDataError(`Invalid S&P price ${price} for ${date}`, 400, 'INVALID_DATA');
+    }
+    if (cape !== null && (cape <= 0 || cape > 100)) {
+      throw new ShillerDataError(`Implausible CAPE ${cape} for ${date}`, 400, 'INVALID_DATA');
+    }
+  }
+}
+
+/**
+ * Latest month with a CAPE value
+ */
+function latestCape(months: ShillerMonth[]): { date: string; value: number } | null {
+  for (let i = months.length - 1; i >= 0; i--) {
+    if (months[i].cape !== null) {
+      return { date: months[i].date, value: months[i].cape as number };
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether the latest CAPE month is behind the publication schedule
+ */
+export function isShillerStale(latestMonth: string, now: Date = new Date()): boolean {
+  const [year, month] = latestMonth.split('-').map(Number);
+  const lag = (now.getUTCFullYear() - year) * 12 + (now.getUTCMonth() + 1 - month);
+  return lag > SHILLER_MAX_LAG_MONTHS;
+}
+
+/**
+ * Read and parse the Shiller workbook from public/data (server-side only)
+ */
+export async function readShillerData(): Promise<ShillerMonth[]> {
+  const fs = await import('fs/promises');
+  const path = await import('path');
+
+  for (const file of SHILLER_FILES) {
+    const filePath = path.join(process.cwd(), 'public', 'data', file);
+    try {
+      const buffer = await fs.readFile(filePath);
+      return parseShillerWorkbook(buffer);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+      throw error;
+    }
+  }
+
+  throw new ShillerDataError(
+    `No Shiller workbook found in public/data (expected one of: ${SHILLER_FILES.join(', ')})`,
+    404,
+    'NO_WORKBOOK'
+  );
+}
+
+/**
+ * Store parsed months (replacing existing months) in a single transaction
+ */
+export async function importShillerMonths(months: ShillerMonth[]): Promise<ShillerImportResult> {
+  validateShillerMonths(months);
+  const client = await db.getClient();
+
+  try {
+    await client.query('BEGIN');
+    for (const month of months) {
+      await client.query(
+        `INSERT INTO shiller_monthly (month, price, earnings, cape)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (month)
+         DO UPDATE SET price = EXCLUDED.price,
+                       earnings = EXCLUDED.earnings,
+                       cape = EXCLUDED.cape,
+                       imported_at = NOW()`,
+        [`${month.date}-01`, month.price, month.earnings, month.cape]
+      );
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return {
+    months: months.length,
+    from: months[0]?.date ?? null,
+    to: months[months.length - 1]?.date ?? null,
+    latestCape: latestCape(months),
+  };
+}
+
+/**
+ * Parse, validate and store an uploaded workbook
+ */
+export async function importShillerWorkbook(buffer: Buffer | ArrayBuffer): Promise<ShillerImportResult> {
+  return importShillerMonths(parseShillerWorkbook(buffer));
+}
+
+/**
+ * Get the stored Shiller series, oldest first
+ * Falls back to the workbook in public/data when nothing has been imported
+ */
+export async function getShillerData(): Promise<ShillerMonth[]> {
+  try {
+    const result = await db.query(
+      `SELECT to_char(month, 'YYYY-MM') AS month, price, earnings, cape
+       FROM shiller_monthly
+       ORDER BY month ASC`
+    );
+
+    if (result.rows.length > 0) {
+      const parse = (value: string | null) => (value === null ? null : parseFloat(value));
+      return result.rows.map((row) => ({
+        date: row.month,
+        price: parse(row.price),
+        earnings: parse(row.earnings),
+        cape: parse(row.cape),
+      }));
+    }
+  } catch (error) {
+    console.warn('Could not read shiller_monthly, using workbook:', error instanceof Error ? error.message : error);
+  }
+
+  return readShillerData();
+}
+
+/**
+ * Get the latest stored CAPE value (database first, then the workbook)
+ */
+export async function getLatestCape(): Promise<{ date: string; value: number } | null> {
+  try {
+    const result = await db.query(
+      `SELECT to_char(month, 'YYYY-MM') AS month, cape
+       FROM shiller_monthly
+       WHERE cape IS NOT NULL
+       ORDER BY month DESC
+       LIMIT 1`
+    );
+
+    if (result.rows.length > 0) {
+      return { date: result.rows[0].month, value: parseFloat(result.rows[0].cape) };
+    }
+  } catch (error) {
+    console.warn('Could not read shiller_monthly, using workbook:', error instanceof Error ? error.message : error);
+  }
+
+  return latestCape(await readShillerData());
+}
+
+/**
+ * Download a workbook (e.g. from SHILLER_DATA_URL) and import it
+ */
+export async function importShillerFromUrl(url: string): Promise<ShillerImportResult> {
+  const response = await fetch(url, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new ShillerDataError(
+      `Shiller workbook download failed with status ${response.status}`,
+      502,
+      'DOWNLOAD_FAILED'
+    );
+  }
+  return importShillerWorkbook(await response.arrayBuffer());
+}
+
+/**
+ * Get CAPE Ratio (Shiller P/E)
+ * Reads the latest imported Shiller month; the timestamp is the Shiller month
+ * and staleSince is set once it falls behind schedule
+ */
+export async function getCAPERatio(): Promise<EconomicIndicatorResponse> {
+  try {
+    const latest = await getLatestCape();
+
+    if (!latest) {
+      throw new EconomicIndicatorError(
+        'No CAPE values found in the Shiller data',
+        undefined,
+        'NO_DATA'
+      );
+    }
+
+    const value = latest.value;
+    const historicalAvg = 16.8;
+    const warningLevel = 25;
+    const dangerLevel = 30;
+
+    const status = determineStatus(value, warningLevel, dangerLevel);
+    const timestamp = new Date(`${latest.date}-01T00:00:00Z`).toISOString();
+
+    return {
+      value,
+      status,
+      historicalAvg,
+      warningLevel,
+      dangerLevel,
+      timestamp,
+      description: 'Shiller P/E - Cyclically Adjusted Price-to-Earnings',
+      ...(isShillerStale(latest.date) && { staleSince: timestamp }),
+    };
+  } catch (error) {
+    if (error instanceof EconomicIndicatorError) {
+      throw error;
+    }
+    throw new EconomicIndicatorError(
+      `Failed to fetch CAPE Ratio: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      undefined,
+      'FETCH_ERROR'
+    );
+  }
+}
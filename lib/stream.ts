@@ -0,0 +1,200 @@
+/**
+ * Live Update Stream
+ * Shared poller behind /api/stream. While at least one client is connected
+ * it refreshes quotes and indicators on the same schedule the dashboard used
+ * to poll, and pushes typed events to every subscriber when something
+ * changes. Other modules can publish events (e.g. alerts) with
+ * publishStreamEvent.
+ */
+
+import { getMarketSnapshot, MarketSnapshot, SNAPSHOT_TTL_MS } from '@/lib/api/marketSnapshot';
+import { CurrentCrashRisk, CurrentIndicators, getCurrentCrashRisk, getCurrentIndicators } from '@/lib/crashRisk';
+import { getScoringProfile } from '@/lib/scoringProfiles';
+import { CrashRiskBreakdown } from '@/src/lib/enhanced-crash-risk';
+
+/**
+ * Alert pushed to connected clients
+ */
+export interface StreamAlert {
+  id: string; // "metric-severity-timestamp"
+  severity: 'warning' | 'critical';
+  metric: string;
+  message: string;
+  value: number;
+  timestamp: string;
+}
+
+/**
+ * Events sent on the stream (the SSE event name is `type`)
+ */
+export type StreamEvent =
+  | { type: 'quotes'; data: MarketSnapshot }
+  | { type: 'indicators'; data: CurrentIndicators }
+  | { type: 'crash-score'; data: CurrentCrashRisk }
+  | { type: 'alert'; data: StreamAlert };
+
+export type StreamEventType = StreamEvent['type'];
+
+type StreamListener = (event: StreamEvent) => void;
+
+/**
+ * Refresh intervals (quotes follow the snapshot cache)
+ */
+export const QUOTE_INTERVAL_MS = SNAPSHOT_TTL_MS;
+export const INDICATOR_INTERVAL_MS = 5 * 60 * 1000;
+
+const INDICATOR_LABELS: Record<keyof CurrentIndicators, string> = {
+  cape: 'CAPE Ratio',
+  yieldCurve: 'Yield Curve',
+  marginDebt: 'Margin Debt/GDP',
+  creditSpreads: 'Credit Spreads',
+  buffett: 'Buffett Indicator',
+  sahmRule: 'Sahm Rule',
+  initialClaims: 'Initial Claims',
+};
+
+const RISK_LEVELS: CrashRiskBreakdown['riskLevel'][] = ['Low', 'Moderate', 'Elevated', 'High', 'Critical'];
+
+const listeners = new Set<StreamListener>();
+const timers: ReturnType<typeof setInterval>[] = [];
+
+// Latest state events, replayed to new subscribers
+let latestQuotes: MarketSnapshot | null = null;
+let latestIndicators: CurrentIndicators | null = null;
+let latestCrashScore: CurrentCrashRisk | null = null;
+
+/**
+ * Send an event to every connected client
+ */
+export function publishStreamEvent(event: StreamEvent): void {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Stream listener failed:', error);
+    }
+  }
+}
+
+/**
+ * Quote values without timestamps, to detect whether anything moved
+ */
+function quoteValues(snapshot: MarketSnapshot): string {
+  return JSON.stringify(snapshot, (key, value) => (key === 'timestamp' || key === 'generatedAt' ? undefined : value));
+}
+
+function indicatorValues(indicators: CurrentIndicators): string {
+  return JSON.stringify(
+    Object.entries(indicators).map(([key, indicator]) => [key, indicator?.value, indicator?.status])
+  );
+}
+
+/**
+ * Alerts for indicators that moved into warning or danger since the last poll
+ */
+function indicatorAlerts(previous: CurrentIndicators, current: CurrentIndicators): StreamAlert[] {
+  const rank = { safe: 0, warning: 1, danger: 2 };
+  const alerts: StreamAlert[] = [];
+
+  for (const key of Object.keys(INDICATOR_LABELS) as Array<keyof CurrentIndicators>) {
+    const before = previous[key];
+    const after = current[key];
+    if (!before || !after || after.error || rank[after.status] <= rank[before.status]) continue;
+
+    const severity = after.status === 'danger' ? 'critical' : 'warning';
+    alerts.push({
+      id: `${key}-${severity}-${Date.now()}`,
+      severity,
+      metric: key,
+      message: `${INDICATOR_LABELS[key]} moved to ${after.status} (${after.value.toFixed(2)})`,
+      value: after.value,
+      timestamp: new Date().toISOString(),
+    });
+  }
+  return alerts;
+}
+
+async function refreshQuotes(): Promise<void> {
+  const snapshot = await getMarketSnapshot();
+  if (latestQuotes && quoteValues(latestQuotes) === quoteValues(snapshot)) return;
+
+  latestQuotes = snapshot;
+  publishStreamEvent({ type: 'quotes', data: snapshot });
+}
+
+async function refreshIndicators(): Promise<void> {
+  const indicators = await getCurrentIndicators();
+  const previousIndicators = latestIndicators;
+
+  if (!previousIndicators || indicatorValues(previousIndicators) !== indicatorValues(indicators)) {
+    latestIndicators = indicators;
+    publishStreamEvent({ type: 'indicators', data: indicators });
+    if (previousIndicators) {
+      indicatorAlerts(previousIndicators, indicators).forEach((alert) => publishStreamEvent({ type: 'alert', data: alert }));
+    }
+  }
+
+  // Scored with the stored default profile, as the dashboard's default selection is
+  const crashScore = await getCurrentCrashRisk(await getScoringProfile(), indicators, latestQuotes?.vix);
+  const previousScore = latestCrashScore;
+  if (previousScore && previousScore.totalScore === crashScore.totalScore && previousScore.riskLevel === crashScore.riskLevel) {
+    return;
+  }
+
+  latestCrashScore = crashScore;
+  publishStreamEvent({ type: 'crash-score', data: crashScore });
+
+  if (previousScore && RISK_LEVELS.indexOf(crashScore.riskLevel) > RISK_LEVELS.indexOf(previousScore.riskLevel)) {
+    const severity = crashScore.riskLevel === 'Critical' || crashScore.riskLevel === 'High' ? 'critical' : 'warning';
+    publishStreamEvent({
+      type: 'alert',
+      data: {
+        id: `crashScore-${severity}-${Date.now()}`,
+        severity,
+        metric: 'crashScore',
+        message: `Crash risk rose from ${previousScore.riskLevel} to ${crashScore.riskLevel} (${crashScore.totalScore})`,
+        value: crashScore.totalScore,
+        timestamp: crashScore.timestamp,
+      },
+    });
+  }
+}
+
+function run(task: () => Promise<void>, name: string): void {
+  task().catch((error) => {
+    console.error(`Stream ${name} refresh failed:`, error instanceof Error ? error.message : error);
+  });
+}
+
+function start(): void {
+  // Quotes first so the crash score can reuse the VIX quote
+  run(async () => {
+    await refreshQuotes();
+    await refreshIndicators();
+  }, 'initial');
+  timers.push(setInterval(() => run(refreshQuotes, 'quotes'), QUOTE_INTERVAL_MS));
+  timers.push(setInterval(() => run(refreshIndicators, 'indicators'), INDICATOR_INTERVAL_MS));
+}
+
+function stop(): void {
+  timers.splice(0).forEach((timer) => clearInterval(timer));
+}
+
+/**
+ * Subscribe to stream events; the latest quotes, indicators and crash score
+ * are sent immediately. Returns an unsubscribe function.
+ */
+export function subscribeToStream(listener: StreamListener): () => void {
+  listeners.add(listener);
+
+  if (latestQuotes) listener({ type: 'quotes', data: latestQuotes });
+  if (latestIndicators) listener({ type: 'indicators', data: latestIndicators });
+  if (latestCrashScore) listener({ type: 'crash-score', data: latestCrashScore });
+
+  if (listeners.size === 1) start();
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) stop();
+  };
+}
@@ -10,6 +10,7 @@ export interface Subscriber {
   verified: boolean;
   verification_token: string | null;
   unsubscribe_token: string;
+  preferences_token: string;
   created_at: string; // ISO timestamp
   updated_at: string; // ISO timestamp
   last_email_sent: string | null; // ISO timestamp
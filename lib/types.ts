@@ -10,6 +10,22 @@ export interface MarketData {
   changePercent?: number;
 }
 
+/**
+ * OHLC candle (time is when the bar opens, ISO; daily and weekly bars are
+ * dated by trading day)
+ * Resolutions: 1, 5 or 60 minutes, daily (D) or weekly (W)
+ */
+export type CandleResolution = '1' | '5' | '60' | 'D' | 'W';
+
+export interface Candle {
+  time: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
 /**
  * Economic Indicator Types
  */
@@ -69,6 +85,37 @@ export interface AlertThreshold {
   description?: string;
 }
 
+/**
+ * Value an alert rule watches (see lib/data/alertRules.ts)
+ */
+export type AlertRuleTarget =
+  | 'vix'
+  | 'sp500-drawdown'
+  | 'sp500-volatility'
+  | 'crash-score'
+  | 'cape'
+  | 'yield-curve'
+  | 'margin-debt'
+  | 'credit-spreads'
+  | 'buffett'
+  | 'sahm-rule'
+  | 'initial-claims';
+
+export type AlertRuleLevel = 'safe' | 'warning' | 'critical';
+
+/**
+ * A subscriber's own alert: warn/critical when the target moves above
+ * (or below) the thresholds
+ */
+export interface AlertRule extends AlertThreshold {
+  id: string;
+  target: AlertRuleTarget;
+  direction: 'above' | 'below';
+  enabled: boolean;
+  lastLevel?: AlertRuleLevel; // level at the last evaluation
+  lastTriggeredAt?: string | null;
+}
+
 /**
  * Combined Dashboard Types
  */
@@ -93,3 +140,21 @@ export interface Alert {
 
 
 
+
+/**
+ * Watchlist Types
+ */
+export type WatchlistAssetClass = 'stock' | 'crypto' | 'commodity';
+
+export interface WatchlistItem {
+  symbol: string;
+  assetClass: WatchlistAssetClass;
+  label?: string;
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  items: WatchlistItem[];
+  updatedAt?: string | null;
+}
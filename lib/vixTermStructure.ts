@@ -0,0 +1,285 @@
+/**
+ * VIX Term Structure
+ * Daily closes of VIX9D, VIX, VIX3M and VIX6M imported from CBOE's published
+ * index histories (FRED as fallback where it carries the series) into the
+ * vix_term_structure table, and the curve state derived from them.
+ *
+ * Normally implied volatility rises with tenor (contango). When the short
+ * tenors trade above VIX3M (backwardation) the market is pricing near-term
+ * stress, one of the clearest warning signs in the volatility complex.
+ */
+
+import { db } from '@/lib/db';
+import { getFREDSeriesHistory } from '@/lib/api/economicIndicators';
+import type { IndicatorReading } from '@/src/lib/enhanced-crash-risk';
+
+/**
+ * VIX term structure errors (statusCode maps to the HTTP response)
+ */
+export class VixTermStructureError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'VixTermStructureError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Tenors on the curve, shortest first, with their FRED series where one exists
+ */
+export const VIX_TENORS = [
+  { symbol: 'VIX9D', label: '9D', days: 9, fredSeries: null },
+  { symbol: 'VIX', label: '30D', days: 30, fredSeries: 'VIXCLS' },
+  { symbol: 'VIX3M', label: '3M', days: 93, fredSeries: 'VXVCLS' },
+  { symbol: 'VIX6M', label: '6M', days: 182, fredSeries: null },
+] as const;
+
+export type VixTenorSymbol = (typeof VIX_TENORS)[number]['symbol'];
+
+/**
+ * contango: short tenors below VIX3M by more than 5%
+ * flat: the steepest short-tenor ratio is between 0.95 and 1
+ * backwardation: VIX9D or VIX above VIX3M
+ */
+export type TermStructureState = 'contango' | 'flat' | 'backwardation';
+
+const FLAT_RATIO = 0.95;
+
+/**
+ * CBOE daily history files (DATE,OPEN,HIGH,LOW,CLOSE; no API key needed)
+ */
+const CBOE_HISTORY_URL = 'https://cdn.cboe.com/api/global/us_indices/daily_prices';
+
+/**
+ * Days re-imported before the latest stored close (CBOE occasionally revises)
+ */
+const REIMPORT_DAYS = 10;
+
+/**
+ * Days imported when a symbol has no stored closes yet
+ */
+const INITIAL_IMPORT_DAYS = 5 * 365;
+
+/**
+ * Days of history returned with the curve, and how far back the comparison curve is
+ */
+const HISTORY_DAYS = 365;
+const COMPARISON_DAYS = 30;
+
+/**
+ * Closes are stale when the latest curve is older than this
+ */
+const MAX_AGE_DAYS = 5;
+
+export interface TermStructurePoint {
+  symbol: VixTenorSymbol;
+  label: string;
+  days: number;
+  value: number | null; // null when the tenor has no close for the date
+}
+
+export interface TermStructureHistoryPoint {
+  date: string; // ISO
+  ratio: number; // VIX / VIX3M
+  values: Partial<Record<VixTenorSymbol, number>>;
+}
+
+export interface VixTermStructure {
+  date: string; // trading day of the curve (ISO)
+  curve: TermStructurePoint[];
+  comparisonCurve: { date: string; curve: TermStructurePoint[] } | null; // about a month earlier
+  ratio: number; // VIX / VIX3M
+  frontRatio: number | null; // VIX9D / VIX3M
+  state: TermStructureState;
+  reading: IndicatorReading; // the ratio, for the crash-risk calculator
+  history: TermStructureHistoryPoint[];
+}
+
+/**
+ * Result of an import run
+ */
+export interface ImportVixTermStructureResult {
+  imported: Array<{ symbol: VixTenorSymbol; rows: number; source: 'cboe' | 'fred'; latest: string | null }>;
+  failed: Array<{ symbol: VixTenorSymbol; error: string }>;
+}
+
+function round(value: number, digits: number = 3): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Parse a CBOE history CSV into (date, close) rows; dates are MM/DD/YYYY
+ */
+export function parseCboeHistory(csv: string): Array<{ date: string; close: number }> {
+  const [header, ...lines] = csv.trim().split(/\r?\n/);
+  const columns = header.split(',').map((column) => column.trim().toUpperCase());
+  const dateIndex = columns.indexOf('DATE');
+  const closeIndex = columns.includes('CLOSE') ? columns.indexOf('CLOSE') : columns.length - 1;
+  if (dateIndex === -1) {
+    throw new VixTermStructureError('CBOE history has no DATE column', 502, 'INVALID_RESPONSE');
+  }
+
+  const rows: Array<{ date: string; close: number }> = [];
+  for (const line of lines) {
+    const cells = line.split(',');
+    const match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec((cells[dateIndex] || '').trim());
+    const close = parseFloat(cells[closeIndex]);
+    if (!match || !Number.isFinite(close) || close <= 0) continue;
+    const [, month, day, year] = match;
+    rows.push({ date: `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`, close });
+  }
+  return rows;
+}
+
+async function fetchCboeHistory(symbol: VixTenorSymbol): Promise<Array<{ date: string; close: number }>> {
+  const response = await fetch(`${CBOE_HISTORY_URL}/${symbol}_History.csv`, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new VixTermStructureError(`CBOE history request for ${symbol} failed with status ${response.status}`, 502, 'HTTP_ERROR');
+  }
+  return parseCboeHistory(await response.text());
+}
+
+async function getLatestStoredDate(symbol: VixTenorSymbol): Promise<Date | null> {
+  const result = await db.query('SELECT MAX(date) AS latest FROM vix_term_structure WHERE symbol = $1', [symbol]);
+  return result.rows[0]?.latest ? new Date(result.rows[0].latest) : null;
+}
+
+async function storeCloses(
+  symbol: VixTenorSymbol,
+  rows: Array<{ date: string; close: number }>,
+  source: 'cboe' | 'fred'
+): Promise<void> {
+  if (rows.length === 0) return;
+  await db.query(
+    `INSERT INTO vix_term_structure (symbol, date, close, source)
+     SELECT $1, row.date, row.close, $4
+     FROM unnest($2::date[], $3::numeric[]) AS row(date, close)
+     ON CONFLICT (symbol, date)
+     DO UPDATE SET close = EXCLUDED.close, source = EXCLUDED.source, imported_at = NOW()`,
+    [symbol, rows.map((row) => row.date), rows.map((row) => row.close), source]
+  );
+}
+
+/**
+ * Import new closes for every tenor: from CBOE, or from FRED when CBOE fails
+ * and the tenor has a FRED series. Re-running only rewrites the last few days.
+ */
+export async function importVixTermStructure(): Promise<ImportVixTermStructureResult> {
+  const result: ImportVixTermStructureResult = { imported: [], failed: [] };
+
+  for (const tenor of VIX_TENORS) {
+    try {
+      const latest = await getLatestStoredDate(tenor.symbol);
+      const since = new Date(
+        latest ? latest.getTime() - REIMPORT_DAYS * DAY_MS : Date.now() - INITIAL_IMPORT_DAYS * DAY_MS
+      ).toISOString().slice(0, 10);
+
+      let rows: Array<{ date: string; close: number }>;
+      let source: 'cboe' | 'fred' = 'cboe';
+      try {
+        rows = await fetchCboeHistory(tenor.symbol);
+      } catch (error) {
+        if (!tenor.fredSeries) throw error;
+        console.warn(`CBOE history unavailable for ${tenor.symbol}, using FRED:`, error instanceof Error ? error.message : error);
+        rows = (await getFREDSeriesHistory(tenor.fredSeries, { observationStart: since })).map((observation) => ({
+          date: observation.date,
+          close: observation.value,
+        }));
+        source = 'fred';
+      }
+
+      const newRows = rows.filter((row) => row.date >= since);
+      await storeCloses(tenor.symbol, newRows, source);
+      result.imported.push({
+        symbol: tenor.symbol,
+        rows: newRows.length,
+        source,
+        latest: newRows.length > 0 ? newRows[newRows.length - 1].date : null,
+      });
+    } catch (error) {
+      console.error(`Failed to import ${tenor.symbol} closes:`, error);
+      result.failed.push({
+        symbol: tenor.symbol,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return result;
+}
+
+export function getTermStructureState(ratio: number, frontRatio: number | null): TermStructureState {
+  const steepest = Math.max(ratio, frontRatio ?? 0);
+  if (steepest >= 1) return 'backwardation';
+  if (steepest >= FLAT_RATIO) return 'flat';
+  return 'contango';
+}
+
+function toCurve(values: Partial<Record<VixTenorSymbol, number>>): TermStructurePoint[] {
+  return VIX_TENORS.map(({ symbol, label, days }) => ({ symbol, label, days, value: values[symbol] ?? null }));
+}
+
+/**
+ * Latest curve, its state and a year of VIX / VIX3M history
+ * Only days with both VIX and VIX3M closes are used.
+ */
+export async function getVixTermStructure(): Promise<VixTermStructure> {
+  const result = await db.query(
+    `SELECT symbol, date, close
+     FROM vix_term_structure
+     WHERE date >= $1
+     ORDER BY date ASC`,
+    [new Date(Date.now() - HISTORY_DAYS * DAY_MS).toISOString().slice(0, 10)]
+  );
+
+  const byDate = new Map<string, Partial<Record<VixTenorSymbol, number>>>();
+  for (const row of result.rows) {
+    const date = new Date(row.date).toISOString();
+    const values = byDate.get(date) ?? {};
+    values[row.symbol as VixTenorSymbol] = parseFloat(row.close);
+    byDate.set(date, values);
+  }
+
+  const history: TermStructureHistoryPoint[] = [];
+  for (const [date, values] of byDate) {
+    const { VIX: vix, VIX3M: vix3m } = values;
+    if (vix === undefined || !vix3m) continue;
+    history.push({ date, ratio: round(vix / vix3m), values });
+  }
+
+  const latest = history[history.length - 1];
+  if (!latest) {
+    throw new VixTermStructureError(
+      'No VIX term structure closes stored yet; run /api/cron/vix-term-structure',
+      503,
+      'NO_DATA'
+    );
+  }
+
+  const { VIX9D: vix9d, VIX3M: vix3m = 0 } = latest.values;
+  const frontRatio = vix9d !== undefined && vix3m > 0 ? round(vix9d / vix3m) : null;
+  const comparisonDate = new Date(new Date(latest.date).getTime() - COMPARISON_DAYS * DAY_MS).toISOString();
+  const comparison = [...history].reverse().find((point) => point.date <= comparisonDate);
+  const stale = Date.now() - new Date(latest.date).getTime() > MAX_AGE_DAYS * DAY_MS;
+
+  return {
+    date: latest.date,
+    curve: toCurve(latest.values),
+    comparisonCurve: comparison ? { date: comparison.date, curve: toCurve(comparison.values) } : null,
+    ratio: latest.ratio,
+    frontRatio,
+    state: getTermStructureState(latest.ratio, frontRatio),
+    reading: {
+      value: latest.ratio,
+      timestamp: latest.date,
+      staleSince: stale ? latest.date : undefined,
+    },
+    history,
+  };
+}
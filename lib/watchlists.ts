@@ -0,0 +1,212 @@
+/**
+ * Watchlists
+ * Named lists of symbols stored per subscriber in the watchlists table.
+ * Subscribers are identified by their preferences token (sent in every email,
+ * separate from the unsubscribe token). A subscriber without stored
+ * watchlists is seeded with the defaults on first read.
+ */
+
+import { db } from '@/lib/db';
+import type { Watchlist, WatchlistItem } from '@/lib/types';
+import {
+  DEFAULT_WATCHLISTS,
+  MAX_WATCHLIST_NAME_LENGTH,
+  MAX_WATCHLISTS,
+  normalizeWatchlistItems,
+} from '@/lib/data/watchlists';
+
+/**
+ * Watchlist errors (statusCode maps to the HTTP response)
+ */
+export class WatchlistError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'WatchlistError';
+  }
+}
+
+interface WatchlistRow {
+  id: string;
+  name: string;
+  items: WatchlistItem[];
+  updated_at: Date | null;
+}
+
+function toWatchlist(row: WatchlistRow): Watchlist {
+  return {
+    id: row.id,
+    name: row.name,
+    items: row.items,
+    updatedAt: row.updated_at ? new Date(row.updated_at).toISOString() : null,
+  };
+}
+
+function validName(name: unknown): string {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed || trimmed.length > MAX_WATCHLIST_NAME_LENGTH) {
+    throw new WatchlistError(
+      `Watchlist name is required (max ${MAX_WATCHLIST_NAME_LENGTH} characters)`,
+      400,
+      'INVALID_NAME'
+    );
+  }
+  return trimmed;
+}
+
+function validItems(items: unknown): WatchlistItem[] {
+  const result = normalizeWatchlistItems(items);
+  if (result.errors.length > 0) {
+    throw new WatchlistError(result.errors.join('; '), 400, 'INVALID_ITEMS');
+  }
+  return result.items;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function assertId(id: string): void {
+  if (!UUID_PATTERN.test(id)) {
+    throw new WatchlistError('Watchlist not found', 404, 'WATCHLIST_NOT_FOUND');
+  }
+}
+
+function rethrowDuplicate(error: unknown, name: string): never {
+  // Unique violation on (subscriber_id, name)
+  if ((error as { code?: string }).code === '23505') {
+    throw new WatchlistError(`A watchlist named "${name}" already exists`, 409, 'WATCHLIST_EXISTS');
+  }
+  throw error;
+}
+
+/**
+ * Resolve an active subscriber from their token
+ */
+export async function getSubscriberIdByToken(token: string | null): Promise<string> {
+  if (!token) {
+    throw new WatchlistError('Subscriber token is required', 401, 'TOKEN_REQUIRED');
+  }
+
+  const result = await db.query(
+    `SELECT id FROM subscribers WHERE preferences_token = $1 AND status = 'active'`,
+    [token]
+  );
+  if (result.rows.length === 0) {
+    throw new WatchlistError('Invalid subscriber token', 401, 'INVALID_TOKEN');
+  }
+  return result.rows[0].id;
+}
+
+async function seedDefaultWatchlists(subscriberId: string): Promise<void> {
+  const client = await db.getClient();
+  try {
+    await client.query('BEGIN');
+    for (const [position, watchlist] of DEFAULT_WATCHLISTS.entries()) {
+      await client.query(
+        `INSERT INTO watchlists (subscriber_id, name, items, position)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (subscriber_id, name) DO NOTHING`,
+        [subscriberId, watchlist.name, JSON.stringify(watchlist.items), position]
+      );
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * List a subscriber's watchlists in display order (seeding the defaults if none exist)
+ */
+export async function getWatchlists(subscriberId: string): Promise<Watchlist[]> {
+  const query = `SELECT id, name, items, updated_at
+                 FROM watchlists
+                 WHERE subscriber_id = $1
+                 ORDER BY position ASC, created_at ASC`;
+
+  let result = await db.query(query, [subscriberId]);
+  if (result.rows.length === 0) {
+    await seedDefaultWatchlists(subscriberId);
+    result = await db.query(query, [subscriberId]);
+  }
+  return result.rows.map(toWatchlist);
+}
+
+/**
+ * Create a watchlist at the end of the subscriber's list
+ */
+export async function createWatchlist(
+  subscriberId: string,
+  name: unknown,
+  items: unknown = []
+): Promise<Watchlist> {
+  const watchlistName = validName(name);
+  const watchlistItems = validItems(items);
+
+  const count = await db.query('SELECT COUNT(*)::int AS count FROM watchlists WHERE subscriber_id = $1', [subscriberId]);
+  if (count.rows[0].count >= MAX_WATCHLISTS) {
+    throw new WatchlistError(`You can have at most ${MAX_WATCHLISTS} watchlists`, 400, 'TOO_MANY_WATCHLISTS');
+  }
+
+  try {
+    const result = await db.query(
+      `INSERT INTO watchlists (subscriber_id, name, items, position)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id, name, items, updated_at`,
+      [subscriberId, watchlistName, JSON.stringify(watchlistItems), count.rows[0].count]
+    );
+    return toWatchlist(result.rows[0]);
+  } catch (error) {
+    rethrowDuplicate(error, watchlistName);
+  }
+}
+
+/**
+ * Rename a watchlist and/or replace its items
+ */
+export async function updateWatchlist(
+  subscriberId: string,
+  id: string,
+  updates: { name?: unknown; items?: unknown }
+): Promise<Watchlist> {
+  assertId(id);
+  const name = updates.name !== undefined ? validName(updates.name) : null;
+  const items = updates.items !== undefined ? JSON.stringify(validItems(updates.items)) : null;
+
+  try {
+    const result = await db.query(
+      `UPDATE watchlists
+       SET name = COALESCE($3, name),
+           items = COALESCE($4::jsonb, items),
+           updated_at = NOW()
+       WHERE id = $1 AND subscriber_id = $2
+       RETURNING id, name, items, updated_at`,
+      [id, subscriberId, name, items]
+    );
+    if (result.rows.length === 0) {
+      throw new WatchlistError('Watchlist not found', 404, 'WATCHLIST_NOT_FOUND');
+    }
+    return toWatchlist(result.rows[0]);
+  } catch (error) {
+    rethrowDuplicate(error, name ?? '');
+  }
+}
+
+/**
+ * Delete a watchlist
+ */
+export async function deleteWatchlist(subscriberId: string, id: string): Promise<void> {
+  assertId(id);
+  const result = await db.query(
+    'DELETE FROM watchlists WHERE id = $1 AND subscriber_id = $2 RETURNING id',
+    [id, subscriberId]
+  );
+  if (result.rows.length === 0) {
+    throw new WatchlistError('Watchlist not found', 404, 'WATCHLIST_NOT_FOUND');
+  }
+}
@@ -0,0 +1,423 @@
+/**
+ * Web Push
+ * Browser notifications for alerts. Messages are posted to the push service
+ * each browser vendor issues the subscription on (RFC 8030); the web-push
+ * package signs them with our VAPID key (RFC 8292) and encrypts them for the
+ * browser (RFC 8291, aes128gcm). Subscriptions are stored in push_subscriptions
+ * with the alert severities the browser opted into.
+ *
+ * Generate a key pair with `npm run push:vapid-keys` and set VAPID_PUBLIC_KEY,
+ * VAPID_PRIVATE_KEY and VAPID_SUBJECT. Without them a throwaway pair is
+ * generated outside production (browsers must re-subscribe after a restart).
+ */
+
+import { createECDH } from 'crypto';
+import webpush from 'web-push';
+import { db } from '@/lib/db';
+import type { AlertSeverity } from '@/lib/alertEngine';
+
+/**
+ * Web push errors (statusCode maps to the HTTP response)
+ */
+export class WebPushError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'WebPushError';
+  }
+}
+
+export const PUSH_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+export const DEFAULT_PUSH_SEVERITIES: AlertSeverity[] = ['critical'];
+
+const PUSH_TTL_SECONDS = 12 * 60 * 60; // push services drop undelivered alerts after this
+const MAX_PAYLOAD_BYTES = 3000; // leaves room for the record padding and tag
+const PUSH_BATCH_SIZE = 50;
+const MAX_FAILURES = 10; // consecutive failed deliveries before a subscription is dropped
+
+// Push services browsers issue subscriptions on (subdomains included)
+const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com', // Chrome, Edge on Android, Opera, Brave
+  'push.services.mozilla.com', // Firefox
+  'notify.windows.com', // Edge on Windows
+  'push.apple.com', // Safari
+];
+
+const URGENCY: Record<AlertSeverity, 'low' | 'normal' | 'high'> = {
+  info: 'low',
+  warning: 'normal',
+  critical: 'high',
+};
+
+export interface VapidKeys {
+  publicKey: string; // uncompressed P-256 point, base64url
+  privateKey: string; // P-256 scalar, base64url
+  subject: string; // mailto: or https: contact for the push services
+}
+
+/**
+ * Subscription as sent by the browser (PushSubscription.toJSON())
+ */
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+/**
+ * Stored subscription, as returned to the browser that owns it
+ */
+export interface StoredPushSubscription {
+  endpoint: string;
+  severities: AlertSeverity[];
+  createdAt: string;
+}
+
+/**
+ * Notification shown by the service worker (public/sw.js)
+ */
+export interface PushNotification {
+  title: string;
+  body: string;
+  severity: AlertSeverity;
+  url?: string; // opened when the notification is clicked
+  tag?: string; // a newer notification with the same tag replaces the older one
+}
+
+export interface PushDeliveryResult {
+  recipients: number;
+  sent: number;
+  failed: number;
+  removed: number; // expired subscriptions deleted
+  errors: Array<{ endpoint: string; error: string }>;
+}
+
+let devVapidKeys: VapidKeys | null = null;
+
+/**
+ * New VAPID key pair (base64url), for VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY
+ */
+export function generateVapidKeys(): { publicKey: string; privateKey: string } {
+  return webpush.generateVAPIDKeys();
+}
+
+/**
+ * Configured VAPID keys; outside production a throwaway pair stands in
+ * Throws WebPushError (503) when push is not configured in production.
+ */
+export function getVapidKeys(): VapidKeys {
+  const subject =
+    process.env.VAPID_SUBJECT ||
+    `mailto:${process.env.MAILGUN_FROM_EMAIL || process.env.EMAIL_FROM || 'noreply@marketcrashmonitor.com'}`;
+
+  if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY) {
+    return { publicKey: process.env.VAPID_PUBLIC_KEY, privateKey: process.env.VAPID_PRIVATE_KEY, subject };
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new WebPushError('Push notifications are not configured', 503, 'PUSH_NOT_CONFIGURED');
+  }
+
+  if (!devVapidKeys) {
+    console.warn('⚠️  VAPID keys not configured. Using a temporary key pair (run npm run push:vapid-keys).');
+    devVapidKeys = { ...generateVapidKeys(), subject };
+  }
+  return devVapidKeys;
+}
+
+/**
+ * The mock push service (lib/mockPushService) runs outside production, or
+ * with PUSH_MOCK_ENABLED=true
+ */
+export function isMockPushEnabled(): boolean {
+  return process.env.NODE_ENV !== 'production' || process.env.PUSH_MOCK_ENABLED === 'true';
+}
+
+function decodeKey(value: string, length: number, name: string): Buffer {
+  const buffer = Buffer.from(value, 'base64url');
+  if (buffer.length !== length) {
+    throw new WebPushError(`Invalid ${name} key`, 400, 'INVALID_SUBSCRIPTION');
+  }
+  return buffer;
+}
+
+/**
+ * Post one notification to a subscription's push service
+ * expired is set when the push service no longer knows the subscription
+ * (404/410), meaning the browser unsubscribed or the subscription lapsed.
+ */
+export async function sendPushNotification(
+  subscription: PushSubscriptionKeys,
+  notification: PushNotification,
+  keys: VapidKeys = getVapidKeys()
+): Promise<{ ok: boolean; status: number; expired: boolean }> {
+  const payload = JSON.stringify(notification);
+  if (Buffer.byteLength(payload) > MAX_PAYLOAD_BYTES) {
+    throw new WebPushError(`Push payload exceeds ${MAX_PAYLOAD_BYTES} bytes`, 400, 'PAYLOAD_TOO_LARGE');
+  }
+
+  // web-push encrypts and signs the message; it is posted with fetch so the
+  // plain-http mock push service works in development
+  const request = webpush.generateRequestDetails(subscription, payload, {
+    vapidDetails: keys,
+    contentEncoding: 'aes128gcm',
+    TTL: PUSH_TTL_SECONDS,
+    urgency: URGENCY[notification.severity],
+    ...(notification.tag ? { topic: notification.tag.replace(/[^A-Za-z0-9_-]/g, '').slice(0, 32) } : {}),
+  });
+  const response = await fetch(request.endpoint, {
+    method: request.method,
+    headers: request.headers as Record<string, string>,
+    body: request.body ? new Uint8Array(request.body) : undefined,
+    signal: AbortSignal.timeout(10000),
+  });
+
+  return { ok: response.ok, status: response.status, expired: response.status === 404 || response.status === 410 };
+}
+
+/**
+ * Validate a subscription from a request
+ * Endpoints must be https on a known push service, since every stored
+ * endpoint is POSTed to. The mock push service on this server (origin of the
+ * request) is accepted too while it is enabled.
+ */
+function validSubscription(input: unknown, origin: string): PushSubscriptionKeys {
+  const raw = (input ?? {}) as { endpoint?: unknown; keys?: { p256dh?: unknown; auth?: unknown } };
+
+  let endpoint: URL;
+  try {
+    endpoint = new URL(typeof raw.endpoint === 'string' ? raw.endpoint : '');
+  } catch {
+    throw new WebPushError('endpoint must be a URL', 400, 'INVALID_SUBSCRIPTION');
+  }
+  const isMockEndpoint =
+    isMockPushEnabled() && endpoint.origin === origin && endpoint.pathname.startsWith('/api/push/mock/');
+  if (!isMockEndpoint) {
+    if (endpoint.protocol !== 'https:') {
+      throw new WebPushError('endpoint must use https', 400, 'INVALID_SUBSCRIPTION');
+    }
+    if (!PUSH_SERVICE_HOSTS.some((host) => endpoint.hostname === host || endpoint.hostname.endsWith(`.${host}`))) {
+      throw new WebPushError('endpoint is not a known push service', 400, 'INVALID_SUBSCRIPTION');
+    }
+  }
+
+  if (typeof raw.keys?.p256dh !== 'string' || typeof raw.keys?.auth !== 'string') {
+    throw new WebPushError('keys.p256dh and keys.auth are required', 400, 'INVALID_SUBSCRIPTION');
+  }
+  const p256dh = decodeKey(raw.keys.p256dh, 65, 'p256dh');
+  decodeKey(raw.keys.auth, 16, 'auth');
+  try {
+    // Throws unless the key is a point on P-256
+    const ecdh = createECDH('prime256v1');
+    ecdh.generateKeys();
+    ecdh.computeSecret(p256dh);
+  } catch {
+    throw new WebPushError('Invalid p256dh key', 400, 'INVALID_SUBSCRIPTION');
+  }
+
+  return { endpoint: endpoint.toString(), keys: { p256dh: raw.keys.p256dh, auth: raw.keys.auth } };
+}
+
+function validSeverities(input: unknown): AlertSeverity[] {
+  if (input === undefined) return DEFAULT_PUSH_SEVERITIES;
+  if (!Array.isArray(input) || input.some((severity) => !PUSH_SEVERITIES.includes(severity))) {
+    throw new WebPushError(`severities must be a list of ${PUSH_SEVERITIES.join(', ')}`, 400, 'INVALID_SEVERITIES');
+  }
+  if (input.length === 0) {
+    throw new WebPushError('Choose at least one severity, or unsubscribe', 400, 'INVALID_SEVERITIES');
+  }
+  return PUSH_SEVERITIES.filter((severity) => input.includes(severity));
+}
+
+function toStoredSubscription(row: { endpoint: string; severities: AlertSeverity[]; created_at: Date }): StoredPushSubscription {
+  return {
+    endpoint: row.endpoint,
+    severities: row.severities,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+/**
+ * Store a browser's subscription (or update its severities when it is
+ * already stored); omitted severities default to critical only. origin is
+ * this server's, for subscriptions issued by the mock push service.
+ */
+export async function savePushSubscription(
+  input: unknown,
+  severities: unknown,
+  userAgent: string | null,
+  origin: string
+): Promise<StoredPushSubscription> {
+  const subscription = validSubscription(input, origin);
+  const chosen = validSeverities(severities);
+
+  const result = await db.query(
+    `INSERT INTO push_subscriptions (endpoint, p256dh, auth, severities, user_agent)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (endpoint)
+     DO UPDATE SET p256dh = EXCLUDED.p256dh, auth = EXCLUDED.auth, severities = EXCLUDED.severities,
+                   user_agent = EXCLUDED.user_agent, failure_count = 0, updated_at = NOW()
+     RETURNING endpoint, severities, created_at`,
+    [subscription.endpoint, subscription.keys.p256dh, subscription.keys.auth, chosen, userAgent?.slice(0, 255) ?? null]
+  );
+  return toStoredSubscription(result.rows[0]);
+}
+
+/**
+ * Stored subscription for an endpoint (the endpoint URL is only known to the
+ * browser it was issued to, so it identifies the caller)
+ */
+export async function getPushSubscription(endpoint: string): Promise<StoredPushSubscription> {
+  const result = await db.query(
+    'SELECT endpoint, severities, created_at FROM push_subscriptions WHERE endpoint = $1',
+    [endpoint]
+  );
+  if (result.rows.length === 0) {
+    throw new WebPushError('Push subscription not found', 404, 'SUBSCRIPTION_NOT_FOUND');
+  }
+  return toStoredSubscription(result.rows[0]);
+}
+
+export async function deletePushSubscription(endpoint: string): Promise<void> {
+  await db.query('DELETE FROM push_subscriptions WHERE endpoint = $1', [endpoint]);
+}
+
+/**
+ * Subscriptions that opted into any of the given severities
+ */
+export async function getPushRecipients(
+  severities: AlertSeverity[]
+): Promise<Array<PushSubscriptionKeys & { severities: AlertSeverity[] }>> {
+  if (severities.length === 0) return [];
+  const result = await db.query(
+    'SELECT endpoint, p256dh, auth, severities FROM push_subscriptions WHERE severities && $1::text[]',
+    [severities]
+  );
+  return result.rows.map((row) => ({
+    endpoint: row.endpoint,
+    keys: { p256dh: row.p256dh, auth: row.auth },
+    severities: row.severities,
+  }));
+}
+
+/**
+ * Send a test notification to one stored subscription
+ * Throws WebPushError when it is unknown or the push service rejects it;
+ * an expired subscription is deleted.
+ */
+export async function sendTestNotification(endpoint: string): Promise<void> {
+  const result = await db.query('SELECT endpoint, p256dh, auth, severities FROM push_subscriptions WHERE endpoint = $1', [
+    endpoint,
+  ]);
+  const row = result.rows[0];
+  if (!row) {
+    throw new WebPushError('Push subscription not found', 404, 'SUBSCRIPTION_NOT_FOUND');
+  }
+
+  const response = await sendPushNotification(
+    { endpoint: row.endpoint, keys: { p256dh: row.p256dh, auth: row.auth } },
+    {
+      title: 'Test notification',
+      body: `You will be notified of ${(row.severities as string[]).join(', ')} alerts.`,
+      severity: 'info',
+      url: '/',
+      tag: 'test',
+    }
+  );
+  if (response.expired) {
+    await deletePushSubscription(endpoint);
+    throw new WebPushError('This browser is no longer subscribed. Turn notifications on again.', 410, 'SUBSCRIPTION_GONE');
+  }
+  if (!response.ok) {
+    throw new WebPushError(`Push service responded ${response.status}`, 502, 'PUSH_FAILED');
+  }
+}
+
+/**
+ * One notification summarising the alerts (the most severe sets the urgency)
+ */
+function toNotification(alerts: Array<{ severity: AlertSeverity; title: string; message: string }>): PushNotification {
+  const severity = PUSH_SEVERITIES.filter((level) => alerts.some((alert) => alert.severity === level)).pop() ?? 'info';
+  if (alerts.length === 1) {
+    return { title: alerts[0].title, body: alerts[0].message, severity, url: '/', tag: 'market-alert' };
+  }
+  return {
+    title: `${alerts.length} market alerts`,
+    body: alerts.map((alert) => alert.title).join('\n'),
+    severity,
+    url: '/',
+    tag: 'market-alert',
+  };
+}
+
+/**
+ * Send each recipient one notification with the alerts of the severities it
+ * opted into. Subscriptions the push service reports as gone are deleted, as
+ * are ones that keep failing; failures are counted, not thrown.
+ */
+export async function deliverPushAlerts(
+  recipients: Array<PushSubscriptionKeys & { severities: AlertSeverity[] }>,
+  alerts: Array<{ severity: AlertSeverity; title: string; message: string }>
+): Promise<PushDeliveryResult> {
+  const result: PushDeliveryResult = { recipients: 0, sent: 0, failed: 0, removed: 0, errors: [] };
+  const keys = getVapidKeys();
+  const delivered: string[] = [];
+  const failed: string[] = [];
+  const expired: string[] = [];
+
+  const messages = recipients
+    .map((recipient) => ({ recipient, alerts: alerts.filter((alert) => recipient.severities.includes(alert.severity)) }))
+    .filter((message) => message.alerts.length > 0);
+  result.recipients = messages.length;
+
+  for (let i = 0; i < messages.length; i += PUSH_BATCH_SIZE) {
+    await Promise.all(
+      messages.slice(i, i + PUSH_BATCH_SIZE).map(async ({ recipient, alerts: matching }) => {
+        try {
+          const response = await sendPushNotification(recipient, toNotification(matching), keys);
+          if (response.ok) {
+            delivered.push(recipient.endpoint);
+            result.sent++;
+            return;
+          }
+          if (response.expired) {
+            expired.push(recipient.endpoint);
+            result.removed++;
+            return;
+          }
+          throw new Error(`Push service responded ${response.status}`);
+        } catch (error) {
+          failed.push(recipient.endpoint);
+          result.failed++;
+          result.errors.push({
+            endpoint: new URL(recipient.endpoint).origin,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      })
+    );
+  }
+
+  if (delivered.length > 0) {
+    await db.query(
+      `UPDATE push_subscriptions SET failure_count = 0, last_success_at = NOW() WHERE endpoint = ANY($1::text[])`,
+      [delivered]
+    );
+  }
+  if (failed.length > 0) {
+    await db.query(
+      `UPDATE push_subscriptions SET failure_count = failure_count + 1 WHERE endpoint = ANY($1::text[])`,
+      [failed]
+    );
+  }
+  if (expired.length > 0 || failed.length > 0) {
+    await db.query(
+      `DELETE FROM push_subscriptions WHERE endpoint = ANY($1::text[]) OR failure_count >= $2`,
+      [expired, MAX_FAILURES]
+    );
+  }
+
+  return result;
+}
@@ -0,0 +1,27 @@
+-- Indicator snapshots table (daily history of Tier 1 economic indicators)
+CREATE TABLE indicator_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  indicator_id VARCHAR(50) NOT NULL, -- cape, yield-curve, margin-debt, credit-spreads, buffett
+  value NUMERIC NOT NULL,
+  status VARCHAR(20), -- safe, warning, danger
+  source_timestamp TIMESTAMP NOT NULL, -- timestamp reported by the data source
+  recorded_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (indicator_id, source_timestamp)
+);
+
+-- Create indexes
+CREATE INDEX idx_indicator_snapshots_indicator_time ON indicator_snapshots(indicator_id, source_timestamp);
+
+-- Row Level Security
+ALTER TABLE indicator_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Indicator history is public data, but only the service role records it
+CREATE POLICY "Public can read indicator snapshots"
+  ON indicator_snapshots
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role can manage indicator snapshots"
+  ON indicator_snapshots
+  FOR ALL
+  USING (auth.role() = 'service_role');
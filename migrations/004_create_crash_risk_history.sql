@@ -0,0 +1,23 @@
+-- Crash risk history table (monthly crash-risk score recomputed from historical indicator values)
+CREATE TABLE crash_risk_history (
+  month DATE PRIMARY KEY, -- first day of the month
+  total_score NUMERIC NOT NULL,
+  risk_level VARCHAR(20) NOT NULL, -- Low, Moderate, Elevated, High, Critical
+  components JSONB NOT NULL, -- per-indicator 0-100 scores
+  weights JSONB NOT NULL,
+  inputs JSONB DEFAULT '{}', -- raw indicator values used for the score
+  computed_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Row Level Security
+ALTER TABLE crash_risk_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read crash risk history"
+  ON crash_risk_history
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role can manage crash risk history"
+  ON crash_risk_history
+  FOR ALL
+  USING (auth.role() = 'service_role');
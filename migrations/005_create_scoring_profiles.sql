@@ -0,0 +1,54 @@
+-- Scoring profiles table (named crash-risk weightings and score breakpoints)
+CREATE TABLE scoring_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(50) UNIQUE NOT NULL, -- lowercase slug, e.g. 'short-term'
+  description TEXT,
+  weights JSONB NOT NULL, -- per-indicator weights, must sum to 1
+  breakpoints JSONB NOT NULL, -- per-indicator [value, score] pairs
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Seed the built-in profiles (all use the default breakpoints)
+WITH default_breakpoints AS (
+  SELECT '{
+    "cape": [[0, 0], [20, 20], [25, 40], [30, 70], [50, 100]],
+    "yieldCurve": [[-1, 100], [0, 70], [0.5, 50], [1, 20], [2, 10], [7, 0]],
+    "marginDebt": [[0, 0], [1.5, 20], [2.5, 40], [3.0, 70], [5.0, 100]],
+    "creditSpreads": [[0, 0], [3, 20], [5, 40], [7, 70], [12, 100]],
+    "buffett": [[0, 0], [80, 10], [115, 30], [160, 70], [240, 100]],
+    "vix": [[0, 0], [15, 20], [20, 40], [30, 70], [50, 100]]
+  }'::jsonb AS breakpoints
+)
+INSERT INTO scoring_profiles (name, description, weights, breakpoints)
+SELECT profile.name, profile.description, profile.weights::jsonb, default_breakpoints.breakpoints
+FROM default_breakpoints, (VALUES
+  (
+    'default',
+    'Balanced weighting of valuation, credit, rates and volatility',
+    '{"cape": 0.20, "yieldCurve": 0.20, "marginDebt": 0.15, "creditSpreads": 0.15, "buffett": 0.15, "vix": 0.15}'
+  ),
+  (
+    'short-term',
+    'Emphasizes volatility and credit stress for near-term risk',
+    '{"cape": 0.075, "yieldCurve": 0.15, "marginDebt": 0.10, "creditSpreads": 0.30, "buffett": 0.075, "vix": 0.30}'
+  ),
+  (
+    'valuation',
+    'Emphasizes long-term valuation (CAPE and Buffett Indicator)',
+    '{"cape": 0.35, "yieldCurve": 0.10, "marginDebt": 0.10, "creditSpreads": 0.05, "buffett": 0.35, "vix": 0.05}'
+  )
+) AS profile(name, description, weights);
+
+-- Row Level Security
+ALTER TABLE scoring_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read scoring profiles"
+  ON scoring_profiles
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role can manage scoring profiles"
+  ON scoring_profiles
+  FOR ALL
+  USING (auth.role() = 'service_role');
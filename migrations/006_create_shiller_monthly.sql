@@ -0,0 +1,21 @@
+-- Shiller monthly series (imported from Robert Shiller's ie_data workbook)
+CREATE TABLE shiller_monthly (
+  month DATE PRIMARY KEY, -- first day of the month
+  price NUMERIC, -- S&P Composite (P)
+  earnings NUMERIC, -- Earnings (E)
+  cape NUMERIC, -- Cyclically Adjusted P/E (CAPE)
+  imported_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Row Level Security
+ALTER TABLE shiller_monthly ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read shiller monthly"
+  ON shiller_monthly
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role can manage shiller monthly"
+  ON shiller_monthly
+  FOR ALL
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,21 @@
+-- Named watchlists of symbols per subscriber
+CREATE TABLE watchlists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscriber_id UUID NOT NULL REFERENCES subscribers(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  items JSONB NOT NULL DEFAULT '[]', -- [{ "symbol": "AAPL", "assetClass": "stock", "label": "Apple" }]
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (subscriber_id, name)
+);
+
+CREATE INDEX idx_watchlists_subscriber ON watchlists(subscriber_id, position);
+
+-- Row Level Security (watchlists are private to the subscriber; the API uses the service role)
+ALTER TABLE watchlists ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage watchlists"
+  ON watchlists
+  FOR ALL
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,44 @@
+-- OHLCV candles cached from the market data providers
+CREATE TABLE price_candles (
+  symbol VARCHAR(20) NOT NULL,
+  asset_class VARCHAR(20) NOT NULL, -- index, stock, crypto
+  resolution VARCHAR(2) NOT NULL, -- 1, 5, 60 (minutes), D, W
+  time TIMESTAMP NOT NULL, -- bar open time (UTC)
+  open NUMERIC NOT NULL,
+  high NUMERIC NOT NULL,
+  low NUMERIC NOT NULL,
+  close NUMERIC NOT NULL,
+  volume NUMERIC NOT NULL DEFAULT 0,
+  provider VARCHAR(20), -- provider that served the bar
+  PRIMARY KEY (symbol, asset_class, resolution, time)
+);
+
+-- Windows already fetched from a provider (a request inside a fresh window is served from price_candles)
+CREATE TABLE price_candle_fetches (
+  symbol VARCHAR(20) NOT NULL,
+  asset_class VARCHAR(20) NOT NULL,
+  resolution VARCHAR(2) NOT NULL,
+  range_from TIMESTAMP NOT NULL,
+  range_to TIMESTAMP NOT NULL,
+  fetched_at TIMESTAMP NOT NULL,
+  PRIMARY KEY (symbol, asset_class, resolution, range_from, range_to)
+);
+
+-- Row Level Security
+ALTER TABLE price_candles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_candle_fetches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read price candles"
+  ON price_candles
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role can manage price candles"
+  ON price_candles
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage price candle fetches"
+  ON price_candle_fetches
+  FOR ALL
+  USING (auth.role() = 'service_role');
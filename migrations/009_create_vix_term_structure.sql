@@ -0,0 +1,24 @@
+-- Daily closes of the VIX term structure indices (VIX9D, VIX, VIX3M, VIX6M)
+CREATE TABLE vix_term_structure (
+  symbol VARCHAR(10) NOT NULL, -- VIX9D, VIX, VIX3M, VIX6M
+  date DATE NOT NULL, -- trading day
+  close NUMERIC NOT NULL,
+  source VARCHAR(10) NOT NULL, -- cboe or fred
+  imported_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (symbol, date)
+);
+
+CREATE INDEX idx_vix_term_structure_date ON vix_term_structure(date DESC);
+
+-- Row Level Security
+ALTER TABLE vix_term_structure ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read vix term structure"
+  ON vix_term_structure
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role can manage vix term structure"
+  ON vix_term_structure
+  FOR ALL
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,21 @@
+-- 12-month-ahead recession probability from the NY Fed yield curve probit model
+CREATE TABLE recession_probability (
+  month DATE PRIMARY KEY, -- first day of the month whose average spread was used
+  spread NUMERIC NOT NULL, -- monthly average 10-year minus 3-month Treasury spread (percentage points)
+  probability NUMERIC NOT NULL, -- probability (%) of a recession twelve months later
+  target_month DATE NOT NULL, -- month the probability refers to
+  computed_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Row Level Security
+ALTER TABLE recession_probability ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read recession probability"
+  ON recession_probability
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role can manage recession probability"
+  ON recession_probability
+  FOR ALL
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,36 @@
+-- Last evaluated level of each alert metric (indicator status or crash-risk level)
+CREATE TABLE alert_state (
+  metric VARCHAR(50) PRIMARY KEY, -- indicator key (e.g. yieldCurve) or crashScore
+  level VARCHAR(20) NOT NULL, -- safe/warning/danger, or Low..Critical for crashScore
+  value NUMERIC,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Alerts sent to subscribers (also the cooldown record)
+CREATE TABLE alert_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  metric VARCHAR(50) NOT NULL,
+  severity VARCHAR(20) NOT NULL, -- info, warning, critical
+  previous_level VARCHAR(20) NOT NULL,
+  level VARCHAR(20) NOT NULL,
+  value NUMERIC,
+  message TEXT NOT NULL,
+  recipients INTEGER DEFAULT 0, -- subscribers the alert was emailed to
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_alert_events_metric_level ON alert_events(metric, level, created_at);
+
+-- Row Level Security
+ALTER TABLE alert_state ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alert_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage alert state"
+  ON alert_state
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage alert events"
+  ON alert_events
+  FOR ALL
+  USING (auth.role() = 'service_role');
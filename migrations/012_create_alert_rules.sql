@@ -0,0 +1,27 @@
+-- Subscribers' own alert rules (warning/critical thresholds on a metric)
+CREATE TABLE alert_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscriber_id UUID NOT NULL REFERENCES subscribers(id) ON DELETE CASCADE,
+  metric VARCHAR(30) NOT NULL, -- MetricType: price-drop, volatility, indicator-value, ...
+  target VARCHAR(50) NOT NULL, -- value watched: vix, sp500-drawdown, crash-score, ...
+  direction VARCHAR(10) NOT NULL DEFAULT 'above', -- above, below
+  warning NUMERIC NOT NULL,
+  critical NUMERIC NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  description VARCHAR(100),
+  last_level VARCHAR(20) NOT NULL DEFAULT 'safe', -- safe, warning, critical at the last evaluation
+  last_value NUMERIC,
+  last_triggered_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_alert_rules_subscriber ON alert_rules(subscriber_id);
+
+-- Row Level Security
+ALTER TABLE alert_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage alert rules"
+  ON alert_rules
+  FOR ALL
+  USING (auth.role() = 'service_role');
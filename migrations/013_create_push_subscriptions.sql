@@ -0,0 +1,23 @@
+-- Browser push subscriptions (Web Push) and the alert severities each opted into
+CREATE TABLE push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint TEXT UNIQUE NOT NULL, -- push service URL issued to the browser
+  p256dh VARCHAR(100) NOT NULL, -- browser's public key (base64url)
+  auth VARCHAR(50) NOT NULL, -- browser's auth secret (base64url)
+  severities TEXT[] NOT NULL DEFAULT ARRAY['critical'], -- info, warning, critical
+  user_agent VARCHAR(255),
+  failure_count INTEGER NOT NULL DEFAULT 0, -- consecutive failed deliveries
+  last_success_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_push_subscriptions_severities ON push_subscriptions USING GIN (severities);
+
+-- Row Level Security
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage push subscriptions"
+  ON push_subscriptions
+  FOR ALL
+  USING (auth.role() = 'service_role');
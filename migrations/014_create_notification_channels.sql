@@ -0,0 +1,43 @@
+-- Chat and webhook destinations for alerts (configured in the admin panel)
+CREATE TABLE notification_channels (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  type VARCHAR(20) NOT NULL, -- slack, discord, webhook
+  url TEXT NOT NULL, -- incoming webhook URL
+  secret VARCHAR(255), -- HMAC signing secret (generic webhooks)
+  severities TEXT[] NOT NULL DEFAULT ARRAY['warning', 'critical'], -- info, warning, critical
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Delivery log (one row per notification, after retries)
+CREATE TABLE notification_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel_id UUID REFERENCES notification_channels(id) ON DELETE CASCADE,
+  channel_type VARCHAR(20),
+  notification_type VARCHAR(50), -- alert, test
+  subject VARCHAR(255),
+  status VARCHAR(20), -- sent, failed
+  attempts INTEGER NOT NULL DEFAULT 1,
+  response_status INTEGER, -- last HTTP status, null when the request itself failed
+  sent_at TIMESTAMP DEFAULT NOW(),
+  error_message TEXT
+);
+
+CREATE INDEX idx_notification_logs_channel ON notification_logs(channel_id);
+CREATE INDEX idx_notification_logs_sent_at ON notification_logs(sent_at);
+
+-- Row Level Security
+ALTER TABLE notification_channels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage notification channels"
+  ON notification_channels
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage notification logs"
+  ON notification_logs
+  FOR ALL
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,9 @@
+-- Separate token for the preferences page and saved watchlists
+-- The unsubscribe token only unsubscribes; this one authorizes watchlist and
+-- alert rule changes. Existing subscribers get a random token.
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+ALTER TABLE subscribers
+  ADD COLUMN preferences_token VARCHAR(255) NOT NULL DEFAULT encode(gen_random_bytes(32), 'hex');
+
+CREATE UNIQUE INDEX idx_subscribers_preferences_token ON subscribers(preferences_token);
@@ -0,0 +1,36 @@
+// Service worker for browser push notifications (see lib/webPush.ts)
+// Push messages carry { title, body, severity, url, tag } as JSON.
+
+self.addEventListener('push', (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'Market Crash Monitor', {
+      body: data.body || '',
+      tag: data.tag,
+      renotify: Boolean(data.tag),
+      // Critical alerts stay on screen until dismissed
+      requireInteraction: data.severity === 'critical',
+      data: { url: data.url || '/' },
+    })
+  );
+});
+
+// Focus an open dashboard tab, or open one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => client.url === url);
+      if (open) return open.focus();
+      return self.clients.openWindow(url);
+    })
+  );
+});
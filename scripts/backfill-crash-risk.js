@@ -0,0 +1,38 @@
+import { config } from 'dotenv';
+
+// Load environment variables from .env.local or .env.development.local
+config({ path: '.env.development.local' });
+config({ path: '.env.local' });
+
+// The backfill runs inside the app (it reuses the TypeScript scoring code),
+// so this script triggers it on a running instance
+const baseUrl = process.argv[2] || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+const adminKey = process.env.ADMIN_SECRET_KEY;
+
+if (!adminKey) {
+  console.error('❌ ADMIN_SECRET_KEY not found');
+  console.error('Please set ADMIN_SECRET_KEY in your .env.local or .env.development.local file');
+  process.exit(1);
+}
+
+async function backfill() {
+  console.log(`🚀 Backfilling crash risk history via ${baseUrl}...`);
+
+  const response = await fetch(`${baseUrl}/api/admin/crash-risk/backfill`, {
+    method: 'POST',
+    headers: { 'x-admin-key': adminKey },
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    console.error(`❌ Backfill failed (${response.status}):`, data.message || data.error);
+    process.exit(1);
+  }
+
+  console.log(`✅ Stored ${data.months} months (${data.from} → ${data.to})`);
+}
+
+backfill().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,10 @@
+import webpush from 'web-push';
+
+// VAPID key pair for browser push notifications (P-256, base64url)
+// Keep the private key secret; changing the pair invalidates existing subscriptions.
+const { publicKey, privateKey } = webpush.generateVAPIDKeys();
+
+console.log('🔑 Add these to your .env.local (and your Vercel project settings):\n');
+console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
+console.log('VAPID_SUBJECT=mailto:you@example.com');
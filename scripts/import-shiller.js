@@ -0,0 +1,65 @@
+import { config } from 'dotenv';
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { basename } from 'path';
+
+// Load environment variables from .env.local or .env.development.local
+config({ path: '.env.development.local' });
+config({ path: '.env.local' });
+
+// Parsing, validation and storage run inside the app (lib/shiller.ts),
+// so this script uploads the workbook to a running instance.
+// Usage: node scripts/import-shiller.js [workbook] [baseUrl]
+const possibleFiles = [
+  './public/data/shiller-data.xls',
+  './public/data/ie_data.xls',
+  './public/data/shiller-data.xlsx',
+];
+const file = process.argv[2] || possibleFiles.find((path) => existsSync(path));
+const baseUrl = process.argv[3] || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+const adminKey = process.env.ADMIN_SECRET_KEY;
+
+if (!adminKey) {
+  console.error('❌ ADMIN_SECRET_KEY not found');
+  console.error('Please set ADMIN_SECRET_KEY in your .env.local or .env.development.local file');
+  process.exit(1);
+}
+
+if (!file) {
+  console.error('❌ Error: Could not find Shiller data file.');
+  console.error('   Pass a path or ensure one of these files exists:');
+  possibleFiles.forEach((path) => console.error(`   - ${path}`));
+  process.exit(1);
+}
+
+async function importWorkbook() {
+  console.log(`📄 Uploading ${file} to ${baseUrl}...`);
+
+  const form = new FormData();
+  form.append('file', new Blob([await readFile(file)]), basename(file));
+
+  const response = await fetch(`${baseUrl}/api/admin/shiller`, {
+    method: 'POST',
+    headers: { 'x-admin-key': adminKey },
+    body: form,
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    console.error(`❌ Import failed (${response.status}):`, data.message || data.error);
+    process.exit(1);
+  }
+
+  console.log(`✅ Stored ${data.months} months (${data.from} → ${data.to})`);
+  if (data.latestCape) {
+    console.log(`📊 Latest CAPE: ${data.latestCape.value.toFixed(2)} (${data.latestCape.date})`);
+  }
+  if (data.stale) {
+    console.warn('⚠️  The workbook is behind schedule; download the latest one from Shiller\'s site');
+  }
+}
+
+importWorkbook().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
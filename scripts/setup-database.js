@@ -43,7 +43,20 @@ const pool = new Pool({
 // Migration files in order
 const migrations = [
   '001_create_subscriber_tables.sql',
-  '002_rls_policies.sql'
+  '002_rls_policies.sql',
+  '003_create_indicator_snapshots.sql',
+  '004_create_crash_risk_history.sql',
+  '005_create_scoring_profiles.sql',
+  '006_create_shiller_monthly.sql',
+  '007_create_watchlists.sql',
+  '008_create_price_candles.sql',
+  '009_create_vix_term_structure.sql',
+  '010_create_recession_probability.sql',
+  '011_create_alert_engine.sql',
+  '012_create_alert_rules.sql',
+  '013_create_push_subscriptions.sql',
+  '014_create_notification_channels.sql',
+  '015_add_preferences_token.sql'
 ];
 
 async function runMigration(filename) {
@@ -85,6 +98,21 @@ async function setupDatabase() {
     console.log('   - subscribers');
     console.log('   - email_logs');
     console.log('   - newsletters');
+    console.log('   - indicator_snapshots');
+    console.log('   - crash_risk_history');
+    console.log('   - scoring_profiles');
+    console.log('   - shiller_monthly');
+    console.log('   - watchlists');
+    console.log('   - price_candles');
+    console.log('   - price_candle_fetches');
+    console.log('   - vix_term_structure');
+    console.log('   - recession_probability');
+    console.log('   - alert_state');
+    console.log('   - alert_events');
+    console.log('   - alert_rules');
+    console.log('   - push_subscriptions');
+    console.log('   - notification_channels');
+    console.log('   - notification_logs');
     console.log('\n🔒 Row Level Security policies enabled');
     
   } catch (error) {
@@ -0,0 +1,110 @@
+'use client';
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  ReferenceLine,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { useCrashRiskHistory } from '@/src/hooks/use-crash-risk-history';
+import type { CrashRiskHistoryPoint } from '@/lib/crashRiskHistory';
+import { Skeleton } from '@/components/ui/skeleton';
+
+/**
+ * Tooltip showing the month, score and risk level
+ */
+function HistoryTooltip({
+  active,
+  payload,
+}: {
+  active?: boolean;
+  payload?: Array<{ payload: CrashRiskHistoryPoint }>;
+}) {
+  if (active && payload && payload.length) {
+    const point = payload[0].payload;
+    return (
+      <div className="rounded bg-slate-800 border border-slate-700 px-2 py-1 shadow-lg">
+        <p className="text-xs text-slate-400">{point.date.slice(0, 7)}</p>
+        <p className="text-xs text-white font-medium">
+          {Math.round(point.totalScore)}% · {point.riskLevel}
+        </p>
+      </div>
+    );
+  }
+  return null;
+}
+
+/**
+ * Crash Risk History Chart
+ * Monthly crash risk score since 1990, with the Elevated (50) and High (65) thresholds
+ */
+export function CrashRiskHistoryChart() {
+  const { data, isLoading, error } = useCrashRiskHistory();
+  if (error) {
+    return (
+      <div className="rounded-lg border border-red-500/50 bg-red-500/10 p-4">
+        <p className="text-sm text-red-400">
+          Error loading crash risk history: {error.message}
+        </p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="rounded-lg border border-slate-700 bg-slate-800/50 p-6">
+        <Skeleton className="h-4 w-32 mb-4" />
+        <Skeleton className="h-[160px] w-full" />
+      </div>
+    );
+  }
+
+  const points = data ?? [];
+  const latest = points[points.length - 1];
+
+  return (
+    <div className="rounded-lg border border-slate-700 bg-slate-800/50 p-6 backdrop-blur-sm">
+      <div className="flex items-start justify-between mb-4">
+        <h3 className="text-sm font-medium text-slate-400">
+          Crash Risk History
+        </h3>
+        {latest && (
+          <span className="text-xs text-slate-500">
+            Since {points[0].date.slice(0, 4)}
+          </span>
+        )}
+      </div>
+
+      {points.length === 0 ? (
+        <div className="flex items-center justify-center h-[160px] bg-slate-800/30 rounded">
+          <p className="text-xs text-slate-500">No history yet - run the crash risk backfill</p>
+        </div>
+      ) : (
+        <ResponsiveContainer width="100%" height={160}>
+          <LineChart data={points} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+            <XAxis
+              dataKey="date"
+              tickFormatter={(date: string) => date.slice(0, 4)}
+              tick={{ fontSize: 10, fill: '#64748b' }}
+              minTickGap={30}
+            />
+            <YAxis domain={[0, 100]} tick={{ fontSize: 10, fill: '#64748b' }} />
+            <ReferenceLine y={50} stroke="#eab308" strokeDasharray="3 3" />
+            <ReferenceLine y={65} stroke="#f97316" strokeDasharray="3 3" />
+            <Line
+              type="monotone"
+              dataKey="totalScore"
+              stroke="#f87171"
+              strokeWidth={2}
+              dot={false}
+            />
+            <Tooltip content={<HistoryTooltip />} />
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,32 @@
 'use client';
 
 import { useEnhancedCrashRiskScore } from '@/src/hooks/use-enhanced-crash-risk';
-import { getRiskLevelColor, getRiskLevelEmoji } from '@/src/lib/enhanced-crash-risk';
+import { useScoringProfiles } from '@/src/hooks/use-scoring-profiles';
+import {
+  DataQuality,
+  DEFAULT_SCORING_PROFILE,
+  getRiskLevelColor,
+  getRiskLevelEmoji,
+  OPTIONAL_CRASH_RISK_COMPONENTS,
+  OptionalCrashRiskComponent,
+} from '@/src/lib/enhanced-crash-risk';
 import { AlertTriangle, TrendingUp, Info } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useState } from 'react';
 
+const OPTIONAL_COMPONENT_NAMES: Record<OptionalCrashRiskComponent, string> = {
+  breadth200: '% Above 200-Day MA',
+  breadth50: '% Above 50-Day MA',
+  netNewHighs: 'Net New Highs',
+  advanceDecline: 'A/D Line (20d)',
+  vixTermStructure: 'VIX Term Structure',
+  recessionProbability: 'Recession Probability (12m)',
+};
+
 export function EnhancedCrashRiskCard() {
-  const { breakdown, isLoading, error } = useEnhancedCrashRiskScore();
+  const [profile, setProfile] = useState(DEFAULT_SCORING_PROFILE.name);
+  const { breakdown, isLoading, error } = useEnhancedCrashRiskScore(profile);
+  const { data: profiles } = useScoringProfiles();
   const [showBreakdown, setShowBreakdown] = useState(false);
 
   if (error) {
@@ -16,6 +35,15 @@ export function EnhancedCrashRiskCard() {
         <p className="text-sm text-red-400">
           Error calculating crash risk: {error.message}
         </p>
+        {profile !== DEFAULT_SCORING_PROFILE.name && (
+          <button
+            type="button"
+            onClick={() => setProfile(DEFAULT_SCORING_PROFILE.name)}
+            className="mt-2 text-xs text-slate-300 underline"
+          >
+            Use the default profile
+          </button>
+        )}
       </div>
     );
   }
@@ -52,9 +80,36 @@ export function EnhancedCrashRiskCard() {
         <div className="text-right">
           <div className="text-xs text-slate-400 mb-1">Risk Level</div>
           <div className="text-lg font-bold">{breakdown.riskLevel}</div>
+          <div
+            className={`text-xs mt-1 ${getConfidenceColor(breakdown.confidence)}`}
+            title="Share of the score backed by current data (stale and fallback values count partially)"
+          >
+            {breakdown.confidence}% confidence
+          </div>
         </div>
       </div>
 
+      {/* Scoring Profile */}
+      <div className="flex items-center gap-2 mb-4 text-xs text-slate-400">
+        <span>Profile:</span>
+        {profiles && profiles.length > 1 ? (
+          <select
+            value={profile}
+            onChange={(e) => setProfile(e.target.value)}
+            className="rounded border border-slate-700 bg-slate-900/50 px-2 py-1 text-slate-300"
+            aria-label="Scoring profile"
+          >
+            {profiles.map((p) => (
+              <option key={p.name} value={p.name}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <span className="font-medium text-slate-300">{breakdown.profile}</span>
+        )}
+      </div>
+
       {/* Warning Counters */}
       <div className="flex gap-4 mb-4 text-sm">
         {breakdown.criticalWarnings > 0 && (
@@ -93,6 +148,7 @@ export function EnhancedCrashRiskCard() {
             name="CAPE Ratio"
             score={breakdown.components.cape}
             weight={breakdown.weights.cape}
+            quality={breakdown.dataQuality.cape}
           />
 
           {/* Yield Curve */}
@@ -100,6 +156,7 @@ export function EnhancedCrashRiskCard() {
             name="Yield Curve"
             score={breakdown.components.yieldCurve}
             weight={breakdown.weights.yieldCurve}
+            quality={breakdown.dataQuality.yieldCurve}
           />
 
           {/* Margin Debt */}
@@ -107,6 +164,7 @@ export function EnhancedCrashRiskCard() {
             name="Margin Debt"
             score={breakdown.components.marginDebt}
             weight={breakdown.weights.marginDebt}
+            quality={breakdown.dataQuality.marginDebt}
           />
 
           {/* Credit Spreads */}
@@ -114,6 +172,7 @@ export function EnhancedCrashRiskCard() {
             name="Credit Spreads"
             score={breakdown.components.creditSpreads}
             weight={breakdown.weights.creditSpreads}
+            quality={breakdown.dataQuality.creditSpreads}
           />
 
           {/* Buffett Indicator */}
@@ -121,6 +180,7 @@ export function EnhancedCrashRiskCard() {
             name="Buffett Indicator"
             score={breakdown.components.buffett}
             weight={breakdown.weights.buffett}
+            quality={breakdown.dataQuality.buffett}
           />
 
           {/* VIX */}
@@ -128,15 +188,32 @@ export function EnhancedCrashRiskCard() {
             name="VIX"
             score={breakdown.components.vix}
             weight={breakdown.weights.vix}
+            quality={breakdown.dataQuality.vix}
           />
 
+          {/* Optional components scored by this profile (breadth, VIX term structure, recession probability) */}
+          {OPTIONAL_CRASH_RISK_COMPONENTS.map((component) => {
+            const quality = breakdown.dataQuality[component];
+            if (!quality) return null;
+            return (
+              <IndicatorRow
+                key={component}
+                name={OPTIONAL_COMPONENT_NAMES[component]}
+                score={breakdown.components[component] ?? 0}
+                weight={breakdown.weights[component] ?? 0}
+                quality={quality}
+              />
+            );
+          })}
+
           {/* Methodology Note */}
           <div className="mt-4 p-3 bg-slate-900/50 rounded text-xs text-slate-400">
             <div className="font-semibold mb-1">📊 Methodology</div>
             <div>
-              Each indicator is normalized to 0-100 and weighted based on historical
-              crash prediction accuracy. Scores: 0-30 Low, 30-50 Moderate, 50-65 Elevated,
-              65-80 High, 80-100 Critical.
+              Each indicator is normalized to 0-100 and weighted by the
+              &quot;{breakdown.profile}&quot; scoring profile. Scores: 0-30 Low, 30-50 Moderate, 50-65 Elevated,
+              65-80 High, 80-100 Critical. Missing indicators are left out and their
+              weight is spread across the rest, which lowers the confidence.
             </div>
           </div>
         </div>
@@ -145,6 +222,24 @@ export function EnhancedCrashRiskCard() {
   );
 }
 
+/**
+ * Confidence text color
+ */
+function getConfidenceColor(confidence: number): string {
+  if (confidence >= 80) return 'text-slate-400';
+  if (confidence >= 50) return 'text-yellow-400';
+  return 'text-red-400';
+}
+
+/**
+ * Badge styles for non-current data
+ */
+const QUALITY_STYLES: Record<Exclude<DataQuality, 'present'>, string> = {
+  stale: 'bg-yellow-500/20 text-yellow-400',
+  fallback: 'bg-orange-500/20 text-orange-400',
+  missing: 'bg-slate-700 text-slate-400',
+};
+
 /**
  * Individual indicator row component
  */
@@ -152,10 +247,12 @@ function IndicatorRow({
   name,
   score,
   weight,
+  quality,
 }: {
   name: string;
   score: number;
   weight: number;
+  quality: DataQuality;
 }) {
   const getScoreColor = (score: number) => {
     if (score < 40) return 'bg-green-500';
@@ -168,10 +265,17 @@ function IndicatorRow({
   return (
     <div className="space-y-1">
       <div className="flex justify-between items-center text-sm">
-        <span className="text-slate-300">{name}</span>
+        <div className="flex items-center gap-2">
+          <span className="text-slate-300">{name}</span>
+          {quality !== 'present' && (
+            <span className={`rounded px-1.5 py-0.5 text-[10px] uppercase ${QUALITY_STYLES[quality]}`}>
+              {quality}
+            </span>
+          )}
+        </div>
         <div className="flex items-center gap-2">
           <span className="text-slate-400 text-xs">
-            {Math.round(score)}/100 × {(weight * 100).toFixed(0)}%
+            {Math.round(score)}/100 × {Number((weight * 100).toFixed(1))}%
           </span>
           <span className="font-semibold text-white">
             = {contribution.toFixed(1)}
@@ -0,0 +1,44 @@
+import { useQuery } from '@tanstack/react-query';
+import type { CrashRiskHistoryPoint } from '@/lib/crashRiskHistory';
+
+/**
+ * Return type for useCrashRiskHistory hook
+ */
+export interface UseCrashRiskHistoryReturn {
+  data: CrashRiskHistoryPoint[] | undefined;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Custom React hook to fetch the monthly crash risk score history
+ * History is rebuilt by the backfill, so this refetches hourly
+ *
+ * @param from - Optional start date (YYYY-MM-DD), defaults to the start of the backfill
+ * @returns {UseCrashRiskHistoryReturn} Object containing history points, loading state, and error
+ */
+export function useCrashRiskHistory(from?: string): UseCrashRiskHistoryReturn {
+  const { data, isLoading, error } = useQuery<CrashRiskHistoryPoint[]>({
+    queryKey: ['crash-risk', 'history', from ?? 'all'],
+    queryFn: async () => {
+      const query = from ? `?from=${encodeURIComponent(from)}` : '';
+      const response = await fetch(`/api/crash-risk/history${query}`);
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to fetch crash risk history');
+      }
+      return body.data as CrashRiskHistoryPoint[];
+    },
+    refetchInterval: 60 * 60 * 1000, // Refetch every hour
+    staleTime: 55 * 60 * 1000,
+    gcTime: 2 * 60 * 60 * 1000,
+    retry: 2,
+    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+  });
+
+  return {
+    data,
+    isLoading,
+    error: error as Error | null,
+  };
+}
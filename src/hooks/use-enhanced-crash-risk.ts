@@ -1,7 +1,18 @@
 import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { useMarketData } from '@/hooks/use-market-data';
 import { useEconomicIndicators } from '@/hooks/use-economic-indicators';
-import { calculateEnhancedCrashRisk, CrashRiskBreakdown } from '@/src/lib/enhanced-crash-risk';
+import { useMarketBreadth } from '@/hooks/use-market-breadth';
+import { useVixTermStructure } from '@/hooks/use-vix-term-structure';
+import { useRecessionProbability } from '@/hooks/use-recession-probability';
+import { useScoringProfiles } from '@/src/hooks/use-scoring-profiles';
+import { STREAM_CRASH_SCORE_KEY, useStreamStatus } from '@/hooks/use-live-updates';
+import type { CurrentCrashRisk } from '@/lib/crashRisk';
+import {
+  calculateEnhancedCrashRisk,
+  CrashRiskBreakdown,
+  DEFAULT_SCORING_PROFILE,
+} from '@/src/lib/enhanced-crash-risk';
 
 /**
  * Return type for useEnhancedCrashRiskScore hook
@@ -14,13 +25,21 @@ export interface UseEnhancedCrashRiskScoreReturn {
 
 /**
  * Custom React hook to calculate enhanced crash risk score
- * Uses 6 Tier 1 indicators: CAPE, Yield Curve, Margin Debt, Credit Spreads, Buffett, VIX
+ * Uses 6 Tier 1 indicators: CAPE, Yield Curve, Margin Debt, Credit Spreads, Buffett, VIX,
+ * plus the market breadth, VIX term structure and recession probability components
+ * for profiles that weight them
  * 
+ * While the live stream is connected, the server's crash score is used for the
+ * profile it was scored with (the default)
+ *
+ * @param profile - Optional scoring profile name (defaults to 'default'). Profiles
+ *   that have not loaded yet score with the built-in default; an unknown profile
+ *   is reported as an error, like /api/crash-risk does.
  * @returns {UseEnhancedCrashRiskScoreReturn} Object containing risk breakdown, loading state, and error
  * 
  * @example
  * ```tsx
- * const { breakdown, isLoading, error } = useEnhancedCrashRiskScore();
+ * const { breakdown, isLoading, error } = useEnhancedCrashRiskScore('short-term');
  * 
  * if (isLoading) return <div>Calculating...</div>;
  * if (error) return <div>Error: {error.message}</div>;
@@ -34,19 +53,46 @@ export interface UseEnhancedCrashRiskScoreReturn {
  * );
  * ```
  */
-export function useEnhancedCrashRiskScore(): UseEnhancedCrashRiskScoreReturn {
+export function useEnhancedCrashRiskScore(profile?: string): UseEnhancedCrashRiskScoreReturn {
   const { data: marketData, isLoading: isMarketLoading, error: marketError } = useMarketData();
   const { data: economicIndicators, isLoading: isEconomicLoading, error: economicError } = useEconomicIndicators();
+  const { data: profiles, isLoading: isProfilesLoading } = useScoringProfiles();
+  // Optional components: when unavailable they are scored as missing
+  const { data: breadth } = useMarketBreadth();
+  const { data: termStructure } = useVixTermStructure();
+  const { data: recessionProbability } = useRecessionProbability();
+  const streamStatus = useStreamStatus();
+  const { data: streamedScore } = useQuery<CurrentCrashRisk | null>({
+    queryKey: STREAM_CRASH_SCORE_KEY,
+    queryFn: () => null,
+    initialData: null,
+    staleTime: Infinity,
+  });
+
+  const profileName = profile || DEFAULT_SCORING_PROFILE.name;
+  const storedProfile = profiles?.find((p) => p.name === profileName);
+  const scoringProfile = storedProfile ?? DEFAULT_SCORING_PROFILE;
+  const profileError = useMemo(() => {
+    if (!profiles || storedProfile || profileName === DEFAULT_SCORING_PROFILE.name) return null;
+    return new Error(`Scoring profile "${profileName}" not found`);
+  }, [profiles, storedProfile, profileName]);
 
   // Calculate crash risk score
   const breakdown = useMemo(() => {
-    return calculateEnhancedCrashRisk(economicIndicators, marketData);
-  }, [economicIndicators, marketData]);
+    if (streamStatus === 'live' && streamedScore?.profile === scoringProfile.name) {
+      return streamedScore;
+    }
+    return calculateEnhancedCrashRisk(economicIndicators, marketData, scoringProfile, {
+      ...breadth,
+      vixTermStructure: termStructure?.reading,
+      recessionProbability,
+    });
+  }, [streamStatus, streamedScore, economicIndicators, marketData, scoringProfile, breadth, termStructure, recessionProbability]);
 
   return {
     breakdown,
-    isLoading: isMarketLoading || isEconomicLoading,
-    error: (marketError || economicError) as Error | null,
+    isLoading: isMarketLoading || isEconomicLoading || isProfilesLoading,
+    error: (marketError || economicError || profileError) as Error | null,
   };
 }
 
@@ -0,0 +1,49 @@
+import { useQuery } from '@tanstack/react-query';
+import type { StoredScoringProfile } from '@/lib/scoringProfiles';
+
+/**
+ * Return type for useScoringProfiles hook
+ */
+export interface UseScoringProfilesReturn {
+  data: StoredScoringProfile[] | undefined;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Custom React hook to fetch the available crash risk scoring profiles
+ * Profiles are edited rarely, so this refetches every 10 minutes
+ *
+ * @returns {UseScoringProfilesReturn} Object containing profiles, loading state, and error
+ *
+ * @example
+ * ```tsx
+ * const { data: profiles } = useScoringProfiles();
+ *
+ * return profiles?.map((profile) => <option key={profile.name}>{profile.name}</option>);
+ * ```
+ */
+export function useScoringProfiles(): UseScoringProfilesReturn {
+  const { data, isLoading, error } = useQuery<StoredScoringProfile[]>({
+    queryKey: ['crash-risk', 'profiles'],
+    queryFn: async () => {
+      const response = await fetch('/api/crash-risk/profiles');
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to fetch scoring profiles');
+      }
+      return body.profiles as StoredScoringProfile[];
+    },
+    refetchInterval: 10 * 60 * 1000, // Refetch every 10 minutes
+    staleTime: 5 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+    retry: 2,
+    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+  });
+
+  return {
+    data,
+    isLoading,
+    error: error as Error | null,
+  };
+}
@@ -10,224 +10,454 @@
  * 6. VIX (Volatility Index)
  * 
  * Each indicator is normalized to 0-100 scale and weighted based on
- * historical predictive power from 1929 and 2008 crashes.
+ * historical predictive power from 1929 and 2008 crashes. Weights and
+ * score breakpoints come from a scoring profile; DEFAULT_SCORING_PROFILE
+ * is used when no other profile is selected.
+ *
+ * Profiles may also weight the optional market breadth components
+ * (see lib/breadth.ts) and the VIX term structure (lib/vixTermStructure.ts);
+ * they are only scored when a profile weights them.
  */
 
 import { CombinedEconomicIndicators } from '@/hooks/use-economic-indicators';
 import { CombinedMarketData } from '@/hooks/use-market-data';
 
+/**
+ * Core crash risk components (one per Tier 1 indicator), scored by every profile
+ */
+export type CoreCrashRiskComponent = 'cape' | 'yieldCurve' | 'marginDebt' | 'creditSpreads' | 'buffett' | 'vix';
+
+/**
+ * Market breadth components (lib/breadth.ts)
+ */
+export type BreadthComponent = 'breadth200' | 'breadth50' | 'netNewHighs' | 'advanceDecline';
+
+/**
+ * Optional components, scored only by profiles that give them a weight
+ * recessionProbability is an alternative to yieldCurve (the same spread run
+ * through the NY Fed probit model), so a profile weights one or the other.
+ */
+export type OptionalCrashRiskComponent = BreadthComponent | 'vixTermStructure' | 'recessionProbability';
+
+export type CrashRiskComponent = CoreCrashRiskComponent | OptionalCrashRiskComponent;
+
+export const CRASH_RISK_COMPONENTS: CoreCrashRiskComponent[] = [
+  'cape',
+  'yieldCurve',
+  'marginDebt',
+  'creditSpreads',
+  'buffett',
+  'vix',
+];
+
+export const BREADTH_COMPONENTS: BreadthComponent[] = [
+  'breadth200',
+  'breadth50',
+  'netNewHighs',
+  'advanceDecline',
+];
+
+export const OPTIONAL_CRASH_RISK_COMPONENTS: OptionalCrashRiskComponent[] = [
+  ...BREADTH_COMPONENTS,
+  'vixTermStructure',
+  'recessionProbability',
+];
+
+export const ALL_CRASH_RISK_COMPONENTS: CrashRiskComponent[] = [
+  ...CRASH_RISK_COMPONENTS,
+  ...OPTIONAL_CRASH_RISK_COMPONENTS,
+];
+
+/**
+ * Per-component values: required for core components, optional for the rest
+ */
+export type CrashRiskComponentRecord<T> = Record<CoreCrashRiskComponent, T> &
+  Partial<Record<OptionalCrashRiskComponent, T>>;
+
+/**
+ * Where an indicator value came from
+ * - present: current source data
+ * - stale: source data older than MAX_DATA_AGE_DAYS
+ * - fallback: built-in placeholder value
+ * - missing: not available (excluded from the score)
+ */
+export type DataQuality = 'present' | 'stale' | 'fallback' | 'missing';
+
 export interface CrashRiskBreakdown {
   totalScore: number;
   riskLevel: 'Low' | 'Moderate' | 'Elevated' | 'High' | 'Critical';
-  components: {
-    cape: number;
-    yieldCurve: number;
-    marginDebt: number;
-    creditSpreads: number;
-    buffett: number;
-    vix: number;
-  };
-  weights: {
-    cape: number;
-    yieldCurve: number;
-    marginDebt: number;
-    creditSpreads: number;
-    buffett: number;
-    vix: number;
-  };
+  components: CrashRiskComponentRecord<number>;
+  weights: CrashRiskComponentRecord<number>; // renormalized over available indicators
   activeWarnings: number;
   criticalWarnings: number;
+  profile: string; // name of the scoring profile that produced the score
+  confidence: number; // 0-100, share of profile weight backed by current data
+  dataQuality: CrashRiskComponentRecord<DataQuality>;
 }
 
 /**
- * Indicator weights based on historical predictive power
- * Total must equal 1.0
+ * Raw indicator values used to score crash risk
+ * Undefined means the indicator was not available
+ */
+export type CrashRiskInputs = Partial<Record<CrashRiskComponent, number>>;
+
+/**
+ * Data quality of each input (inputs without an entry are treated as present)
  */
-const WEIGHTS = {
-  cape: 0.20,        // 20% - Most reliable long-term indicator
-  yieldCurve: 0.20,  // 20% - Perfect recession predictor
-  marginDebt: 0.15,  // 15% - Strong crash amplifier
-  creditSpreads: 0.15, // 15% - Leading indicator
-  buffett: 0.15,     // 15% - Warren Buffett's favorite
-  vix: 0.15,         // 15% - Short-term volatility/fear gauge
+export type CrashRiskInputQuality = Partial<Record<CrashRiskComponent, Exclude<DataQuality, 'missing'>>>;
+
+/**
+ * Indicator reading as returned by the economic indicator and market data APIs
+ */
+export interface IndicatorReading {
+  value: number;
+  timestamp: string;
+  fallback?: boolean;
+  staleSince?: string;
+  error?: string;
+}
+
+/**
+ * Maximum data age (days) before an indicator counts as stale,
+ * based on each source's publication schedule
+ */
+export const MAX_DATA_AGE_DAYS: Record<CrashRiskComponent, number> = {
+  cape: 45,          // Monthly
+  yieldCurve: 5,     // Daily (allows for weekends and holidays)
+  marginDebt: 90,    // Monthly (timestamp is the FINRA month), published ~3 weeks after month end
+  creditSpreads: 5,  // Daily
+  buffett: 170,      // Monthly (Wilshire 5000) or quarterly (Z.1, published ~10 weeks after quarter end)
+  vix: 5,            // Daily
+  breadth200: 5,     // Daily constituent closes
+  breadth50: 5,
+  netNewHighs: 5,
+  advanceDecline: 5,
+  vixTermStructure: 5, // Daily
+  recessionProbability: 70, // Monthly (timestamp is the month of the averaged spread)
 };
 
 /**
- * Calculate individual indicator scores (0-100)
+ * How much of an indicator's weight counts toward confidence
  */
+const QUALITY_CONFIDENCE: Record<DataQuality, number> = {
+  present: 1,
+  stale: 0.5,
+  fallback: 0.25,
+  missing: 0,
+};
 
-function calculateCAPEScore(value: number): number {
-  // CAPE Thresholds:
-  // Safe: < 20 → 0-20 points
-  // Normal: 20-25 → 20-40 points
-  // Warning: 25-30 → 40-70 points
-  // Danger: > 30 → 70-100 points
-  
-  if (value <= 20) {
-    return (value / 20) * 20; // 0-20 points
-  } else if (value <= 25) {
-    return 20 + ((value - 20) / 5) * 20; // 20-40 points
-  } else if (value <= 30) {
-    return 40 + ((value - 25) / 5) * 30; // 40-70 points
-  } else {
-    // Above 30 is danger zone
-    const excessScore = Math.min((value - 30) / 20, 1) * 30;
-    return 70 + excessScore; // 70-100 points
-  }
+/**
+ * Piecewise-linear score curve: [indicatorValue, score] points sorted by value.
+ * Values between points are interpolated; values outside are clamped to the
+ * first/last score.
+ */
+export type ScoreBreakpoints = Array<[number, number]>;
+
+/**
+ * Scoring profile: indicator weights plus score breakpoints
+ * Optional components without a weight (or with weight 0) are not scored;
+ * without breakpoints they use OPTIONAL_COMPONENT_BREAKPOINTS.
+ */
+export interface ScoringProfile {
+  name: string;
+  description?: string;
+  weights: CrashRiskComponentRecord<number>;
+  breakpoints: CrashRiskComponentRecord<ScoreBreakpoints>;
 }
 
-function calculateYieldCurveScore(value: number): number {
-  // Yield Curve Thresholds (10Y - 3M):
-  // Healthy: > 2% → 0-10 points
-  // Normal: 1-2% → 10-20 points
-  // Narrowing: 0.5-1% → 20-50 points
-  // Warning: 0-0.5% → 50-70 points
-  // Inverted: < 0% → 70-100 points
-  
-  if (value > 2) {
-    return Math.max(0, 10 - (value - 2) * 2); // Very healthy → lower score
-  } else if (value > 1) {
-    return 10 + ((2 - value) / 1) * 10; // 10-20 points
-  } else if (value > 0.5) {
-    return 20 + ((1 - value) / 0.5) * 30; // 20-50 points
-  } else if (value >= 0) {
-    return 50 + ((0.5 - value) / 0.5) * 20; // 50-70 points
-  } else {
-    // Inverted (negative)
-    const inversionDepth = Math.min(Math.abs(value) / 1, 1);
-    return 70 + inversionDepth * 30; // 70-100 points
+/**
+ * Default breakpoints for the optional components. The breadth components
+ * are percentages of S&P 500 constituents (lower breadth scores higher); the
+ * term structure is the VIX / VIX3M ratio (above 1 is backwardation); the
+ * recession probability is a percentage.
+ */
+export const OPTIONAL_COMPONENT_BREAKPOINTS: Record<OptionalCrashRiskComponent, ScoreBreakpoints> = {
+  // % above 200-day MA: Broad > 70% → 0-10, Healthy 50-70% → 10-40,
+  // Narrowing 35-50% → 40-70, Weak < 35% → 70-100
+  breadth200: [[15, 100], [35, 70], [50, 40], [70, 10], [85, 0]],
+  // % above 50-day MA: reacts faster, so the bands are wider
+  breadth50: [[10, 100], [25, 70], [40, 40], [65, 10], [85, 0]],
+  // Net new 52-week highs minus lows (% of constituents)
+  netNewHighs: [[-15, 100], [-5, 70], [0, 40], [5, 10], [10, 0]],
+  // 20-session change in the advance/decline line (% of constituents)
+  advanceDecline: [[-150, 100], [-75, 70], [-25, 40], [25, 10], [75, 0]],
+  // VIX / VIX3M: Steep contango < 0.85 → 0-10, Normal 0.85-0.95 → 10-40,
+  // Flat 0.95-1.0 → 40-70, Backwardation > 1.0 → 70-100
+  vixTermStructure: [[0.75, 0], [0.85, 10], [0.95, 40], [1.0, 70], [1.15, 100]],
+  // 12-month recession probability (%): the default yieldCurve breakpoints
+  // mapped through the probit model (a 0% spread is about 30%)
+  recessionProbability: [[0, 0], [3.6, 10], [12, 20], [20, 50], [30, 70], [54, 100]],
+};
+
+/**
+ * Default profile: weights based on historical predictive power
+ */
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  name: 'default',
+  description: 'Balanced weighting of valuation, credit, rates and volatility',
+  // Total must equal 1.0
+  weights: {
+    cape: 0.20,        // 20% - Most reliable long-term indicator
+    yieldCurve: 0.20,  // 20% - Perfect recession predictor
+    marginDebt: 0.15,  // 15% - Strong crash amplifier
+    creditSpreads: 0.15, // 15% - Leading indicator
+    buffett: 0.15,     // 15% - Warren Buffett's favorite
+    vix: 0.15,         // 15% - Short-term volatility/fear gauge
+  },
+  breakpoints: {
+    // CAPE: Safe < 20 → 0-20, Normal 20-25 → 20-40, Warning 25-30 → 40-70, Danger > 30 → 70-100
+    cape: [[0, 0], [20, 20], [25, 40], [30, 70], [50, 100]],
+    // Yield Curve (10Y - 3M): Healthy > 2% → 0-10, Normal 1-2% → 10-20,
+    // Narrowing 0.5-1% → 20-50, Warning 0-0.5% → 50-70, Inverted < 0% → 70-100
+    yieldCurve: [[-1, 100], [0, 70], [0.5, 50], [1, 20], [2, 10], [7, 0]],
+    // Margin Debt / GDP: Safe < 1.5% → 0-20, Normal 1.5-2.5% → 20-40,
+    // Warning 2.5-3.0% → 40-70, Danger > 3.0% → 70-100
+    marginDebt: [[0, 0], [1.5, 20], [2.5, 40], [3.0, 70], [5.0, 100]],
+    // Credit Spreads (High Yield): Safe < 3% → 0-20, Normal 3-5% → 20-40,
+    // Elevated 5-7% → 40-70, Danger > 7% → 70-100
+    creditSpreads: [[0, 0], [3, 20], [5, 40], [7, 70], [12, 100]],
+    // Buffett Indicator: Undervalued < 80% → 0-10, Fair 80-115% → 10-30,
+    // Warning 115-160% → 30-70, Danger > 160% ("playing with fire") → 70-100
+    buffett: [[0, 0], [80, 10], [115, 30], [160, 70], [240, 100]],
+    // VIX: Low < 15 → 0-20, Normal 15-20 → 20-40, Elevated 20-30 → 40-70, Panic > 30 → 70-100
+    vix: [[0, 0], [15, 20], [20, 40], [30, 70], [50, 100]],
+  },
+};
+
+/**
+ * Minimum total score for each risk level
+ */
+export const RISK_LEVEL_MIN_SCORES: Record<CrashRiskBreakdown['riskLevel'], number> = {
+  Low: 0,
+  Moderate: 30,
+  Elevated: 50,
+  High: 65,
+  Critical: 80,
+};
+
+/**
+ * Validate a scoring profile
+ * Returns a list of problems (empty when the profile is valid)
+ */
+export function validateScoringProfile(profile: ScoringProfile): string[] {
+  const errors: string[] = [];
+
+  if (!profile.name || !/^[a-z0-9-]+$/.test(profile.name)) {
+    errors.push('Name must contain only lowercase letters, numbers and dashes');
   }
-}
 
-function calculateMarginDebtScore(value: number): number {
-  // Margin Debt / GDP Thresholds:
-  // Safe: < 1.5% → 0-20 points
-  // Normal: 1.5-2.5% → 20-40 points
-  // Warning: 2.5-3.0% → 40-70 points
-  // Danger: > 3.0% → 70-100 points
-  
-  if (value < 1.5) {
-    return (value / 1.5) * 20; // 0-20 points
-  } else if (value <= 2.5) {
-    return 20 + ((value - 1.5) / 1) * 20; // 20-40 points
-  } else if (value <= 3.0) {
-    return 40 + ((value - 2.5) / 0.5) * 30; // 40-70 points
-  } else {
-    // Above 3.0% is extreme
-    const excessScore = Math.min((value - 3.0) / 2, 1) * 30;
-    return 70 + excessScore; // 70-100 points
+  let weightSum = 0;
+  for (const component of ALL_CRASH_RISK_COMPONENTS) {
+    const optional = isOptionalComponent(component);
+    const weight = profile.weights?.[component];
+    if (optional && weight === undefined) {
+      // Not scored by this profile
+    } else if (typeof weight !== 'number' || isNaN(weight) || weight < 0 || weight > 1) {
+      errors.push(`Weight for ${component} must be a number between 0 and 1`);
+    } else {
+      weightSum += weight;
+    }
+
+    const points = profile.breakpoints?.[component];
+    if (optional && points === undefined) continue;
+    if (!Array.isArray(points) || points.length < 2) {
+      errors.push(`Breakpoints for ${component} must have at least 2 points`);
+      continue;
+    }
+    points.forEach((point, i) => {
+      if (!Array.isArray(point) || point.length !== 2 || point.some((n) => typeof n !== 'number' || isNaN(n))) {
+        errors.push(`Breakpoint ${i + 1} for ${component} must be a [value, score] pair`);
+      } else if (point[1] < 0 || point[1] > 100) {
+        errors.push(`Breakpoint ${i + 1} for ${component} must have a score between 0 and 100`);
+      } else if (i > 0 && point[0] <= points[i - 1][0]) {
+        errors.push(`Breakpoints for ${component} must be sorted by increasing value`);
+      }
+    });
+  }
+
+  // Both read the 10Y-3M spread; weighting both would count it twice
+  if ((profile.weights?.yieldCurve ?? 0) > 0 && (profile.weights?.recessionProbability ?? 0) > 0) {
+    errors.push('Weight either yieldCurve or recessionProbability, not both (set the other to 0)');
+  }
+
+  // Allow for floating point rounding
+  if (Math.abs(weightSum - 1) > 0.001) {
+    errors.push(`Weights must sum to 1 (currently ${weightSum.toFixed(3)})`);
   }
+
+  return errors;
 }
 
-function calculateCreditSpreadsScore(value: number): number {
-  // Credit Spreads (High Yield) Thresholds:
-  // Safe: < 3% → 0-20 points
-  // Normal: 3-5% → 20-40 points
-  // Elevated: 5-7% → 40-70 points
-  // Danger: > 7% → 70-100 points
-  
-  if (value < 3) {
-    return (value / 3) * 20; // 0-20 points
-  } else if (value <= 5) {
-    return 20 + ((value - 3) / 2) * 20; // 20-40 points
-  } else if (value <= 7) {
-    return 40 + ((value - 5) / 2) * 30; // 40-70 points
-  } else {
-    // Above 7% signals stress
-    const stressScore = Math.min((value - 7) / 5, 1) * 30;
-    return 70 + stressScore; // 70-100 points
+export function isOptionalComponent(component: CrashRiskComponent): component is OptionalCrashRiskComponent {
+  return (OPTIONAL_CRASH_RISK_COMPONENTS as CrashRiskComponent[]).includes(component);
+}
+
+/**
+ * Components a profile scores: the core ones plus optional ones it weights
+ */
+export function getProfileComponents(profile: ScoringProfile): CrashRiskComponent[] {
+  return [
+    ...CRASH_RISK_COMPONENTS,
+    ...OPTIONAL_CRASH_RISK_COMPONENTS.filter((component) => (profile.weights[component] ?? 0) > 0),
+  ];
+}
+
+/**
+ * Breakpoints a profile uses for a component
+ */
+function getBreakpoints(profile: ScoringProfile, component: CrashRiskComponent): ScoreBreakpoints {
+  if (isOptionalComponent(component)) {
+    return profile.breakpoints[component] ?? OPTIONAL_COMPONENT_BREAKPOINTS[component];
   }
+  return profile.breakpoints[component];
 }
 
-function calculateBuffettScore(value: number): number {
-  // Buffett Indicator (Market Cap / GDP) Thresholds:
-  // Undervalued: < 80% → 0-10 points
-  // Fair: 80-115% → 10-30 points
-  // Warning: 115-160% → 30-70 points
-  // Danger: > 160% → 70-100 points
-  
-  if (value < 80) {
-    return (value / 80) * 10; // 0-10 points
-  } else if (value <= 115) {
-    return 10 + ((value - 80) / 35) * 20; // 10-30 points
-  } else if (value <= 160) {
-    return 30 + ((value - 115) / 45) * 40; // 30-70 points
-  } else {
-    // Above 160% is danger (Buffett's "playing with fire")
-    const excessScore = Math.min((value - 160) / 80, 1) * 30;
-    return 70 + excessScore; // 70-100 points
+/**
+ * Calculate an indicator score (0-100) from a breakpoint curve
+ */
+export function scoreFromBreakpoints(value: number, breakpoints: ScoreBreakpoints): number {
+  const first = breakpoints[0];
+  const last = breakpoints[breakpoints.length - 1];
+  if (value <= first[0]) return first[1];
+  if (value >= last[0]) return last[1];
+
+  for (let i = 1; i < breakpoints.length; i++) {
+    const [upperValue, upperScore] = breakpoints[i];
+    if (value <= upperValue) {
+      const [lowerValue, lowerScore] = breakpoints[i - 1];
+      return lowerScore + ((value - lowerValue) / (upperValue - lowerValue)) * (upperScore - lowerScore);
+    }
   }
+  return last[1];
 }
 
-function calculateVIXScore(value: number): number {
-  // VIX Thresholds:
-  // Low volatility: < 15 → 0-20 points
-  // Normal: 15-20 → 20-40 points
-  // Elevated: 20-30 → 40-70 points
-  // High: > 30 → 70-100 points
-  
-  if (value < 15) {
-    return (value / 15) * 20; // 0-20 points
-  } else if (value <= 20) {
-    return 20 + ((value - 15) / 5) * 20; // 20-40 points
-  } else if (value <= 30) {
-    return 40 + ((value - 20) / 10) * 30; // 40-70 points
-  } else {
-    // VIX > 30 signals fear/panic
-    const panicScore = Math.min((value - 30) / 20, 1) * 30;
-    return 70 + panicScore; // 70-100 points, capped at 100
+/**
+ * Convert API readings into scoring inputs and their data quality.
+ * Readings that errored are left out; the rest are flagged as fallback or
+ * stale from their `fallback`/`staleSince` flags and timestamp.
+ */
+export function readCrashRiskInputs(
+  readings: Partial<Record<CrashRiskComponent, IndicatorReading | undefined>>,
+  now: Date = new Date()
+): { inputs: CrashRiskInputs; quality: CrashRiskInputQuality } {
+  const inputs: CrashRiskInputs = {};
+  const quality: CrashRiskInputQuality = {};
+
+  for (const component of ALL_CRASH_RISK_COMPONENTS) {
+    const reading = readings[component];
+    if (!reading || reading.error) continue;
+
+    inputs[component] = reading.value;
+
+    const ageDays = (now.getTime() - new Date(reading.timestamp).getTime()) / (24 * 60 * 60 * 1000);
+    if (reading.fallback) {
+      quality[component] = 'fallback';
+    } else if (reading.staleSince || ageDays > MAX_DATA_AGE_DAYS[component]) {
+      quality[component] = 'stale';
+    } else {
+      quality[component] = 'present';
+    }
   }
+
+  return { inputs, quality };
 }
 
 /**
  * Main function to calculate comprehensive crash risk score
+ * Optional readings (breadth, term structure, recession probability) are only used by profiles that weight them.
  */
 export function calculateEnhancedCrashRisk(
   economicIndicators: CombinedEconomicIndicators | undefined,
-  marketData: CombinedMarketData | undefined
+  marketData: CombinedMarketData | undefined,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  optionalReadings?: Partial<Record<OptionalCrashRiskComponent, IndicatorReading>>
 ): CrashRiskBreakdown {
+  const { inputs, quality } = readCrashRiskInputs({
+    cape: economicIndicators?.cape,
+    yieldCurve: economicIndicators?.yieldCurve,
+    marginDebt: economicIndicators?.marginDebt,
+    creditSpreads: economicIndicators?.creditSpreads,
+    buffett: economicIndicators?.buffett,
+    vix: marketData?.vix,
+    ...optionalReadings,
+  });
+  return calculateCrashRiskFromInputs(inputs, profile, quality);
+}
+
+/**
+ * An input is missing when it has no numeric value. A zero reading also
+ * counts as missing (APIs return 0 when unavailable), except for the yield
+ * curve spread and the optional components where 0 is a real value.
+ */
+function isMissing(component: CrashRiskComponent, value: number | undefined): boolean {
+  if (value === undefined || value === null || isNaN(value)) return true;
+  return component !== 'yieldCurve' && !isOptionalComponent(component) && value === 0;
+}
+
+/**
+ * Calculate crash risk from raw indicator values
+ * Used for live data and for replaying historical values.
+ *
+ * Missing indicators are excluded and their weight is spread across the
+ * available ones in proportion to the profile weights, so an outage makes the
+ * score less certain (lower confidence) instead of lower.
+ */
+export function calculateCrashRiskFromInputs(
+  inputs: CrashRiskInputs,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  quality: CrashRiskInputQuality = {}
+): CrashRiskBreakdown {
+  const components = getProfileComponents(profile);
+  const dataQuality = {} as CrashRiskComponentRecord<DataQuality>;
+  const scores = {} as CrashRiskComponentRecord<number>;
+  let availableWeight = 0;
+
   // Calculate individual scores
-  const scores = {
-    cape: economicIndicators?.cape?.value 
-      ? calculateCAPEScore(economicIndicators.cape.value)
-      : 0,
-    yieldCurve: economicIndicators?.yieldCurve?.value !== undefined
-      ? calculateYieldCurveScore(economicIndicators.yieldCurve.value)
-      : 0,
-    marginDebt: economicIndicators?.marginDebt?.value
-      ? calculateMarginDebtScore(economicIndicators.marginDebt.value)
-      : 0,
-    creditSpreads: economicIndicators?.creditSpreads?.value
-      ? calculateCreditSpreadsScore(economicIndicators.creditSpreads.value)
-      : 0,
-    buffett: economicIndicators?.buffett?.value
-      ? calculateBuffettScore(economicIndicators.buffett.value)
-      : 0,
-    vix: marketData?.vix?.value
-      ? calculateVIXScore(marketData.vix.value)
-      : 0,
-  };
+  for (const component of components) {
+    const value = inputs[component];
+    if (isMissing(component, value)) {
+      dataQuality[component] = 'missing';
+      scores[component] = 0;
+    } else {
+      dataQuality[component] = quality[component] ?? 'present';
+      scores[component] = scoreFromBreakpoints(value as number, getBreakpoints(profile, component));
+      availableWeight += profile.weights[component] ?? 0;
+    }
+  }
+
+  // Renormalize weights over the available indicators
+  const weights = {} as CrashRiskComponentRecord<number>;
+  for (const component of components) {
+    weights[component] = dataQuality[component] === 'missing' || availableWeight === 0
+      ? 0
+      : (profile.weights[component] ?? 0) / availableWeight;
+  }
 
   // Calculate weighted total score
   const totalScore = Math.min(
     100,
-    scores.cape * WEIGHTS.cape +
-    scores.yieldCurve * WEIGHTS.yieldCurve +
-    scores.marginDebt * WEIGHTS.marginDebt +
-    scores.creditSpreads * WEIGHTS.creditSpreads +
-    scores.buffett * WEIGHTS.buffett +
-    scores.vix * WEIGHTS.vix
+    components.reduce(
+      (total, component) => total + (scores[component] ?? 0) * (weights[component] ?? 0),
+      0
+    )
+  );
+
+  // Confidence: profile weight backed by data, discounted for stale/fallback values
+  const confidence = components.reduce(
+    (total, component) =>
+      total + (profile.weights[component] ?? 0) * QUALITY_CONFIDENCE[dataQuality[component] ?? 'missing'],
+    0
   );
 
   // Determine risk level
   let riskLevel: CrashRiskBreakdown['riskLevel'];
-  if (totalScore < 30) {
+  if (totalScore < RISK_LEVEL_MIN_SCORES.Moderate) {
     riskLevel = 'Low';
-  } else if (totalScore < 50) {
+  } else if (totalScore < RISK_LEVEL_MIN_SCORES.Elevated) {
     riskLevel = 'Moderate';
-  } else if (totalScore < 65) {
+  } else if (totalScore < RISK_LEVEL_MIN_SCORES.High) {
     riskLevel = 'Elevated';
-  } else if (totalScore < 80) {
+  } else if (totalScore < RISK_LEVEL_MIN_SCORES.Critical) {
     riskLevel = 'High';
   } else {
     riskLevel = 'Critical';
@@ -241,9 +471,12 @@ export function calculateEnhancedCrashRisk(
     totalScore: Math.round(totalScore),
     riskLevel,
     components: scores,
-    weights: WEIGHTS,
+    weights,
     activeWarnings,
     criticalWarnings,
+    profile: profile.name,
+    confidence: Math.round(Math.min(1, confidence) * 100),
+    dataQuality,
   };
 }
 